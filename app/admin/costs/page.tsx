@@ -0,0 +1,203 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { getLedgerCalls, getRecentLlmCalls } from '@/lib/admin-queries'
+import { LEDGER_WINDOW_DAYS, formatUsd, summariseLedger, type LedgerBucket } from '@/lib/llm-ledger'
+import { gauge } from '@/lib/design'
+
+// Behind basic auth (proxy.ts). Reads llm_calls with the service role.
+
+export const metadata: Metadata = {
+  title: 'LLM Costs — Admin | GitFind',
+  robots: { index: false, follow: false },
+}
+
+export const dynamic = 'force-dynamic'
+
+const SUBJECT_LABELS: Record<string, string> = {
+  enrichments: 'repo',
+  digests: 'briefing',
+  anomalies: 'anomaly',
+}
+
+function formatTokens(n: number): string {
+  return n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1_000 ? `${(n / 1_000).toFixed(1)}k` : String(n)
+}
+
+function formatTime(iso: string): string {
+  return iso.replace('T', ' ').slice(0, 16)
+}
+
+function SectionHeading({ n, title, fig }: { n: number; title: string; fig: string }) {
+  return (
+    <div className="mt-10 flex flex-col gap-1 font-mono text-[12px] text-[var(--muted)] first:mt-0 sm:flex-row sm:items-baseline sm:justify-between">
+      <p className="font-bold tracking-[0.2em] text-[var(--ink)]">§ {n} — {title}</p>
+      <p>{fig}</p>
+    </div>
+  )
+}
+
+function BucketTable({ buckets, label }: { buckets: LedgerBucket[]; label: string }) {
+  const max = Math.max(...buckets.map((b) => b.cost_usd), 0)
+  return (
+    <div className="mt-4 overflow-x-auto border-2 border-[var(--line)] bg-[var(--paper)]">
+      <table className="w-full font-mono text-[12px]">
+        <thead>
+          <tr className="border-b-2 border-[var(--line)] text-left text-[11px] text-[var(--muted)]">
+            <th className="px-3 py-2 font-normal">{label}</th>
+            <th className="px-3 py-2 text-right font-normal">calls</th>
+            <th className="px-3 py-2 text-right font-normal">cached</th>
+            <th className="px-3 py-2 text-right font-normal">errors</th>
+            <th className="px-3 py-2 text-right font-normal">tokens in / out</th>
+            <th className="px-3 py-2 text-right font-normal">avg latency</th>
+            <th className="px-3 py-2 text-right font-normal">cost</th>
+            <th className="hidden px-3 py-2 font-normal sm:table-cell" />
+          </tr>
+        </thead>
+        <tbody>
+          {buckets.map((b) => (
+            <tr key={b.key} className="border-b border-dashed border-[var(--line-soft)] last:border-0">
+              <td className="px-3 py-1.5 font-bold text-[var(--ink)]">{b.key}</td>
+              <td className="px-3 py-1.5 text-right tabular-nums">{b.calls}</td>
+              <td className="px-3 py-1.5 text-right tabular-nums text-[var(--muted)]">{b.cached}</td>
+              <td className="px-3 py-1.5 text-right tabular-nums">{b.errors > 0 ? b.errors : <span className="text-[var(--muted)]">0</span>}</td>
+              <td className="px-3 py-1.5 text-right tabular-nums text-[var(--muted)]">
+                {formatTokens(b.input_tokens)} / {formatTokens(b.output_tokens)}
+              </td>
+              <td className="px-3 py-1.5 text-right tabular-nums text-[var(--muted)]">{(b.avg_latency_ms / 1000).toFixed(1)}s</td>
+              <td className="px-3 py-1.5 text-right tabular-nums font-bold text-[var(--ink)]">{formatUsd(b.cost_usd)}</td>
+              <td className="hidden px-3 py-1.5 tracking-wider text-[var(--ink)] sm:table-cell">
+                {gauge(max > 0 ? (b.cost_usd / max) * 100 : 0, 12)}
+              </td>
+            </tr>
+          ))}
+          {buckets.length === 0 && (
+            <tr>
+              <td colSpan={8} className="px-3 py-4 text-[var(--muted)]">no calls recorded yet</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default async function AdminCostsPage() {
+  const [calls, recent] = await Promise.all([getLedgerCalls(), getRecentLlmCalls(50)])
+  const summary = summariseLedger(calls)
+  const { total } = summary
+
+  return (
+    <div>
+      <div className="halftone border-b-2 border-[var(--line)]">
+        <div className="mx-auto max-w-6xl px-4 pb-8 pt-8 sm:px-6">
+          <nav className="font-mono text-[11px] text-[var(--muted)]" aria-label="Breadcrumb">
+            <Link href="/" className="invert-hover px-1">index</Link>
+            <span className="mx-1">/</span>
+            <span className="px-1">admin</span>
+            <span className="mx-1">/</span>
+            <span className="text-[var(--ink)]">costs</span>
+            <span className="mx-2">·</span>
+            <Link href="/admin/runs" className="invert-hover px-1">runs</Link>
+          </nav>
+          <h1 className="font-display mt-5 text-2xl font-bold text-[var(--ink)] sm:text-4xl">LLM COSTS</h1>
+          <p className="mt-4 max-w-2xl font-mono text-[14px] leading-[1.8] text-[var(--body)]">
+            Every Claude call from the last {LEDGER_WINDOW_DAYS} days: {total.calls} calls,{' '}
+            {formatTokens(total.input_tokens)} tokens in, {formatTokens(total.output_tokens)} out,{' '}
+            <span className="font-bold text-[var(--ink)]">{formatUsd(total.cost_usd)}</span> at list price.{' '}
+            {total.cached} answered from cache, {total.errors} failed.
+          </p>
+        </div>
+      </div>
+
+      <main className="mx-auto max-w-6xl px-4 py-10 sm:px-6">
+        <SectionHeading n={1} title="by day" fig="fig. 01" />
+        <BucketTable buckets={[...summary.byDay].reverse()} label="day (utc)" />
+
+        <SectionHeading n={2} title="by agent" fig="fig. 02" />
+        <BucketTable buckets={summary.byAgent} label="agent" />
+
+        <SectionHeading n={3} title="by prompt template" fig="fig. 03" />
+        <BucketTable buckets={summary.byTemplate} label="template@version" />
+
+        <SectionHeading n={4} title="runs" fig="fig. 04" />
+        <div className="mt-4 overflow-x-auto border-2 border-[var(--line)] bg-[var(--paper)]">
+          <table className="w-full font-mono text-[12px]">
+            <thead>
+              <tr className="border-b-2 border-[var(--line)] text-left text-[11px] text-[var(--muted)]">
+                <th className="px-3 py-2 font-normal">started</th>
+                <th className="px-3 py-2 font-normal">agent</th>
+                <th className="px-3 py-2 font-normal">run</th>
+                <th className="px-3 py-2 text-right font-normal">calls</th>
+                <th className="px-3 py-2 text-right font-normal">errors</th>
+                <th className="px-3 py-2 text-right font-normal">cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.runs.slice(0, 40).map((r) => (
+                <tr key={r.key} className="border-b border-dashed border-[var(--line-soft)] last:border-0">
+                  <td className="px-3 py-1.5 tabular-nums text-[var(--muted)]">{formatTime(r.started_at)}</td>
+                  <td className="px-3 py-1.5 font-bold text-[var(--ink)]">{r.agent}</td>
+                  <td className="px-3 py-1.5 text-[var(--muted)]">{r.key.slice(0, 8)}</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">{r.calls}</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">{r.errors}</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums font-bold text-[var(--ink)]">{formatUsd(r.cost_usd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <SectionHeading n={5} title="latest calls" fig="fig. 05" />
+        <div className="mt-4 overflow-x-auto border-2 border-[var(--line)] bg-[var(--paper)]">
+          <table className="w-full font-mono text-[12px]">
+            <thead>
+              <tr className="border-b-2 border-[var(--line)] text-left text-[11px] text-[var(--muted)]">
+                <th className="px-3 py-2 font-normal">time</th>
+                <th className="px-3 py-2 font-normal">template</th>
+                <th className="px-3 py-2 font-normal">model</th>
+                <th className="px-3 py-2 text-right font-normal">tokens</th>
+                <th className="px-3 py-2 text-right font-normal">latency</th>
+                <th className="px-3 py-2 text-right font-normal">cost</th>
+                <th className="px-3 py-2 font-normal">produced</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recent.map((c) => (
+                <tr key={c.id} className="border-b border-dashed border-[var(--line-soft)] align-top last:border-0">
+                  <td className="px-3 py-1.5 tabular-nums text-[var(--muted)]">{formatTime(c.created_at)}</td>
+                  <td className="px-3 py-1.5 font-bold text-[var(--ink)]">
+                    {c.template}@{c.template_version}
+                    {c.cached && <span className="ml-1 font-normal text-[var(--muted)]">(cached)</span>}
+                  </td>
+                  <td className="px-3 py-1.5 text-[var(--muted)]">{c.model}</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums text-[var(--muted)]">
+                    {formatTokens(c.input_tokens)} / {formatTokens(c.output_tokens)}
+                  </td>
+                  <td className="px-3 py-1.5 text-right tabular-nums text-[var(--muted)]">{(c.latency_ms / 1000).toFixed(1)}s</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">{formatUsd(Number(c.cost_usd))}</td>
+                  <td className="px-3 py-1.5">
+                    {c.error ? (
+                      <span className="text-[var(--ink)]">error: {c.error.slice(0, 80)}</span>
+                    ) : c.repos.length > 0 ? (
+                      c.repos.map((full) => (
+                        <Link key={full} href={`/project/${full}`} className="invert-hover mr-2 px-0.5 underline">
+                          {full}
+                        </Link>
+                      ))
+                    ) : c.subject_table ? (
+                      <span className="text-[var(--muted)]">
+                        {SUBJECT_LABELS[c.subject_table] ?? c.subject_table} {c.subject_ids.join(', ').slice(0, 60)}
+                      </span>
+                    ) : (
+                      <span className="text-[var(--muted)]">—</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  )
+}
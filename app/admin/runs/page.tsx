@@ -0,0 +1,180 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { getPipelineRuns } from '@/lib/admin-queries'
+import { effectiveStatus, formatDuration, summariseRuns } from '@/lib/pipeline-runs'
+import { sparkline } from '@/lib/design'
+
+// Behind basic auth (proxy.ts). Reads pipeline_runs with the service role.
+
+export const metadata: Metadata = {
+  title: 'Pipeline Runs — Admin | GitFind',
+  robots: { index: false, follow: false },
+}
+
+export const dynamic = 'force-dynamic'
+
+const WINDOW_DAYS = 30
+const ACTIONS_RUN_URL = 'https://github.com/nicholaskayu/gitfind-v2/actions/runs/'
+
+const STATUS_CHIP: Record<string, string> = {
+  succeeded: 'border border-[var(--line)] text-[var(--ink)]',
+  running: 'border border-dashed border-[var(--line)] text-[var(--muted)]',
+  failed: 'bg-[var(--ink)] text-[var(--paper)]',
+  abandoned: 'bg-[var(--ink)] text-[var(--paper)]',
+}
+
+function StatusChip({ status }: { status: string }) {
+  return (
+    <span className={`inline-block px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wider ${STATUS_CHIP[status] ?? ''}`}>
+      {status}
+    </span>
+  )
+}
+
+function formatTime(iso: string | null): string {
+  return iso ? iso.replace('T', ' ').slice(0, 16) : '—'
+}
+
+function formatCounts(counts: unknown): string {
+  if (!counts || typeof counts !== 'object') return ''
+  return Object.entries(counts as Record<string, number>)
+    .map(([k, v]) => `${k.replace(/_/g, ' ')} ${v.toLocaleString()}`)
+    .join(' · ')
+}
+
+export default async function AdminRunsPage() {
+  const runs = await getPipelineRuns(WINDOW_DAYS)
+  const now = new Date()
+  const health = summariseRuns(runs, now)
+  const failing = health.filter((h) => h.failureStreak > 0)
+
+  return (
+    <div>
+      <div className="halftone border-b-2 border-[var(--line)]">
+        <div className="mx-auto max-w-6xl px-4 pb-8 pt-8 sm:px-6">
+          <nav className="font-mono text-[11px] text-[var(--muted)]" aria-label="Breadcrumb">
+            <Link href="/" className="invert-hover px-1">index</Link>
+            <span className="mx-1">/</span>
+            <span className="px-1">admin</span>
+            <span className="mx-1">/</span>
+            <span className="text-[var(--ink)]">runs</span>
+            <span className="mx-2">·</span>
+            <Link href="/admin/costs" className="invert-hover px-1">costs</Link>
+          </nav>
+          <h1 className="font-display mt-5 text-2xl font-bold text-[var(--ink)] sm:text-4xl">PIPELINE RUNS</h1>
+          <p className="mt-4 max-w-2xl font-mono text-[14px] leading-[1.8] text-[var(--body)]">
+            {runs.length} runs of {health.length} scripts in the last {WINDOW_DAYS} days.{' '}
+            {failing.length === 0 ? (
+              'Every script’s latest run succeeded.'
+            ) : (
+              <span className="font-bold text-[var(--ink)]">
+                Failing: {failing.map((h) => `${h.script} (×${h.failureStreak})`).join(', ')}.
+              </span>
+            )}
+          </p>
+        </div>
+      </div>
+
+      <main className="mx-auto max-w-6xl px-4 py-10 sm:px-6">
+        {/* § 1 — per-script health */}
+        <div className="flex flex-col gap-1 font-mono text-[12px] text-[var(--muted)] sm:flex-row sm:items-baseline sm:justify-between">
+          <p className="font-bold tracking-[0.2em] text-[var(--ink)]">§ 1 — scripts</p>
+          <p>fig. 01</p>
+        </div>
+        <div className="mt-4 overflow-x-auto border-2 border-[var(--line)] bg-[var(--paper)]">
+          <table className="w-full font-mono text-[12px]">
+            <thead>
+              <tr className="border-b-2 border-[var(--line)] text-left text-[11px] text-[var(--muted)]">
+                <th className="px-3 py-2 font-normal">script</th>
+                <th className="px-3 py-2 font-normal">last run</th>
+                <th className="px-3 py-2 font-normal">status</th>
+                <th className="px-3 py-2 text-right font-normal">fail streak</th>
+                <th className="px-3 py-2 text-right font-normal">success</th>
+                <th className="px-3 py-2 text-right font-normal">median</th>
+                <th className="px-3 py-2 font-normal">duration trend</th>
+                <th className="px-3 py-2 font-normal">github quota</th>
+              </tr>
+            </thead>
+            <tbody>
+              {health.map((h) => (
+                <tr key={h.script} className="border-b border-dashed border-[var(--line-soft)] last:border-0">
+                  <td className="px-3 py-1.5 font-bold text-[var(--ink)]">{h.script}</td>
+                  <td className="px-3 py-1.5 tabular-nums text-[var(--muted)]">{formatTime(h.last.started_at)}</td>
+                  <td className="px-3 py-1.5"><StatusChip status={h.lastStatus} /></td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">
+                    {h.failureStreak > 0 ? <span className="font-bold text-[var(--ink)]">{h.failureStreak}</span> : <span className="text-[var(--muted)]">0</span>}
+                  </td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">{Math.round(h.successRate * 100)}%</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums text-[var(--muted)]">{formatDuration(h.medianDurationMs)}</td>
+                  <td className="px-3 py-1.5 tracking-tight text-[var(--ink)]" title="successful runs, oldest → newest">
+                    {sparkline(h.durationsMs.slice(-30))}
+                  </td>
+                  <td className="px-3 py-1.5 text-[var(--muted)]">{formatCounts(h.quota) || '—'}</td>
+                </tr>
+              ))}
+              {health.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-3 py-4 text-[var(--muted)]">no runs recorded yet</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* § 2 — run history */}
+        <div className="mt-10 flex flex-col gap-1 font-mono text-[12px] text-[var(--muted)] sm:flex-row sm:items-baseline sm:justify-between">
+          <p className="font-bold tracking-[0.2em] text-[var(--ink)]">§ 2 — run history</p>
+          <p>fig. 02</p>
+        </div>
+        <div className="mt-4 overflow-x-auto border-2 border-[var(--line)] bg-[var(--paper)]">
+          <table className="w-full font-mono text-[12px]">
+            <thead>
+              <tr className="border-b-2 border-[var(--line)] text-left text-[11px] text-[var(--muted)]">
+                <th className="px-3 py-2 font-normal">started</th>
+                <th className="px-3 py-2 font-normal">script</th>
+                <th className="px-3 py-2 font-normal">status</th>
+                <th className="px-3 py-2 text-right font-normal">duration</th>
+                <th className="px-3 py-2 font-normal">counts</th>
+                <th className="px-3 py-2 font-normal">errors</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.slice(0, 150).map((r) => (
+                <tr key={r.id} className="border-b border-dashed border-[var(--line-soft)] align-top last:border-0">
+                  <td className="px-3 py-1.5 tabular-nums text-[var(--muted)]">
+                    {r.github_run_id ? (
+                      <a href={`${ACTIONS_RUN_URL}${r.github_run_id}`} className="invert-hover underline" target="_blank" rel="noreferrer">
+                        {formatTime(r.started_at)}
+                      </a>
+                    ) : (
+                      formatTime(r.started_at)
+                    )}
+                  </td>
+                  <td className="px-3 py-1.5 font-bold text-[var(--ink)]">{r.script}</td>
+                  <td className="px-3 py-1.5"><StatusChip status={effectiveStatus(r, now)} /></td>
+                  <td className="px-3 py-1.5 text-right tabular-nums text-[var(--muted)]">{formatDuration(r.duration_ms)}</td>
+                  <td className="px-3 py-1.5 text-[var(--body)]">{formatCounts(r.counts)}</td>
+                  <td className="px-3 py-1.5">
+                    {r.error_count > 0 ? (
+                      <details>
+                        <summary className="cursor-pointer text-[var(--ink)]">{r.error_count} error{r.error_count === 1 ? '' : 's'}</summary>
+                        <ul className="mt-1 space-y-0.5 text-[11px] text-[var(--muted)]">
+                          {r.errors.map((e, i) => (
+                            <li key={i}>{e}</li>
+                          ))}
+                          {r.error_count > r.errors.length && <li>… {r.error_count - r.errors.length} more</li>}
+                        </ul>
+                      </details>
+                    ) : (
+                      <span className="text-[var(--muted)]">—</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  )
+}
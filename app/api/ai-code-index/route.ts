@@ -1,5 +1,6 @@
-import { type NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { getAICodeIndexData, type AICodeIndexRow } from '@/lib/queries'
+import { withApiGuard } from '@/lib/api-guard'
 
 const TOOL_SLUG_MAP: Record<string, string> = {
   'claude-code': 'Claude Code',
@@ -32,7 +33,7 @@ function filterByTool(rows: AICodeIndexRow[], toolDisplayName: string): AICodeIn
   }))
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withApiGuard({ endpoint: 'ai-code-index', anonymousPerMinute: 60 }, async (request) => {
   try {
     const { searchParams } = new URL(request.url)
 
@@ -111,4 +112,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
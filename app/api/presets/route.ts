@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { withApiGuard } from '@/lib/api-guard'
+import { createServiceClient } from '@/lib/supabase'
+import { PresetError, parsePresetName, parseWeights, savePreset } from '@/lib/presets'
+
+// Save button on /rank: stores the weights under a short slug so the ranking
+// can be shared as /rank?preset=<slug>. No owner — site presets are anonymous.
+export const POST = withApiGuard({ endpoint: 'presets', anonymousPerMinute: 5 }, async (request) => {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+  const { name, weights } = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>
+
+  try {
+    const preset = await savePreset(createServiceClient(), parsePresetName(name), parseWeights(weights))
+    return NextResponse.json({ slug: preset.slug, path: `/rank?preset=${preset.slug}` }, { status: 201 })
+  } catch (err) {
+    if (err instanceof PresetError) return NextResponse.json({ error: err.message }, { status: 400 })
+    console.error('Preset save error:', err)
+    return NextResponse.json({ error: 'Could not save the preset' }, { status: 500 })
+  }
+})
@@ -1,14 +1,17 @@
-import { type NextRequest, NextResponse } from 'next/server'
-import { searchRepos } from '@/lib/queries'
+import { NextResponse } from 'next/server'
+import { searchCatalog } from '@/lib/queries'
+import { parseSearchParams } from '@/lib/search'
+import { withApiGuard } from '@/lib/api-guard'
+import { apiError } from '@/lib/api-response'
 
-export async function GET(request: NextRequest) {
-  const { searchParams } = new URL(request.url)
-  const q = searchParams.get('q')?.trim()
-
-  if (!q || q.length < 2) {
-    return NextResponse.json([], { status: 200 })
+// Keyless for the site's own SearchBar (debounced, so 60/min per IP is generous)
+// GET /api/search?q=&category=&language=&registry=&tier=&min_stars=&max_stars=
+//   &min_score=&max_score=&added_days=&sort=relevance|score|stars_7d|newest&page=&limit=
+export const GET = withApiGuard({ endpoint: 'search', anonymousPerMinute: 60 }, async (request) => {
+  try {
+    const params = parseSearchParams(new URL(request.url).searchParams)
+    return NextResponse.json(await searchCatalog(params))
+  } catch (error) {
+    return apiError(error, 'Search')
   }
-
-  const results = await searchRepos(q, 10)
-  return NextResponse.json(results)
-}
+})
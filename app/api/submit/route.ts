@@ -1,4 +1,5 @@
-import { type NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
+import { withApiGuard } from '@/lib/api-guard'
 import { createServiceClient } from '@/lib/supabase'
 import { getContributorCount, getCommitFrequency, getStarVelocity } from '@/lib/github'
 import { getHNMentions } from '@/lib/hn'
@@ -34,7 +35,8 @@ interface GitHubRepoResponse {
   created_at: string
 }
 
-export async function POST(request: NextRequest) {
+// Every POST costs GitHub + HN lookups and possibly a Claude call — keep anonymous callers slow
+export const POST = withApiGuard({ endpoint: 'submit', anonymousPerMinute: 3 }, async (request) => {
   let body: unknown
   try {
     body = await request.json()
@@ -187,4 +189,4 @@ export async function POST(request: NextRequest) {
       ? `Great news — ${owner}/${repo} scored ${score}/100 and has been automatically added to the directory.`
       : `Thanks for submitting ${owner}/${repo}. We'll review it and be in touch at ${emailStr} about listing options.`,
   }, { status: 201 })
-}
+})
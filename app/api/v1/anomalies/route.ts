@@ -0,0 +1,25 @@
+import { getApiAnomaliesPage, getRepo } from '@/lib/queries'
+import { buildPage, parseAnomalyListParams, toApiAnomaly } from '@/lib/api'
+import { withApiGuard } from '@/lib/api-guard'
+import { apiError, apiJson, apiNotFound } from '@/lib/api-response'
+
+// GET /api/v1/anomalies?repo=owner/name&type=&since=&limit=&cursor= — newest first
+export const GET = withApiGuard({ endpoint: 'v1/anomalies', requireKey: true }, async (request) => {
+  try {
+    const params = parseAnomalyListParams(new URL(request.url).searchParams)
+
+    let repoId: string | null = null
+    if (params.repo) {
+      const project = await getRepo(params.repo.owner, params.repo.name)
+      if (!project) return apiNotFound(`Repo ${params.repo.owner}/${params.repo.name}`)
+      repoId = project.id
+    }
+
+    const rows = await getApiAnomaliesPage({ ...params, repoId })
+    return apiJson(
+      buildPage(rows, params.limit, toApiAnomaly, (r) => ({ detected_at: r.detected_at, id: r.id }))
+    )
+  } catch (error) {
+    return apiError(error, 'API v1 anomalies')
+  }
+})
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { withApiGuard, type ApiCaller } from '@/lib/api-guard'
+import { createServiceClient } from '@/lib/supabase'
+import { getOwnedWeightPresets } from '@/lib/queries'
+import { API_VERSION, ApiParamError, parsePresetBody, toApiPreset } from '@/lib/api'
+import { BUILTIN_PRESETS, savePreset } from '@/lib/presets'
+import { apiError } from '@/lib/api-response'
+
+// Weight presets (lib/presets.ts). Saved presets belong to the email the API
+// key was issued to, but anyone with the slug can rank by one — that's how
+// they're shared. Use one with GET /api/v1/repos?preset=<slug>.
+
+function ownerEmail(caller: ApiCaller): string {
+  // requireKey guarantees a keyed caller
+  return caller.kind === 'key' ? caller.key.owner_email.toLowerCase() : ''
+}
+
+// GET /api/v1/presets — the built-in presets, then the caller's saved ones
+export const GET = withApiGuard({ endpoint: 'v1/presets', requireKey: true }, async (_request, _ctx, caller) => {
+  try {
+    const presets = [...BUILTIN_PRESETS, ...(await getOwnedWeightPresets(ownerEmail(caller)))].map(toApiPreset)
+    return NextResponse.json({ data: presets, meta: { version: API_VERSION, count: presets.length, next_cursor: null } })
+  } catch (error) {
+    return apiError(error, 'API v1 presets')
+  }
+})
+
+// POST /api/v1/presets { name, weights: "stars:30,commits:20" | { stars: 30, … } } — save a preset
+export const POST = withApiGuard({ endpoint: 'v1/presets', requireKey: true }, async (request, _ctx, caller) => {
+  try {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      throw new ApiParamError('Body must be valid JSON')
+    }
+    const { name, weights } = parsePresetBody(body)
+    const preset = await savePreset(createServiceClient(), name, weights, ownerEmail(caller))
+    return NextResponse.json({ data: toApiPreset(preset) }, { status: 201 })
+  } catch (error) {
+    return apiError(error, 'API v1 presets')
+  }
+})
@@ -0,0 +1,24 @@
+import { getRepo, getApiDownloadsPage } from '@/lib/queries'
+import { buildPage, parseSeriesParams, toApiDownload } from '@/lib/api'
+import { withApiGuard } from '@/lib/api-guard'
+import { apiError, apiJson, apiNotFound } from '@/lib/api-response'
+
+interface Context {
+  params: Promise<{ owner: string; repo: string }>
+}
+
+// GET /api/v1/repos/:owner/:repo/downloads?from=&to=&limit=&cursor= — daily package download snapshots, oldest first
+export const GET = withApiGuard<Context>({ endpoint: 'v1/downloads', requireKey: true }, async (request, { params }) => {
+  try {
+    const { owner, repo } = await params
+    const series = parseSeriesParams(new URL(request.url).searchParams)
+
+    const project = await getRepo(owner, repo)
+    if (!project) return apiNotFound(`Repo ${owner}/${repo}`)
+
+    const rows = await getApiDownloadsPage(project.id, series)
+    return apiJson(buildPage(rows, series.limit, toApiDownload, (r) => ({ date: r.snapshot_date, registry: r.registry })))
+  } catch (error) {
+    return apiError(error, 'API v1 downloads')
+  }
+})
@@ -0,0 +1,21 @@
+import { getRepo } from '@/lib/queries'
+import { API_VERSION, toApiRepo } from '@/lib/api'
+import { withApiGuard } from '@/lib/api-guard'
+import { apiError, apiJson, apiNotFound } from '@/lib/api-response'
+
+interface Context {
+  params: Promise<{ owner: string; repo: string }>
+}
+
+// GET /api/v1/repos/:owner/:repo — repo metadata + enrichment + score breakdown
+export const GET = withApiGuard<Context>({ endpoint: 'v1/repo', requireKey: true }, async (_request, { params }) => {
+  try {
+    const { owner, repo } = await params
+    const project = await getRepo(owner, repo)
+    if (!project) return apiNotFound(`Repo ${owner}/${repo}`)
+
+    return apiJson({ data: toApiRepo(project), meta: { version: API_VERSION } })
+  } catch (error) {
+    return apiError(error, 'API v1 repo')
+  }
+})
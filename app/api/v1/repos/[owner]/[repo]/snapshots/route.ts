@@ -0,0 +1,24 @@
+import { getRepo, getApiSnapshotsPage } from '@/lib/queries'
+import { buildPage, parseSeriesParams, toApiSnapshot } from '@/lib/api'
+import { withApiGuard } from '@/lib/api-guard'
+import { apiError, apiJson, apiNotFound } from '@/lib/api-response'
+
+interface Context {
+  params: Promise<{ owner: string; repo: string }>
+}
+
+// GET /api/v1/repos/:owner/:repo/snapshots?from=&to=&limit=&cursor= — daily star/fork/issue snapshots, oldest first
+export const GET = withApiGuard<Context>({ endpoint: 'v1/snapshots', requireKey: true }, async (request, { params }) => {
+  try {
+    const { owner, repo } = await params
+    const series = parseSeriesParams(new URL(request.url).searchParams)
+
+    const project = await getRepo(owner, repo)
+    if (!project) return apiNotFound(`Repo ${owner}/${repo}`)
+
+    const rows = await getApiSnapshotsPage(project.id, series)
+    return apiJson(buildPage(rows, series.limit, toApiSnapshot, (r) => ({ date: r.snapshot_date })))
+  } catch (error) {
+    return apiError(error, 'API v1 snapshots')
+  }
+})
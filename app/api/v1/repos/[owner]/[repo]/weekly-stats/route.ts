@@ -0,0 +1,24 @@
+import { getRepo, getApiWeeklyStatsPage } from '@/lib/queries'
+import { buildPage, parseSeriesParams, toApiWeeklyStat } from '@/lib/api'
+import { withApiGuard } from '@/lib/api-guard'
+import { apiError, apiJson, apiNotFound } from '@/lib/api-response'
+
+interface Context {
+  params: Promise<{ owner: string; repo: string }>
+}
+
+// GET /api/v1/repos/:owner/:repo/weekly-stats?from=&to=&limit=&cursor= — weekly contributor/commit/release stats, oldest first
+export const GET = withApiGuard<Context>({ endpoint: 'v1/weekly-stats', requireKey: true }, async (request, { params }) => {
+  try {
+    const { owner, repo } = await params
+    const series = parseSeriesParams(new URL(request.url).searchParams)
+
+    const project = await getRepo(owner, repo)
+    if (!project) return apiNotFound(`Repo ${owner}/${repo}`)
+
+    const rows = await getApiWeeklyStatsPage(project.id, series)
+    return apiJson(buildPage(rows, series.limit, toApiWeeklyStat, (r) => ({ date: r.snapshot_date })))
+  } catch (error) {
+    return apiError(error, 'API v1 weekly-stats')
+  }
+})
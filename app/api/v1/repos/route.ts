@@ -0,0 +1,33 @@
+import { getApiReposPage, getWeightPreset } from '@/lib/queries'
+import { buildPage, parseRepoListParams, toApiRepo } from '@/lib/api'
+import { withApiGuard } from '@/lib/api-guard'
+import { apiError, apiJson, apiNotFound } from '@/lib/api-response'
+
+// GET /api/v1/repos?category=&language=&min_score=&max_score=&min_confidence=&limit=&cursor=
+// Re-ranked by a weight preset: &preset=<slug> or &weights=stars:30,commits:20 (no cursor)
+export const GET = withApiGuard({ endpoint: 'v1/repos', requireKey: true }, async (request) => {
+  try {
+    const params = parseRepoListParams(new URL(request.url).searchParams)
+    let weights = params.weights
+    if (!weights && params.preset) {
+      const preset = await getWeightPreset(params.preset)
+      if (!preset) return apiNotFound(`Preset ${params.preset}`)
+      weights = preset.weights
+    }
+    const rows = await getApiReposPage({ ...params, weights })
+
+    return apiJson(
+      buildPage(
+        rows,
+        params.limit,
+        (r) => (r.preset_score != null ? { ...toApiRepo(r), preset_score: r.preset_score } : toApiRepo(r)),
+        (r) => ({
+          score: r.enrichment?.early_signal_score ?? 0,
+          repo_id: r.id,
+        })
+      )
+    )
+  } catch (error) {
+    return apiError(error, 'API v1 repos')
+  }
+})
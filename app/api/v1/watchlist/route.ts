@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server'
+import { withApiGuard, type ApiCaller } from '@/lib/api-guard'
+import { createServiceClient } from '@/lib/supabase'
+import { API_VERSION, ApiParamError, parseFullName } from '@/lib/api'
+import { describeRule, diffRules, parseAlertRule, parseWatchlistPut } from '@/lib/alerts'
+import { apiError, apiNotFound } from '@/lib/api-response'
+import type { Json } from '@/lib/database.types'
+
+// The watchlist belongs to the email the API key was issued to. Responses are
+// never cached — a PUT must show up on the next GET.
+
+function ownerEmail(caller: ApiCaller): string {
+  // requireKey guarantees a keyed caller
+  return caller.kind === 'key' ? caller.key.owner_email.toLowerCase() : ''
+}
+
+async function findRepoId(db: ReturnType<typeof createServiceClient>, owner: string, name: string) {
+  const { data } = await db.from('repos').select('id').eq('owner', owner).eq('name', name).maybeSingle()
+  return data ? (data as unknown as { id: string }).id : null
+}
+
+// GET /api/v1/watchlist — every watched repo with its rules
+export const GET = withApiGuard({ endpoint: 'v1/watchlist', requireKey: true }, async (_request, _ctx, caller) => {
+  try {
+    const db = createServiceClient()
+    const { data, error } = await db
+      .from('watchlist_items')
+      .select('id, created_at, repos!inner(owner, name), watch_rules(id, rule, last_fired_at)')
+      .eq('email', ownerEmail(caller))
+      .order('created_at', { ascending: true })
+    if (error) throw new Error(error.message)
+
+    const items = (data ?? []) as unknown as Array<{
+      id: string
+      created_at: string
+      repos: { owner: string; name: string }
+      watch_rules: Array<{ id: string; rule: Json; last_fired_at: string | null }>
+    }>
+    const body = items.map((item) => ({
+      repo: `${item.repos.owner}/${item.repos.name}`,
+      created_at: item.created_at,
+      rules: item.watch_rules.flatMap((r) => {
+        const rule = parseAlertRule(r.rule)
+        return rule ? [{ id: r.id, ...rule, description: describeRule(rule), last_fired_at: r.last_fired_at }] : []
+      }),
+    }))
+    return NextResponse.json({ data: body, meta: { version: API_VERSION, count: body.length, next_cursor: null } })
+  } catch (error) {
+    return apiError(error, 'API v1 watchlist')
+  }
+})
+
+// PUT /api/v1/watchlist { repo: "owner/name", rules: [...] } — watch a repo and set its rules
+export const PUT = withApiGuard({ endpoint: 'v1/watchlist', requireKey: true }, async (request, _ctx, caller) => {
+  try {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      throw new ApiParamError('Body must be valid JSON')
+    }
+    const { repo, rules } = parseWatchlistPut(body)
+
+    const db = createServiceClient()
+    const repoId = await findRepoId(db, repo.owner, repo.name)
+    if (!repoId) return apiNotFound(`Repo ${repo.owner}/${repo.name}`)
+
+    const { data: item, error: itemErr } = await db
+      .from('watchlist_items')
+      .upsert({ email: ownerEmail(caller), repo_id: repoId }, { onConflict: 'email,repo_id' })
+      .select('id')
+      .single()
+    if (itemErr || !item) throw new Error(itemErr?.message ?? 'watchlist upsert returned no row')
+    const itemId = (item as unknown as { id: string }).id
+
+    // Write only the difference, so unchanged rules keep their baselines and
+    // cooldowns. Additions go in before removals: a failure part-way leaves
+    // extra rules, never a repo with none.
+    const { data: stored, error: rulesErr } = await db.from('watch_rules').select('id, rule').eq('item_id', itemId)
+    if (rulesErr) throw new Error(rulesErr.message)
+    const { remove, add } = diffRules((stored ?? []) as unknown as Array<{ id: string; rule: Json }>, rules)
+    if (add.length > 0) {
+      const { error: insErr } = await db
+        .from('watch_rules')
+        .insert(add.map((rule) => ({ item_id: itemId, rule: rule as unknown as Json })))
+      if (insErr) throw new Error(insErr.message)
+    }
+    if (remove.length > 0) {
+      const { error: delErr } = await db.from('watch_rules').delete().in('id', remove)
+      if (delErr) throw new Error(delErr.message)
+    }
+
+    return NextResponse.json({
+      data: {
+        repo: `${repo.owner}/${repo.name}`,
+        rules: rules.map((rule) => ({ ...rule, description: describeRule(rule) })),
+      },
+    })
+  } catch (error) {
+    return apiError(error, 'API v1 watchlist')
+  }
+})
+
+// DELETE /api/v1/watchlist?repo=owner/name — stop watching (rules and queued alerts cascade)
+export const DELETE = withApiGuard({ endpoint: 'v1/watchlist', requireKey: true }, async (request, _ctx, caller) => {
+  try {
+    const raw = new URL(request.url).searchParams.get('repo')
+    if (!raw) throw new ApiParamError('repo must be in owner/name form')
+    const repo = parseFullName(raw)
+
+    const db = createServiceClient()
+    const repoId = await findRepoId(db, repo.owner, repo.name)
+    if (!repoId) return apiNotFound(`Repo ${repo.owner}/${repo.name}`)
+
+    const { data, error } = await db
+      .from('watchlist_items')
+      .delete()
+      .eq('email', ownerEmail(caller))
+      .eq('repo_id', repoId)
+      .select('id')
+    if (error) throw new Error(error.message)
+    if (!data || data.length === 0) return apiNotFound(`Watch on ${repo.owner}/${repo.name}`)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return apiError(error, 'API v1 watchlist')
+  }
+})
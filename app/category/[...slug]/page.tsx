@@ -0,0 +1,256 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import { getReposInCategories, getTaxonomy, getTaxonomyCounts, resolveWeightPreset } from '@/lib/queries'
+import { PresetError, type WeightPreset } from '@/lib/presets'
+import {
+  MAX_INTERSECTIONS,
+  ancestorSlugs,
+  categoryHref,
+  isWithin,
+  parseIntersections,
+  resolveCategoryPath,
+  rootSlug,
+  type TaxonomyNode,
+} from '@/lib/taxonomy'
+import RepoCard from '@/components/RepoCard'
+import NewsletterSignup from '@/components/NewsletterSignup'
+import Reveal from '@/components/Reveal'
+
+export const revalidate = 3600
+
+const MAX_COMBINE_SUGGESTIONS = 12
+
+interface Props {
+  params: Promise<{ slug: string[] }>
+  searchParams: Promise<{ with?: string | string[]; preset?: string | string[]; weights?: string | string[] }>
+}
+
+function firstParam(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value
+}
+
+function ChipLink({ href, label, count }: { href: string; label: string; count?: number }) {
+  return (
+    <Link
+      href={href}
+      className="invert-hover border-2 border-[var(--line)] bg-[var(--paper)] px-3 py-1.5 font-mono text-[11.5px] text-[var(--body)]"
+    >
+      {label}
+      {count != null ? <span className="ml-2 text-[var(--muted)]">{count}</span> : null}
+    </Link>
+  )
+}
+
+export async function generateMetadata({ params, searchParams }: Props): Promise<Metadata> {
+  const [{ slug }, { with: withRaw, preset: presetRaw, weights: weightsRaw }] = await Promise.all([params, searchParams])
+  const taxonomy = await getTaxonomy()
+  const category = resolveCategoryPath(slug, taxonomy)
+  if (!category) return {}
+
+  const url = `https://gitfind.ai/category/${category.slug}`
+  const year = new Date().getFullYear()
+
+  return {
+    title: `Top Rising ${category.name} Projects on GitHub (${year})`,
+    description: `Discover the fastest-growing ${category.name} open source projects on GitHub, ranked and explained in plain English. ${category.description ?? ''}`.trim(),
+    alternates: { canonical: url },
+    // Intersections and preset rankings are navigation, not landing pages
+    robots: firstParam(withRaw) || firstParam(presetRaw) || firstParam(weightsRaw) ? { index: false, follow: true } : undefined,
+    openGraph: {
+      title: `Top Rising ${category.name} Projects on GitHub — GitFind`,
+      description: `Find the next big ${category.name} project before it goes mainstream. Ranked and explained in plain English.`,
+      url,
+    },
+  }
+}
+
+export default async function CategoryPage({ params, searchParams }: Props) {
+  const [{ slug }, { with: withRaw, preset: presetRaw, weights: weightsRaw }] = await Promise.all([params, searchParams])
+  const taxonomy = await getTaxonomy()
+  const category = resolveCategoryPath(slug, taxonomy)
+
+  if (!category) {
+    notFound()
+  }
+
+  const bySlug = new Map(taxonomy.map((n) => [n.slug, n]))
+  const intersections = parseIntersections(firstParam(withRaw), category.slug, taxonomy)
+  const selected = [category.slug, ...intersections]
+  // ?preset= / ?weights= re-rank the catalog by a weight preset (lib/presets.ts); a bad one falls back to the score
+  let preset: WeightPreset | null = null
+  try {
+    preset = await resolveWeightPreset({ preset: firstParam(presetRaw), weights: firstParam(weightsRaw) })
+  } catch (err) {
+    if (!(err instanceof PresetError)) throw err
+  }
+  const [{ projects, total }, counts] = await Promise.all([
+    getReposInCategories(selected, 50, preset?.weights ?? null),
+    getTaxonomyCounts(),
+  ])
+
+  const children = taxonomy.filter((n) => n.parent_slug === category.slug)
+  const roots = taxonomy.filter((n) => n.parent_slug == null && n.slug !== rootSlug(category.slug))
+  // Subcategories elsewhere in the tree to intersect with, busiest first
+  const combine: TaxonomyNode[] =
+    intersections.length < MAX_INTERSECTIONS
+      ? taxonomy
+          .filter((n) => n.parent_slug != null && !selected.some((s) => isWithin(n.slug, s) || isWithin(s, n.slug)))
+          .filter((n) => (counts[n.slug] ?? 0) > 0)
+          .sort((a, b) => (counts[b.slug] ?? 0) - (counts[a.slug] ?? 0))
+          .slice(0, MAX_COMBINE_SUGGESTIONS)
+      : []
+  const title = [category, ...intersections.map((s) => bySlug.get(s)!)].map((n) => n.name).join(' ∩ ')
+
+  return (
+    <div>
+      {/* Spec header */}
+      <section className="halftone border-b-2 border-[var(--line)]">
+        <div className="mx-auto max-w-5xl px-4 pb-10 pt-10 sm:px-6 sm:pb-12 sm:pt-12">
+          <nav className="font-mono text-[11px] text-[var(--muted)]" aria-label="Breadcrumb">
+            <Link href="/" className="invert-hover px-1">index</Link>
+            {ancestorSlugs(category.slug).map((s) => {
+              const node = bySlug.get(s)
+              if (!node) return null
+              return (
+                <span key={s}>
+                  <span className="mx-1">/</span>
+                  {s === category.slug ? (
+                    <span className="text-[var(--ink)]">{node.name.toLowerCase()}</span>
+                  ) : (
+                    <Link href={categoryHref([s])} className="invert-hover px-1">{node.name.toLowerCase()}</Link>
+                  )}
+                </span>
+              )
+            })}
+          </nav>
+
+          <h1 className="font-display mt-5 text-2xl font-bold text-[var(--ink)] sm:text-4xl">
+            {title.toUpperCase()}
+          </h1>
+          {category.description ? (
+            <p className="mt-4 max-w-2xl font-mono text-[14px] leading-[1.8] text-[var(--body)]">
+              {category.description}
+            </p>
+          ) : null}
+
+          <div className="mt-5 flex flex-wrap items-center gap-3 font-mono text-[11.5px]">
+            <span className="border-2 border-[var(--line)] bg-[var(--paper)] px-2 py-0.5 text-[var(--body)]">
+              {total} {total === 1 ? 'entry' : 'entries'}
+            </span>
+            {preset ? (
+              <Link
+                href={categoryHref(selected)}
+                className="invert-hover border-2 border-[var(--line)] bg-[var(--paper)] px-2 py-0.5 text-[var(--body)]"
+                aria-label="Rank by early signal score"
+              >
+                ranked by {preset.name.toLowerCase()} ×
+              </Link>
+            ) : (
+              <span className="border-2 border-[var(--line)] bg-[var(--paper)] px-2 py-0.5 text-[var(--body)]">
+                ranked by early signal score
+              </span>
+            )}
+            <Link href="/rank" className="invert-hover px-1 text-[var(--muted)]">
+              rank your way →
+            </Link>
+            {intersections.map((s) => (
+              <Link
+                key={s}
+                href={categoryHref(selected.filter((x) => x !== s))}
+                className="invert-hover border-2 border-[var(--line)] bg-[var(--paper)] px-2 py-0.5 text-[var(--body)]"
+                aria-label={`Remove ${bySlug.get(s)?.name ?? s}`}
+              >
+                ∩ {bySlug.get(s)?.name.toLowerCase() ?? s} ×
+              </Link>
+            ))}
+          </div>
+        </div>
+      </section>
+
+      {/* Catalog grid */}
+      <section className="mx-auto max-w-5xl px-4 py-10 sm:px-6 sm:py-12">
+        <p className="font-mono text-[12px] font-bold tracking-[0.2em] text-[var(--ink)]">
+          § 1 — catalog entries
+        </p>
+        {projects.length > 0 ? (
+          <Reveal className="mt-5">
+            <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3">
+              {projects.map((project, i) => (
+                <RepoCard key={project.id} project={project} index={i} digest presetScore={project.preset_score} />
+              ))}
+            </div>
+          </Reveal>
+        ) : (
+          <div className="mt-5 border-2 border-dashed border-[var(--line-soft)] py-16 text-center">
+            <p className="font-mono text-sm text-[var(--muted)]">
+              no {title.toLowerCase()} projects yet.
+            </p>
+            <p className="mt-2 font-mono text-xs text-[var(--muted)]">
+              the pipeline runs nightly and will populate this category automatically.
+            </p>
+          </div>
+        )}
+      </section>
+
+      {/* Subcategories */}
+      {children.length > 0 && (
+        <section className="mx-auto max-w-5xl px-4 pb-12 sm:px-6">
+          <p className="font-mono text-[12px] font-bold tracking-[0.2em] text-[var(--ink)]">
+            § 2 — subcategories
+          </p>
+          <Reveal className="mt-5">
+            <div className="flex flex-wrap gap-2">
+              {children.map((c) => (
+                <ChipLink
+                  key={c.slug}
+                  href={categoryHref([c.slug, ...intersections])}
+                  label={c.name.toLowerCase()}
+                  count={counts[c.slug] ?? 0}
+                />
+              ))}
+            </div>
+          </Reveal>
+        </section>
+      )}
+
+      {/* Intersections */}
+      {combine.length > 0 && (
+        <section className="mx-auto max-w-5xl px-4 pb-12 sm:px-6">
+          <div className="flex flex-col gap-1 font-mono text-[12px] text-[var(--muted)] sm:flex-row sm:items-baseline sm:justify-between">
+            <p className="font-bold tracking-[0.2em] text-[var(--ink)]">§ 3 — combine with</p>
+            <p>catalog-wide counts</p>
+          </div>
+          <Reveal className="mt-5">
+            <div className="flex flex-wrap gap-2">
+              {combine.map((c) => (
+                <ChipLink
+                  key={c.slug}
+                  href={categoryHref([...selected, c.slug])}
+                  label={`∩ ${c.name.toLowerCase()}`}
+                  count={counts[c.slug] ?? 0}
+                />
+              ))}
+            </div>
+          </Reveal>
+        </section>
+      )}
+
+      {/* Other categories */}
+      <section className="mx-auto max-w-5xl px-4 pb-12 sm:px-6 sm:pb-16">
+        <p className="font-mono text-[12px] font-bold tracking-[0.2em] text-[var(--ink)]">
+          § 4 — other categories
+        </p>
+        <Reveal className="mt-5">
+          <div className="flex flex-wrap gap-2">
+            {roots.map((cat) => (
+              <ChipLink key={cat.slug} href={categoryHref([cat.slug])} label={cat.name.toLowerCase()} />
+            ))}
+          </div>
+        </Reveal>
+      </section>
+
+      <NewsletterSignup />
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+import { ImageResponse } from 'next/og'
+import { getRepo } from '@/lib/queries'
+import { compareTitle, parseComparePath } from '@/lib/compare'
+import { tierFor, formatCount } from '@/lib/design'
+
+export const runtime = 'edge'
+export const alt = 'Compare — GitFind'
+export const size = { width: 1200, height: 630 }
+export const contentType = 'image/png'
+
+const silkscreen = fetch(
+  'https://fonts.gstatic.com/s/silkscreen/v6/m8JUjfVPf62XiF7kO-i9aAhATms.ttf'
+).then((res) => res.arrayBuffer())
+
+const geistMono = fetch(
+  'https://fonts.gstatic.com/s/geistmono/v6/or3yQ6H-1_WfwkMZI_qYPLs1a-t7PU0AbeE9KJ5T.ttf'
+).then((res) => res.arrayBuffer())
+
+const TIER_COLORS: Record<string, string> = {
+  Breakout: '#8f2d1e',
+  Hot: '#7a5200',
+  Active: '#2f5d6e',
+}
+
+export default async function Image({ params }: { params: Promise<{ repos: string[] }> }) {
+  const { repos } = await params
+  const [silkscreenData, monoData] = await Promise.all([silkscreen, geistMono])
+  const slugs = parseComparePath(repos) ?? []
+
+  const projects = await Promise.all(
+    slugs.map(async (s) => {
+      try {
+        return await getRepo(s.owner, s.name)
+      } catch {
+        return null
+      }
+    })
+  )
+
+  const fonts = [
+    { name: 'Silkscreen', data: silkscreenData, weight: 700 as const, style: 'normal' as const },
+    { name: 'Geist Mono', data: monoData, weight: 400 as const, style: 'normal' as const },
+  ]
+
+  const cards = slugs.map((slug, i) => {
+    const project = projects[i]
+    const score = project?.enrichment?.early_signal_score ?? null
+    return { slug, project, score, tier: score != null ? tierFor(score) : null }
+  })
+  const nameFontSize = cards.length > 3 ? 24 : cards.length > 2 ? 28 : 34
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: '52px 60px',
+          backgroundColor: '#f4f1e6',
+          fontFamily: 'Geist Mono',
+        }}
+      >
+        {/* Header row */}
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '14px' }}>
+            <div
+              style={{
+                width: '56px',
+                height: '62px',
+                border: '4px solid #171512',
+                backgroundColor: '#f4f1e6',
+                display: 'flex',
+                flexDirection: 'column',
+                alignItems: 'center',
+                paddingTop: '6px',
+                boxShadow: '5px 5px 0 0 #171512',
+              }}
+            >
+              <span style={{ fontFamily: 'Silkscreen', fontSize: '28px', fontWeight: 700, color: '#171512', lineHeight: 1 }}>G</span>
+              <div style={{ width: '30px', height: '8px', backgroundColor: '#ffc833', border: '2px solid #171512', marginTop: '5px' }} />
+            </div>
+            <span style={{ fontFamily: 'Silkscreen', fontSize: '26px', fontWeight: 700, color: '#171512' }}>GITFIND</span>
+          </div>
+          <span style={{ fontSize: '16px', letterSpacing: '0.15em', color: '#565249', textTransform: 'uppercase' }}>
+            spec sheet — comparison
+          </span>
+        </div>
+
+        {/* One score panel per repo */}
+        {cards.length > 0 ? (
+          <div style={{ display: 'flex', gap: '24px' }}>
+            {cards.map(({ slug, project, score, tier }) => (
+              <div
+                key={`${slug.owner}/${slug.name}`}
+                style={{
+                  display: 'flex',
+                  flexDirection: 'column',
+                  gap: '10px',
+                  flex: 1,
+                  minWidth: 0,
+                  border: '4px solid #171512',
+                  padding: '18px',
+                  boxShadow: '8px 8px 0 0 #171512',
+                }}
+              >
+                <div style={{ display: 'flex', flexDirection: 'column', fontFamily: 'Silkscreen', fontWeight: 700, lineHeight: 1.1 }}>
+                  <span style={{ fontSize: '18px', color: '#565249' }}>{slug.owner}/</span>
+                  <span style={{ fontSize: nameFontSize, color: '#171512', overflow: 'hidden' }}>{slug.name}</span>
+                </div>
+                <div style={{ display: 'flex', alignItems: 'flex-end', gap: '8px', marginTop: '8px' }}>
+                  <span style={{ fontFamily: 'Silkscreen', fontSize: '56px', fontWeight: 700, color: '#171512', lineHeight: 1 }}>
+                    {score ?? '—'}
+                  </span>
+                  <span style={{ fontSize: '20px', color: '#565249' }}>/100</span>
+                </div>
+                {tier ? (
+                  <span
+                    style={{
+                      fontSize: '13px',
+                      fontWeight: 700,
+                      letterSpacing: '0.15em',
+                      textTransform: 'uppercase',
+                      color: '#f4f1e6',
+                      backgroundColor: TIER_COLORS[tier],
+                      padding: '4px 10px',
+                      alignSelf: 'flex-start',
+                    }}
+                  >
+                    {tier}
+                  </span>
+                ) : null}
+                <span style={{ fontSize: '16px', color: '#33302a' }}>
+                  {project ? `${formatCount(project.stars)} stars` : 'not tracked'}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <span style={{ fontFamily: 'Silkscreen', fontSize: '56px', fontWeight: 700, color: '#171512' }}>X VS Y</span>
+        )}
+
+        {/* Footer strip */}
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', borderTop: '3px solid #171512', paddingTop: '18px' }}>
+          <span style={{ fontSize: '18px', color: '#33302a', maxWidth: '760px', overflow: 'hidden' }}>
+            {slugs.length > 0 ? compareTitle(slugs) : 'compare two to four projects'}
+          </span>
+          <span style={{ fontSize: '16px', letterSpacing: '0.15em', color: '#171512', textTransform: 'uppercase', fontWeight: 700 }}>
+            every score, explained
+          </span>
+        </div>
+      </div>
+    ),
+    { ...size, fonts }
+  )
+}
@@ -0,0 +1,197 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import { getRepo, getRepoEvidence, getRepoHistory, type RepoHistorySeries } from '@/lib/queries'
+import { MIN_COMPARE, alignSeries, compareTitle, parseComparePath, type RepoSlug } from '@/lib/compare'
+import { contributorsLabel, formatCount, tierFor } from '@/lib/design'
+import LineChart from '@/components/charts/LineChart'
+import SpecScore, { parseBreakdown } from '@/components/SpecScore'
+import Reveal from '@/components/Reveal'
+
+export const revalidate = 3600
+
+const HISTORY_DAYS = 180
+
+// Static class names so Tailwind sees them
+const SCORE_GRID: Record<number, string> = { 3: 'lg:grid-cols-3', 4: 'lg:grid-cols-4' }
+
+interface Props {
+  params: Promise<{ repos: string[] }>
+}
+
+const METRICS: { key: keyof RepoHistorySeries; label: string; note: string }[] = [
+  { key: 'stars', label: 'stars', note: 'total stars, daily snapshots' },
+  { key: 'forks', label: 'forks', note: 'total forks, daily snapshots' },
+  { key: 'downloads_7d', label: 'downloads', note: 'package downloads, rolling 7 days' },
+  { key: 'commits_4w', label: 'commits', note: 'commits, rolling 4 weeks (weekly stats)' },
+]
+
+async function loadRepos(slugs: RepoSlug[]) {
+  const projects = await Promise.all(slugs.map((s) => getRepo(s.owner, s.name)))
+  return slugs.map((slug, i) => ({ slug, project: projects[i] }))
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { repos } = await params
+  const slugs = parseComparePath(repos)
+  if (!slugs) return { title: 'Compare projects' }
+
+  const title = compareTitle(slugs)
+  const description = `${title} — star, fork, download and commit history plus Early Signal Score breakdowns, side by side.`
+  const url = `https://gitfind.ai/compare/${repos.join('/')}`
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: { title: `${title} — GitFind`, description, url, type: 'article' },
+    twitter: { card: 'summary_large_image', title: `${title} — GitFind`, description },
+  }
+}
+
+// Log scale when one line would flatten the others
+function needsLogScale(values: (number | null)[][]): boolean {
+  const latest = values.map((row) => [...row].reverse().find((v) => v != null) ?? 0).filter((v) => v > 0)
+  return latest.length > 1 && Math.max(...latest) / Math.min(...latest) > 20
+}
+
+export default async function ComparePage({ params }: Props) {
+  const { repos } = await params
+  const slugs = parseComparePath(repos)
+  if (!slugs) notFound()
+
+  const loaded = await loadRepos(slugs)
+  const found = loaded.flatMap((l) => (l.project ? [l.project] : []))
+  const missing = loaded.filter((l) => !l.project).map((l) => `${l.slug.owner}/${l.slug.name}`)
+  if (found.length < MIN_COMPARE) notFound()
+
+  const [histories, evidence] = await Promise.all([
+    Promise.all(found.map((p) => getRepoHistory(p.id, HISTORY_DAYS))),
+    Promise.all(found.map((p) => getRepoEvidence(p.id, p.stars, p.forks))),
+  ])
+  const labels = found.map((p) => `${p.owner}/${p.name}`)
+
+  const charts = METRICS.map((m) => {
+    const aligned = alignSeries(histories.map((h) => h[m.key]))
+    return { ...m, ...aligned, logScale: needsLogScale(aligned.values) }
+  }).filter((c) => c.dates.length > 1)
+
+  const rows: { label: string; values: string[] }[] = [
+    { label: 'score', values: found.map((p) => (p.enrichment ? `${p.enrichment.early_signal_score} · ${tierFor(p.enrichment.early_signal_score).toLowerCase()}` : '—')) },
+    { label: 'stars', values: found.map((p) => formatCount(p.stars)) },
+    { label: 'forks', values: found.map((p) => formatCount(p.forks)) },
+    { label: 'stars (7d)', values: evidence.map((e) => `+${formatCount(e.stars_7d)}`) },
+    { label: 'commits (30d)', values: evidence.map((e) => formatCount(e.commits_30d)) },
+    { label: 'contributors', values: found.map((p) => contributorsLabel(p.contributors)) },
+    { label: 'language', values: found.map((p) => p.language ?? '—') },
+    { label: 'category', values: found.map((p) => p.enrichment?.category ?? '—') },
+  ]
+
+  return (
+    <div>
+      <div className="halftone border-b-2 border-[var(--line)]">
+        <div className="mx-auto max-w-5xl px-4 pb-8 pt-8 sm:px-6">
+          <nav className="font-mono text-[11px] text-[var(--muted)]" aria-label="Breadcrumb">
+            <Link href="/" className="invert-hover px-1">index</Link>
+            <span className="mx-1">/</span>
+            <Link href="/compare" className="invert-hover px-1">compare</Link>
+          </nav>
+          <h1 className="font-display mt-5 flex flex-wrap items-baseline gap-x-3 text-2xl font-bold text-[var(--ink)] sm:text-3xl">
+            {found.map((p, i) => (
+              <span key={p.id}>
+                {i > 0 ? <span className="mr-3 text-[var(--muted)]">vs</span> : null}
+                <Link href={`/project/${p.owner}/${p.name}`} className="invert-hover">
+                  <span className="text-[var(--muted)]">{p.owner}/</span>
+                  {p.name}
+                </Link>
+              </span>
+            ))}
+          </h1>
+          {missing.length > 0 ? (
+            <p className="mt-4 font-mono text-[12px] text-[var(--muted)]">
+              not in the catalog yet: {missing.join(', ')} —{' '}
+              <Link href="/submit" className="invert-hover px-1 font-bold text-[var(--ink)]">submit it →</Link>
+            </p>
+          ) : null}
+        </div>
+      </div>
+
+      <main className="mx-auto max-w-5xl space-y-10 px-4 py-10 sm:px-6">
+        <Reveal>
+          <section>
+            <h2 className="font-mono text-[12px] font-bold tracking-[0.2em] text-[var(--ink)]">§ 1 — side by side</h2>
+            <div className="mt-4 overflow-x-auto border-2 border-[var(--line)] bg-[var(--paper)]">
+              <table className="w-full font-mono text-[12px]">
+                <thead>
+                  <tr className="border-b-2 border-[var(--line)] text-left text-[var(--muted)]">
+                    <th className="px-3 py-2 font-normal" />
+                    {labels.map((l) => (
+                      <th key={l} className="px-3 py-2 font-bold text-[var(--ink)]">{l}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((r) => (
+                    <tr key={r.label} className="border-b border-dashed border-[var(--line-soft)] last:border-0">
+                      <td className="px-3 py-1.5 text-[var(--muted)]">{r.label}</td>
+                      {r.values.map((v, i) => (
+                        <td key={labels[i]} className="px-3 py-1.5 font-bold text-[var(--ink)]">{v}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </Reveal>
+
+        {charts.length > 0 ? (
+          <section>
+            <h2 className="font-mono text-[12px] font-bold tracking-[0.2em] text-[var(--ink)]">
+              § 2 — history, last {HISTORY_DAYS} days
+            </h2>
+            <div className="mt-4 grid grid-cols-1 gap-5 lg:grid-cols-2">
+              {charts.map((c, i) => (
+                <Reveal key={c.key}>
+                  <figure className="border-2 border-[var(--line)] bg-[var(--paper)]">
+                    <figcaption className="border-b-2 border-[var(--line)] px-4 py-2 font-mono text-[11px] text-[var(--muted)]">
+                      fig. {String(i + 1).padStart(2, '0')} — {c.note}
+                    </figcaption>
+                    <div className="p-4">
+                      <LineChart
+                        dates={c.dates}
+                        series={labels.map((label, si) => ({ label, values: c.values[si] }))}
+                        ariaLabel={`${c.label} over time: ${labels.join(' vs ')}`}
+                        logScale={c.logScale}
+                      />
+                    </div>
+                  </figure>
+                </Reveal>
+              ))}
+            </div>
+          </section>
+        ) : null}
+
+        <section>
+          <h2 className="font-mono text-[12px] font-bold tracking-[0.2em] text-[var(--ink)]">§ 3 — score breakdowns</h2>
+          <div className={`mt-4 grid grid-cols-1 gap-5 sm:grid-cols-2 ${SCORE_GRID[found.length] ?? ''}`}>
+            {found.map((p, i) => (
+              <div key={p.id}>
+                <p className="mb-2 font-mono text-[12px] font-bold text-[var(--ink)]">{labels[i]}</p>
+                <SpecScore
+                  score={p.enrichment?.early_signal_score ?? 0}
+                  breakdown={parseBreakdown(p.enrichment?.score_breakdown)}
+                  scoredAt={new Date(p.enrichment?.scored_at ?? p.updated_at).toLocaleDateString('en-US', {
+                    month: 'long',
+                    day: 'numeric',
+                    year: 'numeric',
+                  })}
+                  evidence={{ ...evidence[i], contributors: p.contributors }}
+                />
+              </div>
+            ))}
+          </div>
+        </section>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,3 @@
+export { default, size, contentType } from './opengraph-image'
+export const runtime = 'edge'
+export const alt = 'Compare — GitFind'
@@ -0,0 +1,64 @@
+import type { Metadata } from 'next'
+import { redirect } from 'next/navigation'
+import { MAX_COMPARE, MIN_COMPARE, compareHref, parseCompareInputs } from '@/lib/compare'
+
+export const metadata: Metadata = {
+  title: 'Compare projects',
+  description: 'Put two to four GitHub projects side by side — star, fork, download and commit history plus full score breakdowns.',
+  alternates: { canonical: 'https://gitfind.ai/compare' },
+}
+
+// The picker — a plain GET form. Two or more valid repos redirect to the
+// shareable /compare/owner/name/owner/name URL.
+export default async function ComparePickerPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ repo?: string | string[] }>
+}) {
+  const { repo } = await searchParams
+  const submitted = repo == null ? [] : Array.isArray(repo) ? repo : [repo]
+  const slugs = parseCompareInputs(submitted)
+  if (slugs.length >= MIN_COMPARE) redirect(compareHref(slugs))
+
+  const filled = submitted.filter((v) => v.trim() !== '').length
+  return (
+    <div>
+      <div className="halftone border-b-2 border-[var(--line)]">
+        <div className="mx-auto max-w-5xl px-4 pb-8 pt-8 sm:px-6">
+          <h1 className="font-display mt-2 text-2xl font-bold text-[var(--ink)] sm:text-4xl">COMPARE</h1>
+          <p className="mt-4 max-w-2xl font-mono text-[14px] leading-[1.8] text-[var(--body)]">
+            X vs Y, settled with data: history overlaid on one axis and every score broken down side by side.
+          </p>
+        </div>
+      </div>
+
+      <main className="mx-auto max-w-5xl px-4 py-10 sm:px-6">
+        <form action="/compare" method="get" className="max-w-xl space-y-3 font-mono">
+          {Array.from({ length: MAX_COMPARE }, (_, i) => (
+            <label key={i} className="flex items-center gap-3 text-[12px] text-[var(--muted)]">
+              <span className="w-4 text-right">{i + 1}</span>
+              <input
+                name="repo"
+                defaultValue={submitted[i] ?? ''}
+                placeholder={i < MIN_COMPARE ? 'owner/name or github url' : 'optional'}
+                className="w-full border-2 border-[var(--line)] bg-[var(--paper)] px-3 py-2 text-[13px] text-[var(--ink)] placeholder:text-[var(--muted)] focus:outline-none"
+              />
+            </label>
+          ))}
+          {/* One prefilled repo (a project page's "compare with…") isn't an error */}
+          {filled >= MIN_COMPARE ? (
+            <p className="text-[12px] text-[var(--negative)]">
+              need at least {MIN_COMPARE} repos written as owner/name — e.g. vercel/next.js
+            </p>
+          ) : null}
+          <button
+            type="submit"
+            className="invert-hover border-2 border-[var(--line)] px-3 py-1.5 text-[12px] font-bold text-[var(--ink)]"
+          >
+            compare →
+          </button>
+        </form>
+      </main>
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import Link from 'next/link'
 import { getDigest, getDigests } from '@/lib/queries'
 import NewsletterSignup from '@/components/NewsletterSignup'
 import Reveal from '@/components/Reveal'
+import RankWaterfall from '@/components/RankWaterfall'
 import { formatCount, tierFor } from '@/lib/design'
 
 export const revalidate = 3600
@@ -112,6 +113,11 @@ export default async function BriefingIssuePage({ params }: Props) {
                     <p className="mt-3 font-mono text-[11.5px] font-bold text-[var(--positive)]">
                       ▲ +{formatCount(p.stars_7d)} stars this week
                     </p>
+                    {p.rank_diff && (
+                      <div className="mt-4">
+                        <RankWaterfall diff={p.rank_diff} />
+                      </div>
+                    )}
                   </div>
                 </article>
               </Reveal>
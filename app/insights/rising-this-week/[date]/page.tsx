@@ -1,10 +1,12 @@
 import type { Metadata } from 'next'
 import Link from 'next/link'
 import { notFound } from 'next/navigation'
-import { getRisingRepos, getSnapshotDates } from '@/lib/queries'
+import { getRankDiffs, getRisingRepos, getSnapshotDates } from '@/lib/queries'
 import type { RisingRepo } from '@/lib/queries'
+import type { RankDiff } from '@/lib/rank-diff'
 import NewsletterSignup from '@/components/NewsletterSignup'
 import RepoCard from '@/components/RepoCard'
+import RankWaterfall from '@/components/RankWaterfall'
 import Reveal from '@/components/Reveal'
 import { formatCount } from '@/lib/design'
 
@@ -100,6 +102,17 @@ export default async function RisingThisWeekDatePage({ params }: Props) {
   const snapshotDate = await findClosestSnapshotDate(date)
   const repos = snapshotDate ? await getRisingRepos(10, snapshotDate) : []
 
+  // Score changes over the same week, explained signal by signal
+  const weekBefore = snapshotDate ? new Date(snapshotDate) : null
+  weekBefore?.setDate(weekBefore.getDate() - 7)
+  const rankDiffs = snapshotDate && weekBefore && repos.length > 0
+    ? await getRankDiffs(repos.map((r) => r.id), weekBefore.toISOString().slice(0, 10), snapshotDate)
+    : new Map<string, RankDiff>()
+  const explained = repos.flatMap((repo) => {
+    const diff = rankDiffs.get(repo.id)
+    return diff ? [{ repo, diff }] : []
+  })
+
   const weekLabel = formatWeekLabel(date)
 
   // Compute prev/next week URLs
@@ -248,16 +261,35 @@ export default async function RisingThisWeekDatePage({ params }: Props) {
         )}
       </section>
 
+      {/* Why they moved */}
+      {explained.length > 0 && (
+        <section className="mx-auto max-w-5xl px-4 pb-10 sm:px-6 sm:pb-12">
+          <div className="flex flex-col gap-1 sm:flex-row sm:items-baseline sm:justify-between font-mono text-[12px] text-[var(--muted)]">
+            <p className="font-bold tracking-[0.2em] text-[var(--ink)]">§ 2 — why they moved</p>
+            <p>early signal score, week over week</p>
+          </div>
+          <div className="mt-5 grid grid-cols-1 gap-5 sm:grid-cols-2">
+            {explained.map(({ repo, diff }) => (
+              <RankWaterfall key={repo.id} diff={diff} repo={repo} />
+            ))}
+          </div>
+        </section>
+      )}
+
       {/* Methodology */}
       <section className="mx-auto max-w-5xl px-4 pb-12 sm:px-6 sm:pb-16">
         <h2 className="font-mono text-[12px] font-bold tracking-[0.2em] text-[var(--ink)]">
-          § 2 — methodology
+          § {explained.length > 0 ? 3 : 2} — methodology
         </h2>
         <p className="mt-3 max-w-2xl border-l-2 border-[var(--line)] pl-4 font-mono text-[13px] leading-[1.8] text-[var(--body)]">
           Repos are ranked by 7-day star velocity — the number of new stars gained in the last 7 days.
           Only repos with enriched context (Claude-generated summaries and Early Signal Scores) are included.
           Week-over-week acceleration compares this week’s star gain to the previous week’s.
           Data is sourced from daily GitHub API snapshots and refreshed every hour.
+          The waterfalls take each repo’s Early Signal Score a week earlier, add what every signal
+          gained or lost in weighted points, and land on this week’s score. Each score is the repo’s latest
+          as of that day — repos whose stars did not change keep their last score — and rank is among every
+          repo’s latest score on the same day.
         </p>
         <div className="mt-5 flex flex-wrap gap-3 font-mono text-[11.5px]">
           <Link
@@ -134,6 +134,10 @@ export default function MethodologyPage() {
               weeks running, a pattern genuine growth almost never produces — a
               manipulation penalty is deducted from the score and shown openly on
               the project page. When you see it, you’re watching the filter work.
+              For fast-growing repos we also sample the most recent stargazers:
+              brand-new accounts with no followers or repos, stars landing in
+              tight bursts, and the same accounts turning up on other flagged repos
+              add up to a fake-star probability, and a likely farm costs points.
               Stars alone are never the story: engagement, commits, and community
               conversation are far harder to fake.
             </p>
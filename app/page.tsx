@@ -70,6 +70,12 @@ export default async function HomePage() {
             >
               every score, explained
             </Link>
+            <Link
+              href="/rank"
+              className="invert-hover border-2 border-[var(--line)] bg-[var(--paper)] px-3 py-1.5 text-[var(--body)]"
+            >
+              rank by your own weights
+            </Link>
           </div>
         </div>
       </section>
@@ -1,6 +1,7 @@
 import { ImageResponse } from 'next/og'
 import { getRepo } from '@/lib/queries'
 import { tierFor, formatCount } from '@/lib/design'
+import { isSuspectEnrichment } from '@/lib/enrichment-quality'
 
 export const runtime = 'edge'
 export const alt = 'Project — GitFind'
@@ -66,7 +67,8 @@ export default async function Image({ params }: { params: Promise<{ owner: strin
 
   const score = project.enrichment?.early_signal_score ?? null
   const tier = score != null ? tierFor(score) : null
-  const summary = project.enrichment?.summary ?? project.description ?? ''
+  const summary =
+    (isSuspectEnrichment(project.enrichment?.quality_flags) ? null : project.enrichment?.summary) ?? project.description ?? ''
   const nameFontSize = repo.length > 24 ? 48 : repo.length > 14 ? 60 : 72
 
   return new ImageResponse(
@@ -1,12 +1,17 @@
 import type { Metadata } from 'next'
 import { notFound } from 'next/navigation'
 import Link from 'next/link'
-import { getRepo, getPackageDownloads, getReposByCategory, getRepoEvidence } from '@/lib/queries'
+import { getRepo, getPackageDownloads, getReposByCategory, getRepoEvidence, getRepoHistory, getRepoAnnotations, getSimilarRepos, getRepoCategories, getTaxonomy, getEnrichmentHistory, getScoreHistory } from '@/lib/queries'
 import NewsletterSignup from '@/components/NewsletterSignup'
 import RepoCard from '@/components/RepoCard'
-import SpecScore, { type SpecScoreBreakdown } from '@/components/SpecScore'
+import SpecScore, { parseBreakdown } from '@/components/SpecScore'
 import Reveal from '@/components/Reveal'
+import RepoHistoryPanel, { type HistoryMetric } from '@/components/RepoHistoryPanel'
 import { categorySlug, contributorsLabel, formatCount } from '@/lib/design'
+import { categoryHref } from '@/lib/taxonomy'
+import { isSuspectEnrichment } from '@/lib/enrichment-quality'
+import { describeRefreshReasons } from '@/lib/enrichment-refresh'
+import { dailyGains, tierTransitions } from '@/lib/volume'
 
 export const revalidate = 3600
 
@@ -26,7 +31,7 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
   const score = project.enrichment?.early_signal_score ?? 0
   const category = project.enrichment?.category
   const description =
-    project.enrichment?.summary ??
+    (isSuspectEnrichment(project.enrichment?.quality_flags) ? null : project.enrichment?.summary) ??
     project.description ??
     `${repoName} — Early Signal Score, stats, and plain-English analysis on GitFind.`
 
@@ -55,13 +60,6 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
   }
 }
 
-function parseBreakdown(raw: unknown): SpecScoreBreakdown | null {
-  if (!raw || typeof raw !== 'object') return null
-  const obj = raw as Record<string, unknown>
-  if (typeof obj.star_velocity_score !== 'number') return null
-  return obj as unknown as SpecScoreBreakdown
-}
-
 export default async function ProjectPage({ params }: Props) {
   const { owner, repo: repoName } = await params
   const project = await getRepo(owner, repoName)
@@ -72,18 +70,60 @@ export default async function ProjectPage({ params }: Props) {
 
   const enrichment = project.enrichment
   const score = enrichment?.early_signal_score ?? 0
-  const [downloads, relatedRaw, evidence] = await Promise.all([
+  // Generated text that failed the fact check stays hidden (lib/enrichment-quality.ts)
+  const suspect = isSuspectEnrichment(enrichment?.quality_flags)
+  const summary = suspect ? null : (enrichment?.summary ?? null)
+  const whyItMatters = suspect ? null : (enrichment?.why_it_matters ?? null)
+  const headline = summary ?? (suspect ? project.description : null)
+  const [downloads, similar, evidence, history, annotations, labelSlugs, taxonomy, revisions, scores] = await Promise.all([
     getPackageDownloads(project.id),
-    enrichment?.category ? getReposByCategory(enrichment.category, 5) : Promise.resolve([]),
+    getSimilarRepos(project.id, 4),
     getRepoEvidence(project.id, project.stars, project.forks),
+    getRepoHistory(project.id, null),
+    getRepoAnnotations(project.id),
+    getRepoCategories(project.id),
+    getTaxonomy(),
+    enrichment && enrichment.version > 1 ? getEnrichmentHistory(project.id) : Promise.resolve([]),
+    getScoreHistory(project.id),
   ])
-  const relatedProjects = relatedRaw.filter((r) => r.id !== project.id).slice(0, 4)
+  const taxonomyBySlug = new Map(taxonomy.map((n) => [n.slug, n]))
+  const labels = labelSlugs.flatMap((slug) => {
+    const node = taxonomyBySlug.get(slug)
+    return node ? [node] : []
+  })
+  // Precomputed neighbours with reasons; same-category top scorers until the
+  // similarity job has covered this repo
+  const related =
+    similar.length > 0
+      ? similar.map((s) => ({ project: s.project, reasons: s.reasons }))
+      : enrichment?.category
+        ? (await getReposByCategory(enrichment.category, 5))
+            .filter((r) => r.id !== project.id)
+            .slice(0, 4)
+            .map((r) => ({ project: r, reasons: [] as string[] }))
+        : []
+
+  // Full history, one tab per metric with at least two points
+  const historyMetrics: HistoryMetric[] = (
+    [
+      { key: 'score', label: 'score', unit: 'score', mode: 'level', data: scores },
+      { key: 'stars', label: 'stars', unit: 'stars gained', mode: 'sum', data: dailyGains(history.stars) },
+      { key: 'forks', label: 'forks', unit: 'forks gained', mode: 'sum', data: dailyGains(history.forks) },
+      { key: 'issues', label: 'open issues', unit: 'open issues', mode: 'level', data: history.open_issues },
+      { key: 'downloads', label: 'downloads', unit: 'downloads', mode: 'sum', data: history.downloads_1d },
+      { key: 'commits', label: 'commits', unit: 'commits (4 wk)', mode: 'level', data: history.commits_4w },
+    ] satisfies HistoryMetric[]
+  ).filter((m) => m.data.length > 1)
+  // Tier crossings show on every tab, alongside anomalies and releases
+  const historyAnnotations = [...annotations, ...tierTransitions(scores)].sort((a, b) => a.date.localeCompare(b.date))
 
   const scoredAt = new Date(enrichment?.scored_at ?? project.updated_at).toLocaleDateString('en-US', {
     month: 'long',
     day: 'numeric',
     year: 'numeric',
   })
+  const shortDate = (iso: string) =>
+    new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }).toLowerCase()
 
   const stats: { label: string; value: string }[] = [
     { label: 'stars', value: formatCount(project.stars) },
@@ -102,7 +142,7 @@ export default async function ProjectPage({ params }: Props) {
     '@context': 'https://schema.org',
     '@type': 'SoftwareApplication',
     name: `${owner}/${repoName}`,
-    description: enrichment?.summary ?? project.description ?? '',
+    description: summary ?? project.description ?? '',
     url: project.url,
     applicationCategory: enrichment?.category ?? 'DeveloperApplication',
     operatingSystem: 'Cross-platform',
@@ -152,9 +192,9 @@ export default async function ProjectPage({ params }: Props) {
             {repoName}
           </h1>
 
-          {enrichment?.summary ? (
+          {headline ? (
             <p className="mt-4 max-w-2xl font-mono text-[14px] leading-[1.8] text-[var(--body)]">
-              {enrichment.summary}
+              {headline}
             </p>
           ) : null}
 
@@ -182,6 +222,21 @@ export default async function ProjectPage({ params }: Props) {
               source ↗
             </a>
           </div>
+
+          {labels.length > 0 ? (
+            <div className="mt-3 flex flex-wrap items-center gap-2 font-mono text-[11.5px]">
+              {labels.map((node) => (
+                <Link
+                  key={node.slug}
+                  href={categoryHref([node.slug])}
+                  className="invert-hover border-2 border-dashed border-[var(--line)] px-2 py-0.5 text-[var(--body)]"
+                >
+                  # {node.parent_slug ? `${taxonomyBySlug.get(node.parent_slug)?.name.toLowerCase() ?? node.parent_slug} / ` : ''}
+                  {node.name.toLowerCase()}
+                </Link>
+              ))}
+            </div>
+          ) : null}
         </div>
       </div>
 
@@ -189,27 +244,39 @@ export default async function ProjectPage({ params }: Props) {
       <div className="mx-auto max-w-5xl px-4 py-8 sm:px-6">
         <div className="grid grid-cols-1 gap-6 lg:grid-cols-[1fr_300px]">
           <div className="space-y-8">
-            {enrichment?.summary ? (
+            {summary ? (
               <Reveal>
                 <section>
                   <h2 className="font-mono text-[12px] font-bold tracking-[0.2em] text-[var(--ink)]">
                     § 1 — what it does
                   </h2>
                   <p className="mt-3 border-l-2 border-[var(--line)] pl-4 font-mono text-[14px] leading-[1.85] text-[var(--body)]">
-                    {enrichment.summary}
+                    {summary}
+                  </p>
+                </section>
+              </Reveal>
+            ) : suspect ? (
+              <Reveal>
+                <section>
+                  <h2 className="font-mono text-[12px] font-bold tracking-[0.2em] text-[var(--ink)]">
+                    § 1 — what it does
+                  </h2>
+                  <p className="mt-3 border-2 border-dashed border-[var(--line-soft)] px-4 py-3 font-mono text-[12px] leading-[1.75] text-[var(--muted)]">
+                    our plain-English summary of this repo is withheld: it mentioned details we could not find in the
+                    repo&apos;s description or README. the description above is the maintainers&apos; own.
                   </p>
                 </section>
               </Reveal>
             ) : null}
 
-            {enrichment?.why_it_matters ? (
+            {whyItMatters ? (
               <Reveal>
                 <section>
                   <h2 className="font-mono text-[12px] font-bold tracking-[0.2em] text-[var(--ink)]">
                     § 2 — why it matters
                   </h2>
                   <p className="mt-3 border-l-2 border-[var(--line)] pl-4 font-mono text-[14px] leading-[1.85] text-[var(--body)]">
-                    {enrichment.why_it_matters}
+                    {whyItMatters}
                   </p>
                 </section>
               </Reveal>
@@ -227,6 +294,36 @@ export default async function ProjectPage({ params }: Props) {
                 </section>
               </Reveal>
             ) : null}
+
+            {enrichment && revisions.length > 0 ? (
+              <details className="border-2 border-[var(--line)] bg-[var(--paper)] font-mono">
+                <summary className="cursor-pointer px-4 py-2 text-[11px] text-[var(--muted)]">
+                  <span className="font-bold text-[var(--ink)]">v{enrichment.version}</span> · rewritten{' '}
+                  {shortDate(enrichment.enriched_at)}
+                  {enrichment.refresh_reasons.length > 0 ? ` · ${describeRefreshReasons(enrichment.refresh_reasons)}` : ''}
+                  {' '}· {revisions.length} earlier {revisions.length === 1 ? 'version' : 'versions'}
+                </summary>
+                <ol className="border-t-2 border-[var(--line)]">
+                  {revisions.map((r) => (
+                    <li key={r.id} className="border-b border-dashed border-[var(--line-soft)] px-4 py-3 last:border-0">
+                      <p className="text-[11px] text-[var(--muted)]">
+                        <span className="font-bold text-[var(--ink)]">v{r.version}</span> · {shortDate(r.enriched_at)} –{' '}
+                        {shortDate(r.superseded_at)}
+                        {r.refresh_reasons.length > 0 ? ` · ${describeRefreshReasons(r.refresh_reasons)}` : ''}
+                      </p>
+                      {isSuspectEnrichment(r.quality_flags) ? (
+                        <p className="mt-2 text-[12px] text-[var(--muted)]">withheld — failed our fact check.</p>
+                      ) : (
+                        <>
+                          <p className="mt-2 text-[12.5px] leading-[1.75] text-[var(--body)]">{r.summary}</p>
+                          <p className="mt-1 text-[12.5px] leading-[1.75] text-[var(--muted)]">{r.why_it_matters}</p>
+                        </>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </details>
+            ) : null}
           </div>
 
           <aside className="space-y-5 self-start lg:sticky lg:top-4">
@@ -256,21 +353,57 @@ export default async function ProjectPage({ params }: Props) {
                 {downloads.registry}/{downloads.package_name}
               </p>
             ) : null}
+
+            <Link
+              href={`/compare?repo=${encodeURIComponent(`${owner}/${repoName}`)}`}
+              className="invert-hover inline-block border-2 border-[var(--line)] px-2 py-0.5 font-mono text-[11.5px] font-bold text-[var(--ink)]"
+            >
+              compare with… →
+            </Link>
           </aside>
         </div>
       </div>
 
+      {/* History */}
+      {historyMetrics.length > 0 && (
+        <section className="mx-auto max-w-5xl px-4 pb-12 sm:px-6">
+          <h2 className="font-mono text-[12px] font-bold tracking-[0.2em] text-[var(--ink)]">§ 4 — history</h2>
+          <Reveal className="mt-5">
+            <figure className="border-2 border-[var(--line)] bg-[var(--paper)]">
+              <figcaption className="border-b-2 border-[var(--line)] px-4 py-2 font-mono text-[11px] text-[var(--muted)]">
+                fig. 04 — daily snapshots since tracking began · ▲ anomaly · ◆ release · ● tier change
+              </figcaption>
+              <div className="p-4">
+                <RepoHistoryPanel repo={`${project.owner}/${project.name}`} metrics={historyMetrics} annotations={historyAnnotations} />
+              </div>
+            </figure>
+          </Reveal>
+        </section>
+      )}
+
       {/* Related */}
-      {relatedProjects.length > 0 && (
+      {related.length > 0 && (
         <section className="mx-auto max-w-5xl px-4 pb-12 sm:px-6">
           <div className="flex flex-col gap-1 sm:flex-row sm:items-baseline sm:justify-between font-mono text-[12px] text-[var(--muted)]">
-            <p className="font-bold tracking-[0.2em] text-[var(--ink)]">§ 4 — related entries</p>
-            <p>{relatedProjects.length} entries</p>
+            <p className="font-bold tracking-[0.2em] text-[var(--ink)]">
+              § 5 — {similar.length > 0 ? 'similar entries' : 'related entries'}
+            </p>
+            <p>{similar.length > 0 ? `${related.length} nearest neighbours` : `${related.length} entries · same category`}</p>
           </div>
           <Reveal className="mt-5">
             <div className="grid grid-cols-1 gap-5 sm:grid-cols-2">
-              {relatedProjects.map((rp, i) => (
-                <RepoCard key={rp.id} project={rp} index={i} />
+              {related.map(({ project: rp, reasons }, i) => (
+                <div key={rp.id} className="flex flex-col">
+                  <div className="flex-1">
+                    <RepoCard project={rp} index={i} />
+                  </div>
+                  {reasons.length > 0 ? (
+                    <p className="border-2 border-t-0 border-[var(--line)] px-4 py-2 font-mono text-[11px] text-[var(--muted)]">
+                      <span className="font-bold text-[var(--ink)]">why similar · </span>
+                      {reasons.join(' · ')}
+                    </p>
+                  ) : null}
+                </div>
               ))}
             </div>
           </Reveal>
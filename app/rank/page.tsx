@@ -0,0 +1,134 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { getTopRepos, getTrendingRepos, resolveWeightPreset } from '@/lib/queries'
+import { BUILTIN_PRESETS, PRESET_POOL_SIZE, PRESET_SIGNALS, PresetError, builtinPreset, formatWeights } from '@/lib/presets'
+import RepoCard from '@/components/RepoCard'
+import PresetEditor from '@/components/PresetEditor'
+import type { RepoWithEnrichment } from '@/lib/database.types'
+
+// Rankings under a weight preset (lib/presets.ts): a built-in or saved one
+// (?preset=<slug>) or ad-hoc weights (?weights=stars:30,…). The URL is the
+// share link either way.
+
+export const metadata: Metadata = {
+  title: 'Rank Your Way — GitFind',
+  description: 'Re-rank the top GitHub projects by the signals your team cares about, and share the ranking by link.',
+  robots: { index: false, follow: true },
+}
+
+const LIST_SIZE = 12
+
+interface Props {
+  searchParams: Promise<{ preset?: string | string[]; weights?: string | string[] }>
+}
+
+function firstParam(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value
+}
+
+function SectionHeading({ n, title, fig }: { n: number; title: string; fig: string }) {
+  return (
+    <div className="mt-12 flex flex-col gap-1 font-mono text-[12px] text-[var(--muted)] sm:flex-row sm:items-baseline sm:justify-between">
+      <p className="font-bold tracking-[0.2em] text-[var(--ink)]">§ {n} — {title}</p>
+      <p>{fig}</p>
+    </div>
+  )
+}
+
+function Grid({ projects }: { projects: RepoWithEnrichment[] }) {
+  if (projects.length === 0) {
+    return (
+      <div className="mt-5 border-2 border-dashed border-[var(--line-soft)] py-16 text-center">
+        <p className="font-mono text-sm text-[var(--muted)]">no projects yet — the pipeline runs nightly.</p>
+      </div>
+    )
+  }
+  return (
+    <div className="mt-5 grid grid-cols-1 gap-5 sm:grid-cols-2">
+      {projects.map((project, i) => (
+        <RepoCard key={project.id} project={project} index={i} presetScore={project.preset_score} />
+      ))}
+    </div>
+  )
+}
+
+export default async function RankPage({ searchParams }: Props) {
+  const params = await searchParams
+  let error: string | null = null
+  let preset = builtinPreset('default')!
+  try {
+    preset = (await resolveWeightPreset({ preset: firstParam(params.preset), weights: firstParam(params.weights) })) ?? preset
+  } catch (err) {
+    if (!(err instanceof PresetError)) throw err
+    error = err.message
+  }
+
+  const [top, trending] = await Promise.all([
+    getTopRepos(LIST_SIZE, preset.weights),
+    getTrendingRepos(LIST_SIZE, preset.weights),
+  ])
+  const spec = formatWeights(preset.weights)
+
+  return (
+    <div>
+      <section className="halftone border-b-2 border-[var(--line)]">
+        <div className="mx-auto max-w-5xl px-4 pb-10 pt-10 sm:px-6 sm:pb-12 sm:pt-12">
+          <nav className="font-mono text-[11px] text-[var(--muted)]" aria-label="Breadcrumb">
+            <Link href="/" className="invert-hover px-1">index</Link>
+            <span className="mx-1">/</span>
+            <span className="text-[var(--ink)]">rank</span>
+          </nav>
+          <h1 className="font-display mt-5 text-2xl font-bold text-[var(--ink)] sm:text-4xl">RANK YOUR WAY</h1>
+          <p className="mt-4 max-w-2xl font-mono text-[14px] leading-[1.8] text-[var(--body)]">
+            The same signals as the early signal score, weighted the way your team reads a project. Every scored repo
+            is ranked from its stored signals — trending ranks the week’s top {PRESET_POOL_SIZE} movers; repos
+            without a package are scored without the download signals. Share the page link to share the ranking.
+          </p>
+          <div className="mt-5 flex flex-wrap items-center gap-2 font-mono text-[11.5px]">
+            {BUILTIN_PRESETS.map((p) => (
+              <Link
+                key={p.slug}
+                href={`/rank?preset=${p.slug}`}
+                className={`border-2 border-[var(--line)] px-3 py-1.5 ${
+                  p.slug === preset.slug ? 'bg-[var(--ink)] text-[var(--paper)]' : 'invert-hover bg-[var(--paper)] text-[var(--body)]'
+                }`}
+              >
+                {p.name.toLowerCase()}
+              </Link>
+            ))}
+            {!preset.builtin && (
+              <span className="border-2 border-[var(--line)] bg-[var(--ink)] px-3 py-1.5 text-[var(--paper)]">
+                {preset.name.toLowerCase()}
+              </span>
+            )}
+          </div>
+          {error && (
+            <p className="mt-4 font-mono text-[12px] font-bold text-[var(--negative)]" role="alert">
+              ✗ {error} — showing the early signal score instead.
+            </p>
+          )}
+        </div>
+      </section>
+
+      <main className="mx-auto max-w-5xl px-4 py-10 sm:px-6 sm:py-12">
+        <div className="flex flex-col gap-1 font-mono text-[12px] text-[var(--muted)] sm:flex-row sm:items-baseline sm:justify-between">
+          <p className="font-bold tracking-[0.2em] text-[var(--ink)]">§ 1 — weights</p>
+          <p>
+            {PRESET_SIGNALS.filter((s) => preset.weights[s.key] > 0)
+              .map((s) => `${s.label} ${Math.round(preset.weights[s.key])}%`)
+              .join(' · ')}
+          </p>
+        </div>
+        <div className="mt-5">
+          <PresetEditor key={spec} initial={preset.weights} initialName={preset.builtin ? '' : preset.name} />
+        </div>
+
+        <SectionHeading n={2} title="top ranked" fig="fig. 02" />
+        <Grid projects={top} />
+
+        <SectionHeading n={3} title="this week’s movers" fig="fig. 03" />
+        <Grid projects={trending} />
+      </main>
+    </div>
+  )
+}
@@ -1,6 +1,16 @@
 import type { Metadata } from 'next'
 import Link from 'next/link'
-import { searchRepos } from '@/lib/queries'
+import { searchCatalog } from '@/lib/queries'
+import { ApiParamError } from '@/lib/api'
+import {
+  SEARCH_MODES,
+  SEARCH_SORTS,
+  parseSearchParams,
+  searchQueryString,
+  type FacetCount,
+  type SearchParams,
+  type SearchResponse,
+} from '@/lib/search'
 import RepoCard from '@/components/RepoCard'
 import SearchBar from '@/components/SearchBar'
 
@@ -11,14 +21,85 @@ export const metadata: Metadata = {
 
 export const revalidate = 3600
 
+const SORT_LABELS: Record<(typeof SEARCH_SORTS)[number], string> = {
+  relevance: 'relevance',
+  score: 'score',
+  stars_7d: 'stars 7d',
+  newest: 'newest',
+}
+
+const STAR_BANDS: { label: string; minStars: number | null; maxStars: number | null }[] = [
+  { label: '< 1k', minStars: null, maxStars: 999 },
+  { label: '1k – 10k', minStars: 1000, maxStars: 9999 },
+  { label: '10k +', minStars: 10000, maxStars: null },
+]
+
+const ADDED_DAYS = [7, 30, 90]
+
+function toUrlParams(raw: Record<string, string | string[] | undefined>): URLSearchParams {
+  const out = new URLSearchParams()
+  for (const [key, value] of Object.entries(raw)) {
+    const first = Array.isArray(value) ? value[0] : value
+    if (first != null) out.set(key, first)
+  }
+  return out
+}
+
+function FacetLink({ href, active, label, count }: { href: string; active: boolean; label: string; count?: number }) {
+  return (
+    <li>
+      <Link
+        href={`/search${href}`}
+        className={`flex justify-between gap-2 px-1 ${active ? 'bg-[var(--ink)] text-[var(--paper)]' : 'invert-hover text-[var(--body)]'}`}
+      >
+        <span className="truncate">{label}</span>
+        {count != null ? <span className={active ? '' : 'text-[var(--muted)]'}>{count}</span> : null}
+      </Link>
+    </li>
+  )
+}
+
+function FacetGroup({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <p className="mb-1.5 font-bold tracking-[0.2em] text-[var(--ink)]">{title}</p>
+      <ul className="space-y-0.5">{children}</ul>
+    </div>
+  )
+}
+
+// One facet's values; clicking the selected value clears it
+function facetLinks(params: SearchParams, key: 'category' | 'language' | 'registry', values: FacetCount[]) {
+  return values.map((f) => {
+    const active = params[key] === f.value
+    return (
+      <FacetLink
+        key={f.value}
+        href={searchQueryString(params, { [key]: active ? null : f.value })}
+        active={active}
+        label={f.value}
+        count={f.count}
+      />
+    )
+  })
+}
+
 export default async function SearchPage({
   searchParams,
 }: {
-  searchParams: Promise<{ q?: string }>
+  searchParams: Promise<Record<string, string | string[] | undefined>>
 }) {
-  const { q } = await searchParams
-  const query = (q ?? '').trim()
-  const results = query.length >= 2 ? await searchRepos(query, 24) : []
+  const raw = toUrlParams(await searchParams)
+  let params: SearchParams | null = null
+  let paramError: string | null = null
+  try {
+    params = parseSearchParams(raw)
+  } catch (err) {
+    if (!(err instanceof ApiParamError)) throw err
+    paramError = err.message
+  }
+  const response: SearchResponse | null = params ? await searchCatalog(params) : null
+  const pages = response ? Math.max(1, Math.ceil(response.total / response.limit)) : 1
 
   return (
     <div>
@@ -34,38 +115,140 @@ export default async function SearchPage({
       </div>
 
       <main className="mx-auto max-w-5xl px-4 py-10 sm:px-6">
-        {query.length < 2 ? (
-          <p className="font-mono text-[13px] text-[var(--muted)]">
-            type at least 2 characters to search the catalog — repo names, owners, topics, languages.
+        {!params || !response ? (
+          <p className="font-mono text-[13px] text-[var(--negative)]">
+            {paramError} —{' '}
+            <Link href="/search" className="invert-hover px-1 font-bold text-[var(--ink)]">clear filters</Link>
           </p>
         ) : (
-          <>
-            <div className="flex flex-col gap-1 sm:flex-row sm:items-baseline sm:justify-between font-mono text-[12px] text-[var(--muted)]">
-              <p className="font-bold tracking-[0.2em] text-[var(--ink)]">
-                § 1 — results for “{query}”
-              </p>
-              <p>{results.length} {results.length === 1 ? 'entry' : 'entries'}</p>
-            </div>
-            {results.length === 0 ? (
-              <div className="mt-6 border-2 border-dashed border-[var(--line-soft)] py-16 text-center">
-                <p className="font-mono text-sm text-[var(--muted)]">
-                  nothing in the catalog matches “{query}” — yet. the pipeline discovers new repos nightly.
+          <div className="grid grid-cols-1 gap-8 lg:grid-cols-[200px_1fr]">
+            <aside className="space-y-6 font-mono text-[12px]">
+              {response.facets.tier.length > 0 ? (
+                <FacetGroup title="tier">
+                  {response.facets.tier.map((f) => {
+                    const active = params.tier === f.value
+                    return (
+                      <FacetLink
+                        key={f.value}
+                        href={searchQueryString(params, { tier: active ? null : (f.value as SearchParams['tier']) })}
+                        active={active}
+                        label={f.value.toLowerCase()}
+                        count={f.count}
+                      />
+                    )
+                  })}
+                </FacetGroup>
+              ) : null}
+              {response.facets.category.length > 0 ? (
+                <FacetGroup title="category">{facetLinks(params, 'category', response.facets.category)}</FacetGroup>
+              ) : null}
+              {response.facets.language.length > 0 ? (
+                <FacetGroup title="language">{facetLinks(params, 'language', response.facets.language)}</FacetGroup>
+              ) : null}
+              {response.facets.registry.length > 0 ? (
+                <FacetGroup title="registry">{facetLinks(params, 'registry', response.facets.registry)}</FacetGroup>
+              ) : null}
+              <FacetGroup title="stars">
+                {STAR_BANDS.map((b) => {
+                  const active = params.minStars === b.minStars && params.maxStars === b.maxStars
+                  return (
+                    <FacetLink
+                      key={b.label}
+                      href={searchQueryString(params, active ? { minStars: null, maxStars: null } : { minStars: b.minStars, maxStars: b.maxStars })}
+                      active={active}
+                      label={b.label}
+                    />
+                  )
+                })}
+              </FacetGroup>
+              <FacetGroup title="added">
+                {ADDED_DAYS.map((days) => {
+                  const active = params.addedDays === days
+                  return (
+                    <FacetLink
+                      key={days}
+                      href={searchQueryString(params, { addedDays: active ? null : days })}
+                      active={active}
+                      label={`last ${days} days`}
+                    />
+                  )
+                })}
+              </FacetGroup>
+            </aside>
+
+            <section>
+              <div className="flex flex-col gap-2 font-mono text-[12px] text-[var(--muted)] sm:flex-row sm:items-baseline sm:justify-between">
+                <p className="font-bold tracking-[0.2em] text-[var(--ink)]">
+                  § 1 — {params.q ? <>results for “{params.q}”</> : 'catalog'}
                 </p>
-                <p className="mt-3 font-mono text-xs text-[var(--muted)]">
-                  know it?{' '}
-                  <Link href="/submit" className="invert-hover px-1 font-bold text-[var(--ink)]">
-                    submit it →
-                  </Link>
+                <p>
+                  {response.total} {response.total === 1 ? 'entry' : 'entries'} · sort{' '}
+                  {SEARCH_SORTS.filter((s) => s !== 'relevance' || params.q).map((s) => (
+                    <Link
+                      key={s}
+                      href={`/search${searchQueryString(params, { sort: s })}`}
+                      className={`ml-1 px-1 ${params.sort === s ? 'bg-[var(--ink)] font-bold text-[var(--paper)]' : 'invert-hover'}`}
+                    >
+                      {SORT_LABELS[s]}
+                    </Link>
+                  ))}
+                  {params.q ? (
+                    <>
+                      {' · match '}
+                      {SEARCH_MODES.map((m) => (
+                        <Link
+                          key={m}
+                          href={`/search${searchQueryString(params, { mode: m })}`}
+                          className={`ml-1 px-1 ${response.mode === m ? 'bg-[var(--ink)] font-bold text-[var(--paper)]' : 'invert-hover'}`}
+                        >
+                          {m === 'lexical' ? 'keywords' : 'meaning'}
+                        </Link>
+                      ))}
+                    </>
+                  ) : null}
                 </p>
               </div>
-            ) : (
-              <div className="mt-6 grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3">
-                {results.map((project, i) => (
-                  <RepoCard key={project.id} project={project} index={i} digest />
-                ))}
-              </div>
-            )}
-          </>
+              {params.mode === 'semantic' && response.mode === 'lexical' && params.q ? (
+                <p className="mt-2 font-mono text-[11px] text-[var(--muted)]">
+                  semantic search is unavailable right now — showing keyword matches.
+                </p>
+              ) : null}
+              {response.results.length === 0 ? (
+                <div className="mt-6 border-2 border-dashed border-[var(--line-soft)] py-16 text-center">
+                  <p className="font-mono text-sm text-[var(--muted)]">
+                    nothing in the catalog matches{params.q ? ` “${params.q}”` : ' these filters'} — yet. the pipeline discovers new repos nightly.
+                  </p>
+                  <p className="mt-3 font-mono text-xs text-[var(--muted)]">
+                    know it?{' '}
+                    <Link href="/submit" className="invert-hover px-1 font-bold text-[var(--ink)]">
+                      submit it →
+                    </Link>
+                  </p>
+                </div>
+              ) : (
+                <div className="mt-6 grid grid-cols-1 gap-5 sm:grid-cols-2">
+                  {response.results.map((project, i) => (
+                    <RepoCard key={project.id} project={project} index={i} digest />
+                  ))}
+                </div>
+              )}
+              {pages > 1 ? (
+                <nav className="mt-8 flex items-center justify-between font-mono text-[12px] text-[var(--muted)]" aria-label="Pagination">
+                  {params.page > 1 ? (
+                    <Link href={`/search${searchQueryString(params, { page: params.page - 1 })}`} className="invert-hover px-1 font-bold text-[var(--ink)]">
+                      ← prev
+                    </Link>
+                  ) : <span />}
+                  <span>page {params.page} of {pages}</span>
+                  {params.page < pages ? (
+                    <Link href={`/search${searchQueryString(params, { page: params.page + 1 })}`} className="invert-hover px-1 font-bold text-[var(--ink)]">
+                      next →
+                    </Link>
+                  ) : <span />}
+                </nav>
+              ) : null}
+            </section>
+          </div>
         )}
       </main>
     </div>
@@ -1,19 +1,8 @@
 import type { MetadataRoute } from 'next'
-import { getAllReposForSitemap, getSnapshotDates, getDigests } from '@/lib/queries'
+import { getAllReposForSitemap, getSnapshotDates, getDigests, getTaxonomy } from '@/lib/queries'
 
 const BASE_URL = 'https://gitfind.ai'
 
-const CATEGORY_SLUGS = [
-  'ai-ml',
-  'developer-tools',
-  'security',
-  'data-analytics',
-  'web-frameworks',
-  'infrastructure-devops',
-  'mobile',
-  'open-source-utilities',
-]
-
 // Convert snapshot dates to unique week Sundays (YYYY-MM-DD)
 function getWeeklyDates(snapshotDates: string[]): string[] {
   const weeks = new Set<string>()
@@ -66,26 +55,35 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
       changeFrequency: 'weekly',
       priority: 0.3,
     },
+    {
+      url: `${BASE_URL}/compare`,
+      lastModified: new Date(),
+      changeFrequency: 'monthly',
+      priority: 0.4,
+    },
     {
       url: `${BASE_URL}/submit`,
       lastModified: new Date(),
       changeFrequency: 'monthly',
       priority: 0.5,
     },
-    ...CATEGORY_SLUGS.map((slug) => ({
-      url: `${BASE_URL}/category/${slug}`,
-      lastModified: new Date(),
-      changeFrequency: 'daily' as const,
-      priority: 0.9,
-    })),
   ]
 
-  const [repos, snapshotDates, digestIssues] = await Promise.all([
+  const [repos, snapshotDates, digestIssues, taxonomy] = await Promise.all([
     getAllReposForSitemap(),
     getSnapshotDates(),
     getDigests(52),
+    getTaxonomy(),
   ])
 
+  // Every node of the live taxonomy — roots rank above subcategories
+  const categoryRoutes: MetadataRoute.Sitemap = taxonomy.map((node) => ({
+    url: `${BASE_URL}/category/${node.slug}`,
+    lastModified: new Date(),
+    changeFrequency: 'daily' as const,
+    priority: node.parent_slug == null ? 0.9 : 0.8,
+  }))
+
   const projectRoutes: MetadataRoute.Sitemap = repos.map((repo) => ({
     url: `${BASE_URL}/project/${repo.owner}/${repo.name}`,
     lastModified: new Date(repo.updated_at),
@@ -123,5 +121,5 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     })),
   ]
 
-  return [...staticRoutes, ...insightsRoutes, ...digestRoutes, ...projectRoutes]
+  return [...staticRoutes, ...categoryRoutes, ...insightsRoutes, ...digestRoutes, ...projectRoutes]
 }
@@ -16,6 +16,7 @@ const NAV_LINKS = [
 const MOBILE_EXTRA = [
   { label: 'security', href: '/category/security' },
   { label: 'infrastructure', href: '/category/infrastructure-devops' },
+  { label: 'compare', href: '/compare' },
   { label: 'submit', href: '/submit' },
 ]
 
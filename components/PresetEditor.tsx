@@ -0,0 +1,126 @@
+'use client'
+
+// Weight preset editor on /rank — one number per signal. "Apply" re-ranks via
+// the URL (?weights=stars:30,…), which is itself a shareable link; "save"
+// stores the weights under a short slug (POST /api/presets) for a tidier one.
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { PRESET_SIGNALS, PresetError, formatWeights, normaliseWeights } from '@/lib/presets'
+import type { ScoreWeights } from '@/lib/score-models'
+
+type Status = 'idle' | 'saving' | 'saved' | 'error'
+
+export default function PresetEditor({ initial, initialName }: { initial: ScoreWeights; initialName: string }) {
+  const router = useRouter()
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(PRESET_SIGNALS.map((s) => [s.key, String(Math.round(initial[s.key] * 10) / 10)]))
+  )
+  const [name, setName] = useState(initialName)
+  const [status, setStatus] = useState<Status>('idle')
+  const [message, setMessage] = useState<string | null>(null)
+
+  // Scaled to 100 the same way the server parses them; null when invalid
+  function currentSpec(): string | null {
+    try {
+      const raw = Object.fromEntries(PRESET_SIGNALS.map((s) => [s.key, Number(values[s.key] || 0)]))
+      if (Object.values(raw).some((v) => !Number.isFinite(v) || v < 0)) throw new PresetError('weights must be 0 or more')
+      return formatWeights(normaliseWeights(raw))
+    } catch (err) {
+      setStatus('error')
+      setMessage(err instanceof PresetError ? err.message : 'invalid weights')
+      return null
+    }
+  }
+
+  function apply(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    const spec = currentSpec()
+    if (!spec) return
+    setStatus('idle')
+    setMessage(null)
+    router.push(`/rank?weights=${spec}`)
+  }
+
+  async function save() {
+    const spec = currentSpec()
+    if (!spec || status === 'saving') return
+    setStatus('saving')
+    setMessage(null)
+    try {
+      const res = await fetch('/api/presets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), weights: spec }),
+      })
+      const data = (await res.json()) as { path?: string; error?: string }
+      if (!res.ok || !data.path) {
+        setStatus('error')
+        setMessage(data.error ?? 'could not save the preset')
+        return
+      }
+      setStatus('saved')
+      setMessage(`${window.location.origin}${data.path}`)
+      router.push(data.path)
+    } catch {
+      setStatus('error')
+      setMessage('network error. please try again.')
+    }
+  }
+
+  return (
+    <form onSubmit={apply} className="border-2 border-[var(--line)] bg-[var(--paper)]">
+      <p className="border-b-2 border-[var(--line)] px-4 py-2 font-mono text-[11px] text-[var(--muted)]">
+        fig. 01 — weights, scaled to 100
+      </p>
+      <div className="grid grid-cols-1 gap-x-6 gap-y-2 p-4 font-mono text-[12px] sm:grid-cols-3">
+        {PRESET_SIGNALS.map((s) => (
+          <label key={s.key} className="flex items-center justify-between gap-3 text-[var(--body)]">
+            {s.label}
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={values[s.key]}
+              onChange={(e) => setValues({ ...values, [s.key]: e.target.value })}
+              className="w-20 border-2 border-[var(--line)] bg-transparent px-2 py-1 text-right text-[var(--ink)] focus:bg-white focus:outline-none"
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-col gap-3 border-t-2 border-[var(--line)] p-4 font-mono text-[12px] sm:flex-row sm:items-center">
+        <button
+          type="submit"
+          className="border-2 border-[var(--line)] bg-[var(--ink)] px-3.5 py-1.5 font-bold text-[var(--paper)]"
+        >
+          apply
+        </button>
+        <input
+          type="text"
+          value={name}
+          maxLength={60}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="preset name"
+          aria-label="Preset name"
+          className="min-w-0 flex-1 border-2 border-[var(--line)] bg-transparent px-2 py-1.5 text-[var(--ink)] placeholder:text-[var(--muted)] focus:bg-white focus:outline-none"
+        />
+        <button
+          type="button"
+          onClick={() => void save()}
+          disabled={status === 'saving' || !name.trim()}
+          className="invert-hover border-2 border-[var(--line)] bg-[var(--paper)] px-3.5 py-1.5 font-bold text-[var(--ink)] disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {status === 'saving' ? 'saving…' : 'save & share'}
+        </button>
+      </div>
+      {message && (
+        <p
+          className={`border-t-2 border-[var(--line)] px-4 py-2 font-mono text-[11.5px] ${status === 'error' ? 'text-[var(--negative)]' : 'text-[var(--body)]'}`}
+          role={status === 'error' ? 'alert' : 'status'}
+        >
+          {status === 'saved' ? <>share link: <b className="text-[var(--ink)] break-all">{message}</b></> : `✗ ${message}`}
+        </p>
+      )}
+    </form>
+  )
+}
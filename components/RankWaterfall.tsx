@@ -0,0 +1,65 @@
+// "Why did this move?" — a rank diff (lib/rank-diff.ts) as a waterfall: last
+// week's score, one bar per signal that moved it (rising in --positive,
+// falling in --negative), and this week's score. Totals start at the left edge
+// of the scale, which is fitted to the scores rather than 0–100.
+
+import Link from 'next/link'
+import { describeRankDiff, formatPoints, waterfall, type RankDiff } from '@/lib/rank-diff'
+
+function rankLine(diff: RankDiff): string | null {
+  if (diff.from.rank == null || diff.to.rank == null || diff.rank_delta == null) return null
+  const move = diff.rank_delta > 0 ? `▲ ${diff.rank_delta}` : diff.rank_delta < 0 ? `▼ ${-diff.rank_delta}` : 'unchanged'
+  return `rank #${diff.from.rank} → #${diff.to.rank} (${move})`
+}
+
+export default function RankWaterfall({ diff, repo }: { diff: RankDiff; repo?: { owner: string; name: string } }) {
+  const { bars, lo, hi } = waterfall(diff)
+  const pct = (v: number) => ((Math.min(hi, Math.max(lo, v)) - lo) / (hi - lo)) * 100
+  const rank = rankLine(diff)
+
+  return (
+    <figure className="border-2 border-[var(--line)] bg-[var(--paper)]" aria-label={describeRankDiff(diff)}>
+      <figcaption className="flex items-baseline justify-between gap-3 border-b-2 border-[var(--line)] px-4 py-2 font-mono text-[11px] text-[var(--muted)]">
+        {repo ? (
+          <Link href={`/project/${repo.owner}/${repo.name}`} className="invert-hover min-w-0 truncate px-1 text-[var(--ink)]">
+            {repo.owner}/{repo.name}
+          </Link>
+        ) : (
+          <span>why it moved</span>
+        )}
+        <span className="shrink-0">{rank ?? `score ${formatPoints(diff.score_delta)}`}</span>
+      </figcaption>
+      <div className="space-y-1 p-4 font-mono text-[11px]">
+        {bars.map((bar, i) => {
+          const left = bar.kind === 'total' ? 0 : pct(Math.min(bar.start, bar.end))
+          const right = pct(bar.kind === 'total' ? bar.end : Math.max(bar.start, bar.end))
+          const fill = bar.kind === 'up' ? 'bg-[var(--positive)]' : bar.kind === 'down' ? 'bg-[var(--negative)]' : 'bg-[var(--ink)]'
+          return (
+            <div key={`${bar.label}-${i}`} className="flex items-center gap-3">
+              <span className={`w-32 shrink-0 truncate ${bar.kind === 'total' ? 'text-[var(--ink)]' : 'text-[var(--body)]'}`}>
+                {bar.label}
+              </span>
+              <span className="relative h-3 flex-1 border-l border-[var(--line-soft)]">
+                <span
+                  className={`absolute inset-y-0 ${fill}`}
+                  style={{ left: `${left}%`, width: `${Math.max(right - left, 0.75)}%` }}
+                />
+              </span>
+              <span
+                className={`w-12 shrink-0 text-right ${
+                  bar.kind === 'up' ? 'text-[var(--positive)]' : bar.kind === 'down' ? 'text-[var(--negative)]' : 'font-bold text-[var(--ink)]'
+                }`}
+              >
+                {bar.kind === 'total' ? bar.end : formatPoints(bar.delta)}
+              </span>
+            </div>
+          )
+        })}
+        <p className="pt-2 text-[10px] text-[var(--muted)]">
+          scale {lo}–{hi}
+          {diff.model_changed ? ` · scoring model changed ${diff.from.model_version} → ${diff.to.model_version}` : ''}
+        </p>
+      </div>
+    </figure>
+  )
+}
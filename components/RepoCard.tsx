@@ -1,6 +1,8 @@
 // Catalog-entry repo card — the production RepoCard (1-bit design system).
 // Repo name and summary are the stars; metadata is secondary; every score
 // shows /100 + tier + methodology tooltip; deltas always carry a timeframe.
+// Low- and medium-confidence scores say so under the tier chip. Lists ranked
+// by a weight preset (lib/presets.ts) show the preset score there too.
 
 import Link from 'next/link'
 import type { RepoWithEnrichment } from '@/lib/database.types'
@@ -14,6 +16,7 @@ import {
   categorySlug,
   truncateAtWord,
 } from '@/lib/design'
+import { isSuspectEnrichment } from '@/lib/enrichment-quality'
 
 interface RepoCardProps {
   project: RepoWithEnrichment
@@ -22,6 +25,8 @@ interface RepoCardProps {
   pct7d?: number | null
   /** Index mode: word-boundary-clamped summary + why-it-matters for dense grids. */
   digest?: boolean
+  /** Score under the weight preset the list is ranked by. */
+  presetScore?: number | null
 }
 
 function tierChipClass(tier: string): string {
@@ -30,20 +35,24 @@ function tierChipClass(tier: string): string {
   return 'bg-[var(--tier-active)]'
 }
 
-export default function RepoCard({ project, index, stars7d, pct7d, digest = false }: RepoCardProps) {
+export default function RepoCard({ project, index, stars7d, pct7d, digest = false, presetScore }: RepoCardProps) {
   const { owner, name } = project
   const enrichment = project.enrichment
   const score = enrichment?.early_signal_score ?? 0
   const tier = tierFor(score)
+  const confidence = enrichment?.score_confidence ?? null
   const hasDelta = typeof stars7d === 'number' && stars7d > 0
   const positive = pct7d == null || pct7d >= 0
 
-  const summary = enrichment?.summary
+  // A summary that failed the fact check gives way to the repo's own description
+  const suspect = isSuspectEnrichment(enrichment?.quality_flags)
+  const summarySource = suspect ? project.description : enrichment?.summary
+  const summary = summarySource
     ? digest
-      ? truncateAtWord(enrichment.summary, 170)
-      : enrichment.summary
+      ? truncateAtWord(summarySource, 170)
+      : summarySource
     : null
-  const whyItMatters = enrichment?.why_it_matters
+  const whyItMatters = !suspect && enrichment?.why_it_matters
     ? digest
       ? truncateAtWord(enrichment.why_it_matters, 150)
       : enrichment.why_it_matters
@@ -84,11 +93,24 @@ export default function RepoCard({ project, index, stars7d, pct7d, digest = fals
             <p className={`mt-1 inline-block px-1.5 text-[10px] font-bold uppercase tracking-wider text-[var(--paper)] ${tierChipClass(tier)}`}>
               {tier}
             </p>
+            {confidence && confidence !== 'high' ? (
+              <p
+                className="mt-1 text-[10px] text-[var(--muted)]"
+                title="Part of this score rests on defaulted inputs — a new repo or missing data. Details on the project page."
+              >
+                {confidence} confidence
+              </p>
+            ) : null}
+            {typeof presetScore === 'number' ? (
+              <p className="mt-1 text-[10px] text-[var(--muted)]" title="Score under the weight preset this list is ranked by">
+                preset <b className="text-[var(--ink)]">{presetScore}</b>
+              </p>
+            ) : null}
           </div>
         </div>
 
         {summary ? (
-          <p className="mt-2.5 font-mono text-[13px] leading-[1.8] text-[var(--body)]" title={digest ? enrichment?.summary ?? undefined : undefined}>
+          <p className="mt-2.5 font-mono text-[13px] leading-[1.8] text-[var(--body)]" title={digest ? summarySource ?? undefined : undefined}>
             {summary}
           </p>
         ) : null}
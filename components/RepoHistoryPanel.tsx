@@ -0,0 +1,61 @@
+'use client'
+
+// Project-page history: one VolumeChart, a tab per metric. Stars and forks
+// are shown as daily gains (the volume strip), downloads as daily downloads;
+// score, open issues and 4-week commits are levels. Metric data arrives pre-shaped
+// from the server page — this component only switches between them.
+
+import { useState } from 'react'
+import VolumeChart from '@/components/VolumeChart'
+import type { ChartAnnotation, VolumePoint } from '@/lib/volume'
+
+export interface HistoryMetric {
+  key: string
+  label: string
+  unit: string
+  mode: 'sum' | 'level'
+  data: VolumePoint[]
+}
+
+export default function RepoHistoryPanel({
+  repo,
+  metrics,
+  annotations,
+}: {
+  repo: string
+  metrics: HistoryMetric[]
+  annotations: ChartAnnotation[]
+}) {
+  const [active, setActive] = useState(metrics[0]?.key)
+  const metric = metrics.find((m) => m.key === active) ?? metrics[0]
+  if (!metric) return null
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap gap-x-4 gap-y-1 font-mono text-[11px]" role="tablist" aria-label="Metric">
+        {metrics.map((m) => (
+          <button
+            key={m.key}
+            role="tab"
+            aria-selected={m.key === metric.key}
+            onClick={() => setActive(m.key)}
+            className={`px-1 font-bold ${
+              m.key === metric.key ? 'bg-[var(--ink)] text-[var(--paper)]' : 'text-[var(--muted)] invert-hover'
+            }`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+      <VolumeChart
+        key={metric.key}
+        data={metric.data}
+        unit={metric.unit}
+        mode={metric.mode}
+        annotations={annotations}
+        description={`${repo} — ${metric.label}`}
+        storageKey="gf-project-history-range"
+      />
+    </div>
+  )
+}
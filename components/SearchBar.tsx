@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import Link from 'next/link'
 import type { RepoWithEnrichment } from '@/lib/database.types'
+import type { SearchResponse } from '@/lib/search'
 
 type SearchResult = RepoWithEnrichment
 
@@ -37,9 +38,9 @@ export default function SearchBar() {
 
     setIsLoading(true)
     try {
-      const res = await fetch(`/api/search?q=${encodeURIComponent(q)}`)
+      const res = await fetch(`/api/search?q=${encodeURIComponent(q)}&limit=10`)
       if (res.ok) {
-        const data = (await res.json()) as SearchResult[]
+        const data = ((await res.json()) as SearchResponse).results
         setResults(data)
         setIsOpen(data.length > 0)
         setActiveIndex(-1)
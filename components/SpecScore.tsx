@@ -2,11 +2,23 @@
 // /100 numeral, tier chip, one-line explainer, methodology link, per-signal
 // gauges with weights, and evidence popovers with the raw inputs behind each
 // signal. Manipulation penalty shown when present, with its own evidence.
+// Weights are read from the scoring model recorded in the breakdown; peer
+// percentiles (rank within the repo's category or language) sit beside each
+// signal when the breakdown carries them. The stargazer check (lib/star-quality.ts)
+// shows its fake-star probability and reasons when the repo was sampled within
+// STAR_QUALITY_MAX_AGE_DAYS, the window in which the sample feeds the penalty.
+// Confidence (lib/score.ts scoreConfidence) says how much of the score rests
+// on measured data; signals that defaulted to 0 are marked "no data".
+// Signals the model gives no weight are hidden. For repos without package
+// downloads the weights shown are the model's, reweighted without them.
 
 import Link from 'next/link'
 import { gauge, tierFor, tierExplainer, SCORE_EXPLAINER, formatCount } from '@/lib/design'
 import Evidence from '@/components/Evidence'
 import type { RepoEvidence } from '@/lib/queries'
+import { effectiveWeights, modelVersionOf, weightsFor, type SignalKey } from '@/lib/score-models'
+import { FAKE_STAR_MIN_PROBABILITY, type ScoreConfidence } from '@/lib/score'
+import { describeStarQuality } from '@/lib/star-quality'
 
 export interface SpecScoreBreakdown {
   star_velocity_score: number
@@ -16,22 +28,42 @@ export interface SpecScoreBreakdown {
   commit_frequency_score: number
   star_acceleration_score?: number
   fork_acceleration_score?: number
+  download_velocity_score?: number
+  download_acceleration_score?: number
   manipulation_penalty: number
+  model_version?: string
+  peer?: {
+    group: string
+    sample_size: number
+    percentiles: Partial<Record<SignalKey, number>>
+    applied: boolean
+  }
+  confidence?: ScoreConfidence
+}
+
+/** A stored score_breakdown as SpecScore props, or null when it isn't one. */
+export function parseBreakdown(raw: unknown): SpecScoreBreakdown | null {
+  if (!raw || typeof raw !== 'object') return null
+  const obj = raw as Record<string, unknown>
+  if (typeof obj.star_velocity_score !== 'number') return null
+  return obj as unknown as SpecScoreBreakdown
 }
 
 type EvidenceBundle = RepoEvidence & { contributors: number }
 
-const SIGNALS: { key: keyof SpecScoreBreakdown; label: string; weight: number }[] = [
-  { key: 'star_velocity_score', label: 'star growth', weight: 25 },
-  { key: 'contributor_ratio_score', label: 'active builders', weight: 20 },
-  { key: 'mention_velocity_score', label: 'community buzz', weight: 15 },
-  { key: 'commit_frequency_score', label: 'commit pace', weight: 10 },
-  { key: 'fork_velocity_score', label: 'fork activity', weight: 10 },
-  { key: 'star_acceleration_score', label: 'star momentum', weight: 10 },
-  { key: 'fork_acceleration_score', label: 'fork momentum', weight: 10 },
+const SIGNALS: { key: SignalKey; label: string }[] = [
+  { key: 'star_velocity_score', label: 'star growth' },
+  { key: 'contributor_ratio_score', label: 'active builders' },
+  { key: 'mention_velocity_score', label: 'community buzz' },
+  { key: 'commit_frequency_score', label: 'commit pace' },
+  { key: 'fork_velocity_score', label: 'fork activity' },
+  { key: 'star_acceleration_score', label: 'star momentum' },
+  { key: 'fork_acceleration_score', label: 'fork momentum' },
+  { key: 'download_velocity_score', label: 'downloads' },
+  { key: 'download_acceleration_score', label: 'download momentum' },
 ]
 
-function evidenceFor(key: keyof SpecScoreBreakdown, ev: EvidenceBundle): string {
+function evidenceFor(key: SignalKey, ev: EvidenceBundle): string {
   switch (key) {
     case 'star_velocity_score':
       return `+${formatCount(ev.stars_7d)} stars this week${ev.stars_7d_prev != null ? ` · ${formatCount(ev.stars_7d_prev)} the week before` : ''}`
@@ -47,11 +79,33 @@ function evidenceFor(key: keyof SpecScoreBreakdown, ev: EvidenceBundle): string
       return `${formatCount(ev.stars_7d)}/wk this week vs ${formatCount(ev.stars_7d_prev ?? 0)}/wk last week`
     case 'fork_acceleration_score':
       return `${formatCount(ev.forks_7d ?? 0)}/wk this week vs ${formatCount(ev.forks_7d_prev ?? 0)}/wk last week`
+    case 'download_velocity_score':
+      return 'weekly package downloads, scaled to the registry (npm, pypi, crates.io)'
+    case 'download_acceleration_score':
+      return 'package downloads this week vs the week before'
     default:
       return ''
   }
 }
 
+// "category:Security" → "Security", "language:Rust" → "Rust"
+function peerLabel(group: string): string {
+  return group.slice(group.indexOf(':') + 1)
+}
+
+function starQualityEvidence(q: NonNullable<RepoEvidence['star_quality']>): string {
+  const reasons = describeStarQuality(q.features)
+  const body = reasons.length > 0 ? reasons.join(' · ') : 'established accounts, no tight bursts of stars'
+  return `${q.sample_size} most recent stargazers sampled: ${body}`
+}
+
+function confidenceDetail(c: ScoreConfidence): string {
+  const parts = [`${c.completeness}% of the score from measured data`]
+  if (c.history_days != null) parts.push(`${c.history_days} day${c.history_days === 1 ? '' : 's'} of history`)
+  if (c.hn_lookup_ok === false) parts.push('hacker news lookup failed')
+  return parts.join(' · ')
+}
+
 function tierChipClass(tier: string): string {
   if (tier === 'Breakout') return 'bg-[var(--tier-breakout)]'
   if (tier === 'Hot') return 'bg-[var(--tier-hot)]'
@@ -70,6 +124,13 @@ export default function SpecScore({
   evidence?: EvidenceBundle
 }) {
   const tier = tierFor(score)
+  const modelVersion = breakdown ? modelVersionOf(breakdown) : null
+  const modelWeights = modelVersion ? weightsFor(modelVersion) : null
+  const weights = modelWeights && breakdown
+    ? effectiveWeights(modelWeights, typeof breakdown.download_velocity_score === 'number')
+    : null
+  const peer = breakdown?.peer
+  const confidence = breakdown?.confidence
   return (
     <div className="border-2 border-[var(--line)] bg-[var(--paper)]" title={SCORE_EXPLAINER}>
       <p className="flex items-center justify-between border-b-2 border-[var(--line)] px-4 py-2 font-mono text-[11px] text-[var(--muted)]">
@@ -96,11 +157,18 @@ export default function SpecScore({
           70+ breakout · 40–69 hot · under 40 active.
         </p>
 
+        {confidence && (
+          <p className={`mt-2 text-[11px] ${confidence.level === 'low' ? 'text-[var(--negative)]' : 'text-[var(--muted)]'}`}>
+            confidence: <b className="uppercase">{confidence.level}</b> · {confidenceDetail(confidence)}
+          </p>
+        )}
+
         {breakdown ? (
           <div className="mt-4 space-y-1.5 border-t-2 border-[var(--line)] pt-3">
-            {SIGNALS.map(({ key, label, weight }) => {
+            {SIGNALS.map(({ key, label }) => {
               const value = breakdown[key]
-              if (typeof value !== 'number') return null
+              const weight = weights ? Math.round(weights[key]) : undefined
+              if (typeof value !== 'number' || weight === 0) return null
               const valueEl = <b className="text-[var(--ink)]">{value}</b>
               return (
                 <p key={key} className="text-[11px] text-[var(--body)]">
@@ -112,6 +180,19 @@ export default function SpecScore({
                     valueEl
                   )}{' '}
                   <span className="text-[var(--muted)]">({weight}%)</span>
+                  {confidence?.defaulted.includes(key) && (
+                    <span className="text-[var(--muted)]" title="not measured yet — scored as 0">
+                      {' '}· no data
+                    </span>
+                  )}
+                  {peer?.percentiles[key] != null && (
+                    <span
+                      className="text-[var(--muted)]"
+                      title={`${peer.percentiles[key]}th percentile among ${peer.sample_size} ${peerLabel(peer.group)} repos`}
+                    >
+                      {' '}· p{peer.percentiles[key]}
+                    </span>
+                  )}
                 </p>
               )
             })}
@@ -128,10 +209,25 @@ export default function SpecScore({
                 points
               </p>
             )}
+            {evidence?.star_quality && (
+              <p
+                className={`pt-1 text-[11px] ${evidence.star_quality.fake_star_probability >= FAKE_STAR_MIN_PROBABILITY ? 'text-[var(--negative)]' : 'text-[var(--muted)]'}`}
+              >
+                stargazer check:{' '}
+                <Evidence label={starQualityEvidence(evidence.star_quality)}>
+                  {Math.round(evidence.star_quality.fake_star_probability * 100)}%
+                </Evidence>{' '}
+                likely fake stars
+              </p>
+            )}
           </div>
         ) : null}
 
-        <p className="mt-3 text-[10px] text-[var(--muted)]">measured {scoredAt}</p>
+        <p className="mt-3 text-[10px] text-[var(--muted)]">
+          measured {scoredAt}
+          {modelVersion ? ` · model ${modelVersion}` : ''}
+          {peer ? ` · p = percentile vs ${peer.sample_size} ${peerLabel(peer.group)} repos${peer.applied ? ' (scored on percentiles)' : ''}` : ''}
+        </p>
       </div>
     </div>
   )
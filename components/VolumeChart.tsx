@@ -1,11 +1,15 @@
 'use client'
 
-// Total commit volume with selectable time range: 7d / 1m / 6m / ytd / 1y / all.
+// Daily volume with selectable time range: 7d / 1m / 6m / ytd / 1y / all —
+// AI Code Index commits, and per-metric history on the project page.
 // Every range shows daily ticks (the stock-chart volume strip) — no weekly
 // aggregation, so every bar is a complete day. The range total is the hero.
+// `mode="level"` is for point-in-time values (open issues, rolling windows):
+// the hero becomes the latest value and its change across the range.
+// `annotations` pin anomaly / release / tier-change markers to their day.
 
 import { useEffect, useMemo, useState } from 'react'
-import BarChart from '@/components/charts/BarChart'
+import BarChart, { MARKER_GLYPHS } from '@/components/charts/BarChart'
 import { formatCount } from '@/lib/design'
 import {
   RANGE_KEYS,
@@ -14,6 +18,9 @@ import {
   rangeTotal,
   priorSpanDelta,
   labelEvery,
+  levelChange,
+  placeAnnotations,
+  type ChartAnnotation,
   type RangeKey,
   type VolumePoint,
 } from '@/lib/volume'
@@ -26,15 +33,34 @@ function shortDate(iso: string): string {
 }
 
 const STORAGE_KEY = 'gf-volume-range'
+const MAX_LISTED_MARKERS = 8
 
-export default function VolumeChart({ data }: { data: VolumePoint[] }) {
+interface VolumeChartProps {
+  data: VolumePoint[]
+  unit?: string
+  mode?: 'sum' | 'level'
+  annotations?: ChartAnnotation[]
+  description?: string // aria label lead-in
+  storageKey?: string
+}
+
+const NO_ANNOTATIONS: ChartAnnotation[] = []
+
+export default function VolumeChart({
+  data,
+  unit = 'commits',
+  mode = 'sum',
+  annotations = NO_ANNOTATIONS,
+  description = 'Daily AI coding tool commits',
+  storageKey = STORAGE_KEY,
+}: VolumeChartProps) {
   const [range, setRangeState] = useState<RangeKey>('6m')
   const [hoverIdx, setHoverIdx] = useState<number | null>(null)
 
   // Restore the visitor's last range on return visits (SSR renders 6m first)
   useEffect(() => {
     const sync = () => {
-      const saved = window.localStorage.getItem(STORAGE_KEY)
+      const saved = window.localStorage.getItem(storageKey)
       if (saved && (RANGE_KEYS as readonly string[]).includes(saved)) {
         setRangeState(saved as RangeKey)
       }
@@ -42,16 +68,18 @@ export default function VolumeChart({ data }: { data: VolumePoint[] }) {
     sync()
     window.addEventListener('focus', sync)
     return () => window.removeEventListener('focus', sync)
-  }, [])
+  }, [storageKey])
 
   function setRange(next: RangeKey) {
     setRangeState(next)
-    window.localStorage.setItem(STORAGE_KEY, next)
+    window.localStorage.setItem(storageKey, next)
   }
 
   const points = useMemo(() => sliceRange(data, range), [data, range])
   const total = useMemo(() => rangeTotal(points), [points])
   const delta = useMemo(() => priorSpanDelta(data, points), [data, points])
+  const change = useMemo(() => levelChange(points), [points])
+  const markers = useMemo(() => placeAnnotations(points, annotations), [points, annotations])
 
   const chartData = points.map((p) => ({ label: shortDate(p.date), value: p.value }))
   const latest = points[points.length - 1]
@@ -87,18 +115,34 @@ export default function VolumeChart({ data }: { data: VolumePoint[] }) {
             </button>
           ))}
         </div>
-        <p className="font-mono text-[13px] text-[var(--muted)]">
-          <b className="text-[15px] text-[var(--ink)]">{formatCount(total)}</b> commits · {RANGE_LABELS[range]}
-          {delta != null ? (
-            <>
-              {' · '}
-              <b className="text-[var(--ink)]">
-                {delta >= 0 ? '▲' : '▼'} {Math.abs(delta)}%
-              </b>{' '}
-              vs prior span
-            </>
-          ) : null}
-        </p>
+        {mode === 'level' ? (
+          <p className="font-mono text-[13px] text-[var(--muted)]">
+            <b className="text-[15px] text-[var(--ink)]">{latest ? formatCount(latest.value) : '—'}</b> {unit}
+            {change != null ? (
+              <>
+                {' · '}
+                <b className="text-[var(--ink)]">
+                  {change.change >= 0 ? '▲' : '▼'} {formatCount(Math.abs(change.change))}
+                  {change.pct != null ? ` (${Math.abs(change.pct)}%)` : ''}
+                </b>{' '}
+                over {RANGE_LABELS[range]}
+              </>
+            ) : null}
+          </p>
+        ) : (
+          <p className="font-mono text-[13px] text-[var(--muted)]">
+            <b className="text-[15px] text-[var(--ink)]">{formatCount(total)}</b> {unit} · {RANGE_LABELS[range]}
+            {delta != null ? (
+              <>
+                {' · '}
+                <b className="text-[var(--ink)]">
+                  {delta >= 0 ? '▲' : '▼'} {Math.abs(delta)}%
+                </b>{' '}
+                vs prior span
+              </>
+            ) : null}
+          </p>
+        )}
       </div>
 
       {/* Hover readout — the day under the pointer, or the latest complete day */}
@@ -107,7 +151,7 @@ export default function VolumeChart({ data }: { data: VolumePoint[] }) {
           <>
             <b className="text-[var(--ink)]">{shortDate(hovered.date)}</b>
             {' · '}
-            <b className="text-[var(--ink)]">{formatCount(hovered.value)}</b> commits
+            <b className="text-[var(--ink)]">{formatCount(hovered.value)}</b> {unit}
           </>
         ) : latest ? (
           <>
@@ -119,10 +163,23 @@ export default function VolumeChart({ data }: { data: VolumePoint[] }) {
       <div onPointerMove={handlePointer} onPointerDown={handlePointer} onPointerLeave={() => setHoverIdx(null)}>
         <BarChart
           data={chartData}
-          ariaLabel={`Daily AI coding tool commits, ${RANGE_LABELS[range]} — latest complete day ${latest ? shortDate(latest.date) : ''}`}
+          ariaLabel={`${description}, ${RANGE_LABELS[range]} — latest complete day ${latest ? shortDate(latest.date) : ''}`}
           labelEvery={labelEvery(points.length)}
+          unit={unit}
+          markers={markers}
         />
       </div>
+
+      {markers.length > 0 ? (
+        <ul className="mt-3 space-y-1 font-mono text-[11px] text-[var(--body)]">
+          {markers.slice(-MAX_LISTED_MARKERS).map((m, i) => (
+            <li key={`${m.date}-${i}`}>
+              <span className="text-[var(--ink)]">{MARKER_GLYPHS[m.kind]}</span>{' '}
+              <b className="text-[var(--ink)]">{shortDate(m.date)}</b> — {m.label}
+            </li>
+          ))}
+        </ul>
+      ) : null}
     </div>
   )
 }
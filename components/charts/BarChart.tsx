@@ -1,9 +1,19 @@
 // Server-rendered 1-bit bar chart — solid ink bars, dashed gridlines,
 // accent latest bar with direct value label. Bars grow from baseline on
 // first view (parent with .is-visible starts the paused animation).
+// Optional markers draw a dashed rule over a bar — ▲ anomaly, ◆ release,
+// ● tier change.
 
 import { formatCount } from '@/lib/design'
 
+export interface BarMarker {
+  index: number
+  kind: 'anomaly' | 'release' | 'tier'
+  label: string
+}
+
+export const MARKER_GLYPHS: Record<BarMarker['kind'], string> = { anomaly: '▲', release: '◆', tier: '●' }
+
 interface BarChartProps {
   data: { label: string; value: number }[]
   ariaLabel: string
@@ -12,6 +22,8 @@ interface BarChartProps {
   accentLast?: boolean
   labelEvery?: number
   height?: number
+  unit?: string
+  markers?: BarMarker[]
 }
 
 export default function BarChart({
@@ -22,6 +34,8 @@ export default function BarChart({
   accentLast = true,
   labelEvery = 10,
   height = 190,
+  unit = 'commits',
+  markers = [],
 }: BarChartProps) {
   const W = 680
   const H = height
@@ -70,10 +84,29 @@ export default function BarChart({
             stroke={isLast ? 'var(--ink)' : 'none'}
             strokeWidth={isLast ? 2 : 0}
           >
-            <title>{`${data[i].label} — ${formatValue(v)} commits`}</title>
+            <title>{`${data[i].label} — ${formatValue(v)} ${unit}`}</title>
           </rect>
         )
       })}
+      {markers.map((m, i) => {
+        const x = m.index * barW + barW / 2
+        return (
+          <g key={`${m.index}-${i}`}>
+            <title>{`${data[m.index]?.label ?? ''} — ${m.label}`}</title>
+            <line x1={x} x2={x} y1={padTop + 6} y2={H - padBottom} stroke="var(--ink)" strokeWidth={1} strokeDasharray="3 3" />
+            <text
+              x={x}
+              y={padTop + 6}
+              textAnchor="middle"
+              fontSize={9}
+              fill="var(--ink)"
+              fontFamily="var(--font-geist-mono), ui-monospace, monospace"
+            >
+              {MARKER_GLYPHS[m.kind]}
+            </text>
+          </g>
+        )
+      })}
       {accentLast && (
         <text
           x={W - 4}
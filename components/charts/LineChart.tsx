@@ -0,0 +1,137 @@
+// Server-rendered 1-bit line chart — several series on one shared axis,
+// told apart by dash pattern (print-style, no color), with a direct value
+// label at each line's end and a dash-keyed legend below. Null values are
+// gaps, not zeros. `logScale` keeps a 2k-star repo visible next to a 200k one.
+
+import { formatCount } from '@/lib/design'
+
+export const SERIES_DASHES = ['', '8 4', '2 3', '10 3 2 3'] as const
+
+interface LineSeries {
+  label: string
+  values: (number | null)[] // aligned to `dates`
+}
+
+interface LineChartProps {
+  dates: string[]
+  series: LineSeries[]
+  ariaLabel: string
+  formatValue?: (n: number) => string
+  logScale?: boolean
+  height?: number
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+function shortDate(iso: string): string {
+  const [, m, d] = iso.split('-').map(Number)
+  return `${MONTHS[(m ?? 1) - 1]} ${d}`
+}
+
+export default function LineChart({
+  dates,
+  series,
+  ariaLabel,
+  formatValue = formatCount,
+  logScale = false,
+  height = 200,
+}: LineChartProps) {
+  const W = 680
+  const H = height
+  const padTop = 10
+  const padBottom = 20
+  const padRight = 56 // room for end labels
+  const all = series.flatMap((s) => s.values.filter((v): v is number => v != null))
+  const max = Math.max(...all, 1)
+  const min = logScale ? Math.max(Math.min(...all.filter((v) => v > 0), max), 1) : 0
+  const t = (v: number) => (logScale ? Math.log10(Math.max(v, 1)) : v)
+  const y = (v: number) => {
+    const span = t(max) - t(min) || 1
+    return H - padBottom - ((t(v) - t(min)) / span) * (H - padTop - padBottom)
+  }
+  const x = (i: number) => (dates.length <= 1 ? 0 : (i / (dates.length - 1)) * (W - padRight))
+
+  function path(values: (number | null)[]): string {
+    let d = ''
+    let pen = false
+    values.forEach((v, i) => {
+      if (v == null) {
+        pen = false
+        return
+      }
+      d += `${pen ? 'L' : 'M'}${x(i).toFixed(1)},${y(v).toFixed(1)} `
+      pen = true
+    })
+    return d.trim()
+  }
+
+  const ticks = dates.length > 2 ? [0, Math.floor((dates.length - 1) / 2), dates.length - 1] : dates.map((_, i) => i)
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${W} ${H}`} className="h-auto w-full" role="img" aria-label={ariaLabel}>
+        <line x1={0} x2={W - padRight} y1={H - padBottom} y2={H - padBottom} stroke="var(--ink)" strokeWidth="1.5" />
+        <line x1={0} x2={W - padRight} y1={y(max)} y2={y(max)} stroke="var(--ink)" strokeWidth={0.75} strokeDasharray="2 4" opacity={0.35} />
+        <text x={0} y={y(max) - 2} fontSize="9" fill="var(--muted)" fontFamily="var(--font-geist-mono), ui-monospace, monospace">
+          {formatValue(max)}{logScale ? ' (log)' : ''}
+        </text>
+        {series.map((s, si) => {
+          const lastIdx = s.values.reduce<number>((acc, v, i) => (v != null ? i : acc), -1)
+          return (
+            <g key={s.label}>
+              <path
+                d={path(s.values)}
+                fill="none"
+                stroke="var(--ink)"
+                strokeWidth={si === 0 ? 2.25 : 1.75}
+                strokeDasharray={SERIES_DASHES[si % SERIES_DASHES.length] || undefined}
+              />
+              {lastIdx >= 0 ? (
+                <text
+                  x={x(lastIdx) + 4}
+                  y={y(s.values[lastIdx]!) + 3}
+                  fontSize="9.5"
+                  fill="var(--ink)"
+                  fontFamily="var(--font-geist-mono), ui-monospace, monospace"
+                >
+                  {formatValue(s.values[lastIdx]!)}
+                </text>
+              ) : null}
+            </g>
+          )
+        })}
+        {ticks.map((i) => (
+          <text
+            key={i}
+            x={x(i)}
+            y={H - 6}
+            fontSize="9"
+            fill="var(--muted)"
+            fontFamily="var(--font-geist-mono), ui-monospace, monospace"
+            textAnchor={i === 0 ? 'start' : i === dates.length - 1 ? 'end' : 'middle'}
+          >
+            {shortDate(dates[i])}
+          </text>
+        ))}
+      </svg>
+      <ul className="mt-2 flex flex-wrap gap-x-5 gap-y-1 font-mono text-[11px] text-[var(--body)]">
+        {series.map((s, si) => (
+          <li key={s.label} className="flex items-center gap-1.5">
+            <svg width="26" height="8" aria-hidden="true">
+              <line
+                x1="0"
+                x2="26"
+                y1="4"
+                y2="4"
+                stroke="var(--ink)"
+                strokeWidth="2"
+                strokeDasharray={SERIES_DASHES[si % SERIES_DASHES.length] || undefined}
+              />
+            </svg>
+            {s.label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest'
+import { isAdminAuthorized } from './admin-auth'
+
+const basic = (user: string, pass: string) => `Basic ${Buffer.from(`${user}:${pass}`).toString('base64')}`
+
+describe('isAdminAuthorized', () => {
+  it('accepts the admin password with any username', () => {
+    expect(isAdminAuthorized(basic('admin', 's3cret:with:colons'), 's3cret:with:colons')).toBe(true)
+    expect(isAdminAuthorized(basic('', 'hunter2'), 'hunter2')).toBe(true)
+  })
+
+  it('rejects wrong, missing or malformed credentials', () => {
+    expect(isAdminAuthorized(basic('admin', 'nope'), 'hunter2')).toBe(false)
+    expect(isAdminAuthorized(null, 'hunter2')).toBe(false)
+    expect(isAdminAuthorized('Bearer gf_abc', 'hunter2')).toBe(false)
+    expect(isAdminAuthorized(`Basic ${Buffer.from('no-colon').toString('base64')}`, 'no-colon')).toBe(false)
+  })
+
+  it('never authorizes when no password is configured', () => {
+    expect(isAdminAuthorized(basic('admin', ''), undefined)).toBe(false)
+    expect(isAdminAuthorized(basic('admin', ''), '')).toBe(false)
+  })
+})
@@ -0,0 +1,24 @@
+// Admin pages (/admin/*) sit behind HTTP basic auth checked in proxy.ts.
+// Any username works; the password is ADMIN_PASSWORD. With no password set
+// the admin pages don't exist (404) rather than being open.
+// Pure — unit-tested in lib/admin-auth.test.ts.
+
+import { createHash, timingSafeEqual } from 'node:crypto'
+
+export const ADMIN_REALM = 'GitFind admin'
+
+function digest(text: string): Buffer {
+  return createHash('sha256').update(text).digest()
+}
+
+/** Whether an `Authorization: Basic …` header carries the admin password. */
+export function isAdminAuthorized(header: string | null, password: string | undefined): boolean {
+  if (!password || !header) return false
+  const encoded = header.match(/^Basic\s+(\S+)$/i)?.[1]
+  if (!encoded) return false
+  const decoded = Buffer.from(encoded, 'base64').toString('utf8')
+  const colon = decoded.indexOf(':')
+  if (colon < 0) return false
+  // Hash both sides so the comparison is constant-time whatever the lengths
+  return timingSafeEqual(digest(decoded.slice(colon + 1)), digest(password))
+}
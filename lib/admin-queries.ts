@@ -0,0 +1,75 @@
+// Service-role reads for the /admin pages. Never import from a public page —
+// these tables have RLS on with no read policy.
+
+import { createServiceClient } from './supabase'
+import type { LlmCall, PipelineRun } from './database.types'
+import { LEDGER_WINDOW_DAYS, type LedgerCall } from './llm-ledger'
+
+const PAGE_SIZE = 1000
+
+const LEDGER_COLUMNS =
+  'run_id, agent, template, template_version, model, input_tokens, output_tokens, latency_ms, cost_usd, cached, error, created_at'
+
+/** Every ledger row from the last `days` days, oldest first. */
+export async function getLedgerCalls(days = LEDGER_WINDOW_DAYS): Promise<LedgerCall[]> {
+  const db = createServiceClient()
+  const since = new Date(Date.now() - days * 86_400_000).toISOString()
+  const rows: LedgerCall[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await db
+      .from('llm_calls')
+      .select(LEDGER_COLUMNS)
+      .gte('created_at', since)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) throw new Error(`loading llm_calls: ${error.message}`)
+    rows.push(...((data ?? []) as unknown as LedgerCall[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return rows
+}
+
+export interface RecentLlmCall extends LlmCall {
+  /** owner/name for calls whose subject is an enrichment */
+  repos: string[]
+}
+
+export async function getRecentLlmCalls(limit = 50): Promise<RecentLlmCall[]> {
+  const db = createServiceClient()
+  const { data, error } = await db.from('llm_calls').select('*').order('id', { ascending: false }).limit(limit)
+  if (error) throw new Error(`loading llm_calls: ${error.message}`)
+  const calls = (data ?? []) as unknown as LlmCall[]
+
+  const repoIds = [...new Set(calls.filter((c) => c.subject_table === 'enrichments').flatMap((c) => c.subject_ids))]
+  const names = new Map<string, string>()
+  if (repoIds.length > 0) {
+    const { data: repos } = await db.from('repos').select('id, owner, name').in('id', repoIds)
+    for (const r of (repos ?? []) as unknown as { id: string; owner: string; name: string }[]) {
+      names.set(r.id, `${r.owner}/${r.name}`)
+    }
+  }
+  return calls.map((c) => ({
+    ...c,
+    repos: c.subject_table === 'enrichments' ? c.subject_ids.flatMap((id) => names.get(id) ?? []) : [],
+  }))
+}
+
+/** pipeline_runs from the last `days` days, newest first. */
+export async function getPipelineRuns(days = 30): Promise<PipelineRun[]> {
+  const db = createServiceClient()
+  const since = new Date(Date.now() - days * 86_400_000).toISOString()
+  const rows: PipelineRun[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await db
+      .from('pipeline_runs')
+      .select('*')
+      .gte('started_at', since)
+      .order('started_at', { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) throw new Error(`loading pipeline_runs: ${error.message}`)
+    rows.push(...((data ?? []) as unknown as PipelineRun[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return rows
+}
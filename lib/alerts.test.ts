@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest'
+import { ApiParamError } from './api'
+import {
+  diffRules,
+  evaluateRule,
+  parseAlertRule,
+  parseWatchlistPut,
+  starsWeekOverWeek,
+  type RepoSignals,
+  type RuleState,
+} from './alerts'
+
+const NOW = new Date('2026-07-20T12:00:00Z')
+
+function signals(overrides: Partial<RepoSignals> = {}): RepoSignals {
+  return { score: 50, stars_7d: 100, stars_7d_prev: 100, anomalies: [], ...overrides }
+}
+
+function state(overrides: Partial<RuleState> = {}): RuleState {
+  return { last_score: 50, last_evaluated_at: '2026-07-19T12:00:00Z', last_fired_at: null, ...overrides }
+}
+
+describe('parseAlertRule', () => {
+  it('fills defaults and rejects out-of-range values', () => {
+    expect(parseAlertRule({ kind: 'score_crosses', threshold: 70 })).toEqual({
+      kind: 'score_crosses',
+      threshold: 70,
+      direction: 'up',
+    })
+    expect(parseAlertRule({ kind: 'stars_7d_growth' })).toEqual({ kind: 'stars_7d_growth', multiplier: 2 })
+    expect(parseAlertRule({ kind: 'anomaly' })).toEqual({ kind: 'anomaly', anomaly_type: 'any' })
+    expect(parseAlertRule({ kind: 'score_crosses', threshold: 170 })).toBeNull()
+    expect(parseAlertRule({ kind: 'stars_7d_growth', multiplier: 1 })).toBeNull()
+    expect(parseAlertRule({ kind: 'anomaly', anomaly_type: 'bogus' })).toBeNull()
+    expect(parseAlertRule('score > 70')).toBeNull()
+  })
+})
+
+describe('parseWatchlistPut', () => {
+  it('validates repo and every rule', () => {
+    const put = parseWatchlistPut({ repo: 'acme/demo', rules: [{ kind: 'anomaly', anomaly_type: 'maintainer_silent' }] })
+    expect(put.repo).toEqual({ owner: 'acme', name: 'demo' })
+    expect(put.rules).toHaveLength(1)
+    expect(() => parseWatchlistPut({ repo: 'acme', rules: [] })).toThrow(ApiParamError)
+    expect(() => parseWatchlistPut({ repo: 'acme/demo', rules: [{ kind: 'nope' }] })).toThrow('rules[0]')
+  })
+})
+
+describe('diffRules', () => {
+  const stored = [
+    { id: 'r1', rule: { direction: 'up', threshold: 70, kind: 'score_crosses' } },
+    { id: 'r2', rule: { kind: 'anomaly', anomaly_type: 'any' } },
+    { id: 'r3', rule: { kind: 'no_longer_supported' } },
+  ]
+
+  it('keeps rules asked for again and only adds or removes the rest', () => {
+    const diff = diffRules(stored, [
+      { kind: 'score_crosses', threshold: 70, direction: 'up' },
+      { kind: 'stars_7d_growth', multiplier: 2 },
+    ])
+    expect(diff.add).toEqual([{ kind: 'stars_7d_growth', multiplier: 2 }])
+    expect(diff.remove.sort()).toEqual(['r2', 'r3'])
+  })
+
+  it('treats duplicates as separate rules', () => {
+    const rule = { kind: 'anomaly', anomaly_type: 'any' } as const
+    expect(diffRules(stored.slice(1, 2), [rule, rule])).toEqual({ remove: [], add: [rule] })
+    expect(diffRules([...stored.slice(1, 2), { id: 'r4', rule }], [rule])).toEqual({ remove: ['r4'], add: [] })
+  })
+})
+
+describe('evaluateRule — score_crosses', () => {
+  const up = { kind: 'score_crosses', threshold: 70, direction: 'up' } as const
+
+  it('fires only when the score moves across the threshold', () => {
+    expect(evaluateRule(up, signals({ score: 72 }), state({ last_score: 65 }), NOW)?.message).toContain('65 → 72')
+    expect(evaluateRule(up, signals({ score: 75 }), state({ last_score: 71 }), NOW)).toBeNull()
+    expect(evaluateRule(up, signals({ score: 69 }), state({ last_score: 60 }), NOW)).toBeNull()
+  })
+
+  it('only records a baseline on the first evaluation', () => {
+    expect(evaluateRule(up, signals({ score: 90 }), state({ last_score: null }), NOW)).toBeNull()
+  })
+
+  it('supports falling below', () => {
+    const down = { kind: 'score_crosses', threshold: 40, direction: 'down' } as const
+    expect(evaluateRule(down, signals({ score: 38 }), state({ last_score: 45 }), NOW)).not.toBeNull()
+  })
+})
+
+describe('evaluateRule — stars_7d_growth', () => {
+  const doubles = { kind: 'stars_7d_growth', multiplier: 2 } as const
+
+  it('fires when weekly stars double, respecting the cooldown', () => {
+    expect(evaluateRule(doubles, signals({ stars_7d: 210, stars_7d_prev: 100 }), state(), NOW)?.message).toContain('2.1×')
+    expect(evaluateRule(doubles, signals({ stars_7d: 150, stars_7d_prev: 100 }), state(), NOW)).toBeNull()
+    expect(
+      evaluateRule(doubles, signals({ stars_7d: 210, stars_7d_prev: 100 }), state({ last_fired_at: '2026-07-17T00:00:00Z' }), NOW)
+    ).toBeNull()
+  })
+
+  it('needs a non-zero prior week', () => {
+    expect(evaluateRule(doubles, signals({ stars_7d: 50, stars_7d_prev: 0 }), state(), NOW)).toBeNull()
+    expect(evaluateRule(doubles, signals({ stars_7d: 50, stars_7d_prev: null }), state(), NOW)).toBeNull()
+  })
+})
+
+describe('evaluateRule — anomaly', () => {
+  const silent = { kind: 'anomaly', anomaly_type: 'maintainer_silent' } as const
+  const anomalies: RepoSignals['anomalies'] = [
+    { id: 'a1', type: 'maintainer_silent', detected_at: '2026-07-18T11:00:00Z', narrative: 'old' },
+    { id: 'a2', type: 'stars_breakout', detected_at: '2026-07-20T11:00:00Z', narrative: null },
+    { id: 'a3', type: 'maintainer_silent', detected_at: '2026-07-20T11:00:00Z', narrative: 'Commits collapsed.' },
+  ]
+
+  it('fires once per new anomaly of the requested type', () => {
+    expect(evaluateRule(silent, signals({ anomalies }), state(), NOW)).toEqual({
+      message: 'Commits collapsed.',
+      anomaly_id: 'a3',
+    })
+    expect(evaluateRule(silent, signals({ anomalies }), state({ last_evaluated_at: NOW.toISOString() }), NOW)).toBeNull()
+  })
+
+  it('falls back to a generic message for un-narrated anomalies', () => {
+    const any = { kind: 'anomaly', anomaly_type: 'any' } as const
+    const only = signals({ anomalies: [anomalies[1]] })
+    expect(evaluateRule(any, only, state(), NOW)?.message).toBe('New stars breakout anomaly detected.')
+  })
+})
+
+describe('starsWeekOverWeek', () => {
+  it('pairs the latest snapshot with the latest one at least a week older', () => {
+    const rows = [
+      { snapshot_date: '2026-07-20', stars_7d: 300 },
+      { snapshot_date: '2026-07-14', stars_7d: 200 },
+      { snapshot_date: '2026-07-13', stars_7d: 120 },
+      { snapshot_date: '2026-07-12', stars_7d: 100 },
+    ]
+    expect(starsWeekOverWeek(rows)).toEqual({ stars_7d: 300, stars_7d_prev: 120 })
+    expect(starsWeekOverWeek(rows.slice(0, 2))).toEqual({ stars_7d: 300, stars_7d_prev: null })
+    expect(starsWeekOverWeek([])).toEqual({ stars_7d: 0, stars_7d_prev: null })
+  })
+})
@@ -0,0 +1,204 @@
+// Watchlist alert rules — parsing and evaluation.
+// Pure functions — unit-tested in lib/alerts.test.ts. The nightly driver is
+// scripts/evaluate-watchlists.ts; tables live in scripts/migrations/004-watchlists.sql.
+//
+// Three rule kinds:
+//   score_crosses   — Early Signal Score moves across a threshold since the last evaluation
+//   stars_7d_growth — stars_7d is at least `multiplier`× the previous week's (2 = "doubles")
+//   anomaly         — a new anomaly of the given type (or any type) lands for the repo
+
+import type { AnomalyType } from './database.types'
+import { ANOMALY_TYPES, ApiParamError, parseFullName } from './api'
+
+export const ALERT_COOLDOWN_DAYS = 7
+export const MAX_RULES_PER_REPO = 10
+
+export type AlertRule =
+  | { kind: 'score_crosses'; threshold: number; direction: 'up' | 'down' }
+  | { kind: 'stars_7d_growth'; multiplier: number }
+  | { kind: 'anomaly'; anomaly_type: AnomalyType | 'any' }
+
+/** Validate an untrusted rule object (API body or JSONB column); null when invalid. */
+export function parseAlertRule(raw: unknown): AlertRule | null {
+  if (typeof raw !== 'object' || raw === null) return null
+  const r = raw as Record<string, unknown>
+  switch (r.kind) {
+    case 'score_crosses': {
+      const threshold = r.threshold
+      const direction = r.direction ?? 'up'
+      if (typeof threshold !== 'number' || threshold < 0 || threshold > 100) return null
+      if (direction !== 'up' && direction !== 'down') return null
+      return { kind: 'score_crosses', threshold, direction }
+    }
+    case 'stars_7d_growth': {
+      const multiplier = r.multiplier ?? 2
+      if (typeof multiplier !== 'number' || multiplier <= 1) return null
+      return { kind: 'stars_7d_growth', multiplier }
+    }
+    case 'anomaly': {
+      const type = r.anomaly_type ?? 'any'
+      if (type !== 'any' && !ANOMALY_TYPES.includes(type as AnomalyType)) return null
+      return { kind: 'anomaly', anomaly_type: type as AnomalyType | 'any' }
+    }
+    default:
+      return null
+  }
+}
+
+export interface WatchlistPut {
+  repo: { owner: string; name: string }
+  rules: AlertRule[]
+}
+
+/** Body of PUT /api/v1/watchlist: { repo: "owner/name", rules: [...] }. */
+export function parseWatchlistPut(body: unknown): WatchlistPut {
+  if (typeof body !== 'object' || body === null) throw new ApiParamError('Body must be a JSON object')
+  const b = body as Record<string, unknown>
+  if (typeof b.repo !== 'string') throw new ApiParamError('repo must be in owner/name form')
+  const repo = parseFullName(b.repo)
+  const rawRules = b.rules ?? []
+  if (!Array.isArray(rawRules) || rawRules.length > MAX_RULES_PER_REPO) {
+    throw new ApiParamError(`rules must be an array of at most ${MAX_RULES_PER_REPO} rules`)
+  }
+  const rules = rawRules.map((raw, i) => {
+    const rule = parseAlertRule(raw)
+    if (!rule) throw new ApiParamError(`rules[${i}] is not a valid alert rule`)
+    return rule
+  })
+  return { repo, rules }
+}
+
+// Parsed rules compare by content; key order in the stored JSON doesn't matter
+function ruleKey(rule: AlertRule): string {
+  switch (rule.kind) {
+    case 'score_crosses':
+      return `score_crosses:${rule.threshold}:${rule.direction}`
+    case 'stars_7d_growth':
+      return `stars_7d_growth:${rule.multiplier}`
+    case 'anomaly':
+      return `anomaly:${rule.anomaly_type}`
+  }
+}
+
+export interface RuleDiff {
+  remove: string[] // watch_rules ids no longer wanted (or unparseable)
+  add: AlertRule[]
+}
+
+/**
+ * What a PUT changes in a repo's stored rules. Rules asked for again keep
+ * their row — and with it the crossing baseline and cooldown — so only the
+ * difference is written.
+ */
+export function diffRules(existing: Array<{ id: string; rule: unknown }>, wanted: AlertRule[]): RuleDiff {
+  const pending = new Map<string, string[]>()
+  const remove: string[] = []
+  for (const row of existing) {
+    const rule = parseAlertRule(row.rule)
+    if (!rule) {
+      remove.push(row.id)
+      continue
+    }
+    const ids = pending.get(ruleKey(rule)) ?? []
+    ids.push(row.id)
+    pending.set(ruleKey(rule), ids)
+  }
+  const add: AlertRule[] = []
+  for (const rule of wanted) {
+    if (!pending.get(ruleKey(rule))?.shift()) add.push(rule)
+  }
+  for (const ids of pending.values()) remove.push(...ids)
+  return { remove, add }
+}
+
+export function describeRule(rule: AlertRule): string {
+  switch (rule.kind) {
+    case 'score_crosses':
+      return `score ${rule.direction === 'up' ? 'rises above' : 'falls below'} ${rule.threshold}`
+    case 'stars_7d_growth':
+      return rule.multiplier === 2 ? 'weekly stars double' : `weekly stars grow ${rule.multiplier}×`
+    case 'anomaly':
+      return rule.anomaly_type === 'any' ? 'any anomaly' : `${rule.anomaly_type} anomaly`
+  }
+}
+
+export interface RepoSignals {
+  score: number | null
+  stars_7d: number
+  stars_7d_prev: number | null // stars_7d from the snapshot a week earlier
+  anomalies: Array<{ id: string; type: AnomalyType; detected_at: string; narrative: string | null }>
+}
+
+/**
+ * Week-over-week stars_7d from a repo's recent daily snapshots: the latest
+ * value and the one from the latest snapshot at least 7 days older.
+ */
+export function starsWeekOverWeek(
+  snapshots: Array<{ snapshot_date: string; stars_7d: number }>,
+): { stars_7d: number; stars_7d_prev: number | null } {
+  if (snapshots.length === 0) return { stars_7d: 0, stars_7d_prev: null }
+  const sorted = [...snapshots].sort((a, b) => (a.snapshot_date < b.snapshot_date ? 1 : -1))
+  const latest = sorted[0]
+  const cutoff = new Date(`${latest.snapshot_date}T00:00:00Z`)
+  cutoff.setUTCDate(cutoff.getUTCDate() - 7)
+  const cutoffDate = cutoff.toISOString().slice(0, 10)
+  const prev = sorted.find((s) => s.snapshot_date <= cutoffDate)
+  return { stars_7d: latest.stars_7d, stars_7d_prev: prev ? prev.stars_7d : null }
+}
+
+export interface RuleState {
+  last_score: number | null // score seen at the previous evaluation
+  last_evaluated_at: string | null // anomaly rules only consider rows detected after this
+  last_fired_at: string | null
+}
+
+export interface AlertMatch {
+  message: string
+  anomaly_id?: string
+}
+
+function inCooldown(state: RuleState, now: Date): boolean {
+  if (!state.last_fired_at) return false
+  const ageDays = (now.getTime() - new Date(state.last_fired_at).getTime()) / 86400000
+  return ageDays < ALERT_COOLDOWN_DAYS
+}
+
+/**
+ * Decide whether a rule fires for a repo's latest signals. Score crossings
+ * compare against the score recorded at the previous evaluation, so the first
+ * evaluation of a new rule only records a baseline. Growth rules respect a
+ * cooldown; anomaly rules fire once per anomaly row.
+ */
+export function evaluateRule(rule: AlertRule, signals: RepoSignals, state: RuleState, now: Date): AlertMatch | null {
+  switch (rule.kind) {
+    case 'score_crosses': {
+      const prev = state.last_score
+      const curr = signals.score
+      if (prev == null || curr == null) return null
+      const crossed =
+        rule.direction === 'up'
+          ? prev < rule.threshold && curr >= rule.threshold
+          : prev >= rule.threshold && curr < rule.threshold
+      return crossed ? { message: `Early Signal Score moved ${prev} → ${curr}, crossing ${rule.threshold}.` } : null
+    }
+    case 'stars_7d_growth': {
+      const prev = signals.stars_7d_prev
+      if (prev == null || prev <= 0 || inCooldown(state, now)) return null
+      if (signals.stars_7d < prev * rule.multiplier) return null
+      const ratio = Math.round((signals.stars_7d / prev) * 10) / 10
+      return { message: `${signals.stars_7d.toLocaleString('en-US')} stars this week vs ${prev.toLocaleString('en-US')} last week (${ratio}×).` }
+    }
+    case 'anomaly': {
+      const since = state.last_evaluated_at
+      const match = signals.anomalies
+        .filter((a) => rule.anomaly_type === 'any' || a.type === rule.anomaly_type)
+        .filter((a) => since == null || a.detected_at > since)
+        .sort((a, b) => (a.detected_at < b.detected_at ? 1 : -1))[0]
+      if (!match) return null
+      return {
+        message: match.narrative ?? `New ${match.type.replace(/_/g, ' ')} anomaly detected.`,
+        anomaly_id: match.id,
+      }
+    }
+  }
+}
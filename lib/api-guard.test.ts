@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest'
+import { NextRequest, NextResponse } from 'next/server'
+import { createApiGuard, type ApiKeyRecord } from './api-guard'
+import { hashApiKey } from './api-keys'
+import { createMemoryRateLimitStore } from './rate-limit'
+
+const KEY = 'gf_test'
+const RECORD: ApiKeyRecord = { id: 'k1', name: 'acme', owner_email: 'ops@acme.dev', requests_per_minute: 2 }
+
+function setup() {
+  const usage: Array<[string, string]> = []
+  const withApiGuard = createApiGuard({
+    store: createMemoryRateLimitStore(() => 0),
+    lookupKey: async (hash) => (hash === hashApiKey(KEY) ? RECORD : null),
+    recordUsage: async (keyId, endpoint) => {
+      usage.push([keyId, endpoint])
+    },
+  })
+  return { usage, withApiGuard }
+}
+
+function req(headers: Record<string, string> = {}) {
+  return new NextRequest('https://gitfind.ai/api/v1/repos', {
+    headers: { 'x-forwarded-for': '1.2.3.4', ...headers },
+  })
+}
+
+const ok = async () => NextResponse.json({ ok: true })
+
+describe('withApiGuard', () => {
+  it('rejects keyless calls when a key is required, and unknown keys always', async () => {
+    const { withApiGuard } = setup()
+    const handler = withApiGuard({ endpoint: 'v1/repos', requireKey: true }, ok)
+    expect((await handler(req(), {})).status).toBe(401)
+    expect((await handler(req({ authorization: 'Bearer gf_nope' }), {})).status).toBe(401)
+  })
+
+  it('answers 503, not 401, when the key lookup fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const withApiGuard = createApiGuard({
+      store: createMemoryRateLimitStore(() => 0),
+      lookupKey: async () => {
+        throw new Error('connection terminated')
+      },
+      recordUsage: async () => {},
+    })
+    const res = await withApiGuard({ endpoint: 'v1/repos', requireKey: true }, ok)(req({ authorization: `Bearer ${KEY}` }), {})
+    expect(res.status).toBe(503)
+    vi.restoreAllMocks()
+  })
+
+  it('enforces the per-key budget and meters each served call', async () => {
+    const { withApiGuard, usage } = setup()
+    const handler = withApiGuard({ endpoint: 'v1/repos', requireKey: true }, ok)
+
+    const first = await handler(req({ authorization: `Bearer ${KEY}` }), {})
+    expect(first.status).toBe(200)
+    expect(first.headers.get('X-RateLimit-Limit')).toBe('2')
+    expect(first.headers.get('X-RateLimit-Remaining')).toBe('1')
+
+    expect((await handler(req({ 'x-api-key': KEY }), {})).status).toBe(200)
+    const third = await handler(req({ 'x-api-key': KEY }), {})
+    expect(third.status).toBe(429)
+    expect(Number(third.headers.get('Retry-After'))).toBeGreaterThan(0)
+
+    expect(usage).toEqual([
+      ['k1', 'v1/repos'],
+      ['k1', 'v1/repos'],
+    ])
+  })
+
+  it('limits anonymous callers per IP', async () => {
+    const { withApiGuard, usage } = setup()
+    const handler = withApiGuard({ endpoint: 'search', anonymousPerMinute: 1 }, ok)
+    expect((await handler(req(), {})).status).toBe(200)
+    expect((await handler(req(), {})).status).toBe(429)
+    expect((await handler(req({ 'x-forwarded-for': '5.6.7.8' }), {})).status).toBe(200)
+    expect(usage).toEqual([])
+  })
+})
@@ -0,0 +1,150 @@
+// API guard — wraps a route handler with key auth, token-bucket limits and
+// per-key usage metering. Keyless callers are limited per IP; keyed callers
+// get their key's own budget plus a shared per-IP ceiling. Every response
+// carries X-RateLimit-* headers; over-limit calls get 429 + Retry-After.
+//
+// Dependencies are injectable (createApiGuard) so the flow is unit-tested in
+// lib/api-guard.test.ts against the in-memory store.
+
+import { NextResponse, type NextRequest } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+import { clientIp, extractApiKey, hashApiKey } from './api-keys'
+import {
+  createMemoryRateLimitStore,
+  createSupabaseRateLimitStore,
+  perMinute,
+  type RateLimitStore,
+  type TakeResult,
+} from './rate-limit'
+
+// One host can't exceed this even by rotating keys
+const IP_CEILING_PER_MINUTE = 600
+const DEFAULT_ANONYMOUS_PER_MINUTE = 30
+
+export interface GuardOptions {
+  endpoint: string // metering label, e.g. "search" or "v1/repos"
+  requireKey?: boolean
+  anonymousPerMinute?: number // per-IP budget for keyless calls
+}
+
+export interface ApiKeyRecord {
+  id: string
+  name: string
+  owner_email: string
+  requests_per_minute: number
+}
+
+export type ApiCaller = { kind: 'key'; key: ApiKeyRecord; ip: string } | { kind: 'anonymous'; ip: string }
+
+export interface GuardDeps {
+  store: RateLimitStore
+  lookupKey(keyHash: string): Promise<ApiKeyRecord | null> // null = unknown or revoked; throws when it can't tell
+  recordUsage(keyId: string, endpoint: string): Promise<void>
+}
+
+type Handler<C> = (request: NextRequest, context: C, caller: ApiCaller) => Promise<Response>
+
+function withRateHeaders(response: Response, limit: number, take: TakeResult): Response {
+  response.headers.set('X-RateLimit-Limit', String(limit))
+  response.headers.set('X-RateLimit-Remaining', String(take.remaining))
+  if (!take.allowed) response.headers.set('Retry-After', String(take.retryAfterSeconds))
+  return response
+}
+
+function tooMany(limit: number, take: TakeResult): Response {
+  return withRateHeaders(
+    NextResponse.json({ error: `Rate limit exceeded. Retry in ${take.retryAfterSeconds}s.` }, { status: 429 }),
+    limit,
+    take
+  )
+}
+
+export function createApiGuard(deps: GuardDeps) {
+  return function withApiGuard<C>(options: GuardOptions, handler: Handler<C>) {
+    return async function guarded(request: NextRequest, context: C): Promise<Response> {
+      const ip = clientIp(request.headers)
+      const presented = extractApiKey(request.headers)
+
+      let key: ApiKeyRecord | null = null
+      if (presented) {
+        try {
+          key = await deps.lookupKey(hashApiKey(presented))
+        } catch (err) {
+          // Not a 401: clients treat that as a revoked key and stop retrying
+          console.error('API key lookup failed:', err)
+          return NextResponse.json({ error: 'Could not verify the API key. Try again shortly.' }, { status: 503 })
+        }
+        if (!key) return NextResponse.json({ error: 'Invalid or revoked API key' }, { status: 401 })
+      } else if (options.requireKey) {
+        return NextResponse.json(
+          { error: 'API key required. Send it as "Authorization: Bearer <key>".' },
+          { status: 401 }
+        )
+      }
+
+      const ipLimit = key ? IP_CEILING_PER_MINUTE : (options.anonymousPerMinute ?? DEFAULT_ANONYMOUS_PER_MINUTE)
+      const ipTake = await deps.store.take(`ip:${ip}`, perMinute(ipLimit))
+      if (!ipTake.allowed) return tooMany(ipLimit, ipTake)
+
+      let limit = ipLimit
+      let take = ipTake
+      if (key) {
+        limit = key.requests_per_minute
+        take = await deps.store.take(`key:${key.id}`, perMinute(limit))
+        if (!take.allowed) return tooMany(limit, take)
+      }
+
+      const caller: ApiCaller = key ? { kind: 'key', key, ip } : { kind: 'anonymous', ip }
+      const response = await handler(request, context, caller)
+
+      if (key) {
+        try {
+          await deps.recordUsage(key.id, options.endpoint)
+        } catch (err) {
+          console.error('API usage metering failed:', err)
+        }
+      }
+
+      return withRateHeaders(response, limit, take)
+    }
+  }
+}
+
+// ─── Production wiring ───────────────────────────────────────────────────────
+// RATE_LIMIT_STORE=memory keeps `next dev` self-contained (no migration needed).
+
+// The service client is imported lazily: it throws without secrets, and
+// neither `next build` nor the unit tests have them.
+function defaultDeps(): GuardDeps {
+  const memory = process.env.RATE_LIMIT_STORE === 'memory'
+  let db: SupabaseClient<Database> | null = null
+  const getDb = async () => (db ??= (await import('./supabase')).createServiceClient())
+
+  return {
+    store: memory ? createMemoryRateLimitStore() : lazyStore(async () => createSupabaseRateLimitStore(await getDb())),
+    async lookupKey(keyHash) {
+      const { data, error } = await (await getDb())
+        .from('api_keys')
+        .select('id, name, owner_email, requests_per_minute')
+        .eq('key_hash', keyHash)
+        .is('revoked_at', null)
+        .maybeSingle()
+      if (error) throw new Error(error.message)
+      return (data as unknown as ApiKeyRecord | null) ?? null
+    },
+    async recordUsage(keyId, endpoint) {
+      const { error } = await (await getDb()).rpc('increment_api_usage', { p_key_id: keyId, p_endpoint: endpoint })
+      if (error) throw new Error(error.message)
+    },
+  }
+}
+
+function lazyStore(create: () => Promise<RateLimitStore>): RateLimitStore {
+  let store: Promise<RateLimitStore> | null = null
+  return {
+    take: async (bucket, policy) => (await (store ??= create())).take(bucket, policy),
+  }
+}
+
+export const withApiGuard = createApiGuard(defaultDeps())
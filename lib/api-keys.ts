@@ -0,0 +1,32 @@
+// API key format + hashing. Keys look like "gf_<40 hex chars>"; only the
+// sha256 hash is stored (api_keys.key_hash), the plaintext is shown once.
+
+import { createHash, randomBytes } from 'node:crypto'
+
+export const API_KEY_PREFIX = 'gf_'
+
+export function generateApiKey(): string {
+  return API_KEY_PREFIX + randomBytes(20).toString('hex')
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+/** Display prefix stored alongside the hash so support can identify a key. */
+export function apiKeyPrefix(key: string): string {
+  return key.slice(0, 8)
+}
+
+/** Read a key from `Authorization: Bearer gf_…` or `X-API-Key: gf_…`. */
+export function extractApiKey(headers: Headers): string | null {
+  const auth = headers.get('authorization')
+  const bearer = auth?.match(/^Bearer\s+(\S+)$/i)?.[1]
+  const key = bearer ?? headers.get('x-api-key')?.trim() ?? null
+  return key || null
+}
+
+/** Client IP as seen by Vercel's edge (first x-forwarded-for hop). */
+export function clientIp(headers: Headers): string {
+  return headers.get('x-forwarded-for')?.split(',')[0]?.trim() || headers.get('x-real-ip') || 'unknown'
+}
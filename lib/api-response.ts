@@ -0,0 +1,27 @@
+// Response helpers shared by the /api/v1 route handlers.
+
+import { NextResponse } from 'next/server'
+import { ApiParamError } from './api'
+
+// Private: a shared CDN copy would skip key auth and usage metering.
+// The data only refreshes nightly, so clients may hold it for a few minutes.
+const CACHE_CONTROL = 'private, max-age=300'
+
+export function apiJson(body: unknown, status = 200): NextResponse {
+  const response = NextResponse.json(body, { status })
+  if (status === 200) response.headers.set('Cache-Control', CACHE_CONTROL)
+  return response
+}
+
+// Bad params → 400 with the parser's message; anything else → logged 500
+export function apiError(err: unknown, route: string): NextResponse {
+  if (err instanceof ApiParamError) {
+    return NextResponse.json({ error: err.message }, { status: 400 })
+  }
+  console.error(`${route} error:`, err)
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+}
+
+export function apiNotFound(what: string): NextResponse {
+  return NextResponse.json({ error: `${what} not found` }, { status: 404 })
+}
@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ApiParamError,
+  buildPage,
+  decodeAnomalyCursor,
+  decodeDateCursor,
+  decodeScoreCursor,
+  encodeCursor,
+  parseAnomalyListParams,
+  parseLimit,
+  parsePresetBody,
+  parseRepoListParams,
+  parseSeriesParams,
+  toApiPreset,
+  toApiRepo,
+  DEFAULT_PAGE_SIZE,
+} from './api'
+import { apiError } from './api-response'
+import { builtinPreset } from './presets'
+import type { RepoWithEnrichment } from './database.types'
+
+const REPO_ID = '6f1c2a9e-3b4d-4e5f-8a7b-9c0d1e2f3a4b'
+const ANOMALY_ID = 'a3e1f0c2-7d6b-4c5a-9e8f-1b2c3d4e5f60'
+
+function repo(overrides: Partial<RepoWithEnrichment> = {}): RepoWithEnrichment {
+  return {
+    id: 'r1',
+    github_id: 1,
+    name: 'demo',
+    owner: 'acme',
+    description: 'A demo',
+    stars: 1200,
+    forks: 80,
+    contributors: 12,
+    language: 'TypeScript',
+    url: 'https://github.com/acme/demo',
+    package_registry: 'npm',
+    package_name: 'demo',
+    watchers: 10,
+    license: 'MIT',
+    topics: ['cli'],
+    archived: false,
+    pushed_at: '2026-07-01T00:00:00Z',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-07-02T00:00:00Z',
+    enrichment: {
+      id: 'e1',
+      repo_id: 'r1',
+      summary: 'Does things.',
+      why_it_matters: 'Matters.',
+      category: 'Developer Tools',
+      early_signal_score: 72,
+      score_breakdown: null,
+      score_confidence: null,
+      scored_at: '2026-07-02T00:00:00Z',
+      trend_narrative: null,
+      quality_flags: [],
+      source_snapshot: null,
+      readme_excerpt: null,
+      version: 1,
+      refresh_reasons: [],
+      enriched_at: '2026-07-02T00:00:00Z',
+    },
+    ...overrides,
+  }
+}
+
+describe('cursors', () => {
+  it('round-trip every cursor kind', () => {
+    expect(decodeScoreCursor(encodeCursor({ score: 55, repo_id: REPO_ID }))).toEqual({ score: 55, repo_id: REPO_ID })
+    expect(decodeDateCursor(encodeCursor({ date: '2026-07-18' }))).toEqual({ date: '2026-07-18' })
+    expect(decodeDateCursor(encodeCursor({ date: '2026-07-18', registry: 'crates' }))).toEqual({ date: '2026-07-18', registry: 'crates' })
+    const at = { detected_at: '2026-07-18T11:00:00+00:00', id: ANOMALY_ID }
+    expect(decodeAnomalyCursor(encodeCursor(at))).toEqual(at)
+  })
+
+  it('rejects garbage and cursors of the wrong kind', () => {
+    expect(() => decodeScoreCursor('not-a-cursor')).toThrow(ApiParamError)
+    expect(() => decodeScoreCursor(encodeCursor({ date: '2026-07-18' }))).toThrow(ApiParamError)
+    expect(() => decodeDateCursor(encodeCursor({ date: '18/07/2026' }))).toThrow(ApiParamError)
+  })
+
+  it('rejects ids and timestamps that could add PostgREST filter conditions', () => {
+    const injected = `${REPO_ID}),id.gt.00000000-0000-0000-0000-000000000000`
+    expect(() => decodeScoreCursor(encodeCursor({ score: 55, repo_id: injected }))).toThrow('Invalid cursor')
+    expect(() => decodeScoreCursor(encodeCursor({ score: 55, repo_id: 'abc' }))).toThrow('Invalid cursor')
+    expect(() => decodeAnomalyCursor(encodeCursor({ detected_at: '2026-07-18T11:00:00Z', id: 'x,type.eq.stars_breakout' }))).toThrow(
+      'Invalid cursor',
+    )
+    expect(() => decodeAnomalyCursor(encodeCursor({ detected_at: 'Jul 18 2026",id.gt.0', id: ANOMALY_ID }))).toThrow('Invalid cursor')
+    expect(() => decodeDateCursor(encodeCursor({ date: '2026-07-18', registry: 'npm),repo_id.neq.x' }))).toThrow('Invalid cursor')
+  })
+
+  it('answers a crafted cursor with a 400', () => {
+    const cursor = encodeCursor({ score: 55, repo_id: `${REPO_ID},stars.gt.0` })
+    let caught: unknown
+    try {
+      parseRepoListParams(new URLSearchParams(`cursor=${cursor}`))
+    } catch (err) {
+      caught = err
+    }
+    expect(apiError(caught, 'test').status).toBe(400)
+  })
+})
+
+describe('parseLimit', () => {
+  it('defaults when absent and enforces 1..100', () => {
+    expect(parseLimit(null)).toBe(DEFAULT_PAGE_SIZE)
+    expect(parseLimit('25')).toBe(25)
+    expect(() => parseLimit('0')).toThrow(ApiParamError)
+    expect(() => parseLimit('101')).toThrow(ApiParamError)
+    expect(() => parseLimit('2.5')).toThrow(ApiParamError)
+  })
+})
+
+describe('parseRepoListParams', () => {
+  it('reads filters and validates the score range', () => {
+    const p = parseRepoListParams(new URLSearchParams('category=Security&language=Rust&min_score=40&max_score=80'))
+    expect(p).toMatchObject({ category: 'Security', language: 'Rust', minScore: 40, maxScore: 80, cursor: null })
+    expect(() => parseRepoListParams(new URLSearchParams('min_score=90&max_score=10'))).toThrow(ApiParamError)
+    expect(() => parseRepoListParams(new URLSearchParams('min_score=150'))).toThrow(ApiParamError)
+  })
+
+  it('accepts a confidence floor by level name', () => {
+    expect(parseRepoListParams(new URLSearchParams('min_confidence=medium')).minConfidence).toBe('medium')
+    expect(parseRepoListParams(new URLSearchParams('')).minConfidence).toBeNull()
+    expect(() => parseRepoListParams(new URLSearchParams('min_confidence=certain'))).toThrow(ApiParamError)
+  })
+
+  it('reads a preset slug or ad-hoc weights, without a cursor', () => {
+    expect(parseRepoListParams(new URLSearchParams('preset=infra')).preset).toBe('infra')
+    expect(parseRepoListParams(new URLSearchParams('weights=stars:3,commits:1')).weights?.star_velocity_score).toBe(75)
+    expect(() => parseRepoListParams(new URLSearchParams('weights=vibes:10'))).toThrow(ApiParamError)
+    const cursor = encodeCursor({ score: 50, repo_id: REPO_ID })
+    expect(() => parseRepoListParams(new URLSearchParams(`preset=infra&cursor=${cursor}`))).toThrow(/cursor cannot/)
+  })
+})
+
+describe('presets', () => {
+  it('validates a preset body into a 400-able error', () => {
+    expect(parsePresetBody({ name: ' Infra team ', weights: { contributors: 1, commits: 1 } })).toMatchObject({
+      name: 'Infra team',
+      weights: { contributor_ratio_score: 50, commit_frequency_score: 50 },
+    })
+    expect(() => parsePresetBody({ name: '', weights: 'stars:1' })).toThrow(ApiParamError)
+    expect(() => parsePresetBody({ name: 'x', weights: 'stars:0' })).toThrow(ApiParamError)
+    expect(() => parsePresetBody([])).toThrow(ApiParamError)
+  })
+
+  it('serializes short signal names and a share path', () => {
+    const infra = toApiPreset(builtinPreset('infra')!)
+    expect(infra.weights).toEqual({ contributors: 35, commits: 30, forks: 15, stars: 10, fork_momentum: 10 })
+    expect(infra.share_path).toBe('/rank?preset=infra')
+    expect(toApiPreset({ ...builtinPreset('infra')!, slug: 'custom' }).share_path).toBe(`/rank?weights=${infra.spec}`)
+  })
+})
+
+describe('parseSeriesParams', () => {
+  it('accepts YYYY-MM-DD bounds in order only', () => {
+    expect(parseSeriesParams(new URLSearchParams('from=2026-01-01&to=2026-02-01'))).toMatchObject({
+      from: '2026-01-01',
+      to: '2026-02-01',
+    })
+    expect(() => parseSeriesParams(new URLSearchParams('from=2026-03-01&to=2026-02-01'))).toThrow(ApiParamError)
+    expect(() => parseSeriesParams(new URLSearchParams('from=yesterday'))).toThrow(ApiParamError)
+  })
+})
+
+describe('parseAnomalyListParams', () => {
+  it('splits owner/name and validates the detector type', () => {
+    const p = parseAnomalyListParams(new URLSearchParams('repo=acme/demo&type=maintainer_silent'))
+    expect(p.repo).toEqual({ owner: 'acme', name: 'demo' })
+    expect(p.type).toBe('maintainer_silent')
+    expect(() => parseAnomalyListParams(new URLSearchParams('repo=acme'))).toThrow(ApiParamError)
+    expect(() => parseAnomalyListParams(new URLSearchParams('type=bogus'))).toThrow(ApiParamError)
+  })
+})
+
+describe('toApiRepo', () => {
+  it('maps to stable v1 field names with tier derived from score', () => {
+    const out = toApiRepo(repo())
+    expect(out.full_name).toBe('acme/demo')
+    expect(out.package).toEqual({ registry: 'npm', name: 'demo' })
+    expect(out.enrichment).toMatchObject({ score: 72, tier: 'Breakout', category: 'Developer Tools', score_model: 'esc-v1' })
+    expect(out).not.toHaveProperty('github_id')
+  })
+
+  it('nulls package and enrichment when missing', () => {
+    const out = toApiRepo(repo({ package_registry: null, package_name: null, enrichment: null }))
+    expect(out.package).toBeNull()
+    expect(out.enrichment).toBeNull()
+  })
+})
+
+describe('buildPage', () => {
+  const rows = [1, 2, 3].map((n) => ({ n, date: `2026-07-0${n}` }))
+
+  it('drops the look-ahead row and emits a cursor for the last kept row', () => {
+    const page = buildPage(rows, 2, (r) => r.n, (r) => ({ date: r.date }))
+    expect(page.data).toEqual([1, 2])
+    expect(page.meta.count).toBe(2)
+    expect(decodeDateCursor(page.meta.next_cursor!)).toEqual({ date: '2026-07-02' })
+  })
+
+  it('has no next cursor on the final page', () => {
+    const page = buildPage(rows, 5, (r) => r.n, (r) => ({ date: r.date }))
+    expect(page.data).toHaveLength(3)
+    expect(page.meta.next_cursor).toBeNull()
+  })
+})
@@ -0,0 +1,447 @@
+// Public REST API (/api/v1) — cursor codec, query-param parsing, and the
+// stable wire shapes. Pure functions — unit-tested in lib/api.test.ts.
+//
+// The v1 field names are a contract: serializers below map DB rows to them
+// explicitly, so a column rename in supabase-schema.sql never leaks to clients.
+
+import type { Anomaly, AnomalyType, PackageDownload, RepoSnapshot, RepoWithEnrichment, WeeklyStat } from './database.types'
+import { tierFor, type Tier } from './design'
+import { modelVersionOf, type ScoreWeights } from './score-models'
+import { CONFIDENCE_LEVELS, type ConfidenceLevel } from './score'
+import { PRESET_SIGNALS, PresetError, formatWeights, parsePresetName, parseWeights, type WeightPreset } from './presets'
+
+export const API_VERSION = 'v1'
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 100
+
+export class ApiParamError extends Error {}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/
+const REGISTRY = /^[a-z0-9.-]{1,32}$/
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// ─── Cursors ─────────────────────────────────────────────────────────────────
+// Opaque to clients: base64url-encoded JSON of the last row's sort key.
+// Decoded values are interpolated into PostgREST .or() filters, so ids must be
+// UUIDs and timestamps strict ISO — anything else could smuggle in filter
+// conditions of its own.
+
+export interface ScoreCursor {
+  score: number
+  repo_id: string
+}
+
+export interface DateCursor {
+  date: string
+  registry?: string // downloads only: one row per registry per day
+}
+
+export interface AnomalyCursor {
+  detected_at: string
+  id: string
+}
+
+type Cursor = ScoreCursor | DateCursor | AnomalyCursor
+
+export function encodeCursor(value: Cursor): string {
+  return Buffer.from(JSON.stringify(value), 'utf8').toString('base64url')
+}
+
+function decodeCursorObject(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8')) as unknown
+    if (typeof parsed === 'object' && parsed !== null) return parsed as Record<string, unknown>
+  } catch {
+    // fall through
+  }
+  throw new ApiParamError('Invalid cursor')
+}
+
+export function decodeScoreCursor(raw: string): ScoreCursor {
+  const obj = decodeCursorObject(raw)
+  if (typeof obj.score !== 'number' || !Number.isFinite(obj.score) || typeof obj.repo_id !== 'string' || !UUID.test(obj.repo_id)) {
+    throw new ApiParamError('Invalid cursor')
+  }
+  return { score: obj.score, repo_id: obj.repo_id }
+}
+
+export function decodeDateCursor(raw: string): DateCursor {
+  const obj = decodeCursorObject(raw)
+  if (typeof obj.date !== 'string' || !ISO_DATE.test(obj.date)) throw new ApiParamError('Invalid cursor')
+  if (obj.registry === undefined) return { date: obj.date }
+  if (typeof obj.registry !== 'string' || !REGISTRY.test(obj.registry)) throw new ApiParamError('Invalid cursor')
+  return { date: obj.date, registry: obj.registry }
+}
+
+export function decodeAnomalyCursor(raw: string): AnomalyCursor {
+  const obj = decodeCursorObject(raw)
+  if (
+    typeof obj.detected_at !== 'string' ||
+    !ISO_TIMESTAMP.test(obj.detected_at) ||
+    Number.isNaN(Date.parse(obj.detected_at)) ||
+    typeof obj.id !== 'string' ||
+    !UUID.test(obj.id)
+  ) {
+    throw new ApiParamError('Invalid cursor')
+  }
+  return { detected_at: obj.detected_at, id: obj.id }
+}
+
+// ─── Param parsing ───────────────────────────────────────────────────────────
+
+export function parseLimit(raw: string | null): number {
+  if (raw == null || raw === '') return DEFAULT_PAGE_SIZE
+  const n = Number(raw)
+  if (!Number.isInteger(n) || n < 1 || n > MAX_PAGE_SIZE) {
+    throw new ApiParamError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`)
+  }
+  return n
+}
+
+function parseScore(raw: string | null, name: string): number | null {
+  if (raw == null || raw === '') return null
+  const n = Number(raw)
+  if (!Number.isFinite(n) || n < 0 || n > 100) throw new ApiParamError(`${name} must be a number between 0 and 100`)
+  return n
+}
+
+export function parseDate(raw: string | null, name: string): string | null {
+  if (raw == null || raw === '') return null
+  if (!ISO_DATE.test(raw) || Number.isNaN(Date.parse(raw))) throw new ApiParamError(`${name} must be a YYYY-MM-DD date`)
+  return raw
+}
+
+export interface RepoListParams {
+  category: string | null
+  language: string | null
+  minScore: number | null
+  maxScore: number | null
+  minConfidence: ConfidenceLevel | null
+  preset: string | null // weight preset slug (lib/presets.ts)
+  weights: ScoreWeights | null // ad-hoc preset weights, overriding `preset`
+  cursor: ScoreCursor | null
+  limit: number
+}
+
+// PresetError messages are written for callers — surface them as 400s
+function presetParam<T>(parse: () => T): T {
+  try {
+    return parse()
+  } catch (err) {
+    if (err instanceof PresetError) throw new ApiParamError(err.message)
+    throw err
+  }
+}
+
+export function parseRepoListParams(params: URLSearchParams): RepoListParams {
+  const minScore = parseScore(params.get('min_score'), 'min_score')
+  const maxScore = parseScore(params.get('max_score'), 'max_score')
+  if (minScore != null && maxScore != null && minScore > maxScore) {
+    throw new ApiParamError('min_score must not exceed max_score')
+  }
+  const minConfidence = params.get('min_confidence') || null
+  if (minConfidence != null && !(CONFIDENCE_LEVELS as string[]).includes(minConfidence)) {
+    throw new ApiParamError(`min_confidence must be one of: ${CONFIDENCE_LEVELS.join(', ')}`)
+  }
+  const preset = params.get('preset')?.trim() || null
+  const rawWeights = params.get('weights')?.trim() || null
+  const weights = rawWeights ? presetParam(() => parseWeights(rawWeights)) : null
+  const cursor = params.get('cursor')
+  // Preset rankings are a single page over the top of the production ranking
+  if ((preset || weights) && cursor) throw new ApiParamError('cursor cannot be combined with preset or weights')
+  return {
+    category: params.get('category')?.trim() || null,
+    language: params.get('language')?.trim() || null,
+    minScore,
+    maxScore,
+    minConfidence: minConfidence as ConfidenceLevel | null,
+    preset,
+    weights,
+    cursor: cursor ? decodeScoreCursor(cursor) : null,
+    limit: parseLimit(params.get('limit')),
+  }
+}
+
+export interface SeriesParams {
+  from: string | null
+  to: string | null
+  cursor: DateCursor | null
+  limit: number
+}
+
+export function parseSeriesParams(params: URLSearchParams): SeriesParams {
+  const from = parseDate(params.get('from'), 'from')
+  const to = parseDate(params.get('to'), 'to')
+  if (from && to && from > to) throw new ApiParamError('from must not be after to')
+  const cursor = params.get('cursor')
+  return {
+    from,
+    to,
+    cursor: cursor ? decodeDateCursor(cursor) : null,
+    limit: parseLimit(params.get('limit')),
+  }
+}
+
+export const ANOMALY_TYPES: readonly AnomalyType[] = [
+  'stars_breakout',
+  'downloads_accel',
+  'maintainer_silent',
+  'release_cadence_shift',
+]
+
+export interface AnomalyListParams {
+  repo: { owner: string; name: string } | null
+  type: AnomalyType | null
+  since: string | null
+  cursor: AnomalyCursor | null
+  limit: number
+}
+
+export function parseFullName(raw: string, name = 'repo'): { owner: string; name: string } {
+  const [owner, repoName, ...rest] = raw.trim().split('/')
+  if (!owner || !repoName || rest.length > 0) throw new ApiParamError(`${name} must be in owner/name form`)
+  return { owner, name: repoName }
+}
+
+export function parseAnomalyListParams(params: URLSearchParams): AnomalyListParams {
+  const repoRaw = params.get('repo')?.trim()
+  const repo = repoRaw ? parseFullName(repoRaw) : null
+  const typeRaw = params.get('type')
+  const type = typeRaw ? ANOMALY_TYPES.find((t) => t === typeRaw) : null
+  if (typeRaw && !type) throw new ApiParamError(`type must be one of: ${ANOMALY_TYPES.join(', ')}`)
+  const cursor = params.get('cursor')
+  return {
+    repo,
+    type: type ?? null,
+    since: parseDate(params.get('since'), 'since'),
+    cursor: cursor ? decodeAnomalyCursor(cursor) : null,
+    limit: parseLimit(params.get('limit')),
+  }
+}
+
+/** Body of POST /api/v1/presets: { name, weights } with weights as a spec or object. */
+export function parsePresetBody(body: unknown): { name: string; weights: ScoreWeights } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) throw new ApiParamError('Body must be a JSON object')
+  const { name, weights } = body as Record<string, unknown>
+  return presetParam(() => ({ name: parsePresetName(name), weights: parseWeights(weights) }))
+}
+
+// ─── Wire shapes ─────────────────────────────────────────────────────────────
+
+export interface ApiEnrichment {
+  summary: string
+  why_it_matters: string
+  category: string
+  score: number
+  tier: Tier
+  score_model: string // scoring-model version that produced score + breakdown
+  score_breakdown: unknown
+  score_confidence: ConfidenceLevel | null // null: scored before confidence was recorded
+  scored_at: string
+}
+
+export interface ApiRepo {
+  id: string
+  full_name: string
+  owner: string
+  name: string
+  description: string | null
+  url: string
+  language: string | null
+  license: string | null
+  topics: string[]
+  stars: number
+  forks: number
+  contributors: number
+  archived: boolean
+  package: { registry: string; name: string } | null
+  pushed_at: string | null
+  created_at: string
+  updated_at: string
+  enrichment: ApiEnrichment | null
+  preset_score?: number // only on lists ranked by a weight preset
+}
+
+export interface ApiPreset {
+  slug: string
+  name: string
+  builtin: boolean
+  weights: Record<string, number> // short signal name → percent, non-zero only
+  spec: string // the same weights as a ?weights= value
+  share_path: string
+}
+
+export interface ApiSnapshot {
+  date: string
+  stars: number
+  forks: number
+  stars_7d: number
+  open_issues: number
+}
+
+export interface ApiWeeklyStat {
+  date: string
+  contributors: number
+  commits_4w: number
+  owner_commits_4w: number
+  community_commits_4w: number
+  additions_4w: number
+  deletions_4w: number
+  last_release_date: string | null
+  last_release_tag: string | null
+}
+
+export interface ApiDownload {
+  date: string
+  registry: string
+  package: string
+  downloads_1d: number
+  downloads_7d: number
+  downloads_30d: number
+}
+
+export interface ApiAnomaly {
+  id: string
+  repo_id: string
+  type: AnomalyType
+  severity: number
+  detected_at: string
+  narrative: string | null
+  metadata: unknown
+}
+
+export function toApiRepo(repo: RepoWithEnrichment): ApiRepo {
+  const e = repo.enrichment
+  return {
+    id: repo.id,
+    full_name: `${repo.owner}/${repo.name}`,
+    owner: repo.owner,
+    name: repo.name,
+    description: repo.description,
+    url: repo.url,
+    language: repo.language,
+    license: repo.license ?? null,
+    topics: repo.topics ?? [],
+    stars: repo.stars,
+    forks: repo.forks,
+    contributors: repo.contributors,
+    archived: repo.archived ?? false,
+    package:
+      repo.package_registry && repo.package_name
+        ? { registry: repo.package_registry, name: repo.package_name }
+        : null,
+    pushed_at: repo.pushed_at ?? null,
+    created_at: repo.created_at,
+    updated_at: repo.updated_at,
+    enrichment: e
+      ? {
+          summary: e.summary,
+          why_it_matters: e.why_it_matters,
+          category: e.category,
+          score: e.early_signal_score,
+          tier: tierFor(e.early_signal_score),
+          score_model: modelVersionOf(e.score_breakdown),
+          score_breakdown: e.score_breakdown,
+          score_confidence: (e.score_confidence as ConfidenceLevel | null) ?? null,
+          scored_at: e.scored_at,
+        }
+      : null,
+  }
+}
+
+export function toApiPreset(preset: WeightPreset): ApiPreset {
+  const weights: Record<string, number> = {}
+  for (const { key, param } of PRESET_SIGNALS) {
+    if (preset.weights[key] > 0) weights[param] = Math.round(preset.weights[key] * 10) / 10
+  }
+  const spec = formatWeights(preset.weights)
+  return {
+    slug: preset.slug,
+    name: preset.name,
+    builtin: preset.builtin,
+    weights,
+    spec,
+    share_path: preset.slug === 'custom' ? `/rank?weights=${spec}` : `/rank?preset=${preset.slug}`,
+  }
+}
+
+export function toApiSnapshot(row: RepoSnapshot): ApiSnapshot {
+  return {
+    date: row.snapshot_date,
+    stars: row.stars,
+    forks: row.forks,
+    stars_7d: row.stars_7d,
+    open_issues: row.open_issues,
+  }
+}
+
+export function toApiWeeklyStat(row: WeeklyStat): ApiWeeklyStat {
+  return {
+    date: row.snapshot_date,
+    contributors: row.contributors,
+    commits_4w: row.commit_count_4w,
+    owner_commits_4w: row.owner_commits_4w,
+    community_commits_4w: row.community_commits_4w,
+    additions_4w: row.additions_4w,
+    deletions_4w: row.deletions_4w,
+    last_release_date: row.last_release_date,
+    last_release_tag: row.last_release_tag,
+  }
+}
+
+export function toApiDownload(row: PackageDownload): ApiDownload {
+  return {
+    date: row.snapshot_date,
+    registry: row.registry,
+    package: row.package_name,
+    downloads_1d: row.downloads_1d,
+    downloads_7d: row.downloads_7d,
+    downloads_30d: row.downloads_30d,
+  }
+}
+
+export function toApiAnomaly(row: Anomaly): ApiAnomaly {
+  return {
+    id: row.id,
+    repo_id: row.repo_id,
+    type: row.type,
+    severity: row.severity,
+    detected_at: row.detected_at,
+    narrative: row.narrative,
+    metadata: row.metadata,
+  }
+}
+
+// ─── Envelope ────────────────────────────────────────────────────────────────
+
+export interface ApiPage<T> {
+  data: T[]
+  meta: {
+    version: typeof API_VERSION
+    count: number
+    next_cursor: string | null
+  }
+}
+
+/**
+ * Wrap one page of rows. Callers fetch `limit + 1` rows; the extra row only
+ * proves there is a next page and is dropped here.
+ */
+export function buildPage<Row, T>(
+  rows: Row[],
+  limit: number,
+  serialize: (row: Row) => T,
+  cursorOf: (row: Row) => Cursor,
+): ApiPage<T> {
+  const hasMore = rows.length > limit
+  const page = hasMore ? rows.slice(0, limit) : rows
+  return {
+    data: page.map(serialize),
+    meta: {
+      version: API_VERSION,
+      count: page.length,
+      next_cursor: hasMore && page.length > 0 ? encodeCursor(cursorOf(page[page.length - 1])) : null,
+    },
+  }
+}
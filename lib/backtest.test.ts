@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import {
+  addDays,
+  breakoutThreshold,
+  buildHistory,
+  findBreakouts,
+  inputsAt,
+  replayModel,
+  runBacktest,
+  withWeightOverrides,
+  type SnapshotPoint,
+} from './backtest'
+import { SIGNAL_KEYS, productionModel } from './score-models'
+
+// Daily snapshots from `start` for `days` days, stars following `starsOn(i)`
+function series(start: string, days: number, starsOn: (i: number) => number): SnapshotPoint[] {
+  return Array.from({ length: days }, (_, i) => {
+    const stars = starsOn(i)
+    const weekAgo = i >= 7 ? starsOn(i - 7) : starsOn(0)
+    return { date: addDays(start, i), stars, forks: Math.round(stars / 10), stars_7d: stars - weekAgo }
+  })
+}
+
+describe('breakoutThreshold', () => {
+  it('returns the highest threshold crossed', () => {
+    expect(breakoutThreshold(12_000, 800)).toBe(10_000)
+    expect(breakoutThreshold(1_200, 900)).toBe(1_000)
+  })
+
+  it('returns null when nothing was crossed', () => {
+    expect(breakoutThreshold(9_000, 6_000)).toBeNull()
+    expect(breakoutThreshold(900, 100)).toBeNull()
+  })
+})
+
+describe('withWeightOverrides', () => {
+  it('replaces weights with or without the _score suffix', () => {
+    const m = withWeightOverrides(productionModel(), 'star_velocity=20,commit_frequency_score=15')
+    expect(m.version).toBe('esc-v1+custom')
+    expect(m.weights.star_velocity_score).toBe(20)
+    expect(m.weights.commit_frequency_score).toBe(15)
+  })
+
+  it('rejects unknown signals and weights that do not sum to 100', () => {
+    expect(() => withWeightOverrides(productionModel(), 'vibes=10')).toThrow(/unknown signal/)
+    expect(() => withWeightOverrides(productionModel(), 'star_velocity=90')).toThrow()
+  })
+})
+
+describe('replayModel', () => {
+  it('drops the mention weight and scales the rest to 100, keeping their ratios', () => {
+    const prod = productionModel()
+    const m = replayModel(prod)
+    expect(m.weights.mention_velocity_score).toBe(0)
+    expect(SIGNAL_KEYS.reduce((sum, k) => sum + m.weights[k], 0)).toBeCloseTo(100)
+    expect(m.weights.star_velocity_score / m.weights.commit_frequency_score).toBeCloseTo(
+      prod.weights.star_velocity_score / prod.weights.commit_frequency_score,
+    )
+    expect(m.version).toBe(prod.version)
+  })
+})
+
+describe('inputsAt', () => {
+  const h = buildHistory(
+    'r1',
+    5,
+    series('2026-01-01', 40, (i) => 100 + i * 10),
+    [{ date: '2026-02-01', contributors: 12, commits_4w: 40 }],
+  )
+
+  it('derives windowed deltas from earlier snapshots', () => {
+    const inputs = inputsAt(h, '2026-02-05')!
+    expect(inputs.stars).toBe(450)
+    expect(inputs.stars_30d).toBe(300)
+    expect(inputs.stars_7d_prev).toBe(70)
+    expect(inputs.forks_7d).toBe(7)
+    expect(inputs.contributors).toBe(12)
+    expect(inputs.commits_30d).toBe(40)
+    expect(inputs.hn_mentions_7d).toBe(0)
+  })
+
+  it('falls back to the repo contributor count before the first weekly row', () => {
+    expect(inputsAt(h, '2026-01-10')!.contributors).toBe(5)
+  })
+
+  it('returns null on days without a snapshot', () => {
+    expect(inputsAt(h, '2025-12-31')).toBeNull()
+  })
+})
+
+describe('backtest', () => {
+  // "rocket" accelerates from 200 and crosses 1K on day 50;
+  // "steady" and "slow" never cross anything
+  const start = '2026-01-01'
+  const histories = [
+    buildHistory('rocket', 10, series(start, 90, (i) => (i < 30 ? 200 : 200 + (i - 30) ** 2 * 2)), []),
+    buildHistory('steady', 10, series(start, 90, (i) => 3_000 + i * 5), []),
+    buildHistory('slow', 10, series(start, 90, (i) => 50 + i), []),
+  ]
+
+  it('finds the first day a threshold was crossed', () => {
+    const breakouts = findBreakouts(histories, addDays(start, 31), addDays(start, 89))
+    expect([...breakouts.keys()]).toEqual(['rocket'])
+    expect(breakouts.get('rocket')).toEqual({ date: addDays(start, 50), threshold: 1_000 })
+  })
+
+  it('reports lead time, precision and recall for top-N flags', () => {
+    const report = runBacktest(histories, {
+      from: addDays(start, 31),
+      to: addDays(start, 89),
+      topN: 1,
+      horizonDays: 30,
+      model: productionModel(),
+    })
+    expect(report.breakouts).toBe(1)
+    expect(report.unreplayed_signals).toEqual(['mention_velocity_score'])
+    const rocket = report.outcomes[0]
+    expect(rocket.repo_id).toBe('rocket')
+    expect(rocket.lead_days).toBeGreaterThan(0)
+    expect(rocket.best_rank).toBe(1)
+    expect(report.recall).toBe(1)
+    expect(report.median_lead_days).toBe(rocket.lead_days)
+    expect(report.precision).not.toBeNull()
+  })
+})
@@ -0,0 +1,305 @@
+// Score backtesting — replays stored history day by day through
+// calculateScore() and measures how early the model ranked eventual breakouts.
+// Pure functions — unit-tested in lib/backtest.test.ts. Driver: scripts/backtest.ts.
+//
+// A "breakout" uses the getBreakoutRepos() rule: stars cross one of
+// BREAKOUT_THRESHOLDS within 30 days. A "flag" is a repo's first day in the
+// model's top N. Lead time = breakout day − earliest top-N day in the
+// horizon before it.
+//
+// Inputs are rebuilt the way scripts/pipeline.ts derives them from snapshots
+// and weekly_stats. HN mentions are fetched live and never stored per repo
+// (hn_thread_repos only records threads linking two catalog repos), so the
+// mention signal can't be replayed: its weight is spread over the other
+// signals (replayModel), as effectiveWeights does for downloads, rather than
+// scoring it 0 and docking every candidate by a different amount. Package
+// downloads aren't replayed either: every repo is scored as package-less.
+
+import { calculateScore, type ScoreInputs } from './score'
+import { SIGNAL_KEYS, validateModel, type ScoringModel, type SignalKey } from './score-models'
+
+/** Signals with no stored history; a backtest drops them and reweights the rest. */
+export const UNREPLAYED_SIGNALS: readonly SignalKey[] = ['mention_velocity_score']
+
+export const BREAKOUT_THRESHOLDS = [100_000, 50_000, 25_000, 10_000, 5_000, 1_000] as const
+export const BREAKOUT_WINDOW_DAYS = 30
+
+// Snapshots aren't guaranteed daily; accept the nearest earlier one within this many days
+const LOOKUP_TOLERANCE_DAYS = 3
+const WEEKLY_TOLERANCE_DAYS = 14
+
+/** Highest threshold crossed between `starsPast` and `starsNow`, or null. */
+export function breakoutThreshold(starsNow: number, starsPast: number): number | null {
+  for (const t of BREAKOUT_THRESHOLDS) {
+    if (starsNow >= t && starsPast < t) return t
+  }
+  return null
+}
+
+/**
+ * An ad-hoc model for "what if" runs: `base` with some weights replaced, from
+ * a spec like "star_velocity=30,contributor_ratio=15" (the `_score` suffix is
+ * optional). Throws when a key is unknown or the result doesn't sum to 100.
+ */
+export function withWeightOverrides(base: ScoringModel, spec: string): ScoringModel {
+  const weights = { ...base.weights }
+  for (const pair of spec.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const [rawKey, rawValue] = pair.split('=')
+    const key = (rawKey.endsWith('_score') ? rawKey : `${rawKey}_score`) as SignalKey
+    const value = Number(rawValue)
+    if (!SIGNAL_KEYS.includes(key)) throw new Error(`unknown signal "${rawKey}" (expected one of ${SIGNAL_KEYS.join(', ')})`)
+    if (!Number.isFinite(value)) throw new Error(`weight for ${rawKey} must be a number`)
+    weights[key] = value
+  }
+  const model: ScoringModel = {
+    ...base,
+    version: `${base.version}+custom`,
+    description: `${base.version} with weights ${spec}`,
+    weights,
+  }
+  const problems = validateModel(model)
+  if (problems.length > 0) throw new Error(problems.join('; '))
+  return model
+}
+
+export interface SnapshotPoint {
+  date: string // YYYY-MM-DD
+  stars: number
+  forks: number
+  stars_7d: number
+}
+
+export interface WeeklyPoint {
+  date: string
+  contributors: number
+  commits_4w: number
+}
+
+export interface RepoHistory {
+  repo_id: string
+  contributors: number // current count — fallback before the first weekly_stats row
+  snapshots: Map<string, SnapshotPoint>
+  weekly: WeeklyPoint[] // ascending by date
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000)
+}
+
+export function buildHistory(
+  repo_id: string,
+  contributors: number,
+  snapshots: SnapshotPoint[],
+  weekly: WeeklyPoint[],
+): RepoHistory {
+  return {
+    repo_id,
+    contributors,
+    snapshots: new Map(snapshots.map((s) => [s.date, s])),
+    weekly: [...weekly].sort((a, b) => (a.date < b.date ? -1 : 1)),
+  }
+}
+
+function snapshotAt(h: RepoHistory, date: string): SnapshotPoint | undefined {
+  for (let back = 0; back <= LOOKUP_TOLERANCE_DAYS; back++) {
+    const s = h.snapshots.get(back === 0 ? date : addDays(date, -back))
+    if (s) return s
+  }
+  return undefined
+}
+
+function weeklyAt(h: RepoHistory, date: string): WeeklyPoint | undefined {
+  let found: WeeklyPoint | undefined
+  for (const w of h.weekly) {
+    if (w.date > date) break
+    found = w
+  }
+  return found && daysBetween(found.date, date) <= WEEKLY_TOLERANCE_DAYS ? found : undefined
+}
+
+/**
+ * `model` as a backtest can apply it: UNREPLAYED_SIGNALS weigh 0 and the
+ * other weights scale up to sum to 100.
+ */
+export function replayModel(model: ScoringModel): ScoringModel {
+  const rest = SIGNAL_KEYS.filter((k) => !UNREPLAYED_SIGNALS.includes(k))
+  const total = rest.reduce((sum, k) => sum + model.weights[k], 0)
+  const weights = { ...model.weights }
+  for (const k of SIGNAL_KEYS) {
+    weights[k] = UNREPLAYED_SIGNALS.includes(k) || total <= 0 ? 0 : (model.weights[k] / total) * 100
+  }
+  return { ...model, weights }
+}
+
+/** ScoreInputs as pipeline.ts would have built them on `date`, or null if the repo wasn't tracked yet. */
+export function inputsAt(h: RepoHistory, date: string): ScoreInputs | null {
+  const now = h.snapshots.get(date)
+  if (!now) return null
+  const d7 = snapshotAt(h, addDays(date, -7))
+  const d14 = snapshotAt(h, addDays(date, -14))
+  const d30 = snapshotAt(h, addDays(date, -30))
+  const weekly = weeklyAt(h, date)
+
+  const forks_7d = d7 ? now.forks - d7.forks : undefined
+  const forks_7d_prev = d7 && d14 ? d7.forks - d14.forks : undefined
+  return {
+    stars: now.stars,
+    stars_7d: now.stars_7d,
+    stars_30d: d30 ? now.stars - d30.stars : 0,
+    contributors: weekly?.contributors ?? h.contributors,
+    forks: now.forks,
+    hn_mentions_7d: 0,
+    hn_mentions_30d: 0,
+    commits_30d: weekly?.commits_4w ?? 0,
+    stars_7d_prev: d7?.stars_7d,
+    forks_7d: forks_7d != null && forks_7d >= 0 ? forks_7d : undefined,
+    forks_7d_prev: forks_7d_prev != null && forks_7d_prev >= 0 ? forks_7d_prev : undefined,
+  }
+}
+
+/** First day in [from, to] each repo crossed a breakout threshold. */
+export function findBreakouts(
+  histories: RepoHistory[],
+  from: string,
+  to: string,
+): Map<string, { date: string; threshold: number }> {
+  const out = new Map<string, { date: string; threshold: number }>()
+  for (const h of histories) {
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+      const now = h.snapshots.get(date)
+      const past = now && snapshotAt(h, addDays(date, -BREAKOUT_WINDOW_DAYS))
+      if (!now || !past) continue
+      const threshold = breakoutThreshold(now.stars, past.stars)
+      if (threshold != null) {
+        out.set(h.repo_id, { date, threshold })
+        break
+      }
+    }
+  }
+  return out
+}
+
+export interface BacktestOptions {
+  from: string
+  to: string
+  topN: number
+  horizonDays: number // how far ahead a flag may precede its breakout
+  model: ScoringModel
+}
+
+export interface BreakoutOutcome {
+  repo_id: string
+  breakout_date: string
+  threshold: number
+  first_flag_date: string | null // earliest top-N day within the horizon before the breakout
+  lead_days: number | null
+  best_rank: number | null
+}
+
+export interface BacktestReport {
+  model_version: string
+  from: string
+  to: string
+  days: number
+  top_n: number
+  horizon_days: number
+  flags: number // repos that entered the top N at least once
+  evaluable_flags: number // flagged at least horizon_days before `to`
+  true_flags: number // evaluable flags followed by a breakout within the horizon
+  precision: number | null
+  unreplayed_signals: SignalKey[] // weighted 0, the rest scaled to 100 (replayModel)
+  breakouts: number
+  caught_early: number // breakouts flagged strictly before the breakout day
+  recall: number | null
+  median_lead_days: number | null
+  mean_lead_days: number | null
+  outcomes: BreakoutOutcome[]
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const s = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(s.length / 2)
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2
+}
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000
+
+export function runBacktest(histories: RepoHistory[], options: BacktestOptions): BacktestReport {
+  const { from, to, topN, horizonDays } = options
+  const model = replayModel(options.model)
+
+  // Day-by-day top-N membership: repo → [date, rank][]
+  const topDays = new Map<string, Array<{ date: string; rank: number }>>()
+  let days = 0
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    days++
+    const scored: Array<{ repo_id: string; score: number }> = []
+    for (const h of histories) {
+      const inputs = inputsAt(h, date)
+      if (inputs) scored.push({ repo_id: h.repo_id, score: calculateScore(inputs, model).score })
+    }
+    scored.sort((a, b) => b.score - a.score || a.repo_id.localeCompare(b.repo_id))
+    scored.slice(0, topN).forEach((s, i) => {
+      const arr = topDays.get(s.repo_id) ?? []
+      arr.push({ date, rank: i + 1 })
+      topDays.set(s.repo_id, arr)
+    })
+  }
+
+  const breakouts = findBreakouts(histories, from, to)
+
+  const outcomes: BreakoutOutcome[] = []
+  for (const [repo_id, b] of breakouts) {
+    const earliest = addDays(b.date, -horizonDays)
+    const window = (topDays.get(repo_id) ?? []).filter((t) => t.date >= earliest && t.date <= b.date)
+    const first = window[0]?.date ?? null
+    outcomes.push({
+      repo_id,
+      breakout_date: b.date,
+      threshold: b.threshold,
+      first_flag_date: first,
+      lead_days: first ? daysBetween(first, b.date) : null,
+      best_rank: window.length > 0 ? Math.min(...window.map((t) => t.rank)) : null,
+    })
+  }
+  outcomes.sort((a, b) => (b.lead_days ?? -1) - (a.lead_days ?? -1) || a.repo_id.localeCompare(b.repo_id))
+
+  const lastEvaluable = addDays(to, -horizonDays)
+  let evaluable = 0
+  let trueFlags = 0
+  for (const [repo_id, entries] of topDays) {
+    const flagDate = entries[0].date
+    if (flagDate > lastEvaluable) continue
+    evaluable++
+    const b = breakouts.get(repo_id)
+    if (b && b.date >= flagDate && daysBetween(flagDate, b.date) <= horizonDays) trueFlags++
+  }
+
+  const leads = outcomes.filter((o) => o.lead_days != null && o.lead_days > 0).map((o) => o.lead_days!)
+  return {
+    model_version: model.version,
+    from,
+    to,
+    days,
+    top_n: topN,
+    horizon_days: horizonDays,
+    flags: topDays.size,
+    evaluable_flags: evaluable,
+    true_flags: trueFlags,
+    precision: evaluable > 0 ? round3(trueFlags / evaluable) : null,
+    unreplayed_signals: [...UNREPLAYED_SIGNALS],
+    breakouts: breakouts.size,
+    caught_early: leads.length,
+    recall: breakouts.size > 0 ? round3(leads.length / breakouts.size) : null,
+    median_lead_days: median(leads),
+    mean_lead_days: leads.length > 0 ? Math.round((leads.reduce((s, n) => s + n, 0) / leads.length) * 10) / 10 : null,
+    outcomes,
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { alignSeries, compareHref, compareTitle, parseCompareInputs, parseComparePath } from './compare'
+
+describe('parseComparePath', () => {
+  it('reads owner/name pairs', () => {
+    expect(parseComparePath(['vercel', 'next.js', 'facebook', 'react'])).toEqual([
+      { owner: 'vercel', name: 'next.js' },
+      { owner: 'facebook', name: 'react' },
+    ])
+  })
+
+  it('rejects odd segment counts, bad characters and too few or too many repos', () => {
+    expect(parseComparePath(['vercel', 'next.js', 'facebook'])).toBeNull()
+    expect(parseComparePath(['vercel', 'next.js', 'face book', 'react'])).toBeNull()
+    expect(parseComparePath(['vercel', 'next.js'])).toBeNull()
+    expect(parseComparePath(['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'])).toBeNull()
+  })
+
+  it('rejects a malformed percent-escape instead of throwing', () => {
+    expect(parseComparePath(['vercel', 'next.js', 'face%', 'react'])).toBeNull()
+  })
+
+  it('counts the same repo twice (any case) once', () => {
+    expect(parseComparePath(['vercel', 'next.js', 'Vercel', 'Next.js'])).toBeNull()
+  })
+})
+
+describe('parseCompareInputs', () => {
+  it('accepts owner/name, github and gitfind URLs, skipping blanks and junk', () => {
+    expect(
+      parseCompareInputs([
+        ' vercel/next.js ',
+        'https://github.com/facebook/react/',
+        '',
+        'not a repo',
+        'https://gitfind.ai/project/denoland/deno',
+      ])
+    ).toEqual([
+      { owner: 'vercel', name: 'next.js' },
+      { owner: 'facebook', name: 'react' },
+      { owner: 'denoland', name: 'deno' },
+    ])
+  })
+
+  it('round-trips through the shareable path', () => {
+    const slugs = parseCompareInputs(['vercel/next.js', 'facebook/react'])
+    const href = compareHref(slugs)
+    expect(href).toBe('/compare/vercel/next.js/facebook/react')
+    expect(parseComparePath(href.split('/').slice(2))).toEqual(slugs)
+    expect(compareTitle(slugs)).toBe('vercel/next.js vs facebook/react')
+  })
+})
+
+describe('alignSeries', () => {
+  it('puts series on a shared sorted date axis with null gaps', () => {
+    const a = [
+      { date: '2026-01-02', value: 20 },
+      { date: '2026-01-01', value: 10 },
+    ]
+    const b = [{ date: '2026-01-03', value: 5 }]
+    expect(alignSeries([a, b])).toEqual({
+      dates: ['2026-01-01', '2026-01-02', '2026-01-03'],
+      values: [
+        [10, 20, null],
+        [null, null, 5],
+      ],
+    })
+  })
+})
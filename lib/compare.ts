@@ -0,0 +1,101 @@
+// /compare — URL parsing and series alignment for the side-by-side page.
+// Pure functions — unit-tested in lib/compare.test.ts.
+//
+// The shareable URL is path-based (/compare/vercel/next.js/facebook/react) so
+// the route's opengraph-image.tsx, which never sees search params, can render
+// the same comparison. /compare?repo=a/b&repo=c/d (the picker form) redirects
+// to it.
+
+export const MIN_COMPARE = 2
+export const MAX_COMPARE = 4
+
+export interface RepoSlug {
+  owner: string
+  name: string
+}
+
+// GitHub owner/repo charset; anything else can't be a tracked repo
+const SEGMENT = /^[A-Za-z0-9_.-]{1,100}$/
+
+function slugFrom(owner: string, name: string): RepoSlug | null {
+  return SEGMENT.test(owner) && SEGMENT.test(name) ? { owner, name } : null
+}
+
+function dedupe(slugs: RepoSlug[]): RepoSlug[] {
+  const seen = new Set<string>()
+  return slugs.filter((s) => {
+    const key = `${s.owner}/${s.name}`.toLowerCase()
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/** Path segments [owner, name, owner, name, …] → 2–4 distinct repos, or null. */
+export function parseComparePath(segments: string[]): RepoSlug[] | null {
+  if (segments.length % 2 !== 0) return null
+  let decoded: string[]
+  try {
+    decoded = segments.map((s) => decodeURIComponent(s))
+  } catch (err) {
+    if (err instanceof URIError) return null // a stray "%" in a hand-typed URL
+    throw err
+  }
+  const slugs: RepoSlug[] = []
+  for (let i = 0; i < decoded.length; i += 2) {
+    const slug = slugFrom(decoded[i], decoded[i + 1])
+    if (!slug) return null
+    slugs.push(slug)
+  }
+  const unique = dedupe(slugs)
+  return unique.length >= MIN_COMPARE && unique.length <= MAX_COMPARE ? unique : null
+}
+
+/**
+ * Picker input → repos. Accepts "owner/name", a github.com URL or a GitFind
+ * project URL; blanks and unparseable entries are dropped, extras beyond
+ * MAX_COMPARE ignored.
+ */
+export function parseCompareInputs(values: string[]): RepoSlug[] {
+  const slugs: RepoSlug[] = []
+  for (const raw of values) {
+    const cleaned = raw
+      .trim()
+      .replace(/^https?:\/\/(www\.)?(github\.com|gitfind\.ai\/project)\//i, '')
+      .replace(/\.git$/i, '')
+      .replace(/\/+$/, '')
+    const [owner, name, ...rest] = cleaned.split('/')
+    if (!owner || !name || rest.length > 0) continue
+    const slug = slugFrom(owner, name)
+    if (slug) slugs.push(slug)
+  }
+  return dedupe(slugs).slice(0, MAX_COMPARE)
+}
+
+export function compareHref(slugs: RepoSlug[]): string {
+  return `/compare/${slugs.map((s) => `${encodeURIComponent(s.owner)}/${encodeURIComponent(s.name)}`).join('/')}`
+}
+
+export function compareTitle(slugs: RepoSlug[]): string {
+  return slugs.map((s) => `${s.owner}/${s.name}`).join(' vs ')
+}
+
+export interface HistoryPoint {
+  date: string // YYYY-MM-DD
+  value: number
+}
+
+/**
+ * Puts several repos' series on one shared, sorted date axis. A repo with no
+ * point on a date gets null there (a gap in its line, not a zero).
+ */
+export function alignSeries(series: HistoryPoint[][]): { dates: string[]; values: (number | null)[][] } {
+  const dates = Array.from(new Set(series.flatMap((s) => s.map((p) => p.date)))).sort()
+  const index = new Map(dates.map((d, i) => [d, i]))
+  const values = series.map((s) => {
+    const row: (number | null)[] = new Array(dates.length).fill(null)
+    for (const p of s) row[index.get(p.date)!] = p.value
+    return row
+  })
+  return { dates, values }
+}
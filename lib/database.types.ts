@@ -84,8 +84,15 @@ export type Database = {
           category: string
           early_signal_score: number
           score_breakdown: Json | null
+          score_confidence: string | null
           scored_at: string
           trend_narrative: string | null
+          quality_flags: string[]
+          source_snapshot: Json | null
+          readme_excerpt: string | null
+          version: number
+          refresh_reasons: string[]
+          enriched_at: string
         }
         Insert: {
           id?: string
@@ -95,8 +102,15 @@ export type Database = {
           category: string
           early_signal_score: number
           score_breakdown?: Json | null
+          score_confidence?: string | null
           scored_at?: string
           trend_narrative?: string | null
+          quality_flags?: string[]
+          source_snapshot?: Json | null
+          readme_excerpt?: string | null
+          version?: number
+          refresh_reasons?: string[]
+          enriched_at?: string
         }
         Update: {
           id?: string
@@ -106,8 +120,15 @@ export type Database = {
           category?: string
           early_signal_score?: number
           score_breakdown?: Json | null
+          score_confidence?: string | null
           scored_at?: string
           trend_narrative?: string | null
+          quality_flags?: string[]
+          source_snapshot?: Json | null
+          readme_excerpt?: string | null
+          version?: number
+          refresh_reasons?: string[]
+          enriched_at?: string
         }
         Relationships: [
           {
@@ -125,21 +146,69 @@ export type Database = {
           name: string
           slug: string
           description: string | null
+          parent_slug: string | null
+          github_topics: string[]
+          sort_order: number
+          active: boolean
         }
         Insert: {
           id?: string
           name: string
           slug: string
           description?: string | null
+          parent_slug?: string | null
+          github_topics?: string[]
+          sort_order?: number
+          active?: boolean
         }
         Update: {
           id?: string
           name?: string
           slug?: string
           description?: string | null
+          parent_slug?: string | null
+          github_topics?: string[]
+          sort_order?: number
+          active?: boolean
         }
         Relationships: []
       }
+      repo_categories: {
+        Row: {
+          repo_id: string
+          category_slug: string
+          is_primary: boolean
+          labelled_at: string
+        }
+        Insert: {
+          repo_id: string
+          category_slug: string
+          is_primary?: boolean
+          labelled_at?: string
+        }
+        Update: {
+          repo_id?: string
+          category_slug?: string
+          is_primary?: boolean
+          labelled_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'repo_categories_repo_id_fkey'
+            columns: ['repo_id']
+            isOneToOne: false
+            referencedRelation: 'repos'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'repo_categories_category_slug_fkey'
+            columns: ['category_slug']
+            isOneToOne: false
+            referencedRelation: 'categories'
+            referencedColumns: ['slug']
+          }
+        ]
+      }
       subscribers: {
         Row: {
           id: string
@@ -384,9 +453,883 @@ export type Database = {
           }
         ]
       }
+      api_keys: {
+        Row: {
+          id: string
+          name: string
+          owner_email: string
+          key_prefix: string
+          key_hash: string
+          requests_per_minute: number
+          created_at: string
+          last_used_at: string | null
+          revoked_at: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          owner_email: string
+          key_prefix: string
+          key_hash: string
+          requests_per_minute?: number
+          created_at?: string
+          last_used_at?: string | null
+          revoked_at?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          owner_email?: string
+          key_prefix?: string
+          key_hash?: string
+          requests_per_minute?: number
+          created_at?: string
+          last_used_at?: string | null
+          revoked_at?: string | null
+        }
+        Relationships: []
+      }
+      api_usage: {
+        Row: {
+          key_id: string
+          usage_date: string
+          endpoint: string
+          request_count: number
+        }
+        Insert: {
+          key_id: string
+          usage_date?: string
+          endpoint: string
+          request_count?: number
+        }
+        Update: {
+          key_id?: string
+          usage_date?: string
+          endpoint?: string
+          request_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'api_usage_key_id_fkey'
+            columns: ['key_id']
+            isOneToOne: false
+            referencedRelation: 'api_keys'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      watchlist_items: {
+        Row: {
+          id: string
+          email: string
+          repo_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          email: string
+          repo_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          email?: string
+          repo_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'watchlist_items_repo_id_fkey'
+            columns: ['repo_id']
+            isOneToOne: false
+            referencedRelation: 'repos'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      watch_rules: {
+        Row: {
+          id: string
+          item_id: string
+          rule: Json
+          last_score: number | null
+          last_evaluated_at: string | null
+          last_fired_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          item_id: string
+          rule: Json
+          last_score?: number | null
+          last_evaluated_at?: string | null
+          last_fired_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          item_id?: string
+          rule?: Json
+          last_score?: number | null
+          last_evaluated_at?: string | null
+          last_fired_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'watch_rules_item_id_fkey'
+            columns: ['item_id']
+            isOneToOne: false
+            referencedRelation: 'watchlist_items'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      watch_alerts: {
+        Row: {
+          id: string
+          rule_id: string
+          email: string
+          repo_id: string
+          message: string
+          anomaly_id: string | null
+          created_at: string
+          sent_at: string | null
+        }
+        Insert: {
+          id?: string
+          rule_id: string
+          email: string
+          repo_id: string
+          message: string
+          anomaly_id?: string | null
+          created_at?: string
+          sent_at?: string | null
+        }
+        Update: {
+          id?: string
+          rule_id?: string
+          email?: string
+          repo_id?: string
+          message?: string
+          anomaly_id?: string | null
+          created_at?: string
+          sent_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'watch_alerts_rule_id_fkey'
+            columns: ['rule_id']
+            isOneToOne: false
+            referencedRelation: 'watch_rules'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          id: string
+          url: string
+          secret: string
+          events: string[]
+          owner_email: string
+          created_at: string
+          disabled_at: string | null
+        }
+        Insert: {
+          id?: string
+          url: string
+          secret: string
+          events: string[]
+          owner_email: string
+          created_at?: string
+          disabled_at?: string | null
+        }
+        Update: {
+          id?: string
+          url?: string
+          secret?: string
+          events?: string[]
+          owner_email?: string
+          created_at?: string
+          disabled_at?: string | null
+        }
+        Relationships: []
+      }
+      webhook_events: {
+        Row: {
+          id: string
+          type: string
+          data: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          type: string
+          data: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          type?: string
+          data?: Json
+          created_at?: string
+        }
+        Relationships: []
+      }
+      webhook_deliveries: {
+        Row: {
+          id: string
+          event_id: string
+          endpoint_id: string
+          status: 'pending' | 'succeeded' | 'failed'
+          attempts: number
+          next_attempt_at: string
+          last_attempt_at: string | null
+          response_status: number | null
+          last_error: string | null
+          claimed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          endpoint_id: string
+          status?: 'pending' | 'succeeded' | 'failed'
+          attempts?: number
+          next_attempt_at?: string
+          last_attempt_at?: string | null
+          response_status?: number | null
+          last_error?: string | null
+          claimed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          endpoint_id?: string
+          status?: 'pending' | 'succeeded' | 'failed'
+          attempts?: number
+          next_attempt_at?: string
+          last_attempt_at?: string | null
+          response_status?: number | null
+          last_error?: string | null
+          claimed_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'webhook_deliveries_event_id_fkey'
+            columns: ['event_id']
+            isOneToOne: false
+            referencedRelation: 'webhook_events'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'webhook_deliveries_endpoint_id_fkey'
+            columns: ['endpoint_id']
+            isOneToOne: false
+            referencedRelation: 'webhook_endpoints'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      model_scores: {
+        Row: {
+          repo_id: string
+          model_version: string
+          score: number
+          score_breakdown: Json
+          scored_at: string
+        }
+        Insert: {
+          repo_id: string
+          model_version: string
+          score: number
+          score_breakdown: Json
+          scored_at?: string
+        }
+        Update: {
+          repo_id?: string
+          model_version?: string
+          score?: number
+          score_breakdown?: Json
+          scored_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'model_scores_repo_id_fkey'
+            columns: ['repo_id']
+            isOneToOne: false
+            referencedRelation: 'repos'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      score_history: {
+        Row: {
+          repo_id: string
+          snapshot_date: string
+          score: number
+          tier: string
+          model_version: string
+          score_breakdown: Json
+        }
+        Insert: {
+          repo_id: string
+          snapshot_date: string
+          score: number
+          tier: string
+          model_version: string
+          score_breakdown: Json
+        }
+        Update: {
+          repo_id?: string
+          snapshot_date?: string
+          score?: number
+          tier?: string
+          model_version?: string
+          score_breakdown?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'score_history_repo_id_fkey'
+            columns: ['repo_id']
+            isOneToOne: false
+            referencedRelation: 'repos'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      stargazer_samples: {
+        Row: {
+          repo_id: string
+          login: string
+          starred_at: string
+          account_created_at: string
+          followers: number
+          following: number
+          public_repos: number
+          starred_repos: number
+          sampled_at: string
+        }
+        Insert: {
+          repo_id: string
+          login: string
+          starred_at: string
+          account_created_at: string
+          followers?: number
+          following?: number
+          public_repos?: number
+          starred_repos?: number
+          sampled_at?: string
+        }
+        Update: {
+          repo_id?: string
+          login?: string
+          starred_at?: string
+          account_created_at?: string
+          followers?: number
+          following?: number
+          public_repos?: number
+          starred_repos?: number
+          sampled_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'stargazer_samples_repo_id_fkey'
+            columns: ['repo_id']
+            isOneToOne: false
+            referencedRelation: 'repos'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      star_quality: {
+        Row: {
+          repo_id: string
+          sample_size: number
+          fake_star_probability: number
+          features: Json
+          sampled_at: string
+        }
+        Insert: {
+          repo_id: string
+          sample_size: number
+          fake_star_probability: number
+          features: Json
+          sampled_at?: string
+        }
+        Update: {
+          repo_id?: string
+          sample_size?: number
+          fake_star_probability?: number
+          features?: Json
+          sampled_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'star_quality_repo_id_fkey'
+            columns: ['repo_id']
+            isOneToOne: true
+            referencedRelation: 'repos'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      enrichment_embeddings: {
+        Row: {
+          repo_id: string
+          model: string
+          content_hash: string
+          embedding: string // pgvector text form, e.g. "[0.1,0.2,…]"
+          embedded_at: string
+        }
+        Insert: {
+          repo_id: string
+          model: string
+          content_hash: string
+          embedding: string
+          embedded_at?: string
+        }
+        Update: {
+          repo_id?: string
+          model?: string
+          content_hash?: string
+          embedding?: string
+          embedded_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'enrichment_embeddings_repo_id_fkey'
+            columns: ['repo_id']
+            isOneToOne: true
+            referencedRelation: 'repos'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      hn_thread_repos: {
+        Row: {
+          story_id: number
+          repo_id: string
+          seen_at: string
+        }
+        Insert: {
+          story_id: number
+          repo_id: string
+          seen_at?: string
+        }
+        Update: {
+          story_id?: number
+          repo_id?: string
+          seen_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'hn_thread_repos_repo_id_fkey'
+            columns: ['repo_id']
+            isOneToOne: false
+            referencedRelation: 'repos'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      similar_repos: {
+        Row: {
+          repo_id: string
+          similar_repo_id: string
+          rank: number
+          score: number
+          components: Json
+          reasons: string[]
+          computed_at: string
+        }
+        Insert: {
+          repo_id: string
+          similar_repo_id: string
+          rank: number
+          score: number
+          components: Json
+          reasons?: string[]
+          computed_at?: string
+        }
+        Update: {
+          repo_id?: string
+          similar_repo_id?: string
+          rank?: number
+          score?: number
+          components?: Json
+          reasons?: string[]
+          computed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'similar_repos_repo_id_fkey'
+            columns: ['repo_id']
+            isOneToOne: false
+            referencedRelation: 'repos'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'similar_repos_similar_repo_id_fkey'
+            columns: ['similar_repo_id']
+            isOneToOne: false
+            referencedRelation: 'repos'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      enrichment_history: {
+        Row: {
+          id: string
+          repo_id: string
+          version: number
+          summary: string
+          why_it_matters: string
+          category: string
+          labels: string[]
+          quality_flags: string[]
+          source_snapshot: Json | null
+          refresh_reasons: string[]
+          enriched_at: string
+          superseded_at: string
+        }
+        Insert: {
+          id?: string
+          repo_id: string
+          version: number
+          summary: string
+          why_it_matters: string
+          category: string
+          labels?: string[]
+          quality_flags?: string[]
+          source_snapshot?: Json | null
+          refresh_reasons?: string[]
+          enriched_at: string
+          superseded_at?: string
+        }
+        Update: {
+          id?: string
+          repo_id?: string
+          version?: number
+          summary?: string
+          why_it_matters?: string
+          category?: string
+          labels?: string[]
+          quality_flags?: string[]
+          source_snapshot?: Json | null
+          refresh_reasons?: string[]
+          enriched_at?: string
+          superseded_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'enrichment_history_repo_id_fkey'
+            columns: ['repo_id']
+            isOneToOne: false
+            referencedRelation: 'repos'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      llm_cache: {
+        Row: {
+          prompt_hash: string
+          template: string
+          model: string
+          response: Json
+          input_tokens: number
+          output_tokens: number
+          created_at: string
+        }
+        Insert: {
+          prompt_hash: string
+          template: string
+          model: string
+          response: Json
+          input_tokens?: number
+          output_tokens?: number
+          created_at?: string
+        }
+        Update: {
+          prompt_hash?: string
+          template?: string
+          model?: string
+          response?: Json
+          input_tokens?: number
+          output_tokens?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
+      llm_calls: {
+        Row: {
+          id: number
+          run_id: string
+          agent: string
+          template: string
+          template_version: number
+          model: string
+          provider: string
+          prompt_hash: string
+          input_tokens: number
+          output_tokens: number
+          latency_ms: number
+          cost_usd: number
+          cached: boolean
+          subject_table: string | null
+          subject_ids: string[]
+          error: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          run_id: string
+          agent: string
+          template: string
+          template_version: number
+          model: string
+          provider: string
+          prompt_hash: string
+          input_tokens?: number
+          output_tokens?: number
+          latency_ms?: number
+          cost_usd?: number
+          cached?: boolean
+          subject_table?: string | null
+          subject_ids?: string[]
+          error?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          run_id?: string
+          agent?: string
+          template?: string
+          template_version?: number
+          model?: string
+          provider?: string
+          prompt_hash?: string
+          input_tokens?: number
+          output_tokens?: number
+          latency_ms?: number
+          cost_usd?: number
+          cached?: boolean
+          subject_table?: string | null
+          subject_ids?: string[]
+          error?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      pipeline_runs: {
+        Row: {
+          id: number
+          script: string
+          status: string
+          started_at: string
+          finished_at: string | null
+          duration_ms: number | null
+          counts: Json
+          errors: string[]
+          error_count: number
+          api_quota: Json
+          github_run_id: string | null
+        }
+        Insert: {
+          id?: number
+          script: string
+          status?: string
+          started_at?: string
+          finished_at?: string | null
+          duration_ms?: number | null
+          counts?: Json
+          errors?: string[]
+          error_count?: number
+          api_quota?: Json
+          github_run_id?: string | null
+        }
+        Update: {
+          id?: number
+          script?: string
+          status?: string
+          started_at?: string
+          finished_at?: string | null
+          duration_ms?: number | null
+          counts?: Json
+          errors?: string[]
+          error_count?: number
+          api_quota?: Json
+          github_run_id?: string | null
+        }
+        Relationships: []
+      }
+      job_runs: {
+        Row: {
+          idempotency_key: string
+          job: string
+          night: string
+          status: string
+          attempts: number
+          started_at: string
+          finished_at: string | null
+          duration_ms: number | null
+          error: string | null
+        }
+        Insert: {
+          idempotency_key: string
+          job: string
+          night: string
+          status: string
+          attempts?: number
+          started_at?: string
+          finished_at?: string | null
+          duration_ms?: number | null
+          error?: string | null
+        }
+        Update: {
+          idempotency_key?: string
+          job?: string
+          night?: string
+          status?: string
+          attempts?: number
+          started_at?: string
+          finished_at?: string | null
+          duration_ms?: number | null
+          error?: string | null
+        }
+        Relationships: []
+      }
+      weight_presets: {
+        Row: {
+          slug: string
+          name: string
+          weights: Json
+          owner_email: string | null
+          created_at: string
+        }
+        Insert: {
+          slug: string
+          name: string
+          weights: Json
+          owner_email?: string | null
+          created_at?: string
+        }
+        Update: {
+          slug?: string
+          name?: string
+          weights?: Json
+          owner_email?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: Record<string, never>
-    Functions: Record<string, never>
+    Functions: {
+      repos_in_categories: {
+        Args: { p_slugs: string[]; p_limit?: number; p_offset?: number; p_confidence?: string[] | null }
+        Returns: { repo_id: string; total_count: number }[]
+      }
+      category_counts: {
+        Args: Record<string, never>
+        Returns: { slug: string; repo_count: number }[]
+      }
+      replace_repo_labels: {
+        Args: { p_repo_id: string; p_labels: string[] }
+        Returns: undefined
+      }
+      repos_by_preset: {
+        Args: {
+          p_weights: Json
+          p_weights_no_downloads: Json
+          p_category?: string | null
+          p_slugs?: string[] | null
+          p_repo_ids?: string[] | null
+          p_language?: string | null
+          p_min_score?: number | null
+          p_max_score?: number | null
+          p_confidence?: string[] | null
+          p_limit?: number
+        }
+        Returns: { repo_id: string; preset_score: number; total_count: number }[]
+      }
+      carry_forward_scores: {
+        Args: { p_date: string }
+        Returns: number
+      }
+      scores_as_of: {
+        Args: { p_date: string }
+        Returns: { repo_id: string; snapshot_date: string; score: number }[]
+      }
+      claim_webhook_deliveries: {
+        Args: { p_limit: number; p_lease_seconds: number }
+        Returns: {
+          id: string
+          attempts: number
+          event_id: string
+          event_type: string
+          event_data: Json
+          event_created_at: string
+          url: string
+          secret: string
+          disabled_at: string | null
+        }[]
+      }
+      take_rate_limit_token: {
+        Args: { p_bucket: string; p_capacity: number; p_refill_per_second: number }
+        Returns: number
+      }
+      increment_api_usage: {
+        Args: { p_key_id: string; p_endpoint: string }
+        Returns: undefined
+      }
+      search_repos: {
+        Args: {
+          p_query?: string | null
+          p_owner?: string | null
+          p_owner_term?: string | null
+          p_category?: string | null
+          p_language?: string | null
+          p_registry?: string | null
+          p_min_stars?: number | null
+          p_max_stars?: number | null
+          p_min_score?: number | null
+          p_max_score?: number | null
+          p_added_since?: string | null
+          p_embedding?: string | null
+          p_embedding_model?: string | null
+          p_min_similarity?: number
+          p_vector_k?: number
+          p_semantic_weight?: number
+          p_sort?: string
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: { repo_id: string; rank: number; stars_7d: number; total_count: number }[]
+      }
+      search_repo_facets: {
+        Args: {
+          p_query?: string | null
+          p_owner?: string | null
+          p_owner_term?: string | null
+          p_category?: string | null
+          p_language?: string | null
+          p_registry?: string | null
+          p_min_stars?: number | null
+          p_max_stars?: number | null
+          p_min_score?: number | null
+          p_max_score?: number | null
+          p_added_since?: string | null
+          p_embedding?: string | null
+          p_embedding_model?: string | null
+          p_min_similarity?: number
+          p_vector_k?: number
+        }
+        Returns: Json
+      }
+    }
     Enums: Record<string, never>
     CompositeTypes: Record<string, never>
   }
@@ -404,6 +1347,7 @@ export type UpdateTables<T extends keyof Database['public']['Tables']> =
 export type Repo = Tables<'repos'>
 export type Enrichment = Tables<'enrichments'>
 export type Category = Tables<'categories'>
+export type RepoCategory = Tables<'repo_categories'>
 export type Subscriber = Tables<'subscribers'>
 export type Submission = Tables<'submissions'>
 export type ToolContribution = Tables<'tool_contributions'>
@@ -412,8 +1356,29 @@ export type PackageDownload = Tables<'package_downloads'>
 export type WeeklyStat = Tables<'weekly_stats'>
 export type Anomaly = Tables<'anomalies'>
 export type AnomalyType = Anomaly['type']
+export type ApiKey = Tables<'api_keys'>
+export type ApiUsage = Tables<'api_usage'>
+export type WatchlistItem = Tables<'watchlist_items'>
+export type WatchRule = Tables<'watch_rules'>
+export type WatchAlert = Tables<'watch_alerts'>
+export type WebhookEndpoint = Tables<'webhook_endpoints'>
+export type WebhookEvent = Tables<'webhook_events'>
+export type WebhookDelivery = Tables<'webhook_deliveries'>
+export type ModelScore = Tables<'model_scores'>
+export type ScoreHistory = Tables<'score_history'>
+export type StargazerSampleRow = Tables<'stargazer_samples'>
+export type StarQuality = Tables<'star_quality'>
+export type EnrichmentEmbedding = Tables<'enrichment_embeddings'>
+export type SimilarRepoRow = Tables<'similar_repos'>
+export type EnrichmentHistory = Tables<'enrichment_history'>
+export type LlmCacheRow = Tables<'llm_cache'>
+export type LlmCall = Tables<'llm_calls'>
+export type PipelineRun = Tables<'pipeline_runs'>
+export type JobRun = Tables<'job_runs'>
+export type WeightPresetRow = Tables<'weight_presets'>
 
 export type RepoWithEnrichment = Repo & {
   enrichment: Enrichment | null
   downloads_7d?: number | null
+  preset_score?: number // set on lists ranked by a weight preset (lib/presets.ts)
 }
@@ -7,6 +7,7 @@ import {
   tierFor,
   tierExplainer,
   gauge,
+  sparkline,
   categorySlug,
   truncateAtWord,
   SCORE_EXPLAINER,
@@ -70,6 +71,14 @@ describe('gauge', () => {
   })
 })
 
+describe('sparkline', () => {
+  it('scales bars to the largest value', () => {
+    expect(sparkline([0, 2, 7])).toBe('▁▃█')
+    expect(sparkline([0, 0])).toBe('▁▁')
+    expect(sparkline([])).toBe('')
+  })
+})
+
 describe('categorySlug', () => {
   it('maps all 8 canonical categories to real route slugs', () => {
     expect(categorySlug('AI / Machine Learning')).toBe('ai-ml')
@@ -56,9 +56,18 @@ export function gauge(score: number, cells = 10): string {
   return '█'.repeat(filled) + '░'.repeat(cells - filled)
 }
 
+/** Block sparkline scaled to the series max, e.g. [0, 2, 7] -> "▁▃█" */
+export function sparkline(values: number[]): string {
+  const bars = '▁▂▃▄▅▆▇█'
+  const max = Math.max(...values, 0)
+  if (max <= 0) return bars[0].repeat(values.length)
+  return values.map((v) => bars[Math.min(bars.length - 1, Math.round((Math.max(v, 0) / max) * (bars.length - 1)))]).join('')
+}
+
 // Canonical enrichment-category → route slug map. The formulaic fallback
 // produces "ai-machine-learning" for "AI / Machine Learning" — a 404, since
-// the category route lives at /category/ai-ml. Map all 8 canonical names.
+// the category route lives at /category/ai-ml. Map the eight root category
+// names; subcategories are linked by slug (lib/taxonomy.ts).
 const CATEGORY_SLUG_MAP: Record<string, string> = {
   'AI / Machine Learning': 'ai-ml',
   'Developer Tools': 'developer-tools',
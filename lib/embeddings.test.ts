@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import {
+  EMBEDDING_DIMS,
+  EmbeddingError,
+  contentHash,
+  cosineSimilarity,
+  embeddingText,
+  getEmbeddingProvider,
+  normalise,
+  stubProvider,
+  toVectorLiteral,
+} from './embeddings'
+
+const repo = { owner: 'acme', name: 'llamaserve', description: 'Fast local model server', topics: ['llm', 'inference'] }
+const enrichment = {
+  summary: 'Runs open-weight language models on your own machine behind an HTTP API.',
+  why_it_matters: 'Teams can prototype without sending data to a hosted provider.',
+  category: 'AI / Machine Learning',
+}
+
+describe('embeddingText', () => {
+  it('includes identity, description, topics, category and the enrichment copy', () => {
+    const text = embeddingText(repo, enrichment)
+    expect(text.split('\n')).toEqual([
+      'acme/llamaserve',
+      'Fast local model server',
+      'Topics: llm, inference',
+      'Category: AI / Machine Learning',
+      enrichment.summary,
+      enrichment.why_it_matters,
+    ])
+  })
+
+  it('skips missing description and topics', () => {
+    const text = embeddingText({ ...repo, description: null, topics: [] }, enrichment)
+    expect(text).not.toContain('Topics:')
+    expect(text.split('\n')[1]).toBe('Category: AI / Machine Learning')
+  })
+})
+
+describe('contentHash', () => {
+  it('is stable and sensitive to any change', () => {
+    expect(contentHash('abc')).toBe(contentHash('abc'))
+    expect(contentHash('abc')).not.toBe(contentHash('abd'))
+    expect(contentHash('abc')).toMatch(/^[0-9a-f]{64}$/)
+  })
+})
+
+describe('vector helpers', () => {
+  it('normalises to unit length and leaves zero vectors alone', () => {
+    const v = normalise([3, 4])
+    expect(v[0]).toBeCloseTo(0.6)
+    expect(v[1]).toBeCloseTo(0.8)
+    expect(normalise([0, 0])).toEqual([0, 0])
+  })
+
+  it('computes cosine similarity', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1)
+    expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0)
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0)
+  })
+
+  it('formats pgvector literals', () => {
+    expect(toVectorLiteral([0.5, -0.25, 1 / 3])).toBe('[0.5,-0.25,0.333333]')
+  })
+})
+
+describe('stubProvider', () => {
+  const stub = stubProvider()
+
+  it('is deterministic and unit length at the schema dimension', async () => {
+    const [a] = await stub.embed(['local llm inference server'], 'query')
+    const [b] = await stub.embed(['local llm inference server'], 'query')
+    expect(a).toEqual(b)
+    expect(a.length).toBe(EMBEDDING_DIMS)
+    expect(Math.sqrt(a.reduce((s, x) => s + x * x, 0))).toBeCloseTo(1)
+  })
+
+  it('puts texts sharing words closer than unrelated ones', async () => {
+    const [query, related, unrelated] = await stub.embed(
+      ['local llm inference server', embeddingText(repo, { ...enrichment, summary: 'A local LLM inference server.' }), 'css animation toolkit for react buttons'],
+      'document'
+    )
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated))
+  })
+})
+
+describe('getEmbeddingProvider', () => {
+  it('is off without configuration', () => {
+    expect(getEmbeddingProvider({})).toBeNull()
+  })
+
+  it('picks voyage when a key is present, stub on request', () => {
+    expect(getEmbeddingProvider({ VOYAGE_API_KEY: 'pa-x' })?.name).toBe('voyage')
+    expect(getEmbeddingProvider({ EMBEDDING_PROVIDER: 'stub' })?.name).toBe('stub')
+  })
+
+  it('rejects unknown or unconfigured providers', () => {
+    expect(() => getEmbeddingProvider({ EMBEDDING_PROVIDER: 'voyage' })).toThrow(EmbeddingError)
+    expect(() => getEmbeddingProvider({ EMBEDDING_PROVIDER: 'word2vec' })).toThrow(EmbeddingError)
+  })
+})
@@ -0,0 +1,141 @@
+// Embeddings for semantic search over enrichment summaries.
+// Pure helpers (text building, hashing, the stub provider) are unit-tested in
+// lib/embeddings.test.ts.
+//
+// Providers are pluggable behind EmbeddingProvider and picked by env:
+//   EMBEDDING_PROVIDER=voyage (default when VOYAGE_API_KEY is set) — voyage-3-lite
+//   EMBEDDING_PROVIDER=stub — deterministic hashed bag-of-words, no network;
+//     for tests and local dev, never meaningful rankings
+// Every provider returns EMBEDDING_DIMS-length, L2-normalised vectors, matching
+// the vector(512) column in scripts/migrations/009-embeddings.sql. Stored rows
+// carry their model name, so a provider switch only matches re-embedded rows.
+
+import { createHash } from 'node:crypto'
+
+export const EMBEDDING_DIMS = 512
+
+export type EmbeddingKind = 'document' | 'query'
+
+export interface EmbeddingProvider {
+  name: string
+  model: string
+  embed(texts: string[], kind: EmbeddingKind): Promise<number[][]>
+}
+
+export class EmbeddingError extends Error {}
+
+/** The text indexed for a repo: what it is, what it does, why it matters. */
+export function embeddingText(
+  repo: { owner: string; name: string; description: string | null; topics?: string[] | null },
+  enrichment: { summary: string; why_it_matters: string; category: string }
+): string {
+  return [
+    `${repo.owner}/${repo.name}`,
+    repo.description ?? '',
+    repo.topics && repo.topics.length > 0 ? `Topics: ${repo.topics.join(', ')}` : '',
+    `Category: ${enrichment.category}`,
+    enrichment.summary,
+    enrichment.why_it_matters,
+  ]
+    .filter((line) => line.trim() !== '')
+    .join('\n')
+}
+
+/** Stable fingerprint of the embedded text — unchanged text is never re-embedded. */
+export function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex')
+}
+
+export function normalise(v: number[]): number[] {
+  const norm = Math.sqrt(v.reduce((s, x) => s + x * x, 0))
+  return norm === 0 ? v : v.map((x) => x / norm)
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let na = 0
+  let nb = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    na += a[i] * a[i]
+    nb += b[i] * b[i]
+  }
+  return na === 0 || nb === 0 ? 0 : dot / Math.sqrt(na * nb)
+}
+
+/** pgvector's text input format — what PostgREST expects for a vector column or arg. */
+export function toVectorLiteral(v: number[]): string {
+  return `[${v.map((x) => Number(x.toFixed(6))).join(',')}]`
+}
+
+// FNV-1a — cheap, stable token → bucket hash for the stub
+function fnv1a(token: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < token.length; i++) {
+    h ^= token.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+/**
+ * Deterministic stand-in: hashed bag of lowercase words (signed buckets), so
+ * texts sharing words land close together. Same input, same vector, always.
+ */
+export function stubProvider(): EmbeddingProvider {
+  return {
+    name: 'stub',
+    model: 'stub-hash-512',
+    async embed(texts) {
+      return texts.map((text) => {
+        const v = new Array<number>(EMBEDDING_DIMS).fill(0)
+        for (const token of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+          const h = fnv1a(token)
+          v[h % EMBEDDING_DIMS] += h & 0x80000000 ? -1 : 1
+        }
+        return normalise(v)
+      })
+    },
+  }
+}
+
+const VOYAGE_URL = 'https://api.voyageai.com/v1/embeddings'
+const VOYAGE_MODEL = 'voyage-3-lite' // 512 dims
+
+export function voyageProvider(apiKey: string): EmbeddingProvider {
+  return {
+    name: 'voyage',
+    model: VOYAGE_MODEL,
+    async embed(texts, kind) {
+      if (texts.length === 0) return []
+      const res = await fetch(VOYAGE_URL, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ input: texts, model: VOYAGE_MODEL, input_type: kind }),
+      })
+      if (!res.ok) throw new EmbeddingError(`Voyage embeddings ${res.status}: ${await res.text()}`)
+      const json = (await res.json()) as { data: Array<{ index: number; embedding: number[] }> }
+      const vectors = [...json.data].sort((a, b) => a.index - b.index).map((d) => d.embedding)
+      if (vectors.some((v) => v.length !== EMBEDDING_DIMS)) {
+        throw new EmbeddingError(`Voyage returned vectors that are not ${EMBEDDING_DIMS}-dimensional`)
+      }
+      return vectors.map(normalise)
+    },
+  }
+}
+
+/** The configured provider, or null when semantic search is off. */
+export function getEmbeddingProvider(env: Record<string, string | undefined> = process.env): EmbeddingProvider | null {
+  const choice = env.EMBEDDING_PROVIDER ?? (env.VOYAGE_API_KEY ? 'voyage' : null)
+  switch (choice) {
+    case 'stub':
+      return stubProvider()
+    case 'voyage':
+      if (!env.VOYAGE_API_KEY) throw new EmbeddingError('EMBEDDING_PROVIDER=voyage needs VOYAGE_API_KEY')
+      return voyageProvider(env.VOYAGE_API_KEY)
+    case null:
+      return null
+    default:
+      throw new EmbeddingError(`Unknown EMBEDDING_PROVIDER "${choice}"`)
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ENRICHMENT_TOOL_NAME,
+  claimProblems,
+  correctionMessage,
+  enrichmentTool,
+  findUnsupportedClaims,
+  isSuspectEnrichment,
+  qualityFlags,
+  statFigures,
+  validateEnrichmentInput,
+} from './enrichment-quality'
+import type { TaxonomyNode } from './taxonomy'
+
+function node(slug: string): TaxonomyNode {
+  return { slug, parent_slug: slug.includes('/') ? slug.split('/')[0] : null, name: slug, description: null, github_topics: [], sort_order: 0 }
+}
+
+const TAXONOMY = [node('ai-ml'), node('ai-ml/agents'), node('developer-tools'), node('developer-tools/cli')]
+
+const GOOD = {
+  summary: 'A terminal assistant that reads your codebase and makes edits on request. It runs locally and works with any editor.',
+  why_it_matters: 'Coding agents are moving from the IDE into the terminal. Teams can adopt one without changing their editor.',
+  labels: ['ai-ml/agents', 'developer-tools/cli'],
+}
+
+describe('enrichmentTool', () => {
+  it('constrains labels to the live taxonomy', () => {
+    const tool = enrichmentTool(TAXONOMY)
+    expect(tool.name).toBe(ENRICHMENT_TOOL_NAME)
+    expect(tool.input_schema.properties.labels.items.enum).toEqual(TAXONOMY.map((n) => n.slug))
+    expect(tool.input_schema.required).toEqual(['summary', 'why_it_matters', 'labels'])
+  })
+})
+
+describe('validateEnrichmentInput', () => {
+  it('accepts a well-formed draft', () => {
+    const { draft, errors } = validateEnrichmentInput(GOOD, TAXONOMY)
+    expect(errors).toEqual([])
+    expect(draft.labels).toEqual(['ai-ml/agents', 'developer-tools/cli'])
+  })
+
+  it('reports missing fields and unknown labels', () => {
+    const { errors } = validateEnrichmentInput({ summary: GOOD.summary, labels: ['ai-ml/robots'] }, TAXONOMY)
+    expect(errors).toContain('"why_it_matters" must be a non-empty string')
+    expect(errors).toContain('unknown category slugs: "ai-ml/robots"')
+  })
+
+  it('enforces length and sentence count', () => {
+    const { errors } = validateEnrichmentInput(
+      { ...GOOD, summary: 'Too short.', why_it_matters: 'One. Two is here. Three is here. Four is here too, which is far too many.' },
+      TAXONOMY
+    )
+    expect(errors.some((e) => e.startsWith('"summary" is too short'))).toBe(true)
+    expect(errors).toContain('"why_it_matters" must be 2 sentences, not 4')
+  })
+
+  it('rejects non-objects', () => {
+    expect(validateEnrichmentInput('{"summary": "…"}', TAXONOMY).errors[0]).toBe('input must be an object')
+  })
+})
+
+describe('findUnsupportedClaims', () => {
+  const sources = ['acme/agent', 'A terminal coding agent built on Claude. Supports Ollama and 12,000+ plugins.', ...statFigures(45210)]
+
+  it('passes figures and names found in the sources', () => {
+    const claims = findUnsupportedClaims('It has over 45,000 stars and 12,000 plugins, and talks to Claude and Ollama.', sources)
+    expect(claims).toEqual({ numbers: [], names: [] })
+  })
+
+  it('flags invented figures and names', () => {
+    const claims = findUnsupportedClaims('Used by 500 companies including Stripe and Shopify, it is 30% faster.', sources)
+    expect(claims.numbers).toEqual(['500', '30'])
+    expect(claims.names).toEqual(['Stripe', 'Shopify'])
+  })
+
+  it('ignores sentence-initial words, small counts and common vocabulary', () => {
+    const claims = findUnsupportedClaims('Teams get 3 modes. Developers use the CLI and the API via GitHub.', sources)
+    expect(claims).toEqual({ numbers: [], names: [] })
+  })
+})
+
+describe('claimProblems / qualityFlags', () => {
+  it('needs two unsupported names before complaining', () => {
+    expect(claimProblems({ numbers: [], names: ['Stripe'] })).toEqual([])
+    expect(claimProblems({ numbers: [], names: ['Stripe', 'Shopify'] })).toHaveLength(1)
+    expect(qualityFlags({ claims: { numbers: [], names: ['Stripe'] }, hasSourceText: true, corrected: false })).toEqual([])
+  })
+
+  it('records every guardrail outcome', () => {
+    expect(
+      qualityFlags({ claims: { numbers: ['500'], names: ['Stripe', 'Shopify'] }, hasSourceText: false, corrected: true })
+    ).toEqual(['unsupported_numbers', 'unsupported_names', 'no_source_text', 'corrected'])
+  })
+
+  it('builds a corrective prompt listing each problem', () => {
+    const msg = correctionMessage(['"summary" is too short', 'unknown category slugs: "x"'])
+    expect(msg).toContain('- "summary" is too short')
+    expect(msg).toContain(`Call ${ENRICHMENT_TOOL_NAME} again`)
+  })
+})
+
+describe('statFigures', () => {
+  it('adds rounded thousands for large stats', () => {
+    expect(statFigures(45_710)).toEqual(['45710', '45000', '46000'])
+    expect(statFigures(812)).toEqual(['812'])
+  })
+})
+
+describe('isSuspectEnrichment', () => {
+  it('hides on any suspect flag, not on corrected alone', () => {
+    expect(isSuspectEnrichment(['corrected'])).toBe(false)
+    expect(isSuspectEnrichment(['corrected', 'unsupported_numbers'])).toBe(true)
+    expect(isSuspectEnrichment(null)).toBe(false)
+  })
+})
@@ -0,0 +1,191 @@
+// Enrichment guardrails — the tool schema Claude must answer through,
+// validation with corrective feedback, and a check for claims the source
+// material does not support.
+// Pure functions — unit-tested in lib/enrichment-quality.test.ts.
+//
+// lib/enrichment.ts forces a `record_enrichment` tool call, validates the
+// input here and, on a violation or unsupported claim, answers the call with
+// an error tool_result listing the problems so Claude can correct itself.
+// Whatever is still suspect after the last attempt is stored in
+// enrichments.quality_flags (scripts/migrations/012-enrichment-quality.sql).
+
+import { MAX_LABELS, normaliseLabels, type TaxonomyNode } from './taxonomy'
+
+export const ENRICHMENT_TOOL_NAME = 'record_enrichment'
+export const MAX_ENRICHMENT_ATTEMPTS = 3
+
+const MIN_TEXT_LENGTH = 40
+const MAX_TEXT_LENGTH = 600
+const MAX_SENTENCES = 3
+const MIN_CHECKED_NUMBER = 10 // small counts ("3 steps") are too common to police
+const NAME_FLAG_THRESHOLD = 2 // one stray proper noun is usually a paraphrase
+
+export const QUALITY_FLAGS = ['unsupported_numbers', 'unsupported_names', 'no_source_text', 'corrected'] as const
+export type QualityFlag = (typeof QUALITY_FLAGS)[number]
+
+// Flags that make a summary too suspect to show. `corrected` alone is fine —
+// the final answer passed.
+export const SUSPECT_FLAGS: readonly QualityFlag[] = ['unsupported_numbers', 'unsupported_names', 'no_source_text']
+
+// Capitalised words that are vocabulary, not claims
+const COMMON_NAMES = new Set(
+  'AI API APIs LLM LLMs GPU GPUs CPU CLI UI UX SDK SDKs JSON YAML SQL HTTP HTTPS URL REST CI CD IDE IDEs OS PR PRs PM PMs CEO CTO SaaS B2B B2C MVP ROI GitHub GitFind TechCrunch English I'.split(
+    ' '
+  )
+)
+
+export interface EnrichmentDraft {
+  summary: string
+  why_it_matters: string
+  labels: string[]
+}
+
+export interface UnsupportedClaims {
+  numbers: string[]
+  names: string[]
+}
+
+/** Tool definition for messages.create — labels are constrained to the live taxonomy. */
+export function enrichmentTool(taxonomy: TaxonomyNode[]) {
+  const text = (description: string) => ({
+    type: 'string' as const,
+    minLength: MIN_TEXT_LENGTH,
+    maxLength: MAX_TEXT_LENGTH,
+    description,
+  })
+  return {
+    name: ENRICHMENT_TOOL_NAME,
+    description: 'Record the plain-English enrichment for this repository.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        summary: text('2 sentences: what the project does, in plain English for builders.'),
+        why_it_matters: text('2 sentences: why a builder, founder or investor should care.'),
+        labels: {
+          type: 'array',
+          items: { type: 'string', enum: taxonomy.map((n) => n.slug) },
+          minItems: 1,
+          maxItems: MAX_LABELS,
+          uniqueItems: true,
+          description: 'Category slugs, most fitting first.',
+        },
+      },
+      required: ['summary', 'why_it_matters', 'labels'],
+      additionalProperties: false,
+    },
+  }
+}
+
+function sentenceCount(text: string): number {
+  return text.split(/(?<=[.!?])\s+(?=[A-Z0-9"“])/).filter((s) => s.trim().length > 0).length
+}
+
+function checkText(field: string, value: unknown, errors: string[]): string {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    errors.push(`"${field}" must be a non-empty string`)
+    return ''
+  }
+  const text = value.trim()
+  if (text.length < MIN_TEXT_LENGTH) errors.push(`"${field}" is too short (${text.length} chars, minimum ${MIN_TEXT_LENGTH})`)
+  if (text.length > MAX_TEXT_LENGTH) errors.push(`"${field}" is too long (${text.length} chars, maximum ${MAX_TEXT_LENGTH})`)
+  if (sentenceCount(text) > MAX_SENTENCES) errors.push(`"${field}" must be 2 sentences, not ${sentenceCount(text)}`)
+  return text
+}
+
+/** Validate a tool call's input. `errors` is empty when the draft can be stored. */
+export function validateEnrichmentInput(
+  input: unknown,
+  taxonomy: TaxonomyNode[]
+): { draft: EnrichmentDraft; errors: string[] } {
+  const errors: string[] = []
+  const obj = input != null && typeof input === 'object' && !Array.isArray(input) ? (input as Record<string, unknown>) : {}
+  if (obj !== input) errors.push('input must be an object')
+
+  const summary = checkText('summary', obj.summary, errors)
+  const why_it_matters = checkText('why_it_matters', obj.why_it_matters, errors)
+
+  let labels: string[] = []
+  const known = new Set(taxonomy.map((n) => n.slug))
+  const rawLabels = Array.isArray(obj.labels) ? obj.labels : []
+  const unknown = rawLabels.filter((l) => typeof l !== 'string' || !known.has(l.trim().toLowerCase()))
+  if (!Array.isArray(obj.labels) || rawLabels.length === 0) {
+    errors.push('"labels" must be a non-empty array of category slugs')
+  } else if (unknown.length > 0) {
+    errors.push(`unknown category slugs: ${unknown.map((l) => JSON.stringify(l)).join(', ')}`)
+  } else {
+    labels = normaliseLabels(rawLabels, taxonomy)
+  }
+
+  return { draft: { summary, why_it_matters, labels }, errors }
+}
+
+function normaliseForMatch(text: string): string {
+  return text.toLowerCase().replace(/(\d),(?=\d{3}\b)/g, '$1')
+}
+
+/**
+ * Figures and proper names in `text` that appear nowhere in `sources`
+ * (description, README excerpt, topics, the stats we sent). Names at the start
+ * of a sentence and common vocabulary are skipped.
+ */
+export function findUnsupportedClaims(text: string, sources: string[]): UnsupportedClaims {
+  const haystack = normaliseForMatch(sources.join('\n'))
+  // Whole figures only — "500" must not match inside "45000"
+  const figures = new Set(haystack.match(/\d+(?:\.\d+)?/g) ?? [])
+  const numbers = new Set<string>()
+  for (const m of text.matchAll(/\d[\d,]*(?:\.\d+)?/g)) {
+    const value = m[0].replace(/[.,]$/, '')
+    const plain = value.replace(/,/g, '')
+    if (Number(plain) < MIN_CHECKED_NUMBER) continue
+    if (!figures.has(plain)) numbers.add(value)
+  }
+
+  const names = new Set<string>()
+  for (const m of text.matchAll(/[A-Z][\p{L}\p{N}]*(?:[.\-+][\p{L}\p{N}]+)*/gu)) {
+    const word = m[0]
+    const before = text.slice(0, m.index).trimEnd()
+    if (before === '' || /[.!?:"“]$/.test(before)) continue
+    if (COMMON_NAMES.has(word)) continue
+    if (!haystack.includes(word.toLowerCase())) names.add(word)
+  }
+  return { numbers: [...numbers], names: [...names] }
+}
+
+/** A stat as Claude may legitimately write it: exact, and rounded to thousands. */
+export function statFigures(n: number): string[] {
+  if (n < 1000) return [String(n)]
+  return [String(n), String(Math.floor(n / 1000) * 1000), String(Math.round(n / 1000) * 1000)]
+}
+
+/** Problem lines for the corrective prompt. */
+export function claimProblems(claims: UnsupportedClaims): string[] {
+  const out: string[] = []
+  if (claims.numbers.length > 0) {
+    out.push(`these figures do not appear in the description, README excerpt or stats: ${claims.numbers.join(', ')}`)
+  }
+  if (claims.names.length >= NAME_FLAG_THRESHOLD) {
+    out.push(`these names do not appear in the description, README excerpt or topics: ${claims.names.join(', ')}`)
+  }
+  return out
+}
+
+export function correctionMessage(problems: string[]): string {
+  return `That enrichment was rejected:
+${problems.map((p) => `- ${p}`).join('\n')}
+
+Call ${ENRICHMENT_TOOL_NAME} again with every problem fixed. Only state what the description, README excerpt, topics or stats support — leave out anything you cannot point to there.`
+}
+
+export function qualityFlags(opts: { claims: UnsupportedClaims; hasSourceText: boolean; corrected: boolean }): QualityFlag[] {
+  const flags: QualityFlag[] = []
+  if (opts.claims.numbers.length > 0) flags.push('unsupported_numbers')
+  if (opts.claims.names.length >= NAME_FLAG_THRESHOLD) flags.push('unsupported_names')
+  if (!opts.hasSourceText) flags.push('no_source_text')
+  if (opts.corrected) flags.push('corrected')
+  return flags
+}
+
+/** True when the UI should hide the generated summary and why-it-matters. */
+export function isSuspectEnrichment(flags: readonly string[] | null | undefined): boolean {
+  return (flags ?? []).some((f) => (SUSPECT_FLAGS as readonly string[]).includes(f))
+}
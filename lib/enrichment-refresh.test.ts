@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import {
+  describeRefreshReasons,
+  detectMaterialChanges,
+  majorVersion,
+  parseSourceSnapshot,
+  readmeCheckDue,
+  readmeHash,
+  refreshDue,
+  starMagnitude,
+  type SourceSnapshot,
+} from './enrichment-refresh'
+
+function snapshot(overrides: Partial<SourceSnapshot> = {}): SourceSnapshot {
+  return {
+    readme_hash: 'aaaa',
+    readme_checked_at: null,
+    description: 'A fast vector database',
+    release_tag: 'v1.4.0',
+    stars: 4_200,
+    ...overrides,
+  }
+}
+
+describe('detectMaterialChanges', () => {
+  it('finds nothing when the repo is unchanged', () => {
+    expect(detectMaterialChanges(snapshot(), snapshot({ stars: 9_800, release_tag: 'v1.9.2' }))).toEqual([])
+  })
+
+  it('flags each material change', () => {
+    expect(
+      detectMaterialChanges(
+        snapshot(),
+        snapshot({ readme_hash: 'bbbb', description: 'A vector database for agents', release_tag: 'v2.0.0', stars: 10_100 })
+      )
+    ).toEqual(['readme_changed', 'description_changed', 'major_release', 'stars_magnitude'])
+  })
+
+  it('ignores whitespace and case in descriptions', () => {
+    expect(detectMaterialChanges(snapshot(), snapshot({ description: '  a fast   Vector database ' }))).toEqual([])
+  })
+
+  it('only compares READMEs when both sides have a hash', () => {
+    expect(detectMaterialChanges(snapshot({ readme_hash: null }), snapshot({ readme_hash: 'bbbb' }))).toEqual([])
+    expect(detectMaterialChanges(snapshot(), snapshot({ readme_hash: null }))).toEqual([])
+  })
+
+  it('counts a first stable release but not a 0.x one', () => {
+    expect(detectMaterialChanges(snapshot({ release_tag: null }), snapshot({ release_tag: '1.0.0' }))).toEqual(['major_release'])
+    expect(detectMaterialChanges(snapshot({ release_tag: null }), snapshot({ release_tag: 'v0.3.0' }))).toEqual([])
+  })
+})
+
+describe('majorVersion', () => {
+  it('parses common tag shapes', () => {
+    expect(majorVersion('v2.1.0')).toBe(2)
+    expect(majorVersion('release-3.0')).toBe(3)
+    expect(majorVersion('10')).toBe(10)
+  })
+
+  it('returns null for prereleases and unversioned tags', () => {
+    expect(majorVersion('2.0.0-rc.1')).toBeNull()
+    expect(majorVersion('nightly')).toBeNull()
+    expect(majorVersion(null)).toBeNull()
+  })
+})
+
+describe('starMagnitude', () => {
+  it('steps at each power of ten', () => {
+    expect([0, 9, 10, 999, 1_000, 99_999, 100_000].map(starMagnitude)).toEqual([0, 0, 1, 2, 3, 4, 5])
+  })
+})
+
+describe('readmeHash', () => {
+  it('is stable, trims, and null for empty excerpts', () => {
+    expect(readmeHash('hello')).toBe(readmeHash('  hello\n'))
+    expect(readmeHash('hello')).not.toBe(readmeHash('hello!'))
+    expect(readmeHash('   ')).toBeNull()
+    expect(readmeHash(undefined)).toBeNull()
+  })
+})
+
+describe('parseSourceSnapshot', () => {
+  it('reads a stored snapshot and rejects malformed ones', () => {
+    expect(parseSourceSnapshot({ readme_hash: 'aaaa', description: '', release_tag: 'v1', stars: 5 })).toEqual({
+      readme_hash: 'aaaa',
+      readme_checked_at: null,
+      description: null,
+      release_tag: 'v1',
+      stars: 5,
+    })
+    expect(parseSourceSnapshot(null)).toBeNull()
+    expect(parseSourceSnapshot({ description: 'x' })).toBeNull()
+    expect(parseSourceSnapshot([1])).toBeNull()
+  })
+})
+
+describe('readmeCheckDue', () => {
+  const enrichedAt = '2026-09-01T00:00:00Z'
+
+  it('needs a push after the last check', () => {
+    expect(readmeCheckDue(snapshot(), '2026-09-02T00:00:00Z', enrichedAt)).toBe(true)
+    expect(readmeCheckDue(snapshot(), '2026-08-30T00:00:00Z', enrichedAt)).toBe(false)
+    expect(readmeCheckDue(snapshot({ readme_checked_at: '2026-09-10T00:00:00Z' }), '2026-09-05T00:00:00Z', enrichedAt)).toBe(false)
+    expect(readmeCheckDue(snapshot(), null, enrichedAt)).toBe(false)
+  })
+})
+
+describe('refreshDue', () => {
+  const now = new Date('2026-09-15T00:00:00Z')
+
+  it('waits out the minimum interval', () => {
+    expect(refreshDue('2026-09-10T00:00:00Z', now)).toBe(false)
+    expect(refreshDue('2026-09-08T00:00:00Z', now)).toBe(true)
+    expect(refreshDue(null, now)).toBe(true)
+  })
+})
+
+describe('describeRefreshReasons', () => {
+  it('labels known reasons and passes unknown ones through', () => {
+    expect(describeRefreshReasons(['readme_changed', 'major_release', 'other'])).toBe('readme changed, new major release, other')
+  })
+})
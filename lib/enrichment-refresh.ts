@@ -0,0 +1,124 @@
+// Enrichment refresh policy — decides when a repo has changed enough that its
+// summary should be rewritten.
+// Pure functions — unit-tested in lib/enrichment-refresh.test.ts.
+//
+// lib/enrichment.ts stores a SourceSnapshot of what each enrichment was
+// written from (enrichments.source_snapshot); scripts/refresh-enrichments.ts
+// compares it with the repo today and re-enriches only on a material change.
+// Superseded versions are kept in enrichment_history
+// (scripts/migrations/013-enrichment-refresh.sql).
+
+import { createHash } from 'node:crypto'
+
+export const MAX_REFRESHES_PER_RUN = 50
+export const MAX_README_CHECKS_PER_RUN = 400
+export const MIN_REFRESH_INTERVAL_DAYS = 7 // a busy repo gets at most one rewrite a week
+
+export const REFRESH_REASONS = [
+  'readme_changed',
+  'description_changed',
+  'major_release',
+  'stars_magnitude',
+  'score_change',
+  'manual',
+] as const
+export type RefreshReason = (typeof REFRESH_REASONS)[number]
+
+export const REFRESH_REASON_LABELS: Record<RefreshReason, string> = {
+  readme_changed: 'readme changed',
+  description_changed: 'description changed',
+  major_release: 'new major release',
+  stars_magnitude: 'crossed a star milestone',
+  score_change: 'score moved',
+  manual: 'manual refresh',
+}
+
+/** What an enrichment was written from. `readme_hash` null = no README excerpt (or not yet known). */
+export interface SourceSnapshot {
+  readme_hash: string | null
+  readme_checked_at: string | null // last time the README was fetched and hashed
+  description: string | null
+  release_tag: string | null
+  stars: number
+}
+
+/** Hash of the cleaned README excerpt the prompt actually saw. */
+export function readmeHash(excerpt: string | null | undefined): string | null {
+  const text = excerpt?.trim()
+  if (!text) return null
+  return createHash('sha256').update(text).digest('hex').slice(0, 16)
+}
+
+/** Parse a stored snapshot; anything malformed reads as "no baseline". */
+export function parseSourceSnapshot(raw: unknown): SourceSnapshot | null {
+  if (raw == null || typeof raw !== 'object' || Array.isArray(raw)) return null
+  const o = raw as Record<string, unknown>
+  if (typeof o.stars !== 'number') return null
+  const str = (v: unknown) => (typeof v === 'string' && v.length > 0 ? v : null)
+  return {
+    readme_hash: str(o.readme_hash),
+    readme_checked_at: str(o.readme_checked_at),
+    description: str(o.description),
+    release_tag: str(o.release_tag),
+    stars: o.stars,
+  }
+}
+
+/**
+ * Major version of a release tag: "v2.1.0" → 2, "release-3.0" → 3. Null for
+ * prereleases ("2.0.0-rc.1") and tags without a version ("nightly").
+ */
+export function majorVersion(tag: string | null | undefined): number | null {
+  if (!tag) return null
+  const m = tag.match(/^\D*(\d+)(?:\.\d+)*(-[0-9a-z.]+)?$/i)
+  if (!m || m[2]) return null
+  return Number(m[1])
+}
+
+/** 0 below 10 stars, then 1 (10+), 2 (100+), 3 (1k+), 4 (10k+)… */
+export function starMagnitude(stars: number): number {
+  return stars < 10 ? 0 : Math.floor(Math.log10(stars))
+}
+
+function normaliseDescription(text: string | null): string {
+  return (text ?? '').trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * Material changes between the snapshot an enrichment was written from and
+ * the repo now. A README is only compared when both sides have a hash, so a
+ * baseline without one never triggers a rewrite on its own.
+ */
+export function detectMaterialChanges(stored: SourceSnapshot, current: SourceSnapshot): RefreshReason[] {
+  const reasons: RefreshReason[] = []
+  if (stored.readme_hash && current.readme_hash && stored.readme_hash !== current.readme_hash) {
+    reasons.push('readme_changed')
+  }
+  if (normaliseDescription(stored.description) !== normaliseDescription(current.description)) {
+    reasons.push('description_changed')
+  }
+  const before = majorVersion(stored.release_tag)
+  const after = majorVersion(current.release_tag)
+  if (after != null && after > (before ?? 0) && after >= 1) reasons.push('major_release')
+  if (starMagnitude(current.stars) > starMagnitude(stored.stars)) reasons.push('stars_magnitude')
+  return reasons
+}
+
+/**
+ * Whether the README is worth fetching again: only a push since it was last
+ * hashed can have changed it. No push date means we cannot tell, so no.
+ */
+export function readmeCheckDue(stored: SourceSnapshot, pushedAt: string | null, enrichedAt: string): boolean {
+  if (!pushedAt) return false
+  return new Date(pushedAt).getTime() > new Date(stored.readme_checked_at ?? enrichedAt).getTime()
+}
+
+/** Whether enough time has passed since `enrichedAt` for another rewrite. */
+export function refreshDue(enrichedAt: string | null, now: Date = new Date()): boolean {
+  if (!enrichedAt) return true
+  return now.getTime() - new Date(enrichedAt).getTime() >= MIN_REFRESH_INTERVAL_DAYS * 86_400_000
+}
+
+export function describeRefreshReasons(reasons: readonly string[]): string {
+  return reasons.map((r) => REFRESH_REASON_LABELS[r as RefreshReason] ?? r).join(', ')
+}
@@ -1,35 +1,75 @@
 // Claude enrichment — generates plain-English summaries for each repo
-// Uses claude-sonnet-4-6 to produce:
+// Uses claude-sonnet-4-6 via the shared client (lib/llm.ts), answering through
+// a schema-checked tool call (lib/enrichment-quality.ts), to produce:
 //   1. A 2-sentence plain-English summary (written for builders, not developers)
 //   2. A 2-sentence "why it matters" (product strategy / market angle)
-//   3. A category tag (one of the 8 GitFind categories)
-// Results are cached in the Supabase `enrichments` table
+//   3. 1–4 category labels from the live taxonomy (lib/taxonomy.ts), first = primary
+// Results are cached in the Supabase `enrichments` table (category = primary
+// label's root) and `repo_categories` (every label). New enrichments and
+// tier changes are queued as outbound webhook events (lib/webhooks.ts).
+// Invalid or unsupported output gets a corrective retry; anything still
+// suspect is stored in enrichments.quality_flags so the UI can hide it.
+// Each enrichment records the source snapshot it was written from
+// (lib/enrichment-refresh.ts); rewriting one archives the previous version
+// in enrichment_history.
 
-import Anthropic from '@anthropic-ai/sdk'
+import type { MessageParam } from '@anthropic-ai/sdk/resources/messages'
 import { createServiceClient } from './supabase'
+import { buildRequest, createLlmClient, supabaseCache, supabaseLedger, type LlmClient, type PromptTemplate } from './llm'
 import type { ScoreBreakdown } from './score'
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-})
-
-export const CATEGORIES = [
-  'AI / Machine Learning',
-  'Developer Tools',
-  'Security',
-  'Data & Analytics',
-  'Web Frameworks',
-  'Infrastructure & DevOps',
-  'Mobile',
-  'Open Source Utilities',
-] as const
-
-export type CategoryName = (typeof CATEGORIES)[number]
+import type { Enrichment } from './database.types'
+import { tierFor } from './design'
+import { enqueueWebhookEvent, repoRef, tierChange } from './webhooks'
+import { MAX_LABELS, rootSlug, taxonomyPromptList, type TaxonomyNode } from './taxonomy'
+import {
+  ENRICHMENT_TOOL_NAME,
+  MAX_ENRICHMENT_ATTEMPTS,
+  claimProblems,
+  correctionMessage,
+  enrichmentTool,
+  findUnsupportedClaims,
+  qualityFlags,
+  statFigures,
+  validateEnrichmentInput,
+  type EnrichmentDraft,
+  type QualityFlag,
+  type UnsupportedClaims,
+} from './enrichment-quality'
+import { readmeHash, type RefreshReason, type SourceSnapshot } from './enrichment-refresh'
 
 export interface EnrichmentResult {
   summary: string
   why_it_matters: string
-  category: CategoryName
+  category: string // root category name of the primary label
+  labels: string[] // category slugs, primary first
+  quality_flags: QualityFlag[]
+}
+
+type ServiceClient = ReturnType<typeof createServiceClient>
+
+// Created on first use — the cache needs a service client
+let llm: LlmClient | null = null
+
+// The live taxonomy, loaded once per process — the pipeline enriches in bursts
+let taxonomyPromise: Promise<TaxonomyNode[]> | null = null
+
+async function loadTaxonomy(db: ServiceClient): Promise<TaxonomyNode[]> {
+  const { data, error } = await db
+    .from('categories')
+    .select('slug, parent_slug, name, description, github_topics, sort_order')
+    .eq('active', true)
+  if (error) throw new Error(`Failed to load taxonomy: ${error.message}`)
+  const nodes = (data ?? []) as unknown as TaxonomyNode[]
+  if (nodes.length === 0) throw new Error('categories is empty — run scripts/migrations/011-taxonomy.sql')
+  return nodes
+}
+
+function getTaxonomy(db: ServiceClient): Promise<TaxonomyNode[]> {
+  taxonomyPromise ??= loadTaxonomy(db).catch((err) => {
+    taxonomyPromise = null
+    throw err
+  })
+  return taxonomyPromise
 }
 
 interface RepoData {
@@ -45,7 +85,7 @@ interface RepoData {
   readme_excerpt?: string
 }
 
-function buildPrompt(repo: RepoData): string {
+function buildPrompt({ repo, taxonomy }: { repo: RepoData; taxonomy: TaxonomyNode[] }): string {
   const topicsLine =
     repo.topics && repo.topics.length > 0 ? `\nTopics: ${repo.topics.join(', ')}` : ''
   const readmeLine =
@@ -60,55 +100,155 @@ Stars: ${repo.stars.toLocaleString()}
 Forks: ${repo.forks.toLocaleString()}
 Contributors: ${repo.contributors}${readmeLine}
 
-Write a JSON response with exactly these 3 fields:
+Call the ${ENRICHMENT_TOOL_NAME} tool with exactly these 3 fields:
 
 1. "summary": 2 sentences. What this project does, written in plain English for builders — founders, PMs, and technical decision-makers. No developer jargon. No technical terms unless absolutely unavoidable (and if used, briefly explain them). Imagine explaining it to someone who reads TechCrunch but doesn't write code.
 
 2. "why_it_matters": 2 sentences. Why should a builder, founder, or investor care about this? What does it mean for product strategy, the market, or what's being built? Focus on business and product implications, not technical details.
 
-3. "category": Exactly one of these category names (copy it exactly):
-${CATEGORIES.map((c) => `- ${c}`).join('\n')}
+3. "labels": 1 to ${MAX_LABELS} category slugs from the taxonomy below (copy them exactly), most fitting first. Prefer the most specific subcategory that fits; use a top-level slug only when no subcategory does. Add further labels only when the project genuinely belongs in them too.
+${taxonomyPromptList(taxonomy)}
 
-Respond with only valid JSON, no markdown fences, no extra text.
+Only state what the description, README excerpt, topics and stats above support. Do not invent figures, customers, companies, integrations or benchmarks.`
+}
+
+const ENRICHMENT_PROMPT: PromptTemplate<{ repo: RepoData; taxonomy: TaxonomyNode[] }> = {
+  name: 'enrichment',
+  version: 1,
+  maxTokens: 1024,
+  render: buildPrompt,
+}
 
-Example format:
-{
-  "summary": "...",
-  "why_it_matters": "...",
-  "category": "Developer Tools"
-}`
+// Everything a claim in the summary may legitimately come from
+function sourceTexts(repo: RepoData): string[] {
+  return [
+    `${repo.owner}/${repo.name}`,
+    repo.description ?? '',
+    repo.readme_excerpt ?? '',
+    (repo.topics ?? []).join(' '),
+    repo.language ?? '',
+    ...statFigures(repo.stars),
+    ...statFigures(repo.forks),
+    String(repo.contributors),
+  ]
 }
 
-function parseEnrichmentResponse(text: string): EnrichmentResult {
-  // Strip markdown code fences if present
-  const cleaned = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
+// Ask Claude through the forced tool call; on a schema violation or an
+// unsupported claim, answer the call with the problems and let it retry.
+// Throws only if the last attempt still violates the schema.
+async function requestEnrichment(
+  llm: LlmClient,
+  repoId: string,
+  repo: RepoData,
+  taxonomy: TaxonomyNode[]
+): Promise<{ draft: EnrichmentDraft; claims: UnsupportedClaims; corrected: boolean }> {
+  const tool = enrichmentTool(taxonomy)
+  const sources = sourceTexts(repo)
+  const base = buildRequest(ENRICHMENT_PROMPT, { repo, taxonomy })
+  const messages: MessageParam[] = [...base.messages]
+
+  for (let attempt = 1; ; attempt++) {
+    const message = await llm.create(ENRICHMENT_PROMPT, {
+      ...base,
+      tools: [tool],
+      tool_choice: { type: 'tool', name: ENRICHMENT_TOOL_NAME },
+      messages: [...messages],
+    }, { table: 'enrichments', ids: [repoId] })
 
-  const parsed = JSON.parse(cleaned) as Record<string, unknown>
+    const call = message.content.find((block) => block.type === 'tool_use')
+    const { draft, errors } = call
+      ? validateEnrichmentInput(call.input, taxonomy)
+      : { draft: null, errors: [`no ${ENRICHMENT_TOOL_NAME} call in the response`] }
+    const claims = draft
+      ? findUnsupportedClaims(`${draft.summary} ${draft.why_it_matters}`, sources)
+      : { numbers: [], names: [] }
+    const problems = [...errors, ...claimProblems(claims)]
 
-  const summary = typeof parsed.summary === 'string' ? parsed.summary : ''
-  const why_it_matters = typeof parsed.why_it_matters === 'string' ? parsed.why_it_matters : ''
-  const categoryRaw = typeof parsed.category === 'string' ? parsed.category : ''
+    if (draft && (problems.length === 0 || (errors.length === 0 && attempt === MAX_ENRICHMENT_ATTEMPTS))) {
+      return { draft, claims, corrected: attempt > 1 }
+    }
+    if (attempt === MAX_ENRICHMENT_ATTEMPTS) {
+      throw new Error(`Invalid enrichment from Claude after ${attempt} attempts: ${problems.join('; ')}`)
+    }
 
-  const category = CATEGORIES.find((c) => c === categoryRaw)
-  if (!category) {
-    throw new Error(`Invalid category from Claude: "${categoryRaw}". Expected one of: ${CATEGORIES.join(', ')}`)
+    messages.push({ role: 'assistant', content: message.content })
+    messages.push(
+      call
+        ? { role: 'user', content: [{ type: 'tool_result', tool_use_id: call.id, is_error: true, content: correctionMessage(problems) }] }
+        : { role: 'user', content: correctionMessage(problems) }
+    )
   }
+}
+
+// Replace a repo's labels wholesale — a reclassification may drop some — in
+// one transaction (scripts/migrations/022-replace-repo-labels.sql), so a
+// failure leaves the old labels in place. Returns the error message, if any.
+async function replaceLabels(db: ServiceClient, repoId: string, labels: string[]): Promise<string | null> {
+  const { error } = await db.rpc('replace_repo_labels', { p_repo_id: repoId, p_labels: labels })
+  return error?.message ?? null
+}
 
-  if (!summary || !why_it_matters) {
-    throw new Error('Missing summary or why_it_matters in Claude response')
+// What this enrichment is being written from — compared on later runs by
+// scripts/refresh-enrichments.ts
+async function sourceSnapshot(db: ServiceClient, repoId: string, repo: RepoData): Promise<SourceSnapshot> {
+  const { data: stats } = await db
+    .from('weekly_stats')
+    .select('last_release_tag')
+    .eq('repo_id', repoId)
+    .order('snapshot_date', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  return {
+    readme_hash: readmeHash(repo.readme_excerpt),
+    readme_checked_at: new Date().toISOString(),
+    description: repo.description,
+    release_tag: stats?.last_release_tag ?? null,
+    stars: repo.stars,
   }
+}
+
+type ArchivedEnrichment = Pick<
+  Enrichment,
+  'summary' | 'why_it_matters' | 'category' | 'quality_flags' | 'source_snapshot' | 'version' | 'refresh_reasons' | 'enriched_at'
+>
 
-  return { summary, why_it_matters, category }
+// Copy the version about to be overwritten, with its labels, into
+// enrichment_history. Returns the error message, if any.
+async function archiveEnrichment(db: ServiceClient, repoId: string, previous: ArchivedEnrichment): Promise<string | null> {
+  const { data: labelRows, error: labelError } = await db
+    .from('repo_categories')
+    .select('category_slug')
+    .eq('repo_id', repoId)
+    .order('is_primary', { ascending: false })
+  if (labelError) return labelError.message
+  const { error } = await db.from('enrichment_history').upsert(
+    {
+      repo_id: repoId,
+      version: previous.version,
+      summary: previous.summary,
+      why_it_matters: previous.why_it_matters,
+      category: previous.category,
+      labels: (labelRows ?? []).map((l) => l.category_slug),
+      quality_flags: previous.quality_flags,
+      source_snapshot: previous.source_snapshot,
+      refresh_reasons: previous.refresh_reasons,
+      enriched_at: previous.enriched_at,
+    },
+    { onConflict: 'repo_id,version', ignoreDuplicates: true }
+  )
+  return error?.message ?? null
 }
 
 // Call Claude to enrich a repo and cache the result in Supabase
 // If a cached result exists and the repo hasn't changed significantly, return the cached version
+// `refreshReasons` records why an existing enrichment is being rewritten.
 export async function enrichRepo(
   repoId: string,
   repo: RepoData,
   score: number,
   breakdown?: ScoreBreakdown,
   forceRefresh = false,
+  refreshReasons: RefreshReason[] = [],
 ): Promise<EnrichmentResult> {
   const db = createServiceClient()
 
@@ -116,46 +256,101 @@ export async function enrichRepo(
   if (!forceRefresh) {
     const { data: existing } = await db
       .from('enrichments')
-      .select('summary, why_it_matters, category')
+      .select('summary, why_it_matters, category, quality_flags')
       .eq('repo_id', repoId)
       .maybeSingle()
 
     if (existing) {
+      const { data: labelRows } = await db
+        .from('repo_categories')
+        .select('category_slug')
+        .eq('repo_id', repoId)
+        .order('is_primary', { ascending: false })
       return {
         summary: existing.summary,
         why_it_matters: existing.why_it_matters,
-        category: existing.category as CategoryName,
+        category: existing.category,
+        labels: (labelRows ?? []).map((l) => l.category_slug),
+        quality_flags: existing.quality_flags as QualityFlag[],
       }
     }
   }
 
   // Call Claude
-  const message = await anthropic.messages.create({
-    model: 'claude-sonnet-4-6',
-    max_tokens: 512,
-    messages: [{ role: 'user', content: buildPrompt(repo) }],
-  })
-
-  const content = message.content[0]
-  if (!content || content.type !== 'text') {
-    throw new Error('Claude returned an unexpected response format')
+  const taxonomy = await getTaxonomy(db)
+  llm ??= createLlmClient({ cache: supabaseCache(db), ledger: supabaseLedger(db) })
+  const { draft, claims, corrected } = await requestEnrichment(llm, repoId, repo, taxonomy)
+  const root = taxonomy.find((n) => n.slug === rootSlug(draft.labels[0]))
+  if (!root) {
+    throw new Error(`Label "${draft.labels[0]}" from Claude has no root category`)
+  }
+  const result: EnrichmentResult = {
+    ...draft,
+    category: root.name,
+    quality_flags: qualityFlags({ claims, hasSourceText: Boolean(repo.description || repo.readme_excerpt), corrected }),
   }
 
-  const result = parseEnrichmentResponse(content.text)
+  const [{ data: previous }, snapshot] = await Promise.all([
+    db
+      .from('enrichments')
+      .select('summary, why_it_matters, category, quality_flags, source_snapshot, version, refresh_reasons, enriched_at, early_signal_score')
+      .eq('repo_id', repoId)
+      .maybeSingle(),
+    sourceSnapshot(db, repoId, repo),
+  ])
+
+  if (previous) {
+    const archiveError = await archiveEnrichment(db, repoId, previous)
+    if (archiveError) {
+      console.error(`[WARN] Failed to archive enrichment v${previous.version} for ${repo.owner}/${repo.name}: ${archiveError}`)
+    }
+  }
 
   // Upsert into enrichments table
-  await db.from('enrichments').upsert(
+  const now = new Date().toISOString()
+  const { error: upsertError } = await db.from('enrichments').upsert(
     {
       repo_id: repoId,
       summary: result.summary,
       why_it_matters: result.why_it_matters,
       category: result.category,
+      quality_flags: result.quality_flags,
+      source_snapshot: { ...snapshot },
+      readme_excerpt: repo.readme_excerpt || null,
+      version: previous ? previous.version + 1 : 1,
+      refresh_reasons: previous ? refreshReasons : [],
+      enriched_at: now,
       early_signal_score: score,
       score_breakdown: breakdown ? JSON.parse(JSON.stringify(breakdown)) : null,
-      scored_at: new Date().toISOString(),
+      score_confidence: breakdown?.confidence?.level ?? null,
+      scored_at: now,
     },
     { onConflict: 'repo_id' }
   )
 
+  if (!upsertError) {
+    const labelError = await replaceLabels(db, repoId, result.labels)
+    if (labelError) {
+      console.error(`[WARN] Failed to write category labels for ${repo.owner}/${repo.name}: ${labelError}`)
+    }
+
+    const ref = repoRef({ id: repoId, owner: repo.owner, name: repo.name })
+    if (!previous) {
+      await enqueueWebhookEvent(db, 'enrichment.created', {
+        repo: ref,
+        enrichment: { ...result, score, tier: tierFor(score) },
+      })
+    } else {
+      const change = tierChange(previous.early_signal_score, score)
+      if (change) {
+        await enqueueWebhookEvent(db, 'repo.tier_changed', {
+          repo: ref,
+          from: { tier: change.from, score: previous.early_signal_score },
+          to: { tier: change.to, score },
+        })
+      }
+    }
+  }
+
   return result
 }
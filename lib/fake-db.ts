@@ -0,0 +1,398 @@
+// In-memory stand-in for the Supabase client, for tests that drive an agent
+// end to end (scripts/agents.test.ts). Tables are plain row arrays the test
+// seeds and then inspects. Covers the PostgREST builder calls the agents make —
+// filters (including .or() strings), order, limit/range, single/maybeSingle,
+// count, insert/upsert/update/delete with .select() — and rpc() through
+// handlers the test supplies or JS mirrors of the migrations' SQL functions.
+// No joins: an embedded select like `watchlist_items!inner(email)` reads the
+// object the test seeded on the row under that name. Unknown columns read as
+// null.
+
+import { randomUUID } from 'node:crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+import { presetScore } from './presets'
+import type { ScoreWeights } from './score-models'
+
+export type Row = Record<string, unknown>
+export type Tables = Record<string, Row[]>
+export type RpcHandler = (args: Record<string, unknown>, tables: Tables) => unknown
+
+interface Result {
+  data: unknown
+  error: { message: string } | null
+  count: number | null
+}
+
+type Filter = (row: Row) => boolean
+
+function compare(a: unknown, b: unknown): number {
+  if (a == null && b == null) return 0
+  if (a == null) return 1
+  if (b == null) return -1
+  if (typeof a === 'number') return a - Number(b)
+  const x = String(a)
+  const y = String(b)
+  return x < y ? -1 : x > y ? 1 : 0
+}
+
+function likeRegex(pattern: string, flags = ''): RegExp {
+  const body = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.')
+  return new RegExp(`^${body}$`, flags)
+}
+
+// "(a,b)" or ["a", "b"] → ["a", "b"]
+function listOf(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value
+  return String(value).replace(/^\(|\)$/g, '').split(',').map((v) => v.trim().replace(/^"|"$/g, ''))
+}
+
+function test(op: string, column: string, value: unknown): Filter {
+  switch (op) {
+    case 'eq':
+      return (r) => r[column] != null && compare(r[column], value) === 0
+    case 'neq':
+      return (r) => r[column] != null && compare(r[column], value) !== 0
+    case 'gt':
+      return (r) => r[column] != null && compare(r[column], value) > 0
+    case 'gte':
+      return (r) => r[column] != null && compare(r[column], value) >= 0
+    case 'lt':
+      return (r) => r[column] != null && compare(r[column], value) < 0
+    case 'lte':
+      return (r) => r[column] != null && compare(r[column], value) <= 0
+    case 'in': {
+      const values = listOf(value)
+      return (r) => values.some((v) => r[column] != null && compare(r[column], v) === 0)
+    }
+    case 'is':
+      return (r) => (value === null || value === 'null' ? r[column] == null : r[column] === (value === 'true' || value === true))
+    case 'like':
+      return (r) => typeof r[column] === 'string' && likeRegex(String(value)).test(r[column] as string)
+    case 'ilike':
+      return (r) => typeof r[column] === 'string' && likeRegex(String(value), 'i').test(r[column] as string)
+    case 'contains': {
+      const values = listOf(value)
+      return (r) => Array.isArray(r[column]) && values.every((v) => (r[column] as unknown[]).includes(v))
+    }
+    default:
+      throw new Error(`fake-db: unsupported operator "${op}"`)
+  }
+}
+
+// Split on commas that are not inside parentheses
+function splitTerms(expr: string): string[] {
+  const out: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < expr.length; i++) {
+    if (expr[i] === '(') depth++
+    else if (expr[i] === ')') depth--
+    else if (expr[i] === ',' && depth === 0) {
+      out.push(expr.slice(start, i))
+      start = i + 1
+    }
+  }
+  out.push(expr.slice(start))
+  return out.map((t) => t.trim()).filter(Boolean)
+}
+
+// One .or() term: "col.op.value", "col.not.op.value", "and(…)" or "or(…)"
+function parseTerm(term: string): Filter {
+  const group = term.match(/^(and|or)\((.*)\)$/)
+  if (group) {
+    const parts = splitTerms(group[2]).map(parseTerm)
+    return group[1] === 'and' ? (r) => parts.every((p) => p(r)) : (r) => parts.some((p) => p(r))
+  }
+  const [column, op, ...rest] = term.split('.')
+  if (op === 'not') {
+    const inner = test(rest[0], column, rest.slice(1).join('.'))
+    return (r) => !inner(r)
+  }
+  return test(op, column, rest.join('.'))
+}
+
+function project(row: Row, columns: string): Row {
+  if (columns.trim() === '*') return { ...row }
+  const out: Row = {}
+  for (const column of splitTerms(columns)) {
+    const embedded = column.match(/^(\w+)(?:!\w+)?\((.*)\)$/)
+    if (embedded) {
+      const nested = row[embedded[1]]
+      out[embedded[1]] = nested && typeof nested === 'object' ? project(nested as Row, embedded[2]) : null
+    } else {
+      out[column] = row[column] ?? null
+    }
+  }
+  return out
+}
+
+class FakeQuery implements PromiseLike<Result> {
+  private op: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select'
+  private columns: string | null = '*'
+  private filters: Filter[] = []
+  private orders: Array<{ column: string; ascending: boolean }> = []
+  private window: { from: number; to: number } | null = null
+  private max: number | null = null
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many'
+  private counted = false
+  private head = false
+  private payload: Row[] = []
+  private patch: Row = {}
+  private conflict: string[] = []
+  private ignoreDuplicates = false
+
+  constructor(private readonly tables: Tables, private readonly table: string) {}
+
+  private get rows(): Row[] {
+    this.tables[this.table] ??= []
+    return this.tables[this.table]
+  }
+
+  select(columns = '*', opts: { count?: string; head?: boolean } = {}): this {
+    this.columns = columns
+    this.counted = Boolean(opts.count)
+    this.head = Boolean(opts.head)
+    return this
+  }
+
+  insert(rows: Row | Row[]): this {
+    this.op = 'insert'
+    this.columns = null
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    return this
+  }
+
+  upsert(rows: Row | Row[], opts: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.op = 'upsert'
+    this.columns = null
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    this.conflict = (opts.onConflict ?? 'id').split(',').map((c) => c.trim())
+    this.ignoreDuplicates = Boolean(opts.ignoreDuplicates)
+    return this
+  }
+
+  update(patch: Row): this {
+    this.op = 'update'
+    this.columns = null
+    this.patch = patch
+    return this
+  }
+
+  delete(): this {
+    this.op = 'delete'
+    this.columns = null
+    return this
+  }
+
+  private where(op: string, column: string, value: unknown): this {
+    this.filters.push(test(op, column, value))
+    return this
+  }
+
+  eq(column: string, value: unknown) { return this.where('eq', column, value) }
+  neq(column: string, value: unknown) { return this.where('neq', column, value) }
+  gt(column: string, value: unknown) { return this.where('gt', column, value) }
+  gte(column: string, value: unknown) { return this.where('gte', column, value) }
+  lt(column: string, value: unknown) { return this.where('lt', column, value) }
+  lte(column: string, value: unknown) { return this.where('lte', column, value) }
+  in(column: string, values: unknown[]) { return this.where('in', column, values) }
+  is(column: string, value: unknown) { return this.where('is', column, value) }
+  like(column: string, pattern: string) { return this.where('like', column, pattern) }
+  ilike(column: string, pattern: string) { return this.where('ilike', column, pattern) }
+  contains(column: string, values: unknown[]) { return this.where('contains', column, values) }
+
+  not(column: string, op: string, value: unknown): this {
+    const inner = test(op, column, value)
+    this.filters.push((r) => !inner(r))
+    return this
+  }
+
+  or(expr: string): this {
+    const terms = splitTerms(expr).map(parseTerm)
+    this.filters.push((r) => terms.some((t) => t(r)))
+    return this
+  }
+
+  order(column: string, opts: { ascending?: boolean } = {}): this {
+    this.orders.push({ column, ascending: opts.ascending ?? true })
+    return this
+  }
+
+  limit(n: number): this {
+    this.max = n
+    return this
+  }
+
+  range(from: number, to: number): this {
+    this.window = { from, to }
+    return this
+  }
+
+  single(): this {
+    this.mode = 'single'
+    return this
+  }
+
+  maybeSingle(): this {
+    this.mode = 'maybeSingle'
+    return this
+  }
+
+  private matching(): Row[] {
+    return this.rows.filter((r) => this.filters.every((f) => f(r)))
+  }
+
+  private run(): Result {
+    let out: Row[]
+    switch (this.op) {
+      case 'select':
+        out = this.matching()
+        break
+      case 'insert':
+        out = this.payload.map((r) => ({ id: randomUUID(), ...r }))
+        this.rows.push(...out)
+        break
+      case 'upsert':
+        out = []
+        for (const r of this.payload) {
+          const existing = this.rows.find((e) => this.conflict.every((c) => compare(e[c], r[c]) === 0))
+          if (!existing) {
+            const row = { id: randomUUID(), ...r }
+            this.rows.push(row)
+            out.push(row)
+          } else if (!this.ignoreDuplicates) {
+            Object.assign(existing, r)
+            out.push(existing)
+          }
+        }
+        break
+      case 'update':
+        out = this.matching()
+        for (const r of out) Object.assign(r, this.patch)
+        break
+      case 'delete':
+        out = this.matching()
+        this.tables[this.table] = this.rows.filter((r) => !out.includes(r))
+        break
+    }
+
+    const count = this.counted ? out.length : null
+    for (const { column, ascending } of [...this.orders].reverse()) {
+      out = [...out].sort((a, b) => (ascending ? 1 : -1) * compare(a[column], b[column]))
+    }
+    if (this.window) out = out.slice(this.window.from, this.window.to + 1)
+    if (this.max != null) out = out.slice(0, this.max)
+    const data = this.columns == null ? null : this.head ? null : out.map((r) => project(r, this.columns!))
+
+    if (this.mode === 'many' || !Array.isArray(data)) return { data, error: null, count }
+    if (data.length > 1 || (this.mode === 'single' && data.length === 0)) {
+      return { data: null, error: { message: `JSON object requested, ${data.length} rows returned` }, count }
+    }
+    return { data: data[0] ?? null, error: null, count }
+  }
+
+  then<T1 = Result, T2 = never>(
+    onfulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null,
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve()
+      .then(() => this.run())
+      .then(onfulfilled, onrejected)
+  }
+}
+
+// A label at or below `slug` (ai-ml/agents is under ai-ml)
+const under = (label: unknown, slug: string) => label === slug || String(label).startsWith(`${slug}/`)
+
+// score_confidence passes when unset or listed
+const confident = (e: Row | undefined, levels: unknown) =>
+  levels == null || e?.score_confidence == null || (levels as unknown[]).includes(e.score_confidence)
+
+// Repo ids labelled under every one of `slugs`
+function labelledUnderAll(tables: Tables, slugs: string[]): Set<unknown> {
+  const matched = new Map<unknown, Set<string>>()
+  for (const l of tables.repo_categories ?? []) {
+    for (const slug of slugs) {
+      if (under(l.category_slug, slug)) matched.set(l.repo_id, (matched.get(l.repo_id) ?? new Set()).add(slug))
+    }
+  }
+  return new Set([...matched].filter(([, hit]) => hit.size === slugs.length).map(([id]) => id))
+}
+
+// SQL functions from scripts/migrations, over the same rows
+const FUNCTIONS: Record<string, RpcHandler> = {
+  // 026-category-confidence.sql (011-taxonomy.sql plus p_confidence)
+  repos_in_categories: ({ p_slugs, p_limit = 50, p_offset = 0, p_confidence = null }, tables) => {
+    const enrichments = new Map((tables.enrichments ?? []).map((e) => [e.repo_id, e]))
+    const ids = [...labelledUnderAll(tables, p_slugs as string[])]
+      .filter((id) => confident(enrichments.get(id), p_confidence))
+      .sort((a, b) => compare(enrichments.get(b)?.early_signal_score, enrichments.get(a)?.early_signal_score) || compare(a, b))
+    const from = Number(p_offset)
+    return ids.slice(from, from + Number(p_limit)).map((repo_id) => ({ repo_id, total_count: ids.length }))
+  },
+  // 023-preset-ranking.sql — presetScore() is what preset_score() mirrors
+  repos_by_preset: (args, tables) => {
+    const repos = new Map((tables.repos ?? []).map((r) => [r.id, r]))
+    const slugs = args.p_slugs as string[] | null | undefined
+    const labelled = slugs ? labelledUnderAll(tables, slugs) : null
+    const hits = (tables.enrichments ?? [])
+      .filter((e) => {
+        const repo = repos.get(e.repo_id)
+        if (!repo) return false
+        if (args.p_category != null && e.category !== args.p_category) return false
+        if (args.p_repo_ids != null && !(args.p_repo_ids as unknown[]).includes(e.repo_id)) return false
+        if (args.p_language != null && repo.language !== args.p_language) return false
+        if (args.p_min_score != null && compare(e.early_signal_score, args.p_min_score) < 0) return false
+        if (args.p_max_score != null && compare(e.early_signal_score, args.p_max_score) > 0) return false
+        if (labelled && !labelled.has(e.repo_id)) return false
+        return confident(e, args.p_confidence)
+      })
+      .map((e) => ({ e, score: presetScore(e.score_breakdown, args.p_weights as ScoreWeights) }))
+      .sort((a, b) => b.score - a.score || compare(b.e.early_signal_score, a.e.early_signal_score) || compare(a.e.repo_id, b.e.repo_id))
+    return hits
+      .slice(0, Number(args.p_limit ?? 50))
+      .map(({ e, score }) => ({ repo_id: e.repo_id, preset_score: score, total_count: hits.length }))
+  },
+  // 021-scores-as-of.sql
+  scores_as_of: ({ p_date }, tables) => {
+    const latest = new Map<unknown, Row>()
+    for (const r of tables.score_history ?? []) {
+      if (compare(r.snapshot_date, p_date) > 0) continue
+      const seen = latest.get(r.repo_id)
+      if (!seen || compare(r.snapshot_date, seen.snapshot_date) > 0) latest.set(r.repo_id, r)
+    }
+    return [...latest.values()].map((r) => ({ repo_id: r.repo_id, snapshot_date: r.snapshot_date, score: r.score }))
+  },
+  // 022-replace-repo-labels.sql
+  replace_repo_labels: ({ p_repo_id, p_labels }, tables) => {
+    const labels = p_labels as string[]
+    const rows = (tables.repo_categories ?? []).filter((r) => r.repo_id !== p_repo_id || labels.includes(r.category_slug as string))
+    labels.forEach((slug, i) => {
+      const row = rows.find((r) => r.repo_id === p_repo_id && r.category_slug === slug)
+      if (row) row.is_primary = i === 0
+      else rows.push({ repo_id: p_repo_id, category_slug: slug, is_primary: i === 0, labelled_at: new Date().toISOString() })
+    })
+    tables.repo_categories = rows
+    return null
+  },
+}
+
+/**
+ * A Supabase client over `tables`. rpc(name) calls `rpc[name]`, or the
+ * migration's function when the test supplies none; a handler returning rows
+ * can be filtered, ordered and paged like a table.
+ */
+export function fakeDb(tables: Tables, rpc: Record<string, RpcHandler> = {}): SupabaseClient<Database> {
+  const client = {
+    from: (table: string) => new FakeQuery(tables, table),
+    rpc: (name: string, args: Record<string, unknown> = {}): PromiseLike<Result> => {
+      const handler = rpc[name] ?? FUNCTIONS[name]
+      if (!handler) return Promise.resolve({ data: null, error: { message: `function ${name} does not exist` }, count: null })
+      const result = handler(args, tables)
+      if (!Array.isArray(result)) return Promise.resolve({ data: result ?? null, error: null, count: null })
+      return new FakeQuery({ [name]: result as Row[] }, name)
+    },
+  }
+  return client as unknown as SupabaseClient<Database>
+}
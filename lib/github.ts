@@ -2,6 +2,8 @@
 // Rate limit: 5,000 requests/hour with token — this client uses the GITHUB_TOKEN env var
 // Keep all GitHub API calls isolated here. Do NOT call GitHub directly from other modules.
 
+import type { StargazerSample } from './star-quality'
+
 const GITHUB_API_BASE = 'https://api.github.com'
 const GITHUB_TOKEN = process.env.GITHUB_TOKEN
 
@@ -32,18 +34,6 @@ export interface CommitActivity {
   commits_30d: number
 }
 
-// Category → GitHub search topics mapping
-const CATEGORY_TOPICS: Record<string, string[]> = {
-  'ai-ml': ['ai', 'machine-learning', 'llm', 'artificial-intelligence', 'deep-learning', 'generative-ai', 'assistant'],
-  'developer-tools': ['developer-tools', 'cli', 'devtools', 'productivity', 'code-editor'],
-  'security': ['security', 'cybersecurity', 'cryptography', 'penetration-testing', 'privacy'],
-  'data-analytics': ['data-science', 'analytics', 'database', 'data-visualization', 'etl'],
-  'web-frameworks': ['web-framework', 'frontend', 'backend', 'api', 'fullstack'],
-  'infrastructure-devops': ['devops', 'kubernetes', 'docker', 'infrastructure', 'cloud'],
-  'mobile': ['ios', 'android', 'react-native', 'flutter', 'mobile'],
-  'open-source-utilities': ['utility', 'automation', 'tools', 'open-source', 'productivity'],
-}
-
 function githubHeaders(): Record<string, string> {
   const headers: Record<string, string> = {
     Accept: 'application/vnd.github.v3+json',
@@ -100,10 +90,10 @@ interface GitHubSearchItem {
   topics?: string[]
 }
 
-// Fetch repos for a given category slug, ordered by stars, pushed in last 90 days
-export async function searchReposByCategory(categorySlug: string): Promise<GitHubRepo[]> {
-  const topics = CATEGORY_TOPICS[categorySlug]
-  if (!topics) throw new Error(`Unknown category slug: ${categorySlug}`)
+// Fetch repos for a category's GitHub topics (categories.github_topics),
+// ordered by stars, pushed in last 90 days
+export async function searchReposByTopics(topics: string[]): Promise<GitHubRepo[]> {
+  if (topics.length === 0) return []
 
   const ninetyDaysAgo = new Date()
   ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90)
@@ -113,7 +103,7 @@ export async function searchReposByCategory(categorySlug: string): Promise<GitHu
   const seen = new Set<number>()
   const repos: GitHubRepo[] = []
 
-  // Pick first 3 topics per category (24 calls total, within budget)
+  // Pick first 3 topics per category (3 calls per root category, within budget)
   for (const topic of topics.slice(0, 3)) {
     const query = encodeURIComponent(`topic:${topic} stars:>50 pushed:>${dateStr}`)
     const data = await githubFetch<GitHubSearchResult>(
@@ -338,6 +328,110 @@ export async function getStarVelocity(owner: string, repo: string, totalStars: n
   return { stars_7d, stars_30d }
 }
 
+// GraphQL is used only where REST would need one call per user (stargazer
+// profiles). Requires GITHUB_TOKEN — the GraphQL API has no anonymous access.
+export async function githubGraphQL<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+  if (!GITHUB_TOKEN) throw new Error('GITHUB_TOKEN is required for the GitHub GraphQL API')
+  const response = await fetch(`${GITHUB_API_BASE}/graphql`, {
+    method: 'POST',
+    headers: { ...githubHeaders(), 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, variables }),
+  })
+  if (!response.ok) {
+    throw new Error(`GitHub GraphQL error ${response.status}: ${await response.text()}`)
+  }
+  const body = (await response.json()) as { data?: T; errors?: Array<{ message: string }> }
+  if (body.errors?.length) {
+    throw new Error(`GitHub GraphQL error: ${body.errors.map((e) => e.message).join('; ')}`)
+  }
+  return body.data as T
+}
+
+export interface RateLimitWindow {
+  limit: number
+  used: number
+  reset: number // unix seconds
+}
+
+// Current quota per API (core, search, graphql, …). GET /rate_limit is free —
+// it does not count against any of them. Null without a token or on error.
+export async function getRateLimit(): Promise<Record<string, RateLimitWindow> | null> {
+  if (!GITHUB_TOKEN) return null
+  try {
+    const body = await githubFetch<{ resources: Record<string, RateLimitWindow> }>('/rate_limit')
+    return body.resources
+  } catch {
+    return null
+  }
+}
+
+const RECENT_STARGAZERS_QUERY = `
+  query($owner: String!, $name: String!, $before: String) {
+    repository(owner: $owner, name: $name) {
+      stargazers(last: 100, before: $before, orderBy: { field: STARRED_AT, direction: ASC }) {
+        pageInfo { hasPreviousPage startCursor }
+        edges {
+          starredAt
+          node {
+            login
+            createdAt
+            followers { totalCount }
+            following { totalCount }
+            repositories(privacy: PUBLIC) { totalCount }
+            starredRepositories { totalCount }
+          }
+        }
+      }
+    }
+  }
+`
+
+interface StargazersPage {
+  repository: {
+    stargazers: {
+      pageInfo: { hasPreviousPage: boolean; startCursor: string | null }
+      edges: Array<{
+        starredAt: string
+        node: {
+          login: string
+          createdAt: string
+          followers: { totalCount: number }
+          following: { totalCount: number }
+          repositories: { totalCount: number }
+          starredRepositories: { totalCount: number }
+        }
+      }>
+    }
+  } | null
+}
+
+// The most recent `limit` stargazers with the account features the star-farm
+// check needs (lib/star-quality.ts), newest page first. 100 per request.
+export async function getRecentStargazers(owner: string, repo: string, limit = 200): Promise<StargazerSample[]> {
+  const out: StargazerSample[] = []
+  let before: string | null = null
+  while (out.length < limit) {
+    const page: StargazersPage = await githubGraphQL<StargazersPage>(RECENT_STARGAZERS_QUERY, { owner, name: repo, before })
+    const stargazers = page.repository?.stargazers
+    if (!stargazers) break
+    for (const edge of stargazers.edges) {
+      out.push({
+        login: edge.node.login,
+        starred_at: edge.starredAt,
+        account_created_at: edge.node.createdAt,
+        followers: edge.node.followers.totalCount,
+        following: edge.node.following.totalCount,
+        public_repos: edge.node.repositories.totalCount,
+        starred_repos: edge.node.starredRepositories.totalCount,
+      })
+    }
+    if (!stargazers.pageInfo.hasPreviousPage || !stargazers.pageInfo.startCursor) break
+    before = stargazers.pageInfo.startCursor
+    await new Promise((r) => setTimeout(r, 250))
+  }
+  return out.slice(-limit)
+}
+
 interface Contributor {
   login: string
   contributions: number
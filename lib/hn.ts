@@ -7,6 +7,7 @@ const HN_API_BASE = 'https://hn.algolia.com/api/v1'
 export interface HNMentions {
   mentions_7d: number
   mentions_30d: number
+  lookup_ok: boolean // false when a search failed and its count defaulted to 0
 }
 
 interface AlgoliaHit {
@@ -33,20 +34,24 @@ function buildQuery(owner: string, repoName: string): string {
 async function fetchHNMentions(
   query: string,
   afterTimestamp: number
-): Promise<number> {
+): Promise<number | null> {
   const encodedQuery = encodeURIComponent(query)
   const url = `${HN_API_BASE}/search?query=${encodedQuery}&numericFilters=created_at_i>${afterTimestamp}&hitsPerPage=1`
 
-  const response = await fetch(url, {
-    headers: { 'User-Agent': 'GitFind/1.0' },
-  })
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': 'GitFind/1.0' },
+    })
 
-  if (!response.ok) {
-    return 0
-  }
+    if (!response.ok) {
+      return null
+    }
 
-  const data = (await response.json()) as AlgoliaSearchResult
-  return data.nbHits
+    const data = (await response.json()) as AlgoliaSearchResult
+    return data.nbHits
+  } catch {
+    return null
+  }
 }
 
 // Get the number of HN posts and comments mentioning this repo
@@ -63,5 +68,9 @@ export async function getHNMentions(owner: string, repoName: string): Promise<HN
     fetchHNMentions(query, thirtyDaysAgo),
   ])
 
-  return { mentions_7d, mentions_30d }
+  return {
+    mentions_7d: mentions_7d ?? 0,
+    mentions_30d: mentions_30d ?? 0,
+    lookup_ok: mentions_7d != null && mentions_30d != null,
+  }
 }
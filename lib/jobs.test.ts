@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import {
+  JobGraphError,
+  NIGHTLY_JOBS,
+  decideJob,
+  idempotencyKey,
+  nightOf,
+  orderJobs,
+  retryDelayMs,
+  selectJobs,
+  type JobSpec,
+  type JobState,
+} from './jobs'
+
+function job(name: string, dependsOn: string[] = [], overrides: Partial<JobSpec> = {}): JobSpec {
+  return { name, script: `scripts/${name}.ts`, dependsOn, retries: 0, timeoutMinutes: 5, ...overrides }
+}
+
+const GRAPH = [job('report', ['score', 'snapshot']), job('ingest'), job('score', ['ingest']), job('snapshot', ['score']), job('email', ['report'])]
+const names = (jobs: JobSpec[]) => jobs.map((j) => j.name)
+
+describe('orderJobs', () => {
+  it('orders by dependency, declaration order breaking ties', () => {
+    expect(names(orderJobs(GRAPH))).toEqual(['ingest', 'score', 'snapshot', 'report', 'email'])
+    expect(names(orderJobs([job('b'), job('a')]))).toEqual(['b', 'a'])
+  })
+
+  it('rejects cycles, unknown dependencies and duplicate names', () => {
+    expect(() => orderJobs([job('a', ['b']), job('b', ['a'])])).toThrow(/cycle among: a, b/)
+    expect(() => orderJobs([job('a', ['missing'])])).toThrow(JobGraphError)
+    expect(() => orderJobs([job('a'), job('a')])).toThrow(/Duplicate job "a"/)
+  })
+
+  it('accepts the nightly graph', () => {
+    const ordered = names(orderJobs(NIGHTLY_JOBS))
+    expect(ordered.indexOf('snapshot-light')).toBeLessThan(ordered.indexOf('detect-anomalies'))
+    expect(ordered.indexOf('detect-anomalies')).toBeLessThan(ordered.indexOf('email-anomaly-digest'))
+  })
+
+  it('keeps snapshots, anomalies and watchlist alerts independent of the night pipeline', () => {
+    const downstream = names(selectJobs(NIGHTLY_JOBS, { from: 'pipeline' }))
+    for (const morning of ['snapshot-light', 'detect-anomalies', 'email-anomaly-digest', 'send-watchlist-alerts']) {
+      expect(downstream).not.toContain(morning)
+    }
+  })
+})
+
+describe('selectJobs', () => {
+  it('returns every job in run order by default', () => {
+    expect(names(selectJobs(GRAPH))).toEqual(['ingest', 'score', 'snapshot', 'report', 'email'])
+  })
+
+  it('--only picks exactly the named jobs', () => {
+    expect(names(selectJobs(GRAPH, { only: ['email', 'score'] }))).toEqual(['score', 'email'])
+  })
+
+  it('--from picks a job and everything downstream', () => {
+    expect(names(selectJobs(GRAPH, { from: 'snapshot' }))).toEqual(['snapshot', 'report', 'email'])
+  })
+
+  it('rejects unknown names', () => {
+    expect(() => selectJobs(GRAPH, { from: 'nope' })).toThrow(/Unknown job "nope"/)
+  })
+})
+
+describe('decideJob', () => {
+  const NIGHT = new Date('2026-10-19T00:05:00Z')
+  const MORNING = new Date('2026-10-19T11:00:00Z')
+  const detect = job('detect', ['snapshot'], { notBeforeUtcHour: 11 })
+  const states = (entries: Record<string, JobState>) => new Map(Object.entries(entries))
+
+  it('skips jobs that already succeeded tonight unless forced', () => {
+    expect(decideJob(job('ingest'), states({ ingest: 'succeeded' }), NIGHT)).toEqual({ action: 'skip', reason: 'done' })
+    expect(decideJob(job('ingest'), states({ ingest: 'succeeded' }), NIGHT, { force: true })).toEqual({ action: 'run' })
+  })
+
+  it('reruns failed and unfinished jobs', () => {
+    expect(decideJob(job('ingest'), states({ ingest: 'failed' }), NIGHT)).toEqual({ action: 'run' })
+    expect(decideJob(job('ingest'), states({ ingest: 'running' }), NIGHT)).toEqual({ action: 'run' })
+  })
+
+  it('blocks until every dependency has succeeded', () => {
+    expect(decideJob(job('report', ['score', 'snapshot']), states({ score: 'succeeded', snapshot: 'failed' }), NIGHT)).toEqual({
+      action: 'block',
+      waitingOn: ['snapshot'],
+    })
+    expect(decideJob(job('report', ['score']), states({}), NIGHT, { ignoreDeps: true })).toEqual({ action: 'run' })
+  })
+
+  it('defers jobs before their earliest start', () => {
+    const ready = states({ snapshot: 'succeeded' })
+    expect(decideJob(detect, ready, NIGHT)).toEqual({ action: 'defer', until: 11 })
+    expect(decideJob(detect, ready, MORNING)).toEqual({ action: 'run' })
+    expect(decideJob(detect, ready, NIGHT, { anyTime: true })).toEqual({ action: 'run' })
+  })
+})
+
+describe('keys and backoff', () => {
+  it('keys a job by its UTC night', () => {
+    expect(nightOf(new Date('2026-10-19T23:59:00Z'))).toBe('2026-10-19')
+    expect(idempotencyKey('pipeline', '2026-10-19')).toBe('pipeline@2026-10-19')
+  })
+
+  it('doubles the retry delay up to five minutes', () => {
+    expect([1, 2, 3, 4, 5, 6].map(retryDelayMs)).toEqual([30_000, 60_000, 120_000, 240_000, 300_000, 300_000])
+  })
+})
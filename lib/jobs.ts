@@ -0,0 +1,183 @@
+// Nightly job graph — the scripts the nightly and morning workflows run, with
+// their dependencies, retries, timeouts and earliest start times.
+// scripts/run-jobs.ts executes it. Each job's success is recorded under an
+// idempotency key (job@night) in job_runs
+// (scripts/migrations/017-job-runs.sql), so a second invocation on the same
+// night resumes: finished jobs are skipped, failed ones are retried.
+// Graph checks, selection and the per-job decision are pure — unit-tested in
+// lib/jobs.test.ts.
+
+export interface JobSpec {
+  name: string
+  script: string // path from the repo root, run with `npx tsx`
+  args?: string[]
+  dependsOn: string[]
+  retries: number // extra attempts after the first failure
+  timeoutMinutes: number
+  notBeforeUtcHour?: number // deferred to a later invocation before this hour (UTC)
+}
+
+// Declaration order is the tiebreak when several jobs are ready at once.
+export const NIGHTLY_JOBS: JobSpec[] = [
+  { name: 'ingest-gharchive', script: 'scripts/ingest-gharchive.ts', dependsOn: [], retries: 1, timeoutMinutes: 20 },
+  { name: 'ingest-hn', script: 'scripts/ingest-hn.ts', dependsOn: [], retries: 2, timeoutMinutes: 10 },
+  { name: 'analyse-stargazers', script: 'scripts/analyse-stargazers.ts', dependsOn: [], retries: 1, timeoutMinutes: 20 },
+  {
+    name: 'pipeline',
+    script: 'scripts/pipeline.ts',
+    dependsOn: ['ingest-gharchive', 'ingest-hn', 'analyse-stargazers'],
+    retries: 1,
+    timeoutMinutes: 45, // includes the search rate-limit waits between discovery layers
+  },
+  { name: 'refresh-enrichments', script: 'scripts/refresh-enrichments.ts', dependsOn: ['pipeline'], retries: 1, timeoutMinutes: 20 },
+  { name: 'deliver-webhooks', script: 'scripts/webhooks.ts', args: ['deliver'], dependsOn: ['pipeline', 'refresh-enrichments'], retries: 1, timeoutMinutes: 10 },
+  { name: 'fetch-downloads', script: 'scripts/fetch-downloads.ts', dependsOn: ['pipeline'], retries: 1, timeoutMinutes: 20 },
+  { name: 'trend-narrator', script: 'scripts/trend-narrator.ts', dependsOn: ['pipeline'], retries: 1, timeoutMinutes: 15 },
+  { name: 'embed-enrichments', script: 'scripts/embed-enrichments.ts', dependsOn: ['pipeline', 'refresh-enrichments'], retries: 1, timeoutMinutes: 15 },
+  { name: 'compute-similar', script: 'scripts/compute-similar.ts', dependsOn: ['embed-enrichments'], retries: 1, timeoutMinutes: 15 },
+  // Its own 06:00 start (snapshot-light.yml), needing nothing from the night:
+  // analyse-stargazers spends GraphQL points too, and by 06:00 the hourly
+  // budget has reset. Nothing in the morning half waits on the pipeline, so a
+  // failed night still gets snapshots, the anomaly email and watchlist alerts.
+  {
+    name: 'snapshot-light',
+    script: 'scripts/snapshot-light.ts',
+    dependsOn: [],
+    retries: 1,
+    timeoutMinutes: 60,
+    notBeforeUtcHour: 6,
+  },
+  // The morning half: 11:00 UTC lands the anomaly email around 7am ET
+  {
+    name: 'detect-anomalies',
+    script: 'scripts/detect-anomalies.ts',
+    dependsOn: ['snapshot-light'], // fetch-downloads is declared first, so it runs first when both are pending
+    retries: 1,
+    timeoutMinutes: 10,
+    notBeforeUtcHour: 11,
+  },
+  { name: 'deliver-anomaly-webhooks', script: 'scripts/webhooks.ts', args: ['deliver'], dependsOn: ['detect-anomalies'], retries: 1, timeoutMinutes: 10 },
+  // No retry: a send that failed after Resend accepted it would email twice
+  { name: 'email-anomaly-digest', script: 'scripts/email-anomaly-digest.ts', dependsOn: ['detect-anomalies'], retries: 0, timeoutMinutes: 5 },
+  {
+    name: 'evaluate-watchlists',
+    script: 'scripts/evaluate-watchlists.ts',
+    dependsOn: ['snapshot-light', 'detect-anomalies'],
+    retries: 1,
+    timeoutMinutes: 10,
+  },
+  { name: 'send-watchlist-alerts', script: 'scripts/send-watchlist-alerts.ts', dependsOn: ['evaluate-watchlists'], retries: 0, timeoutMinutes: 10 },
+]
+
+export class JobGraphError extends Error {}
+
+/**
+ * Check names and dependencies and return the jobs in dependency order
+ * (declaration order among jobs that are ready together). Throws
+ * JobGraphError on a duplicate name, an unknown dependency or a cycle.
+ */
+export function orderJobs(jobs: JobSpec[]): JobSpec[] {
+  const byName = new Map<string, JobSpec>()
+  for (const job of jobs) {
+    if (byName.has(job.name)) throw new JobGraphError(`Duplicate job "${job.name}"`)
+    byName.set(job.name, job)
+  }
+  for (const job of jobs) {
+    for (const dep of job.dependsOn) {
+      if (!byName.has(dep)) throw new JobGraphError(`Job "${job.name}" depends on unknown job "${dep}"`)
+    }
+  }
+
+  const ordered: JobSpec[] = []
+  const placed = new Set<string>()
+  while (ordered.length < jobs.length) {
+    const ready = jobs.find((j) => !placed.has(j.name) && j.dependsOn.every((d) => placed.has(d)))
+    if (!ready) {
+      const stuck = jobs.filter((j) => !placed.has(j.name)).map((j) => j.name)
+      throw new JobGraphError(`Dependency cycle among: ${stuck.join(', ')}`)
+    }
+    ordered.push(ready)
+    placed.add(ready.name)
+  }
+  return ordered
+}
+
+/** `name` and every job that depends on it, directly or transitively. */
+export function downstreamOf(jobs: JobSpec[], name: string): Set<string> {
+  const found = new Set([name])
+  let grew = true
+  while (grew) {
+    grew = false
+    for (const job of jobs) {
+      if (!found.has(job.name) && job.dependsOn.some((d) => found.has(d))) {
+        found.add(job.name)
+        grew = true
+      }
+    }
+  }
+  return found
+}
+
+/**
+ * The jobs to consider, in run order. `only` picks exactly those jobs;
+ * `from` picks a job and everything downstream of it. Unknown names throw.
+ */
+export function selectJobs(jobs: JobSpec[], opts: { only?: string[]; from?: string } = {}): JobSpec[] {
+  const ordered = orderJobs(jobs)
+  const known = new Set(jobs.map((j) => j.name))
+  for (const name of [...(opts.only ?? []), ...(opts.from ? [opts.from] : [])]) {
+    if (!known.has(name)) throw new JobGraphError(`Unknown job "${name}" (known: ${[...known].join(', ')})`)
+  }
+  let picked = ordered
+  if (opts.only?.length) picked = picked.filter((j) => opts.only!.includes(j.name))
+  if (opts.from) {
+    const downstream = downstreamOf(jobs, opts.from)
+    picked = picked.filter((j) => downstream.has(j.name))
+  }
+  return picked
+}
+
+/** The night a run belongs to — the UTC date, so the 00:00 and 11:00 runs share one. */
+export function nightOf(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+export function idempotencyKey(job: string, night: string): string {
+  return `${job}@${night}`
+}
+
+export type JobState = 'succeeded' | 'failed' | 'running' | 'deferred' | 'blocked'
+
+export type JobDecision =
+  | { action: 'run' }
+  | { action: 'skip'; reason: 'done' }
+  | { action: 'defer'; until: number }
+  | { action: 'block'; waitingOn: string[] }
+
+/**
+ * What to do with `job` now, given the night's states so far (from job_runs
+ * and this invocation). Dependencies must have succeeded tonight unless
+ * `ignoreDeps`; `force` reruns a job that already succeeded; `anyTime`
+ * ignores earliest start times.
+ */
+export function decideJob(
+  job: JobSpec,
+  states: ReadonlyMap<string, JobState>,
+  now: Date,
+  opts: { force?: boolean; ignoreDeps?: boolean; anyTime?: boolean } = {}
+): JobDecision {
+  if (states.get(job.name) === 'succeeded' && !opts.force) return { action: 'skip', reason: 'done' }
+  if (!opts.ignoreDeps) {
+    const waitingOn = job.dependsOn.filter((d) => states.get(d) !== 'succeeded')
+    if (waitingOn.length > 0) return { action: 'block', waitingOn }
+  }
+  if (job.notBeforeUtcHour != null && !opts.anyTime && now.getUTCHours() < job.notBeforeUtcHour) {
+    return { action: 'defer', until: job.notBeforeUtcHour }
+  }
+  return { action: 'run' }
+}
+
+/** Backoff before retry `attempt` (1-based): 30s, 60s, 120s … capped at 5 min. */
+export function retryDelayMs(attempt: number): number {
+  return Math.min(300_000, 30_000 * 2 ** Math.max(0, attempt - 1))
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { formatUsd, summariseLedger, type LedgerCall } from './llm-ledger'
+
+function call(overrides: Partial<LedgerCall> = {}): LedgerCall {
+  return {
+    run_id: 'run-a',
+    agent: 'pipeline',
+    template: 'enrichment',
+    template_version: 2,
+    model: 'claude-haiku-4-5-20251001',
+    input_tokens: 1_000,
+    output_tokens: 200,
+    latency_ms: 1_500,
+    cost_usd: 0.002,
+    cached: false,
+    error: null,
+    created_at: '2026-10-12T06:00:00Z',
+    ...overrides,
+  }
+}
+
+describe('summariseLedger', () => {
+  it('totals tokens, cost, cache hits and errors', () => {
+    const { total } = summariseLedger([
+      call(),
+      call({ cached: true, cost_usd: 0, latency_ms: 2 }),
+      call({ error: 'overloaded', output_tokens: 0, cost_usd: 0.001, latency_ms: 500 }),
+    ])
+    expect(total).toMatchObject({ calls: 3, cached: 1, errors: 1, input_tokens: 3_000, output_tokens: 400, cost_usd: 0.003 })
+    // cache hits are left out of the latency average
+    expect(total.avg_latency_ms).toBe(1_000)
+  })
+
+  it('accepts NUMERIC costs that arrive as strings', () => {
+    const { total } = summariseLedger([call({ cost_usd: '0.0125' as unknown as number }), call()])
+    expect(total.cost_usd).toBe(0.0145)
+  })
+
+  it('groups by day, agent and template version', () => {
+    const summary = summariseLedger([
+      call({ created_at: '2026-10-13T06:00:00Z' }),
+      call({ created_at: '2026-10-12T23:59:00Z', agent: 'trend-narrator', template: 'trend-narrative', template_version: 1, cost_usd: 0.01 }),
+      call({ template_version: 3 }),
+    ])
+    expect(summary.byDay.map((b) => [b.key, b.calls])).toEqual([
+      ['2026-10-12', 2],
+      ['2026-10-13', 1],
+    ])
+    expect(summary.byAgent.map((b) => b.key)).toEqual(['trend-narrator', 'pipeline'])
+    expect(summary.byTemplate.map((b) => b.key)).toEqual(['trend-narrative@1', 'enrichment@2', 'enrichment@3'])
+  })
+
+  it('lists runs newest first with their time span', () => {
+    const { runs } = summariseLedger([
+      call({ run_id: 'run-a', created_at: '2026-10-12T06:05:00Z' }),
+      call({ run_id: 'run-b', agent: 'send-digest', created_at: '2026-10-13T07:00:00Z' }),
+      call({ run_id: 'run-a', created_at: '2026-10-12T06:00:00Z' }),
+    ])
+    expect(runs.map((r) => [r.key, r.agent, r.calls])).toEqual([
+      ['run-b', 'send-digest', 1],
+      ['run-a', 'pipeline', 2],
+    ])
+    expect(runs[1]).toMatchObject({ started_at: '2026-10-12T06:00:00Z', ended_at: '2026-10-12T06:05:00Z' })
+  })
+
+  it('handles an empty ledger', () => {
+    const summary = summariseLedger([])
+    expect(summary.total).toMatchObject({ calls: 0, cost_usd: 0, avg_latency_ms: 0 })
+    expect(summary.runs).toEqual([])
+  })
+})
+
+describe('formatUsd', () => {
+  it('keeps sub-cent amounts visible', () => {
+    expect(formatUsd(0)).toBe('$0')
+    expect(formatUsd(0.0042)).toBe('$0.0042')
+    expect(formatUsd(3.5)).toBe('$3.50')
+  })
+})
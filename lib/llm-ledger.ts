@@ -0,0 +1,115 @@
+// Cost ledger rollups for /admin/costs — groups llm_calls rows (written by
+// lib/llm.ts) by day, agent, prompt template and run.
+// Pure functions — unit-tested in lib/llm-ledger.test.ts.
+
+import type { LlmCall } from './database.types'
+
+export const LEDGER_WINDOW_DAYS = 30
+
+export type LedgerCall = Pick<
+  LlmCall,
+  | 'run_id'
+  | 'agent'
+  | 'template'
+  | 'template_version'
+  | 'model'
+  | 'input_tokens'
+  | 'output_tokens'
+  | 'latency_ms'
+  | 'cost_usd'
+  | 'cached'
+  | 'error'
+  | 'created_at'
+>
+
+export interface LedgerBucket {
+  key: string
+  calls: number
+  cached: number
+  errors: number
+  input_tokens: number
+  output_tokens: number
+  cost_usd: number
+  avg_latency_ms: number // billed calls only; cache hits take ~0ms
+}
+
+export interface LedgerRun extends LedgerBucket {
+  agent: string
+  started_at: string
+  ended_at: string
+}
+
+export interface LedgerSummary {
+  total: LedgerBucket
+  byDay: LedgerBucket[] // oldest first
+  byAgent: LedgerBucket[] // most expensive first
+  byTemplate: LedgerBucket[] // "name@version", most expensive first
+  runs: LedgerRun[] // newest first
+}
+
+interface Acc extends Omit<LedgerBucket, 'avg_latency_ms'> {
+  latency_total: number
+  latency_calls: number
+}
+
+function emptyAcc(key: string): Acc {
+  return { key, calls: 0, cached: 0, errors: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0, latency_total: 0, latency_calls: 0 }
+}
+
+function add(acc: Acc, call: LedgerCall): void {
+  acc.calls++
+  if (call.cached) acc.cached++
+  else {
+    acc.latency_total += call.latency_ms
+    acc.latency_calls++
+  }
+  if (call.error) acc.errors++
+  acc.input_tokens += call.input_tokens
+  acc.output_tokens += call.output_tokens
+  acc.cost_usd += Number(call.cost_usd) // NUMERIC can arrive as a string
+}
+
+function finish({ latency_total, latency_calls, ...acc }: Acc): LedgerBucket {
+  return {
+    ...acc,
+    cost_usd: Math.round(acc.cost_usd * 1e6) / 1e6,
+    avg_latency_ms: latency_calls > 0 ? Math.round(latency_total / latency_calls) : 0,
+  }
+}
+
+function groupBy(calls: LedgerCall[], keyOf: (c: LedgerCall) => string): Map<string, Acc> {
+  const groups = new Map<string, Acc>()
+  for (const call of calls) {
+    const key = keyOf(call)
+    let acc = groups.get(key)
+    if (!acc) groups.set(key, (acc = emptyAcc(key)))
+    add(acc, call)
+  }
+  return groups
+}
+
+const byCost = (a: LedgerBucket, b: LedgerBucket) => b.cost_usd - a.cost_usd || b.calls - a.calls
+
+export function summariseLedger(calls: LedgerCall[]): LedgerSummary {
+  const total = emptyAcc('total')
+  for (const call of calls) add(total, call)
+
+  const runs = [...groupBy(calls, (c) => c.run_id).values()].map((acc): LedgerRun => {
+    const mine = calls.filter((c) => c.run_id === acc.key)
+    const times = mine.map((c) => c.created_at).sort()
+    return { ...finish(acc), agent: mine[0].agent, started_at: times[0], ended_at: times[times.length - 1] }
+  })
+
+  return {
+    total: finish(total),
+    byDay: [...groupBy(calls, (c) => c.created_at.slice(0, 10)).values()].map(finish).sort((a, b) => a.key.localeCompare(b.key)),
+    byAgent: [...groupBy(calls, (c) => c.agent).values()].map(finish).sort(byCost),
+    byTemplate: [...groupBy(calls, (c) => `${c.template}@${c.template_version}`).values()].map(finish).sort(byCost),
+    runs: runs.sort((a, b) => b.started_at.localeCompare(a.started_at)),
+  }
+}
+
+export function formatUsd(usd: number): string {
+  if (usd === 0) return '$0'
+  return usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`
+}
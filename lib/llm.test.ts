@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import type { Message } from '@anthropic-ai/sdk/resources/messages'
+import {
+  BudgetExceededError,
+  DEFAULT_MODEL,
+  DEFAULT_RUN_BUDGET_USD,
+  MissingFixtureError,
+  budgetExhausted,
+  buildRequest,
+  configureLlmRun,
+  costUsd,
+  createLlmClient,
+  fixtureProvider,
+  formatUsage,
+  getLlmProvider,
+  llmRun,
+  memoryCache,
+  memoryLedger,
+  parseBudget,
+  promptHash,
+  resetRunUsage,
+  responseText,
+  runUsage,
+  type LlmProvider,
+  type PromptTemplate,
+} from './llm'
+
+const GREETING: PromptTemplate<{ name: string }> = {
+  name: 'greeting',
+  version: 1,
+  maxTokens: 50,
+  render: ({ name }) => `Say hello to ${name}.`,
+}
+
+function reply(text: string, usage = { input_tokens: 1_000, output_tokens: 200 }): Message {
+  return {
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    model: DEFAULT_MODEL,
+    content: [{ type: 'text', text, citations: null }],
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: {
+      ...usage,
+      cache_creation: null,
+      cache_creation_input_tokens: null,
+      cache_read_input_tokens: null,
+      inference_geo: null,
+      server_tool_use: null,
+      service_tier: null,
+    },
+  } as Message
+}
+
+// Echoes the prompt back and counts calls
+function fakeProvider(): LlmProvider & { calls: number } {
+  const provider = {
+    name: 'anthropic',
+    billed: true,
+    calls: 0,
+    async create(request: Parameters<LlmProvider['create']>[0]) {
+      provider.calls++
+      return reply(` re: ${String(request.messages[0].content)} `)
+    },
+  }
+  return provider
+}
+
+beforeEach(() => resetRunUsage())
+
+describe('promptHash', () => {
+  it('ignores key order and undefined fields', () => {
+    const a = buildRequest(GREETING, { name: 'Ada' })
+    const b = { messages: a.messages, max_tokens: a.max_tokens, model: a.model, system: undefined }
+    expect(promptHash(GREETING, a)).toBe(promptHash(GREETING, b))
+  })
+
+  it('changes with the template version and the prompt', () => {
+    const req = buildRequest(GREETING, { name: 'Ada' })
+    expect(promptHash({ ...GREETING, version: 2 }, req)).not.toBe(promptHash(GREETING, req))
+    expect(promptHash(GREETING, buildRequest(GREETING, { name: 'Grace' }))).not.toBe(promptHash(GREETING, req))
+  })
+})
+
+describe('buildRequest', () => {
+  it('renders a single user turn with the template budget', () => {
+    expect(buildRequest(GREETING, { name: 'Ada' })).toEqual({
+      model: DEFAULT_MODEL,
+      max_tokens: 50,
+      messages: [{ role: 'user', content: 'Say hello to Ada.' }],
+    })
+  })
+})
+
+describe('responseText', () => {
+  it('returns trimmed text or throws', () => {
+    expect(responseText(reply('  hi  '))).toBe('hi')
+    expect(() => responseText({ ...reply('x'), content: [] })).toThrow('No text content')
+  })
+})
+
+describe('costUsd', () => {
+  it('prices known models per million tokens', () => {
+    expect(costUsd('claude-sonnet-4-6', { input_tokens: 1_000_000, output_tokens: 100_000 })).toBeCloseTo(4.5)
+    expect(costUsd('unknown-model', { input_tokens: 1_000, output_tokens: 1_000 })).toBe(0)
+  })
+})
+
+describe('createLlmClient', () => {
+  it('answers repeats from the cache and accounts per template', async () => {
+    const provider = fakeProvider()
+    const llm = createLlmClient({ provider, cache: memoryCache() })
+    expect(await llm.text(GREETING, { name: 'Ada' })).toBe('re: Say hello to Ada.')
+    expect(await llm.text(GREETING, { name: 'Ada' })).toBe('re: Say hello to Ada.')
+    expect(provider.calls).toBe(1)
+
+    const usage = runUsage().greeting
+    expect(usage).toMatchObject({ calls: 2, cached: 1, input_tokens: 1_000, output_tokens: 200 })
+    expect(usage.cost_usd).toBeCloseTo(0.006)
+    expect(formatUsage(runUsage())).toEqual([
+      'LLM greeting: 2 calls (1 cached), 1,000 in / 200 out tokens, $0.0060',
+      'LLM total: 2 calls (1 cached), 1,000 in / 200 out tokens, $0.0060',
+    ])
+  })
+
+  it('reports no calls', () => {
+    expect(formatUsage(runUsage())).toEqual(['LLM usage: no calls'])
+  })
+})
+
+describe('ledger', () => {
+  it('records every call with its subject, cost and cache state', async () => {
+    const ledger = memoryLedger()
+    const llm = createLlmClient({ provider: fakeProvider(), cache: memoryCache(), ledger })
+    const subject = { table: 'enrichments', ids: ['repo-1'] }
+    await llm.text(GREETING, { name: 'Ada' }, subject)
+    await llm.text(GREETING, { name: 'Ada' }, subject)
+
+    expect(ledger.entries).toHaveLength(2)
+    expect(ledger.entries[0]).toMatchObject({
+      run_id: llmRun().id,
+      template: 'greeting',
+      template_version: 1,
+      model: DEFAULT_MODEL,
+      provider: 'anthropic',
+      input_tokens: 1_000,
+      output_tokens: 200,
+      cached: false,
+      subject_table: 'enrichments',
+      subject_ids: ['repo-1'],
+      error: null,
+    })
+    expect(ledger.entries[0].cost_usd).toBeCloseTo(0.006)
+    expect(ledger.entries[1]).toMatchObject({ cached: true, cost_usd: 0 })
+  })
+
+  it('records failed calls and rethrows', async () => {
+    const ledger = memoryLedger()
+    const provider: LlmProvider = {
+      name: 'anthropic',
+      billed: true,
+      async create() {
+        throw new Error('overloaded')
+      },
+    }
+    await expect(createLlmClient({ provider, ledger }).text(GREETING, { name: 'Ada' })).rejects.toThrow('overloaded')
+    expect(ledger.entries[0]).toMatchObject({ error: 'overloaded', cost_usd: 0, subject_table: null })
+  })
+})
+
+describe('run budget', () => {
+  it('stops billed calls once the budget is spent, but still serves the cache', async () => {
+    configureLlmRun({ budgetUsd: 0.001 })
+    try {
+      const provider = fakeProvider()
+      const llm = createLlmClient({ provider, cache: memoryCache() })
+      await llm.text(GREETING, { name: 'Ada' })
+      expect(budgetExhausted()).toBe(true)
+      await expect(llm.text(GREETING, { name: 'Grace' })).rejects.toBeInstanceOf(BudgetExceededError)
+      expect(await llm.text(GREETING, { name: 'Ada' })).toBe('re: Say hello to Ada.')
+      expect(provider.calls).toBe(1)
+    } finally {
+      configureLlmRun({ budgetUsd: DEFAULT_RUN_BUDGET_USD })
+    }
+  })
+
+  it('parses LLM_RUN_BUDGET_USD', () => {
+    expect(parseBudget('12.5')).toBe(12.5)
+    expect(parseBudget('none')).toBeNull()
+    expect(parseBudget(undefined)).toBe(DEFAULT_RUN_BUDGET_USD)
+    expect(parseBudget('')).toBe(DEFAULT_RUN_BUDGET_USD)
+    expect(parseBudget('-3')).toBe(DEFAULT_RUN_BUDGET_USD)
+  })
+})
+
+describe('fixtureProvider', () => {
+  let dir: string
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'llm-fixtures-'))
+  })
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('records once, then replays offline without billing', async () => {
+    const live = fakeProvider()
+    const recorder = createLlmClient({ provider: fixtureProvider(dir, { record: live }) })
+    expect(await recorder.text(GREETING, { name: 'Ada' })).toBe('re: Say hello to Ada.')
+
+    resetRunUsage()
+    const offline = createLlmClient({ provider: fixtureProvider(dir) })
+    expect(await offline.text(GREETING, { name: 'Ada' })).toBe('re: Say hello to Ada.')
+    expect(live.calls).toBe(1)
+    expect(runUsage().greeting).toMatchObject({ calls: 1, cached: 1, cost_usd: 0 })
+  })
+
+  it('throws MissingFixtureError for an unrecorded prompt', async () => {
+    const offline = createLlmClient({ provider: fixtureProvider(dir) })
+    await expect(offline.text(GREETING, { name: 'Grace' })).rejects.toBeInstanceOf(MissingFixtureError)
+  })
+})
+
+describe('getLlmProvider', () => {
+  it('picks the provider from LLM_PROVIDER', () => {
+    expect(getLlmProvider({}).name).toBe('anthropic')
+    expect(getLlmProvider({ LLM_PROVIDER: 'fixtures' }).name).toBe('fixtures')
+    expect(getLlmProvider({ LLM_PROVIDER: 'record' }).name).toBe('record')
+    expect(() => getLlmProvider({ LLM_PROVIDER: 'openai' })).toThrow('Unknown LLM_PROVIDER')
+  })
+})
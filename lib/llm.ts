@@ -0,0 +1,432 @@
+// Shared LLM client for the Claude agents — enrichment, trend narrator,
+// Tuesday briefing and anomaly narrator.
+// Pure helpers (hashing, pricing, usage totals) and the fixture provider are
+// unit-tested in lib/llm.test.ts.
+//
+// Every call goes through a PromptTemplate (name + version + token budget),
+// is keyed by a hash of the template and the full request, and is counted in
+// this process's usage totals (runUsage()). Providers are picked by env:
+//   LLM_PROVIDER=anthropic (default) — the real API; responses are cached by
+//     prompt hash when the caller passes a cache (llm_cache table,
+//     scripts/migrations/014-llm-cache.sql)
+//   LLM_PROVIDER=record — the real API, saving every response as a fixture
+//   LLM_PROVIDER=fixtures — replay recorded fixtures only, no network; a
+//     request without one throws MissingFixtureError
+// Fixtures live in LLM_FIXTURES_DIR (default fixtures/llm) as
+// <template>/<hash>.json.
+//
+// Every call is also written to a ledger when the caller passes one
+// (llm_calls, scripts/migrations/015-llm-ledger.sql) with its run, template
+// version, tokens, latency, cost and the row it produced. Each process is one
+// run with a dollar budget (LLM_RUN_BUDGET_USD, default $5): once spent,
+// billed calls throw BudgetExceededError and loops check budgetExhausted().
+
+import { createHash, randomUUID } from 'node:crypto'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import Anthropic from '@anthropic-ai/sdk'
+import type { Message, MessageCreateParamsNonStreaming } from '@anthropic-ai/sdk/resources/messages'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from './database.types'
+
+export const DEFAULT_MODEL = 'claude-sonnet-4-6'
+export const DEFAULT_FIXTURES_DIR = 'fixtures/llm'
+export const CACHE_TTL_DAYS = 30
+export const DEFAULT_RUN_BUDGET_USD = 5
+
+export type LlmRequest = MessageCreateParamsNonStreaming
+
+export interface PromptTemplate<Vars> {
+  name: string // kebab-case; also the fixture directory and the usage key
+  version: number // bump when the wording changes so cached answers are not reused
+  model?: string
+  maxTokens: number
+  render(vars: Vars): string
+}
+
+/** The identity part of a template — enough to key a hand-built request. */
+export type TemplateRef = Pick<PromptTemplate<never>, 'name' | 'version'>
+
+/** A template's single-turn request. Callers may extend it (tools, follow-up turns). */
+export function buildRequest<Vars>(template: PromptTemplate<Vars>, vars: Vars): LlmRequest {
+  return {
+    model: template.model ?? DEFAULT_MODEL,
+    max_tokens: template.maxTokens,
+    messages: [{ role: 'user', content: template.render(vars) }],
+  }
+}
+
+// JSON with sorted keys, so equal requests hash equally whatever the key order
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value != null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/** Cache and fixture key: template identity plus everything sent to the model. */
+export function promptHash(template: TemplateRef, request: LlmRequest): string {
+  return createHash('sha256')
+    .update(`${template.name}@v${template.version}\n${stableStringify(request)}`)
+    .digest('hex')
+    .slice(0, 32)
+}
+
+/** First text block of a response, trimmed; throws when there is none. */
+export function responseText(message: Message): string {
+  const block = message.content.find((b) => b.type === 'text')
+  if (!block || block.type !== 'text') throw new Error('No text content in Claude response')
+  return block.text.trim()
+}
+
+// ─── Cost accounting ─────────────────────────────────────────────────────────
+
+// USD per million tokens
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'claude-sonnet-4-6': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+}
+
+export function costUsd(model: string, usage: { input_tokens: number; output_tokens: number }): number {
+  const price = MODEL_PRICING[model]
+  if (!price) return 0
+  return (usage.input_tokens * price.input + usage.output_tokens * price.output) / 1_000_000
+}
+
+export interface UsageTotals {
+  calls: number // requests answered, including cache and fixture hits
+  cached: number // answered without a billed API call
+  input_tokens: number
+  output_tokens: number
+  cost_usd: number
+}
+
+const usageByTemplate = new Map<string, UsageTotals>()
+
+export function recordUsage(template: string, model: string, message: Message, billed: boolean): void {
+  const totals = usageByTemplate.get(template) ?? { calls: 0, cached: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 }
+  totals.calls++
+  if (!billed) {
+    totals.cached++
+  } else {
+    totals.input_tokens += message.usage.input_tokens
+    totals.output_tokens += message.usage.output_tokens
+    totals.cost_usd += costUsd(model, message.usage)
+  }
+  usageByTemplate.set(template, totals)
+}
+
+/** Usage so far in this process, per template. */
+export function runUsage(): Record<string, UsageTotals> {
+  return Object.fromEntries([...usageByTemplate.entries()].map(([k, v]) => [k, { ...v }]))
+}
+
+export function resetRunUsage(): void {
+  usageByTemplate.clear()
+}
+
+// ─── Run context and budget ──────────────────────────────────────────────────
+
+export class BudgetExceededError extends Error {}
+
+/** LLM_RUN_BUDGET_USD: dollars, or "none" for no cap. Unset or invalid → the default. */
+export function parseBudget(raw: string | undefined): number | null {
+  if (raw?.trim().toLowerCase() === 'none') return null
+  const n = Number(raw)
+  return raw != null && raw.trim() !== '' && Number.isFinite(n) && n >= 0 ? n : DEFAULT_RUN_BUDGET_USD
+}
+
+const run = {
+  id: randomUUID(),
+  agent: path.basename(process.argv[1] ?? 'unknown').replace(/\.[cm]?[jt]s$/, ''),
+  budgetUsd: parseBudget(process.env.LLM_RUN_BUDGET_USD),
+}
+
+/** Override the run's agent name (default: the script's file name) or budget. */
+export function configureLlmRun(opts: { agent?: string; budgetUsd?: number | null }): void {
+  if (opts.agent !== undefined) run.agent = opts.agent
+  if (opts.budgetUsd !== undefined) run.budgetUsd = opts.budgetUsd
+}
+
+export function llmRun(): { id: string; agent: string; budget_usd: number | null; spent_usd: number } {
+  const spent = [...usageByTemplate.values()].reduce((sum, u) => sum + u.cost_usd, 0)
+  return { id: run.id, agent: run.agent, budget_usd: run.budgetUsd, spent_usd: spent }
+}
+
+/** True once this run has spent its budget — stop starting new LLM work. */
+export function budgetExhausted(): boolean {
+  const { budget_usd, spent_usd } = llmRun()
+  return budget_usd != null && spent_usd >= budget_usd
+}
+
+/** One log line per template plus a total, e.g. for the end of a script. */
+export function formatUsage(usage: Record<string, UsageTotals>): string[] {
+  const rows = Object.entries(usage).sort(([a], [b]) => a.localeCompare(b))
+  if (rows.length === 0) return ['LLM usage: no calls']
+  const line = (label: string, u: UsageTotals) =>
+    `${label}: ${u.calls} calls (${u.cached} cached), ${u.input_tokens.toLocaleString()} in / ${u.output_tokens.toLocaleString()} out tokens, $${u.cost_usd.toFixed(4)}`
+  const total = rows.reduce<UsageTotals>(
+    (t, [, u]) => ({
+      calls: t.calls + u.calls,
+      cached: t.cached + u.cached,
+      input_tokens: t.input_tokens + u.input_tokens,
+      output_tokens: t.output_tokens + u.output_tokens,
+      cost_usd: t.cost_usd + u.cost_usd,
+    }),
+    { calls: 0, cached: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 }
+  )
+  return [...rows.map(([name, u]) => line(`LLM ${name}`, u)), line('LLM total', total)]
+}
+
+// ─── Providers ───────────────────────────────────────────────────────────────
+
+export interface LlmProvider {
+  name: string
+  billed: boolean // false when answers cost nothing (fixture replay)
+  create(request: LlmRequest, key: { template: string; hash: string }): Promise<Message>
+}
+
+export class MissingFixtureError extends Error {}
+
+export function anthropicProvider(apiKey = process.env.ANTHROPIC_API_KEY): LlmProvider {
+  let client: Anthropic | null = null
+  return {
+    name: 'anthropic',
+    billed: true,
+    async create(request) {
+      client ??= new Anthropic({ apiKey })
+      return client.messages.create(request)
+    },
+  }
+}
+
+interface FixtureFile {
+  template: string
+  hash: string
+  request: LlmRequest
+  response: Message
+}
+
+function fixturePath(dir: string, key: { template: string; hash: string }): string {
+  return path.join(dir, key.template, `${key.hash}.json`)
+}
+
+/**
+ * Replays recorded responses from `dir`. With `record`, every request goes to
+ * that provider and its response is saved, so the next run replays offline.
+ */
+export function fixtureProvider(dir: string, opts: { record?: LlmProvider } = {}): LlmProvider {
+  return {
+    name: opts.record ? 'record' : 'fixtures',
+    billed: Boolean(opts.record),
+    async create(request, key) {
+      const file = fixturePath(dir, key)
+      if (!opts.record) {
+        try {
+          return (JSON.parse(await readFile(file, 'utf8')) as FixtureFile).response
+        } catch {
+          throw new MissingFixtureError(
+            `No LLM fixture for ${key.template} (${key.hash}) in ${dir} — record one with LLM_PROVIDER=record`
+          )
+        }
+      }
+      const response = await opts.record.create(request, key)
+      const fixture: FixtureFile = { template: key.template, hash: key.hash, request, response }
+      await mkdir(path.dirname(file), { recursive: true })
+      await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`)
+      return response
+    },
+  }
+}
+
+/** The provider LLM_PROVIDER asks for. */
+export function getLlmProvider(env: Record<string, string | undefined> = process.env): LlmProvider {
+  const dir = env.LLM_FIXTURES_DIR ?? DEFAULT_FIXTURES_DIR
+  switch (env.LLM_PROVIDER ?? 'anthropic') {
+    case 'anthropic':
+      return anthropicProvider(env.ANTHROPIC_API_KEY)
+    case 'record':
+      return fixtureProvider(dir, { record: anthropicProvider(env.ANTHROPIC_API_KEY) })
+    case 'fixtures':
+      return fixtureProvider(dir)
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}" — use anthropic, record or fixtures`)
+  }
+}
+
+// ─── Response cache ──────────────────────────────────────────────────────────
+
+export interface LlmCache {
+  get(hash: string): Promise<Message | null>
+  set(hash: string, entry: { template: string; model: string; response: Message }): Promise<void>
+}
+
+export function memoryCache(): LlmCache {
+  const entries = new Map<string, Message>()
+  return {
+    async get(hash) {
+      return entries.get(hash) ?? null
+    },
+    async set(hash, entry) {
+      entries.set(hash, entry.response)
+    },
+  }
+}
+
+/** llm_cache rows younger than CACHE_TTL_DAYS. Cache errors never fail a call. */
+export function supabaseCache(db: SupabaseClient<Database>): LlmCache {
+  return {
+    async get(hash) {
+      const since = new Date(Date.now() - CACHE_TTL_DAYS * 86_400_000).toISOString()
+      const { data } = await db
+        .from('llm_cache')
+        .select('response')
+        .eq('prompt_hash', hash)
+        .gte('created_at', since)
+        .maybeSingle()
+      return data ? (data.response as unknown as Message) : null
+    },
+    async set(hash, entry) {
+      const { error } = await db.from('llm_cache').upsert({
+        prompt_hash: hash,
+        template: entry.template,
+        model: entry.model,
+        response: entry.response as unknown as Json,
+        input_tokens: entry.response.usage.input_tokens,
+        output_tokens: entry.response.usage.output_tokens,
+        created_at: new Date().toISOString(),
+      })
+      if (error) console.error(`[WARN] Failed to cache LLM response ${hash}: ${error.message}`)
+    },
+  }
+}
+
+// ─── Ledger ──────────────────────────────────────────────────────────────────
+
+/** The row a call produced, e.g. { table: 'enrichments', ids: [repoId] }. */
+export interface LlmSubject {
+  table: string
+  ids: string[]
+}
+
+export interface LedgerEntry {
+  run_id: string
+  agent: string
+  template: string
+  template_version: number
+  model: string
+  provider: string
+  prompt_hash: string
+  input_tokens: number
+  output_tokens: number
+  latency_ms: number
+  cost_usd: number // 0 for cache and fixture hits
+  cached: boolean
+  subject_table: string | null
+  subject_ids: string[]
+  error: string | null
+}
+
+export interface LlmLedger {
+  record(entry: LedgerEntry): Promise<void>
+}
+
+export function memoryLedger(): LlmLedger & { entries: LedgerEntry[] } {
+  const entries: LedgerEntry[] = []
+  return {
+    entries,
+    async record(entry) {
+      entries.push(entry)
+    },
+  }
+}
+
+/** llm_calls rows. Ledger errors never fail a call. */
+export function supabaseLedger(db: SupabaseClient<Database>): LlmLedger {
+  return {
+    async record(entry) {
+      const { error } = await db.from('llm_calls').insert(entry)
+      if (error) console.error(`[WARN] Failed to record LLM call ${entry.prompt_hash}: ${error.message}`)
+    },
+  }
+}
+
+// ─── Client ──────────────────────────────────────────────────────────────────
+
+export interface LlmClient {
+  provider: string
+  /** Send a request built from `template` (see buildRequest), through the cache. */
+  create(template: TemplateRef, request: LlmRequest, subject?: LlmSubject): Promise<Message>
+  /** Render `template` with `vars` and return the response text. */
+  text<Vars>(template: PromptTemplate<Vars>, vars: Vars, subject?: LlmSubject): Promise<string>
+}
+
+/**
+ * `cache` is only consulted for billed providers — fixtures already are a
+ * cache, and recording must reach the API. Billed calls past the run budget
+ * throw BudgetExceededError; cache hits are free and always allowed.
+ */
+export function createLlmClient(
+  opts: { provider?: LlmProvider; cache?: LlmCache | null; ledger?: LlmLedger | null } = {}
+): LlmClient {
+  const provider = opts.provider ?? getLlmProvider()
+  const cache = provider.name === 'anthropic' ? (opts.cache ?? null) : null
+  const ledger = opts.ledger ?? null
+
+  async function create(template: TemplateRef, request: LlmRequest, subject?: LlmSubject): Promise<Message> {
+    const hash = promptHash(template, request)
+    const started = Date.now()
+    const entry = (response: Message | null, billed: boolean, error: string | null): LedgerEntry => ({
+      run_id: run.id,
+      agent: run.agent,
+      template: template.name,
+      template_version: template.version,
+      model: request.model,
+      provider: provider.name,
+      prompt_hash: hash,
+      input_tokens: response?.usage.input_tokens ?? 0,
+      output_tokens: response?.usage.output_tokens ?? 0,
+      latency_ms: Date.now() - started,
+      cost_usd: response && billed ? costUsd(request.model, response.usage) : 0,
+      cached: response != null && !billed,
+      subject_table: subject?.table ?? null,
+      subject_ids: subject?.ids ?? [],
+      error,
+    })
+
+    const cached = cache ? await cache.get(hash) : null
+    if (cached) {
+      recordUsage(template.name, request.model, cached, false)
+      await ledger?.record(entry(cached, false, null))
+      return cached
+    }
+    if (provider.billed && budgetExhausted()) {
+      const { budget_usd, spent_usd } = llmRun()
+      throw new BudgetExceededError(`LLM budget of $${budget_usd} for this run is spent ($${spent_usd.toFixed(2)})`)
+    }
+
+    let response: Message
+    try {
+      response = await provider.create(request, { template: template.name, hash })
+    } catch (err) {
+      await ledger?.record(entry(null, provider.billed, err instanceof Error ? err.message : String(err)))
+      throw err
+    }
+    recordUsage(template.name, request.model, response, provider.billed)
+    await ledger?.record(entry(response, provider.billed, null))
+    if (cache) await cache.set(hash, { template: template.name, model: request.model, response })
+    return response
+  }
+
+  return {
+    provider: provider.name,
+    create,
+    async text(template, vars, subject) {
+      return responseText(await create(template, buildRequest(template, vars), subject))
+    },
+  }
+}
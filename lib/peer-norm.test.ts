@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { calculateScore, type ScoreInputs } from './score'
+import { getScoringModel, productionModel } from './score-models'
+import {
+  buildPeerDistributions,
+  peerGroupFor,
+  peerScoresFor,
+  percentileIn,
+  type PeerRow,
+} from './peer-norm'
+
+function inputs(stars_7d: number, overrides: Partial<ScoreInputs> = {}): ScoreInputs {
+  return {
+    stars: 1_000,
+    stars_7d,
+    stars_30d: stars_7d * 3,
+    contributors: 20,
+    forks: 100,
+    hn_mentions_7d: 0,
+    hn_mentions_30d: 0,
+    commits_30d: 30,
+    ...overrides,
+  }
+}
+
+// 30 Security repos gaining 1–30 stars/week; 30 AI repos gaining 100–3,000
+const rows: PeerRow[] = [
+  ...Array.from({ length: 30 }, (_, i) => ({ category: 'Security', language: 'Go', inputs: inputs(i + 1) })),
+  ...Array.from({ length: 30 }, (_, i) => ({ category: 'AI & ML', language: 'Python', inputs: inputs((i + 1) * 100) })),
+  { category: 'Mobile', language: 'Go', inputs: inputs(5) },
+]
+const dists = buildPeerDistributions(rows, 20)
+
+describe('percentileIn', () => {
+  it('ranks by mid-rank, counting ties as half', () => {
+    expect(percentileIn([1, 2, 3, 4], 3)).toBe(62.5)
+    expect(percentileIn([1, 2, 2, 4], 2)).toBe(50)
+    expect(percentileIn([1, 2, 3, 4], 10)).toBe(100)
+  })
+
+  it('keeps zero at zero however many peers share it', () => {
+    expect(percentileIn([0, 0, 0, 5], 0)).toBe(0)
+    expect(percentileIn([], 5)).toBe(0)
+  })
+})
+
+describe('buildPeerDistributions', () => {
+  it('groups by category and language and drops small groups', () => {
+    expect([...dists.keys()].sort()).toEqual(['category:AI & ML', 'category:Security', 'language:Go', 'language:Python'])
+    expect(dists.get('language:Go')!.size).toBe(31)
+  })
+
+  it('prefers the category group and falls back to language', () => {
+    expect(peerGroupFor(dists, 'Security', 'Go')!.key).toBe('category:Security')
+    expect(peerGroupFor(dists, 'Mobile', 'Go')!.key).toBe('language:Go')
+    expect(peerGroupFor(dists, 'Mobile', 'Swift')).toBeNull()
+  })
+})
+
+describe('peer scoring', () => {
+  const strongSecurity = inputs(30)
+  const peer = peerScoresFor(dists, 'Security', 'Go', strongSecurity)!
+
+  it('scores a category leader near the top of its peer group', () => {
+    expect(peer.group).toBe('category:Security')
+    expect(peer.percentiles.star_velocity_score).toBeGreaterThan(95)
+    expect(peer.percentiles.mention_velocity_score).toBeUndefined()
+  })
+
+  it('production records percentiles but keeps scoring on absolute scales', () => {
+    const withPeer = calculateScore(strongSecurity, productionModel(), peer)
+    const without = calculateScore(strongSecurity, productionModel())
+    expect(withPeer.score).toBe(without.score)
+    expect(withPeer.breakdown.peer).toMatchObject({ group: 'category:Security', sample_size: 30, applied: false })
+    expect(without.breakdown.peer).toBeUndefined()
+  })
+
+  it('the peer-percentile model lifts a niche category leader', () => {
+    const model = getScoringModel('esc-v1-peer')
+    const relative = calculateScore(strongSecurity, model, peer)
+    expect(relative.breakdown.peer!.applied).toBe(true)
+    expect(relative.score).toBeGreaterThan(calculateScore(strongSecurity, productionModel()).score)
+    // Absolute signal values are still reported alongside
+    expect(relative.breakdown.star_velocity_score).toBe(calculateScore(strongSecurity).breakdown.star_velocity_score)
+  })
+
+  it('falls back to absolute scoring without a peer group', () => {
+    const model = getScoringModel('esc-v1-peer')
+    expect(calculateScore(strongSecurity, model).score).toBe(calculateScore(strongSecurity).score)
+  })
+})
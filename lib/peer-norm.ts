@@ -0,0 +1,218 @@
+// Peer percentile normalisation — scores a repo's signals relative to other
+// repos in its category (or, failing that, its primary language), so a
+// Security repo with strong momentum for Security isn't judged against
+// AI-scale star counts. Used by models with normalisation 'peer_percentile'
+// (lib/score-models.ts); every breakdown carries the percentiles alongside the
+// absolute values whenever a peer group is known.
+// Pure functions — unit-tested in lib/peer-norm.test.ts, except
+// loadPeerDistributions(), which reads the latest snapshots.
+//
+// HN mentions are fetched live and never stored per repo, so there is no peer
+// distribution for mention velocity — it always scores on the absolute scale.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+import { addDays, buildHistory, inputsAt, type SnapshotPoint, type WeeklyPoint } from './backtest'
+import { rawSignals, type ScoreInputs } from './score'
+import type { SignalKey } from './score-models'
+
+/** Groups smaller than this are too noisy to rank against. */
+export const MIN_PEER_SAMPLE = 20
+
+export const PEER_SIGNALS: SignalKey[] = [
+  'star_velocity_score',
+  'contributor_ratio_score',
+  'fork_velocity_score',
+  'commit_frequency_score',
+  'star_acceleration_score',
+  'fork_acceleration_score',
+]
+
+export interface PeerGroup {
+  key: string // "category:Security" | "language:Rust"
+  size: number
+  values: Record<SignalKey, number[]> // raw signal values, ascending
+}
+
+export type PeerDistributions = Map<string, PeerGroup>
+
+export interface PeerRow {
+  category: string | null
+  language: string | null
+  inputs: ScoreInputs
+}
+
+/** What calculateScore() needs to score against a peer group. */
+export interface PeerScores {
+  group: string
+  sample_size: number
+  percentiles: Partial<Record<SignalKey, number>> // unrounded 0–100
+}
+
+export function categoryKey(category: string): string {
+  return `category:${category}`
+}
+
+export function languageKey(language: string): string {
+  return `language:${language}`
+}
+
+export function buildPeerDistributions(rows: PeerRow[], minSample = MIN_PEER_SAMPLE): PeerDistributions {
+  const buckets = new Map<string, Record<SignalKey, number[]>>()
+  const add = (key: string, raw: ReturnType<typeof rawSignals>) => {
+    let bucket = buckets.get(key)
+    if (!bucket) {
+      bucket = Object.fromEntries(PEER_SIGNALS.map((k) => [k, [] as number[]])) as Record<SignalKey, number[]>
+      buckets.set(key, bucket)
+    }
+    for (const k of PEER_SIGNALS) bucket[k].push(raw[k])
+  }
+
+  for (const row of rows) {
+    const raw = rawSignals(row.inputs)
+    if (row.category) add(categoryKey(row.category), raw)
+    if (row.language) add(languageKey(row.language), raw)
+  }
+
+  const out: PeerDistributions = new Map()
+  for (const [key, values] of buckets) {
+    const size = values.star_velocity_score.length
+    if (size < minSample) continue
+    for (const k of PEER_SIGNALS) values[k].sort((a, b) => a - b)
+    out.set(key, { key, size, values })
+  }
+  return out
+}
+
+/**
+ * Mid-rank percentile of `value` within ascending `sorted` (ties count half).
+ * Zero or negative means "no signal" and stays 0 however many peers share it.
+ */
+export function percentileIn(sorted: number[], value: number): number {
+  if (value <= 0 || sorted.length === 0) return 0
+  const below = lowerBound(sorted, value)
+  let equal = 0
+  while (below + equal < sorted.length && sorted[below + equal] === value) equal++
+  return ((below + equal / 2) / sorted.length) * 100
+}
+
+function lowerBound(sorted: number[], value: number): number {
+  let lo = 0
+  let hi = sorted.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (sorted[mid] < value) lo = mid + 1
+    else hi = mid
+  }
+  return lo
+}
+
+/** The repo's category group when large enough, else its language group, else null. */
+export function peerGroupFor(
+  dists: PeerDistributions,
+  category: string | null,
+  language: string | null,
+): PeerGroup | null {
+  return (category && dists.get(categoryKey(category))) || (language && dists.get(languageKey(language))) || null
+}
+
+export function peerScoresFor(
+  dists: PeerDistributions,
+  category: string | null,
+  language: string | null,
+  inputs: ScoreInputs,
+): PeerScores | null {
+  const group = peerGroupFor(dists, category, language)
+  if (!group) return null
+  const raw = rawSignals(inputs)
+  const percentiles: Partial<Record<SignalKey, number>> = {}
+  for (const k of PEER_SIGNALS) percentiles[k] = percentileIn(group.values[k], raw[k])
+  return { group: group.key, sample_size: group.size, percentiles }
+}
+
+async function loadAll<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>,
+): Promise<T[]> {
+  const rows: T[] = []
+  let offset = 0
+  while (true) {
+    const { data, error } = await fetchPage(offset, offset + 999)
+    if (error) throw new Error(error.message)
+    const typed = (data ?? []) as unknown as T[]
+    rows.push(...typed)
+    if (typed.length < 1000) break
+    offset += 1000
+  }
+  return rows
+}
+
+/**
+ * Peer distributions from the latest snapshot day, with inputs derived the
+ * way scripts/pipeline.ts derives them (7/14/30-day-old snapshots plus the
+ * most recent weekly_stats row).
+ */
+export async function loadPeerDistributions(db: SupabaseClient<Database>): Promise<PeerDistributions> {
+  const { data: latest } = await db
+    .from('repo_snapshots')
+    .select('snapshot_date')
+    .order('snapshot_date', { ascending: false })
+    .limit(1)
+  const today = (latest?.[0] as unknown as { snapshot_date: string } | undefined)?.snapshot_date
+  if (!today) return new Map()
+
+  type SnapRow = { repo_id: string; snapshot_date: string; stars: number; forks: number; stars_7d: number }
+  const snapDates = [today, addDays(today, -7), addDays(today, -14), addDays(today, -30)]
+  const [snapshots, weekly, repos, enrichments] = await Promise.all([
+    loadAll<SnapRow>((from, to) =>
+      db
+        .from('repo_snapshots')
+        .select('repo_id, snapshot_date, stars, forks, stars_7d')
+        .in('snapshot_date', snapDates)
+        .order('snapshot_date')
+        .order('repo_id')
+        .range(from, to)
+    ),
+    loadAll<{ repo_id: string; snapshot_date: string; contributors: number; commit_count_4w: number }>((from, to) =>
+      db
+        .from('weekly_stats')
+        .select('repo_id, snapshot_date, contributors, commit_count_4w')
+        .gte('snapshot_date', addDays(today, -14))
+        .order('snapshot_date')
+        .order('repo_id')
+        .range(from, to)
+    ),
+    loadAll<{ id: string; language: string | null; contributors: number }>((from, to) =>
+      db.from('repos').select('id, language, contributors').order('id').range(from, to)
+    ),
+    loadAll<{ repo_id: string; category: string }>((from, to) =>
+      db.from('enrichments').select('repo_id, category').order('repo_id').range(from, to)
+    ),
+  ])
+
+  const snapsByRepo = new Map<string, SnapshotPoint[]>()
+  for (const s of snapshots) {
+    const arr = snapsByRepo.get(s.repo_id) ?? []
+    arr.push({ date: s.snapshot_date, stars: s.stars, forks: s.forks, stars_7d: s.stars_7d })
+    snapsByRepo.set(s.repo_id, arr)
+  }
+  const weeklyByRepo = new Map<string, WeeklyPoint[]>()
+  for (const w of weekly) {
+    const arr = weeklyByRepo.get(w.repo_id) ?? []
+    arr.push({ date: w.snapshot_date, contributors: w.contributors, commits_4w: w.commit_count_4w })
+    weeklyByRepo.set(w.repo_id, arr)
+  }
+  const categories = new Map(enrichments.map((e) => [e.repo_id, e.category]))
+
+  const rows: PeerRow[] = []
+  for (const repo of repos) {
+    const snaps = snapsByRepo.get(repo.id)
+    if (!snaps) continue
+    const h = buildHistory(repo.id, repo.contributors ?? 0, snaps, weeklyByRepo.get(repo.id) ?? [])
+    const inputs = inputsAt(h, today)
+    if (!inputs) continue
+    // The pipeline scores with the repo's current contributor count
+    inputs.contributors = repo.contributors ?? 0
+    rows.push({ category: categories.get(repo.id) ?? null, language: repo.language, inputs })
+  }
+  return buildPeerDistributions(rows)
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { effectiveStatus, formatDuration, quotaUsed, summariseRuns, type RunRow } from './pipeline-runs'
+
+const NOW = new Date('2026-10-15T12:00:00Z')
+
+let nextId = 1
+function run(overrides: Partial<RunRow> = {}): RunRow {
+  return {
+    id: nextId++,
+    script: 'snapshot-light',
+    status: 'succeeded',
+    started_at: '2026-10-15T06:00:00Z',
+    finished_at: '2026-10-15T06:02:00Z',
+    duration_ms: 120_000,
+    error_count: 0,
+    api_quota: {},
+    ...overrides,
+  }
+}
+
+describe('quotaUsed', () => {
+  const window = (used: number, reset = 1_000) => ({ limit: 5_000, used, reset })
+
+  it('diffs usage within one rate-limit window', () => {
+    expect(
+      quotaUsed({ core: window(100), graphql: window(40), search: window(3) }, { core: window(912), graphql: window(40), search: window(9) })
+    ).toEqual({ core: 812, search: 6 })
+  })
+
+  it('counts only the new window after a reset', () => {
+    expect(quotaUsed({ core: window(4_900, 1_000) }, { core: window(250, 4_600) })).toEqual({ core: 250 })
+  })
+
+  it('is empty without readings', () => {
+    expect(quotaUsed(null, { core: window(1) })).toEqual({})
+  })
+})
+
+describe('effectiveStatus', () => {
+  it('treats long-running rows as abandoned', () => {
+    expect(effectiveStatus({ status: 'running', started_at: '2026-10-15T11:00:00Z' }, NOW)).toBe('running')
+    expect(effectiveStatus({ status: 'running', started_at: '2026-10-15T01:00:00Z' }, NOW)).toBe('abandoned')
+    expect(effectiveStatus({ status: 'failed', started_at: '2026-10-15T01:00:00Z' }, NOW)).toBe('failed')
+  })
+})
+
+describe('summariseRuns', () => {
+  it('computes failure streaks, success rate and durations per script', () => {
+    const [weekly, light] = summariseRuns(
+      [
+        run({ started_at: '2026-10-12T06:00:00Z', duration_ms: 100_000, api_quota: { graphql: 90 } }),
+        run({ started_at: '2026-10-13T06:00:00Z', duration_ms: 140_000, api_quota: { graphql: 110 } }),
+        run({ started_at: '2026-10-14T06:00:00Z', duration_ms: 120_000 }),
+        run({ script: 'snapshot-weekly', started_at: '2026-10-05T06:00:00Z', duration_ms: 600_000 }),
+        run({ script: 'snapshot-weekly', status: 'failed', started_at: '2026-10-12T06:00:00Z', duration_ms: 30_000 }),
+        run({ script: 'snapshot-weekly', status: 'running', started_at: '2026-10-14T06:00:00Z', duration_ms: null }),
+        run({ script: 'snapshot-weekly', status: 'running', started_at: '2026-10-15T11:30:00Z', duration_ms: null }),
+      ],
+      NOW
+    )
+
+    // failing scripts sort first; the in-flight run doesn't break the streak
+    expect(weekly).toMatchObject({
+      script: 'snapshot-weekly',
+      runs: 4,
+      lastStatus: 'running',
+      failureStreak: 2,
+      lastSuccessAt: '2026-10-05T06:00:00Z',
+      medianDurationMs: 600_000,
+    })
+    expect(weekly.successRate).toBeCloseTo(1 / 3)
+
+    expect(light).toMatchObject({
+      script: 'snapshot-light',
+      failureStreak: 0,
+      successRate: 1,
+      medianDurationMs: 120_000,
+      durationsMs: [100_000, 140_000, 120_000],
+      quota: { graphql: 200 },
+    })
+  })
+})
+
+describe('formatDuration', () => {
+  it('scales units', () => {
+    expect(formatDuration(null)).toBe('—')
+    expect(formatDuration(42_400)).toBe('42s')
+    expect(formatDuration(125_000)).toBe('2m 05s')
+    expect(formatDuration(3_900_000)).toBe('1h 05m')
+  })
+})
@@ -0,0 +1,209 @@
+// Pipeline run registry — each scheduled script records one pipeline_runs row
+// per run (scripts/migrations/016-pipeline-runs.sql): start/end, counters,
+// non-fatal errors and the GitHub quota it used. /admin/runs reads it.
+// Quota math and the dashboard rollups are pure — unit-tested in
+// lib/pipeline-runs.test.ts.
+//
+// In a script:
+//   const run = await startRun(db, 'snapshot-light')
+//   run.count('updated')            // or run.set('updated', n)
+//   run.error(`owner/name: ${msg}`) // recorded, the run still succeeds
+//   await run.finish()
+// and in the top-level catch, `await failActiveRun(err)`. Recording never
+// fails the script — a write error is logged and the run carries on.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json, PipelineRun } from './database.types'
+import type { RateLimitWindow } from './github'
+
+export const MAX_RECORDED_ERRORS = 20
+export const STALE_RUN_HOURS = 6 // a "running" row this old was killed mid-run (runner timeout)
+
+export type RunStatus = 'running' | 'succeeded' | 'failed'
+
+export interface RunTracker {
+  id: number | null // null when the row could not be written (or a dry run)
+  count(name: string, by?: number): void
+  set(name: string, value: number): void
+  error(message: string): void
+  finish(): Promise<void>
+  fail(err: unknown): Promise<void>
+}
+
+/**
+ * GitHub quota used between two /rate_limit readings, per API. Inside one
+ * window it's the change in `used`; across a reset only the new window's
+ * usage is visible, so the figure is a lower bound.
+ */
+export function quotaUsed(
+  start: Record<string, RateLimitWindow> | null,
+  end: Record<string, RateLimitWindow> | null
+): Record<string, number> {
+  if (!start || !end) return {}
+  const used: Record<string, number> = {}
+  for (const [api, after] of Object.entries(end)) {
+    const before = start[api]
+    if (!before) continue
+    const n = after.reset === before.reset ? after.used - before.used : after.used
+    if (n > 0) used[api] = n
+  }
+  return used
+}
+
+let active: RunTracker | null = null
+
+export async function startRun(
+  db: SupabaseClient<Database>,
+  script: string,
+  opts: { dryRun?: boolean } = {}
+): Promise<RunTracker> {
+  const { getRateLimit } = await import('./github')
+  const startedAt = Date.now()
+  const quotaAtStart = await getRateLimit()
+  const counts: Record<string, number> = {}
+  const errors: string[] = []
+  let errorCount = 0
+  let done = false
+
+  let id: number | null = null
+  if (!opts.dryRun) {
+    const { data, error } = await db
+      .from('pipeline_runs')
+      .insert({ script, status: 'running', github_run_id: process.env.GITHUB_RUN_ID ?? null })
+      .select('id')
+      .single()
+    if (error) console.error(`[WARN] Failed to record ${script} run start: ${error.message}`)
+    else id = (data as unknown as { id: number }).id
+  }
+
+  async function close(status: RunStatus, fatal: string | null): Promise<void> {
+    if (done) return
+    done = true
+    if (active === tracker) active = null
+    if (id == null) return
+    const { error } = await db
+      .from('pipeline_runs')
+      .update({
+        status,
+        finished_at: new Date().toISOString(),
+        duration_ms: Date.now() - startedAt,
+        counts: counts as unknown as Json,
+        errors: fatal ? [fatal, ...errors].slice(0, MAX_RECORDED_ERRORS) : errors,
+        error_count: errorCount + (fatal ? 1 : 0),
+        api_quota: quotaUsed(quotaAtStart, await getRateLimit()),
+      })
+      .eq('id', id)
+    if (error) console.error(`[WARN] Failed to record ${script} run end: ${error.message}`)
+  }
+
+  const tracker: RunTracker = {
+    id,
+    count(name, by = 1) {
+      counts[name] = (counts[name] ?? 0) + by
+    },
+    set(name, value) {
+      counts[name] = value
+    },
+    error(message) {
+      errorCount++
+      if (errors.length < MAX_RECORDED_ERRORS) errors.push(message.slice(0, 500))
+    },
+    finish: () => close('succeeded', null),
+    fail: (err) => close('failed', (err instanceof Error ? err.message : String(err)).slice(0, 500)),
+  }
+  active = tracker
+  return tracker
+}
+
+/** For a script's top-level catch: mark the run in progress (if any) failed. */
+export async function failActiveRun(err: unknown): Promise<void> {
+  await active?.fail(err)
+}
+
+// ─── Dashboard rollups ───────────────────────────────────────────────────────
+
+export type RunRow = Pick<
+  PipelineRun,
+  'id' | 'script' | 'status' | 'started_at' | 'finished_at' | 'duration_ms' | 'error_count' | 'api_quota'
+>
+
+/** A run's status as shown — "running" rows past STALE_RUN_HOURS were killed. */
+export function effectiveStatus(run: Pick<RunRow, 'status' | 'started_at'>, now: Date = new Date()): RunStatus | 'abandoned' {
+  if (run.status !== 'running') return run.status as RunStatus
+  const age = now.getTime() - new Date(run.started_at).getTime()
+  return age > STALE_RUN_HOURS * 3_600_000 ? 'abandoned' : 'running'
+}
+
+export interface ScriptHealth {
+  script: string
+  runs: number
+  last: RunRow
+  lastStatus: RunStatus | 'abandoned'
+  lastSuccessAt: string | null
+  failureStreak: number // consecutive failed/abandoned runs, newest first
+  successRate: number // 0–1 over finished runs
+  medianDurationMs: number | null
+  durationsMs: number[] // successful runs, oldest first — the trend sparkline
+  quota: Record<string, number> // summed over the window
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2)
+}
+
+/** One health row per script; failing scripts first, then by name. */
+export function summariseRuns(runs: RunRow[], now: Date = new Date()): ScriptHealth[] {
+  const byScript = new Map<string, RunRow[]>()
+  for (const run of runs) {
+    const list = byScript.get(run.script) ?? []
+    list.push(run)
+    byScript.set(run.script, list)
+  }
+
+  const health: ScriptHealth[] = []
+  for (const [script, list] of byScript) {
+    const newest = [...list].sort((a, b) => b.started_at.localeCompare(a.started_at))
+    const statuses = newest.map((r) => effectiveStatus(r, now))
+
+    let failureStreak = 0
+    for (const s of statuses) {
+      if (s === 'running') continue
+      if (s === 'succeeded') break
+      failureStreak++
+    }
+    const finished = statuses.filter((s) => s !== 'running')
+    const succeeded = newest.filter((_, i) => statuses[i] === 'succeeded')
+
+    const quota: Record<string, number> = {}
+    for (const run of list) {
+      for (const [api, n] of Object.entries((run.api_quota ?? {}) as Record<string, number>)) {
+        quota[api] = (quota[api] ?? 0) + n
+      }
+    }
+
+    health.push({
+      script,
+      runs: list.length,
+      last: newest[0],
+      lastStatus: statuses[0],
+      lastSuccessAt: succeeded[0]?.started_at ?? null,
+      failureStreak,
+      successRate: finished.length > 0 ? finished.filter((s) => s === 'succeeded').length / finished.length : 0,
+      medianDurationMs: median(succeeded.flatMap((r) => (r.duration_ms == null ? [] : [r.duration_ms]))),
+      durationsMs: succeeded.flatMap((r) => (r.duration_ms == null ? [] : [r.duration_ms])).reverse(),
+      quota,
+    })
+  }
+  return health.sort((a, b) => b.failureStreak - a.failureStreak || a.script.localeCompare(b.script))
+}
+
+export function formatDuration(ms: number | null): string {
+  if (ms == null) return '—'
+  const s = Math.round(ms / 1000)
+  if (s < 60) return `${s}s`
+  const m = Math.floor(s / 60)
+  return m < 60 ? `${m}m ${String(s % 60).padStart(2, '0')}s` : `${Math.floor(m / 60)}h ${String(m % 60).padStart(2, '0')}m`
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { calculateScore } from './score'
+import { getScoringModel } from './score-models'
+import {
+  BUILTIN_PRESETS,
+  PresetError,
+  SAVED_SLUG_PATTERN,
+  builtinPreset,
+  formatWeights,
+  newPresetSlug,
+  parseWeights,
+  presetScore,
+} from './presets'
+
+const sum = (w: Record<string, number>) => Object.values(w).reduce((a, b) => a + b, 0)
+
+describe('parseWeights', () => {
+  it('scales URL specs and objects to 100, unlisted signals at 0', () => {
+    const w = parseWeights('stars:3,commits:1')
+    expect(w.star_velocity_score).toBe(75)
+    expect(w.commit_frequency_score).toBe(25)
+    expect(w.contributor_ratio_score).toBe(0)
+    expect(parseWeights({ contributors: '20', mention_velocity: 20 })).toMatchObject({
+      contributor_ratio_score: 50,
+      mention_velocity_score: 50,
+    })
+  })
+
+  it('accepts the backtest form and full signal keys', () => {
+    expect(parseWeights('star_velocity=30,fork_acceleration_score=10').fork_acceleration_score).toBe(25)
+  })
+
+  it('rejects unknown signals, bad numbers, duplicates and all-zero weights', () => {
+    expect(() => parseWeights('vibes:10')).toThrow(/unknown signal "vibes"/)
+    expect(() => parseWeights('stars:-5')).toThrow(PresetError)
+    expect(() => parseWeights('stars:lots')).toThrow(PresetError)
+    expect(() => parseWeights('stars:10,star_velocity:5')).toThrow(/listed twice/)
+    expect(() => parseWeights('stars:0')).toThrow(/above 0/)
+    expect(() => parseWeights(42)).toThrow(PresetError)
+  })
+
+  it('round-trips through the URL form', () => {
+    for (const preset of BUILTIN_PRESETS) {
+      expect(sum(preset.weights)).toBeCloseTo(100)
+      expect(parseWeights(formatWeights(preset.weights))).toEqual(preset.weights)
+    }
+    expect(formatWeights(parseWeights('stars:1,commits:2'))).toBe('stars:33.3,commits:66.7')
+  })
+})
+
+describe('presetScore', () => {
+  const inputs = {
+    stars: 5000, stars_7d: 800, stars_30d: 2000, contributors: 40, forks: 300,
+    hn_mentions_7d: 3, hn_mentions_30d: 6, commits_30d: 90, stars_7d_prev: 500,
+    forks_7d: 30, forks_7d_prev: 20,
+  }
+
+  it('matches the production score under the default preset', () => {
+    const { score, breakdown } = calculateScore(inputs)
+    expect(Math.abs(presetScore(breakdown, builtinPreset('default')!.weights) - score)).toBeLessThanOrEqual(1)
+  })
+
+  it('subtracts the manipulation penalty and treats missing signals as 0', () => {
+    const stars = parseWeights('stars:1')
+    expect(presetScore({ star_velocity_score: 80, manipulation_penalty: 30 }, stars)).toBe(50)
+    expect(presetScore({ contributor_ratio_score: 90 }, stars)).toBe(0)
+    expect(presetScore(null, stars)).toBe(0)
+  })
+
+  it('reweights repos without downloads the way calculateScore does', () => {
+    const v3 = getScoringModel('esc-v3-downloads')
+    const without = calculateScore(inputs, v3)
+    expect(Math.abs(presetScore(without.breakdown, v3.weights) - without.score)).toBeLessThanOrEqual(1)
+    const withDownloads = calculateScore({ ...inputs, package_registry: 'pypi', downloads_7d: 40_000, downloads_7d_prev: 30_000 }, v3)
+    expect(Math.abs(presetScore(withDownloads.breakdown, v3.weights) - withDownloads.score)).toBeLessThanOrEqual(1)
+  })
+})
+
+describe('slugs', () => {
+  it('never collide with a built-in', () => {
+    const slug = newPresetSlug()
+    expect(slug).toMatch(SAVED_SLUG_PATTERN)
+    for (const p of BUILTIN_PRESETS) expect(p.slug).not.toMatch(SAVED_SLUG_PATTERN)
+  })
+})
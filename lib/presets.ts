@@ -0,0 +1,193 @@
+// Weight presets — user-defined scoring formulas over the stored
+// score_breakdown signals. A preset re-ranks repos that are already scored:
+// each repo's per-signal scores (0–100, absolute) are re-weighted and the
+// manipulation penalty subtracted again, with no call back into
+// calculateScore(). Built-in presets live here; saved ones are rows in
+// weight_presets (scripts/migrations/020-weight-presets.sql), addressed by slug.
+// Weights travel in URLs as "stars:30,commits:20" so any preset can be shared
+// by link. Pure apart from savePreset() — unit-tested in lib/presets.test.ts.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+import { SIGNAL_KEYS, effectiveWeights, productionModel, type ScoreWeights, type SignalKey } from './score-models'
+
+export class PresetError extends Error {}
+
+export interface WeightPreset {
+  slug: string
+  name: string
+  weights: ScoreWeights // percentages totalling 100
+  builtin: boolean
+}
+
+/** Short URL names for each signal, with the labels the score panel uses. */
+export const PRESET_SIGNALS: { key: SignalKey; param: string; label: string }[] = [
+  { key: 'star_velocity_score', param: 'stars', label: 'star growth' },
+  { key: 'contributor_ratio_score', param: 'contributors', label: 'active builders' },
+  { key: 'mention_velocity_score', param: 'mentions', label: 'community buzz' },
+  { key: 'commit_frequency_score', param: 'commits', label: 'commit pace' },
+  { key: 'fork_velocity_score', param: 'forks', label: 'fork activity' },
+  { key: 'star_acceleration_score', param: 'star_momentum', label: 'star momentum' },
+  { key: 'fork_acceleration_score', param: 'fork_momentum', label: 'fork momentum' },
+  { key: 'download_velocity_score', param: 'downloads', label: 'downloads' },
+  { key: 'download_acceleration_score', param: 'download_momentum', label: 'download momentum' },
+]
+
+export const MAX_PRESET_NAME_LENGTH = 60
+
+// The week's top movers by stars_7d that a preset ranks on the trending list.
+// Other lists rank every enriched repo (repos_by_preset(),
+// scripts/migrations/023-preset-ranking.sql).
+export const PRESET_POOL_SIZE = 200
+
+function weightsOf(partial: Partial<ScoreWeights>): ScoreWeights {
+  return Object.fromEntries(SIGNAL_KEYS.map((k) => [k, partial[k] ?? 0])) as ScoreWeights
+}
+
+export const BUILTIN_PRESETS: WeightPreset[] = [
+  {
+    slug: 'default',
+    name: 'Early Signal Score',
+    weights: productionModel().weights,
+    builtin: true,
+  },
+  {
+    slug: 'infra',
+    name: 'Infra — builders and commits',
+    weights: weightsOf({
+      contributor_ratio_score: 35,
+      commit_frequency_score: 30,
+      fork_velocity_score: 15,
+      star_velocity_score: 10,
+      fork_acceleration_score: 10,
+    }),
+    builtin: true,
+  },
+  {
+    slug: 'product',
+    name: 'Product — stars and buzz',
+    weights: weightsOf({
+      star_velocity_score: 35,
+      mention_velocity_score: 30,
+      star_acceleration_score: 20,
+      download_velocity_score: 10,
+      contributor_ratio_score: 5,
+    }),
+    builtin: true,
+  },
+]
+
+export function builtinPreset(slug: string): WeightPreset | null {
+  return BUILTIN_PRESETS.find((p) => p.slug === slug) ?? null
+}
+
+// Slugs for saved presets: 10 lowercase hex characters, never a built-in's
+export const SAVED_SLUG_PATTERN = /^[0-9a-f]{10}$/
+
+export function newPresetSlug(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(5)), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/** A custom preset from URL weights (`?weights=stars:30,…`), not saved anywhere. */
+export function customPreset(spec: string): WeightPreset {
+  return { slug: 'custom', name: 'Custom weights', weights: parseWeights(spec), builtin: false }
+}
+
+function signalFor(name: string): SignalKey {
+  const key = name.trim().toLowerCase()
+  const found = PRESET_SIGNALS.find((s) => s.param === key || s.key === key || s.key === `${key}_score`)
+  if (!found) {
+    throw new PresetError(`unknown signal "${name}" (expected one of ${PRESET_SIGNALS.map((s) => s.param).join(', ')})`)
+  }
+  return found.key
+}
+
+/** Scale raw weights to percentages totalling 100. Throws when all are 0. */
+export function normaliseWeights(raw: Partial<ScoreWeights>): ScoreWeights {
+  const weights = weightsOf(raw)
+  const total = SIGNAL_KEYS.reduce((sum, k) => sum + weights[k], 0)
+  if (total <= 0) throw new PresetError('at least one weight must be above 0')
+  for (const k of SIGNAL_KEYS) weights[k] = (weights[k] / total) * 100
+  return weights
+}
+
+function checkWeight(name: string, value: unknown): number {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+  if (typeof n !== 'number' || !Number.isFinite(n) || n < 0) {
+    throw new PresetError(`weight for ${name} must be a number of 0 or more`)
+  }
+  return n
+}
+
+/**
+ * Weights from a spec like "stars:30,commits:20" (or "star_velocity=30",
+ * the backtest form) or an object like { stars: 30 }. Unlisted signals get 0;
+ * the rest are scaled to total 100, so "stars:3,commits:1" is 75/25.
+ */
+export function parseWeights(input: unknown): ScoreWeights {
+  const raw: Partial<ScoreWeights> = {}
+  const set = (name: string, value: unknown) => {
+    const key = signalFor(name)
+    if (raw[key] != null) throw new PresetError(`${name} is listed twice`)
+    raw[key] = checkWeight(name, value)
+  }
+
+  if (typeof input === 'string') {
+    for (const pair of input.split(',').map((p) => p.trim()).filter(Boolean)) {
+      const [name, value, ...rest] = pair.split(/[:=]/)
+      if (value === undefined || rest.length > 0) throw new PresetError(`"${pair}" must look like stars:30`)
+      set(name, value)
+    }
+  } else if (input && typeof input === 'object' && !Array.isArray(input)) {
+    for (const [name, value] of Object.entries(input)) set(name, value)
+  } else {
+    throw new PresetError('weights must be a string like "stars:30,commits:20" or an object')
+  }
+  return normaliseWeights(raw)
+}
+
+/** The URL form of `weights`: non-zero signals, one decimal at most. */
+export function formatWeights(weights: ScoreWeights): string {
+  return PRESET_SIGNALS.filter((s) => weights[s.key] > 0)
+    .map((s) => `${s.param}:${Math.round(weights[s.key] * 10) / 10}`)
+    .join(',')
+}
+
+/** Trimmed display name, or a PresetError when it's empty or too long. */
+export function parsePresetName(raw: unknown): string {
+  const name = typeof raw === 'string' ? raw.trim() : ''
+  if (!name) throw new PresetError('name is required')
+  if (name.length > MAX_PRESET_NAME_LENGTH) throw new PresetError(`name must be ${MAX_PRESET_NAME_LENGTH} characters or fewer`)
+  return name
+}
+
+/**
+ * A repo's score under `weights`, from its stored score_breakdown. Signals the
+ * breakdown doesn't carry count as 0, except the download signals: repos
+ * without download data are scored on the rest, reweighted to 100 — the same
+ * rule calculateScore() applies. preset_score() in
+ * scripts/migrations/023-preset-ranking.sql is the SQL twin the lists rank by.
+ */
+export function presetScore(breakdown: unknown, weights: ScoreWeights): number {
+  if (!breakdown || typeof breakdown !== 'object') return 0
+  const b = breakdown as Record<string, unknown>
+  const num = (k: string) => (typeof b[k] === 'number' ? (b[k] as number) : 0)
+  const w = effectiveWeights(weights, typeof b.download_velocity_score === 'number')
+  const raw = SIGNAL_KEYS.reduce((sum, k) => sum + num(k) * w[k], 0) / 100
+  return Math.round(Math.min(100, Math.max(0, raw - num('manipulation_penalty'))))
+}
+
+/** Store a named preset under a new slug and return it. */
+export async function savePreset(
+  db: SupabaseClient<Database>,
+  name: string,
+  weights: ScoreWeights,
+  ownerEmail: string | null = null,
+): Promise<WeightPreset> {
+  const slug = newPresetSlug()
+  const { error } = await db
+    .from('weight_presets')
+    .insert({ slug, name, weights, owner_email: ownerEmail?.toLowerCase() ?? null })
+  if (error) throw new Error(`saving preset: ${error.message}`)
+  return { slug, name, weights, builtin: false }
+}
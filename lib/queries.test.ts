@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+import { fakeDb } from './fake-db'
+import { parseWeights } from './presets'
+
+const state = vi.hoisted(() => ({ db: null as SupabaseClient<Database> | null }))
+
+vi.mock('./supabase', () => ({
+  get supabase() {
+    return state.db
+  },
+}))
+
+const { getReposInCategories } = await import('./queries')
+
+const repo = (id: string) => ({ id, owner: 'acme', name: id, language: 'Rust' })
+const enrichment = (repo_id: string, early_signal_score: number, score_confidence: string | null, stars: number) => ({
+  repo_id,
+  early_signal_score,
+  score_confidence,
+  score_breakdown: { star_velocity_score: stars, commit_frequency_score: 50 },
+})
+
+beforeEach(() => {
+  // cold is a week-old repo: best score, low confidence. legacy was scored before confidence was recorded.
+  state.db = fakeDb({
+    repos: [repo('steady'), repo('cold'), repo('legacy')],
+    enrichments: [enrichment('steady', 70, 'high', 60), enrichment('cold', 90, 'low', 95), enrichment('legacy', 50, null, 40)],
+    repo_categories: ['steady', 'cold', 'legacy'].map((repo_id) => ({ repo_id, category_slug: 'ai-ml/agents', is_primary: true })),
+  })
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('getReposInCategories', () => {
+  it('ranks every labelled repo when no confidence floor is set', async () => {
+    const { projects, total } = await getReposInCategories(['ai-ml'])
+    expect(projects.map((p) => p.id)).toEqual(['cold', 'steady', 'legacy'])
+    expect(total).toBe(3)
+  })
+
+  it('drops low-confidence repos under RANKING_MIN_CONFIDENCE', async () => {
+    vi.stubEnv('RANKING_MIN_CONFIDENCE', 'medium')
+    const { projects, total } = await getReposInCategories(['ai-ml'])
+    expect(projects.map((p) => p.id)).toEqual(['steady', 'legacy'])
+    expect(total).toBe(2)
+  })
+
+  it('applies the floor under a weight preset too', async () => {
+    vi.stubEnv('RANKING_MIN_CONFIDENCE', 'medium')
+    const { projects } = await getReposInCategories(['ai-ml/agents'], 50, parseWeights('stars:1'))
+    expect(projects.map((p) => [p.id, p.preset_score])).toEqual([['steady', 60], ['legacy', 40]])
+  })
+})
@@ -3,19 +3,134 @@
 // All casts are at the query boundary — the rest of the codebase is fully typed via RepoWithEnrichment.
 
 import { supabase } from './supabase'
-import type { Repo, Enrichment, RepoWithEnrichment, PackageDownload } from './database.types'
+import type {
+  Repo,
+  Enrichment,
+  RepoWithEnrichment,
+  PackageDownload,
+  RepoSnapshot,
+  WeeklyStat,
+  Anomaly,
+  AnomalyType,
+  EnrichmentHistory,
+  WeightPresetRow,
+} from './database.types'
+import { breakoutThreshold } from './backtest'
+import { STAR_QUALITY_MAX_AGE_DAYS, type StargazerFeatures } from './star-quality'
+import type { HistoryPoint } from './compare'
+import type { ChartAnnotation } from './volume'
+import type { TaxonomyNode } from './taxonomy'
+import { CONFIDENCE_LEVELS, confidenceAtLeast, type ConfidenceLevel } from './score'
+import { effectiveWeights, type ScoreWeights } from './score-models'
+import {
+  PRESET_POOL_SIZE,
+  PresetError,
+  SAVED_SLUG_PATTERN,
+  builtinPreset,
+  customPreset,
+  parseWeights,
+  type WeightPreset,
+} from './presets'
+import {
+  MIN_SIMILARITY,
+  SEMANTIC_WEIGHT,
+  VECTOR_CANDIDATES,
+  queryTerms,
+  scoreBounds,
+  shapeFacets,
+  type SearchParams,
+  type SearchResponse,
+} from './search'
+import { getEmbeddingProvider, toVectorLiteral } from './embeddings'
+import { isSuspectEnrichment } from './enrichment-quality'
+import { loadRankDiffs, type RankDiff } from './rank-diff'
 import { buildRaceDates, buildBubbleFrames, type BubbleFrame, type BubbleProfile, type BubbleSnapshotRow } from './bubble'
 
 type RawEnrichment = Enrichment
 type RawRepo = Repo
 
-// Fetch top N repos ranked by Early Signal Score
-export async function getTopRepos(limit = 6): Promise<RepoWithEnrichment[]> {
-  const { data: enrichments, error: eErr } = await supabase
+// Optional floor for score rankings: RANKING_MIN_CONFIDENCE=medium leaves
+// low-confidence scores (cold start, missing inputs — lib/score.ts) out of the
+// top and trending lists, category pages and /api/v1/repos. Unset ranks
+// everything.
+function rankingConfidenceFloor(): ConfidenceLevel | null {
+  const raw = process.env.RANKING_MIN_CONFIDENCE
+  return raw && (CONFIDENCE_LEVELS as string[]).includes(raw) ? (raw as ConfidenceLevel) : null
+}
+
+// PostgREST or-filter for enrichments at or above `floor`. Rows scored before
+// confidence was recorded (null) stay in.
+function confidenceFilter(floor: ConfidenceLevel): string {
+  return `score_confidence.is.null,score_confidence.in.(${confidenceAtLeast(floor).join(',')})`
+}
+
+// Which enriched repos a preset ranking covers; unset fields don't filter
+interface PresetScope {
+  category?: string | null
+  slugs?: string[] | null
+  repoIds?: string[] | null
+  language?: string | null
+  minScore?: number | null
+  maxScore?: number | null
+  confidence?: ConfidenceLevel | null
+}
+
+// The best `limit` repos in `scope` under a weight preset (lib/presets.ts),
+// scored in SQL over every match — repos_by_preset(),
+// scripts/migrations/023-preset-ranking.sql — with preset_score set and the
+// number of matches. Throws on a failed read.
+async function getReposByPreset(
+  weights: ScoreWeights,
+  scope: PresetScope,
+  limit: number
+): Promise<{ projects: RepoWithEnrichment[]; total: number }> {
+  const { data: hits, error } = await supabase.rpc('repos_by_preset', {
+    p_weights: weights,
+    p_weights_no_downloads: effectiveWeights(weights, false),
+    p_category: scope.category ?? null,
+    p_slugs: scope.slugs ?? null,
+    p_repo_ids: scope.repoIds ?? null,
+    p_language: scope.language ?? null,
+    p_min_score: scope.minScore ?? null,
+    p_max_score: scope.maxScore ?? null,
+    p_confidence: scope.confidence ? confidenceAtLeast(scope.confidence) : null,
+    p_limit: limit,
+  })
+  if (error) throw new Error(`repos_by_preset: ${error.message}`)
+  const typedHits = (hits ?? []) as unknown as Array<{ repo_id: string; preset_score: number; total_count: number }>
+  if (typedHits.length === 0) return { projects: [], total: 0 }
+  const ids = typedHits.map((h) => h.repo_id)
+
+  const [{ data: repos, error: rErr }, { data: enrichments, error: eErr }] = await Promise.all([
+    supabase.from('repos').select('*').in('id', ids),
+    supabase.from('enrichments').select('*').in('repo_id', ids),
+  ])
+  if (rErr) throw new Error(`reading repos: ${rErr.message}`)
+  if (eErr) throw new Error(`reading enrichments: ${eErr.message}`)
+
+  const joined = new Map(
+    joinReposAndEnrichments((repos ?? []) as unknown as RawRepo[], (enrichments ?? []) as unknown as RawEnrichment[]).map((r) => [r.id, r])
+  )
+  const projects = typedHits.flatMap((h) => {
+    const repo = joined.get(h.repo_id)
+    return repo ? [{ ...repo, preset_score: h.preset_score }] : []
+  })
+  return { projects, total: Number(typedHits[0].total_count) }
+}
+
+// Fetch top N repos ranked by Early Signal Score, or by a weight preset
+// (lib/presets.ts) over every enriched repo
+export async function getTopRepos(limit = 6, weights: ScoreWeights | null = null): Promise<RepoWithEnrichment[]> {
+  const floor = rankingConfidenceFloor()
+  if (weights) return hydrateDownloads((await getReposByPreset(weights, { confidence: floor }, limit)).projects)
+
+  let query = supabase
     .from('enrichments')
     .select('*')
     .order('early_signal_score', { ascending: false })
     .limit(limit)
+  if (floor) query = query.or(confidenceFilter(floor))
+  const { data: enrichments, error: eErr } = await query
 
   if (eErr || !enrichments || enrichments.length === 0) return []
   const typedEnrichments = enrichments as unknown as RawEnrichment[]
@@ -33,17 +148,25 @@ export async function getTopRepos(limit = 6): Promise<RepoWithEnrichment[]> {
   return hydrateDownloads(joinReposAndEnrichments(typedRepos, typedEnrichments))
 }
 
-// Fetch repos for a given category name
+// Fetch repos for a given category name, by score or by a weight preset
 export async function getReposByCategory(
   categoryName: string,
-  limit = 50
+  limit = 50,
+  weights: ScoreWeights | null = null
 ): Promise<RepoWithEnrichment[]> {
-  const { data: enrichments, error: eErr } = await supabase
+  const floor = rankingConfidenceFloor()
+  if (weights) {
+    return hydrateDownloads((await getReposByPreset(weights, { category: categoryName, confidence: floor }, limit)).projects)
+  }
+
+  let query = supabase
     .from('enrichments')
     .select('*')
     .eq('category', categoryName)
     .order('early_signal_score', { ascending: false })
     .limit(limit)
+  if (floor) query = query.or(confidenceFilter(floor))
+  const { data: enrichments, error: eErr } = await query
 
   if (eErr || !enrichments || enrichments.length === 0) return []
   const typedEnrichments = enrichments as unknown as RawEnrichment[]
@@ -87,6 +210,42 @@ export async function getRepo(
   return { ...repo, enrichment }
 }
 
+// Precomputed nearest neighbours (scripts/compute-similar.ts), best first,
+// each with its "why similar" lines. Empty until the script has run.
+export interface SimilarProject {
+  project: RepoWithEnrichment
+  score: number
+  reasons: string[]
+}
+
+export async function getSimilarRepos(repoId: string, limit = 4): Promise<SimilarProject[]> {
+  const { data, error } = await supabase
+    .from('similar_repos')
+    .select('similar_repo_id, score, reasons')
+    .eq('repo_id', repoId)
+    .order('rank')
+    .limit(limit)
+
+  if (error || !data || data.length === 0) return []
+  const pairs = data as unknown as Array<{ similar_repo_id: string; score: number; reasons: string[] }>
+  const ids = pairs.map((p) => p.similar_repo_id)
+
+  const [{ data: repos }, { data: enrichments }] = await Promise.all([
+    supabase.from('repos').select('*').in('id', ids),
+    supabase.from('enrichments').select('*').in('repo_id', ids),
+  ])
+  if (!repos) return []
+
+  const projects = await hydrateDownloads(
+    joinReposAndEnrichments(repos as unknown as RawRepo[], (enrichments ?? []) as unknown as RawEnrichment[])
+  )
+  const byId = new Map(projects.map((p) => [p.id, p]))
+  return pairs.flatMap((p) => {
+    const project = byId.get(p.similar_repo_id)
+    return project ? [{ project, score: Number(p.score), reasons: p.reasons ?? [] }] : []
+  })
+}
+
 // Curated open-model layer for the AI Code Index: the model repos themselves
 // (release artifacts — big stars, low velocity) and the runtime/ecosystem
 // layer where open-model energy actually lives (run, fine-tune, build).
@@ -149,28 +308,82 @@ export async function getOpenModelLayer(): Promise<OpenModelLayer> {
   }
 }
 
-// Search repos by text (name, owner, description)
-export async function searchRepos(query: string, limit = 10): Promise<RepoWithEnrichment[]> {
-  const { data: repos, error: rErr } = await supabase
-    .from('repos')
-    .select('*')
-    .or(`name.ilike.%${query}%,owner.ilike.%${query}%,description.ilike.%${query}%`)
-    .order('stars', { ascending: false })
-    .limit(limit)
-
-  if (rErr || !repos || repos.length === 0) return []
-  const typedRepos = repos as unknown as RawRepo[]
-
-  const repoIds = typedRepos.map((r) => r.id)
+// Query embedding for mode=semantic; null (plain lexical search) when no
+// provider is configured or the provider fails
+async function semanticArgs(q: string) {
+  try {
+    const provider = getEmbeddingProvider()
+    if (!provider) return null
+    const [vector] = await provider.embed([q], 'query')
+    return {
+      p_embedding: toVectorLiteral(vector),
+      p_embedding_model: provider.model,
+      p_min_similarity: MIN_SIMILARITY,
+      p_vector_k: VECTOR_CANDIDATES,
+    }
+  } catch (err) {
+    console.error('Semantic search embedding failed:', err)
+    return null
+  }
+}
 
-  const { data: enrichments } = await supabase
-    .from('enrichments')
-    .select('*')
-    .in('repo_id', repoIds)
+// Faceted search — search_repos() / search_repo_facets() RPCs
+// (scripts/migrations/008-search.sql); params parsed by lib/search.ts. Throws
+// on a failed read, so /api/search answers 500 instead of "no results".
+export async function searchCatalog(params: SearchParams): Promise<SearchResponse> {
+  const bounds = scoreBounds(params)
+  const terms = queryTerms(params.q)
+  const filters = {
+    p_query: terms.query,
+    p_owner: terms.owner,
+    p_owner_term: terms.ownerTerm,
+    p_category: params.category,
+    p_language: params.language,
+    p_registry: params.registry,
+    p_min_stars: params.minStars,
+    p_max_stars: params.maxStars,
+    p_min_score: bounds.min,
+    p_max_score: bounds.max,
+    p_added_since: params.addedDays != null ? new Date(Date.now() - params.addedDays * 86400000).toISOString() : null,
+  }
+  const semantic = params.mode === 'semantic' && params.q ? await semanticArgs(params.q) : null
+  const [{ data: hits, error }, { data: facets, error: facetsError }] = await Promise.all([
+    supabase.rpc('search_repos', {
+      ...filters,
+      ...(semantic ?? {}),
+      p_semantic_weight: semantic ? SEMANTIC_WEIGHT : 0,
+      p_sort: params.sort,
+      p_limit: params.limit,
+      p_offset: (params.page - 1) * params.limit,
+    }),
+    supabase.rpc('search_repo_facets', { ...filters, ...(semantic ?? {}) }),
+  ])
+  if (error) throw new Error(`search_repos: ${error.message}`)
+  if (facetsError) throw new Error(`search_repo_facets: ${facetsError.message}`)
+
+  const empty: SearchResponse = {
+    results: [],
+    total: 0,
+    page: params.page,
+    limit: params.limit,
+    sort: params.sort,
+    mode: semantic ? 'semantic' : 'lexical',
+    facets: shapeFacets(facets ?? null),
+  }
+  if (!hits || hits.length === 0) return empty
 
-  const typedEnrichments = (enrichments ?? []) as unknown as RawEnrichment[]
+  const ids = hits.map((h) => h.repo_id)
+  const [{ data: repos, error: reposError }, { data: enrichments, error: enrichError }] = await Promise.all([
+    supabase.from('repos').select('*').in('id', ids),
+    supabase.from('enrichments').select('*').in('repo_id', ids),
+  ])
+  if (reposError) throw new Error(`reading repos: ${reposError.message}`)
+  if (enrichError) throw new Error(`reading enrichments: ${enrichError.message}`)
+  const joined = joinReposAndEnrichments((repos ?? []) as unknown as RawRepo[], (enrichments ?? []) as unknown as RawEnrichment[])
+  const order = new Map(ids.map((id, i) => [id, i]))
+  joined.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0))
 
-  return hydrateDownloads(joinReposAndEnrichments(typedRepos, typedEnrichments))
+  return { ...empty, results: await hydrateDownloads(joined), total: Number(hits[0].total_count) }
 }
 
 // Get project counts per category
@@ -199,6 +412,87 @@ export async function getCategoryCounts(): Promise<Record<string, number>> {
   return counts
 }
 
+// The live category tree (active nodes only) — see lib/taxonomy.ts. Throws on
+// a failed read: an empty tree would turn every category page into a cached
+// 404, where an error keeps the last good render.
+export async function getTaxonomy(): Promise<TaxonomyNode[]> {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('slug, parent_slug, name, description, github_topics, sort_order')
+    .eq('active', true)
+    .order('sort_order')
+
+  if (error) throw new Error(`reading categories: ${error.message}`)
+  return (data ?? []) as unknown as TaxonomyNode[]
+}
+
+// Labelled repos per category slug, rolled up to ancestors
+export async function getTaxonomyCounts(): Promise<Record<string, number>> {
+  const { data, error } = await supabase.rpc('category_counts')
+  if (error || !data) return {}
+  const rows = data as unknown as Array<{ slug: string; repo_count: number }>
+  return Object.fromEntries(rows.map((r) => [r.slug, Number(r.repo_count)]))
+}
+
+// Repos labelled at or below every one of `slugs` (tag intersection), best
+// score first — or best under `weights`, among the enriched ones. Both honour
+// the ranking confidence floor.
+export async function getReposInCategories(
+  slugs: string[],
+  limit = 50,
+  weights: ScoreWeights | null = null
+): Promise<{ projects: RepoWithEnrichment[]; total: number }> {
+  const floor = rankingConfidenceFloor()
+  if (weights) {
+    const { projects, total } = await getReposByPreset(weights, { slugs, confidence: floor }, limit)
+    return { projects: await hydrateDownloads(projects), total }
+  }
+
+  const { data: hits, error } = await supabase.rpc('repos_in_categories', {
+    p_slugs: slugs,
+    p_limit: limit,
+    p_confidence: floor ? confidenceAtLeast(floor) : null,
+  })
+  if (error || !hits || hits.length === 0) return { projects: [], total: 0 }
+  const typedHits = hits as unknown as Array<{ repo_id: string; total_count: number }>
+  const ids = typedHits.map((h) => h.repo_id)
+
+  const [{ data: repos }, { data: enrichments }] = await Promise.all([
+    supabase.from('repos').select('*').in('id', ids),
+    supabase.from('enrichments').select('*').in('repo_id', ids),
+  ])
+  if (!repos) return { projects: [], total: 0 }
+
+  const order = new Map(ids.map((id, i) => [id, i]))
+  const joined = joinReposAndEnrichments(repos as unknown as RawRepo[], (enrichments ?? []) as unknown as RawEnrichment[])
+  joined.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0))
+  return { projects: await hydrateDownloads(joined), total: Number(typedHits[0].total_count) }
+}
+
+// A repo's category labels, primary first
+export async function getRepoCategories(repoId: string): Promise<string[]> {
+  const { data } = await supabase
+    .from('repo_categories')
+    .select('category_slug, is_primary')
+    .eq('repo_id', repoId)
+    .order('is_primary', { ascending: false })
+    .order('category_slug')
+
+  return ((data ?? []) as unknown as Array<{ category_slug: string }>).map((r) => r.category_slug)
+}
+
+// Superseded enrichment versions for a repo, newest first
+export async function getEnrichmentHistory(repoId: string, limit = 10): Promise<EnrichmentHistory[]> {
+  const { data } = await supabase
+    .from('enrichment_history')
+    .select('*')
+    .eq('repo_id', repoId)
+    .order('version', { ascending: false })
+    .limit(limit)
+
+  return (data ?? []) as unknown as EnrichmentHistory[]
+}
+
 // Get all repos for sitemap generation
 export async function getAllReposForSitemap(): Promise<
   Array<{ owner: string; name: string; updated_at: string; has_enrichment: boolean }>
@@ -244,7 +538,8 @@ export interface TrendingRepo extends RepoWithEnrichment {
   stars_7d_prev: number
 }
 
-export async function getTrendingRepos(limit = 6): Promise<TrendingRepo[]> {
+// With `weights`, the week's top PRESET_POOL_SIZE movers ranked by that preset
+export async function getTrendingRepos(limit = 6, weights: ScoreWeights | null = null): Promise<TrendingRepo[]> {
   // Get the latest snapshot date
   const { data: latestRow } = await supabase
     .from('repo_snapshots')
@@ -253,7 +548,7 @@ export async function getTrendingRepos(limit = 6): Promise<TrendingRepo[]> {
     .limit(1)
 
   if (!latestRow || latestRow.length === 0) {
-    const fallback = await getTopRepos(limit)
+    const fallback = await getTopRepos(limit, weights)
     return fallback.map((r) => ({ ...r, stars_7d: 0, stars_7d_prev: 0 })) // fallback
   }
 
@@ -271,22 +566,27 @@ export async function getTrendingRepos(limit = 6): Promise<TrendingRepo[]> {
     .eq('snapshot_date', latestDate)
     .gt('stars_7d', 0)
     .order('stars_7d', { ascending: false })
-    .limit(limit * 3)
+    .limit(weights ? Math.max(limit * 3, PRESET_POOL_SIZE) : limit * 3)
 
   if (sErr || !snapshots || snapshots.length === 0) {
-    const fallback = await getTopRepos(limit)
+    const fallback = await getTopRepos(limit, weights)
     return fallback.map((r) => ({ ...r, stars_7d: 0, stars_7d_prev: 0 }))
   }
   const typedSnapshots = snapshots as unknown as Array<{ repo_id: string; stars_7d: number }>
 
   const repoIds = typedSnapshots.map((s) => s.repo_id)
 
+  // A preset ranks the pool in SQL — the ids go in the RPC body — so only the
+  // best `limit` are read back
+  const floor = rankingConfidenceFloor()
+  const ranked = weights ? (await getReposByPreset(weights, { repoIds, confidence: floor }, limit)).projects : null
+
   // Previous week's snapshots for the same repos (delta computation)
   const { data: prevSnapshots } = await supabase
     .from('repo_snapshots')
     .select('repo_id, stars_7d')
     .eq('snapshot_date', prevDate)
-    .in('repo_id', repoIds)
+    .in('repo_id', ranked ? ranked.map((r) => r.id) : repoIds)
 
   const prevMap = new Map<string, number>()
   if (prevSnapshots) {
@@ -295,6 +595,13 @@ export async function getTrendingRepos(limit = 6): Promise<TrendingRepo[]> {
     }
   }
 
+  if (ranked) {
+    const starsMap = new Map(typedSnapshots.map((s) => [s.repo_id, s.stars_7d]))
+    return hydrateDownloads(
+      ranked.map((r) => ({ ...r, stars_7d: starsMap.get(r.id) ?? 0, stars_7d_prev: prevMap.get(r.id) ?? 0 }))
+    ) as Promise<TrendingRepo[]>
+  }
+
   // Fetch repos
   const { data: repos, error: rErr } = await supabase
     .from('repos')
@@ -304,11 +611,13 @@ export async function getTrendingRepos(limit = 6): Promise<TrendingRepo[]> {
   if (rErr || !repos) return []
   const typedRepos = repos as unknown as RawRepo[]
 
-  // Fetch enrichments
-  const { data: enrichments } = await supabase
+  // Fetch enrichments; below the confidence floor counts as unenriched
+  let enrichmentQuery = supabase
     .from('enrichments')
     .select('*')
     .in('repo_id', repoIds)
+  if (floor) enrichmentQuery = enrichmentQuery.or(confidenceFilter(floor))
+  const { data: enrichments } = await enrichmentQuery
 
   const typedEnrichments = (enrichments ?? []) as unknown as RawEnrichment[]
 
@@ -418,6 +727,18 @@ export async function getRisingRepos(limit = 10, snapshotDate?: string): Promise
   return results
 }
 
+// Why each rising repo moved: its score change between two days of
+// score_history, attributed per signal (lib/rank-diff.ts). The explanation is
+// supplementary — a failed read leaves it out rather than failing the page.
+export async function getRankDiffs(repoIds: string[], fromDate: string, toDate: string): Promise<Map<string, RankDiff>> {
+  try {
+    return await loadRankDiffs(supabase, repoIds, fromDate, toDate)
+  } catch (err) {
+    console.error('Rank diff failed:', err)
+    return new Map()
+  }
+}
+
 // Get distinct snapshot dates (for generating archive pages)
 export async function getSnapshotDates(): Promise<string[]> {
   const { data } = await supabase
@@ -444,8 +765,6 @@ export interface BreakoutRepo extends RepoWithEnrichment {
   threshold: number
 }
 
-const THRESHOLDS = [100_000, 50_000, 25_000, 10_000, 5_000, 1_000] as const
-
 export async function getBreakoutRepos(): Promise<BreakoutRepo[]> {
   // Get latest snapshot date
   const { data: latestRow } = await supabase
@@ -504,11 +823,9 @@ export async function getBreakoutRepos(): Promise<BreakoutRepo[]> {
   for (const snap of typedCurrent) {
     const past = pastMap.get(snap.repo_id)
     if (past == null) continue
-    for (const t of THRESHOLDS) {
-      if (snap.stars >= t && past < t) {
-        crossers.push({ repo_id: snap.repo_id, stars_now: snap.stars, stars_30d_ago: past, threshold: t })
-        break // Only report the highest threshold crossed
-      }
+    const threshold = breakoutThreshold(snap.stars, past) // highest threshold crossed
+    if (threshold != null) {
+      crossers.push({ repo_id: snap.repo_id, stars_now: snap.stars, stars_30d_ago: past, threshold })
     }
   }
 
@@ -1055,6 +1372,110 @@ export async function getPackageDownloads(repoId: string): Promise<PackageDownlo
   return data as unknown as PackageDownload
 }
 
+// --- Repo history (/compare, project page) ---
+// One series per metric, ascending by date. Snapshots are daily, so a year is
+// ~365 rows per metric; full history (days = null) pages past the 1000-row cap.
+
+export interface RepoHistorySeries {
+  stars: HistoryPoint[]
+  forks: HistoryPoint[]
+  open_issues: HistoryPoint[]
+  downloads_1d: HistoryPoint[]
+  downloads_7d: HistoryPoint[]
+  commits_4w: HistoryPoint[]
+}
+
+async function getHistoryRows<Row>(table: SeriesTable, columns: string, repoId: string, since: string | null): Promise<Row[]> {
+  const rows: Row[] = []
+  for (let offset = 0; ; offset += 1000) {
+    let query = supabase
+      .from(table)
+      .select(columns)
+      .eq('repo_id', repoId)
+      .order('snapshot_date', { ascending: true })
+      .range(offset, offset + 999)
+    if (since) query = query.gte('snapshot_date', since)
+    const { data, error } = await query
+    if (error || !data) break
+    rows.push(...(data as unknown as Row[]))
+    if (data.length < 1000) break
+  }
+  return rows
+}
+
+export async function getRepoHistory(repoId: string, days: number | null = 180): Promise<RepoHistorySeries> {
+  const since = days == null ? null : new Date(Date.now() - days * 86400000).toISOString().split('T')[0]
+  const [snapRows, downloadRows, weeklyRows] = await Promise.all([
+    getHistoryRows<{ snapshot_date: string; stars: number; forks: number; open_issues: number }>(
+      'repo_snapshots', 'snapshot_date, stars, forks, open_issues', repoId, since
+    ),
+    getHistoryRows<{ snapshot_date: string; downloads_1d: number; downloads_7d: number }>(
+      'package_downloads', 'snapshot_date, downloads_1d, downloads_7d', repoId, since
+    ),
+    getHistoryRows<{ snapshot_date: string; commit_count_4w: number }>(
+      'weekly_stats', 'snapshot_date, commit_count_4w', repoId, since
+    ),
+  ])
+
+  return {
+    stars: snapRows.map((r) => ({ date: r.snapshot_date, value: r.stars })),
+    forks: snapRows.map((r) => ({ date: r.snapshot_date, value: r.forks })),
+    open_issues: snapRows.map((r) => ({ date: r.snapshot_date, value: r.open_issues })),
+    downloads_1d: downloadRows.map((r) => ({ date: r.snapshot_date, value: r.downloads_1d })),
+    downloads_7d: downloadRows.map((r) => ({ date: r.snapshot_date, value: r.downloads_7d })),
+    commits_4w: weeklyRows.map((r) => ({ date: r.snapshot_date, value: r.commit_count_4w })),
+  }
+}
+
+// Daily Early Signal Score (scripts/migrations/018-score-history.sql) —
+// enrichments only holds the latest. Tier markers: tierTransitions() in lib/volume.ts.
+export async function getScoreHistory(repoId: string, days: number | null = null): Promise<HistoryPoint[]> {
+  const since = days == null ? null : new Date(Date.now() - days * 86400000).toISOString().split('T')[0]
+  const rows = await getHistoryRows<{ snapshot_date: string; score: number }>('score_history', 'snapshot_date, score', repoId, since)
+  return rows.map((r) => ({ date: r.snapshot_date, value: r.score }))
+}
+
+const ANOMALY_LABELS: Record<AnomalyType, string> = {
+  stars_breakout: 'star breakout',
+  downloads_accel: 'downloads accelerating',
+  maintainer_silent: 'maintainer silent',
+  release_cadence_shift: 'release cadence shift',
+}
+
+// Chart markers for the project page: every anomaly plus each release tag
+// (first weekly snapshot that saw it, dated by its release date).
+export async function getRepoAnnotations(repoId: string): Promise<ChartAnnotation[]> {
+  const [{ data: anomalies }, { data: releases }] = await Promise.all([
+    supabase
+      .from('anomalies')
+      .select('type, detected_at, narrative')
+      .eq('repo_id', repoId)
+      .order('detected_at', { ascending: true })
+      .limit(500),
+    supabase
+      .from('weekly_stats')
+      .select('snapshot_date, last_release_tag, last_release_date')
+      .eq('repo_id', repoId)
+      .not('last_release_tag', 'is', null)
+      .order('snapshot_date', { ascending: true })
+      .limit(1000),
+  ])
+
+  const out: ChartAnnotation[] = []
+  for (const a of (anomalies ?? []) as unknown as Array<Pick<Anomaly, 'type' | 'detected_at' | 'narrative'>>) {
+    const kind = ANOMALY_LABELS[a.type] ?? a.type
+    out.push({ date: a.detected_at.slice(0, 10), kind: 'anomaly', label: a.narrative ? `${kind} — ${a.narrative}` : kind })
+  }
+  const seen = new Set<string>()
+  const releaseRows = (releases ?? []) as unknown as Array<{ snapshot_date: string; last_release_tag: string; last_release_date: string | null }>
+  for (const r of releaseRows) {
+    if (seen.has(r.last_release_tag)) continue
+    seen.add(r.last_release_tag)
+    out.push({ date: (r.last_release_date ?? r.snapshot_date).slice(0, 10), kind: 'release', label: `release ${r.last_release_tag}` })
+  }
+  return out.sort((a, b) => a.date.localeCompare(b.date))
+}
+
 // --- Digest archive (The Tuesday Briefing) ---
 // Table: scripts/migrations/001-digests.sql
 
@@ -1063,7 +1484,15 @@ export interface DigestIssue {
   week_date: string
   subject: string
   intro: string
-  projects: Array<{ owner: string; name: string; story: string; score: number; stars_7d: number; category: string }>
+  projects: Array<{
+    owner: string
+    name: string
+    story: string
+    score: number
+    stars_7d: number
+    category: string
+    rank_diff?: RankDiff | null // issues before rank diffs don't carry one
+  }>
   new_entrants: Array<{ owner: string; name: string; blurb: string; score: number }>
   ai_pulse: string | null
   created_at: string
@@ -1122,10 +1551,18 @@ export interface RepoEvidence {
   forks_7d: number | null
   forks_7d_prev: number | null
   commits_30d: number
+  star_quality: RepoStarQuality | null
+}
+
+export interface RepoStarQuality {
+  fake_star_probability: number
+  sample_size: number
+  features: StargazerFeatures
+  sampled_at: string
 }
 
 export async function getRepoEvidence(repoId: string, currentStars: number, currentForks: number): Promise<RepoEvidence> {
-  const [{ data: snaps }, { data: weekly }] = await Promise.all([
+  const [{ data: snaps }, { data: weekly }, { data: quality }] = await Promise.all([
     supabase
       .from('repo_snapshots')
       .select('snapshot_date, stars, forks, stars_7d')
@@ -1139,6 +1576,13 @@ export async function getRepoEvidence(repoId: string, currentStars: number, curr
       .order('snapshot_date', { ascending: false })
       .limit(1)
       .maybeSingle(),
+    supabase
+      .from('star_quality')
+      .select('fake_star_probability, sample_size, features, sampled_at')
+      .eq('repo_id', repoId)
+      // The pipeline's cutoff — an older sample no longer sets the penalty
+      .gte('sampled_at', new Date(Date.now() - STAR_QUALITY_MAX_AGE_DAYS * 86400000).toISOString())
+      .maybeSingle(),
   ])
 
   const rows = (snaps ?? []) as unknown as Array<{ snapshot_date: string; stars: number; forks: number; stars_7d: number }>
@@ -1158,6 +1602,7 @@ export async function getRepoEvidence(repoId: string, currentStars: number, curr
     forks_7d: snap7d ? currentForks - snap7d.forks : null,
     forks_7d_prev: snap7d && snap14d ? snap7d.forks - snap14d.forks : null,
     commits_30d: (weekly as unknown as { commit_count_4w: number } | null)?.commit_count_4w ?? 0,
+    star_quality: quality ? (quality as unknown as RepoStarQuality) : null,
   }
 }
 
@@ -1266,12 +1711,17 @@ export async function getTickerRepos(limit = 15): Promise<TickerRepo[]> {
 
   const [{ data: repos }, { data: enrichments }] = await Promise.all([
     supabase.from('repos').select('id, owner, name, stars').in('id', repoIds),
-    supabase.from('enrichments').select('repo_id, summary, category').in('repo_id', repoIds),
+    supabase.from('enrichments').select('repo_id, summary, category, quality_flags').in('repo_id', repoIds),
   ])
 
   if (!repos) return []
   const typedRepos = repos as unknown as Array<{ id: string; owner: string; name: string; stars: number }>
-  const typedEnrichments = (enrichments ?? []) as unknown as Array<{ repo_id: string; summary: string; category: string }>
+  const typedEnrichments = (enrichments ?? []) as unknown as Array<{
+    repo_id: string
+    summary: string
+    category: string
+    quality_flags: string[]
+  }>
 
   const repoMap = new Map(typedRepos.map((r) => [r.id, r]))
   const enrichmentMap = new Map(typedEnrichments.map((e) => [e.repo_id, e]))
@@ -1288,7 +1738,7 @@ export async function getTickerRepos(limit = 15): Promise<TickerRepo[]> {
       stars: s.stars,
       stars_7d: s.stars_7d,
       pct_increase: Math.round(s.pct_increase),
-      summary: enrichment?.summary ?? null,
+      summary: isSuspectEnrichment(enrichment.quality_flags) ? null : enrichment.summary,
       category: enrichment?.category ?? null,
     })
   }
@@ -1345,7 +1795,7 @@ export async function getBubbleRaceData(weeks = 20, topN = 10): Promise<BubbleRa
     supabase.from('repos').select('id, owner, name, url').in('id', repoIds),
     supabase
       .from('enrichments')
-      .select('repo_id, early_signal_score, summary, why_it_matters, category')
+      .select('repo_id, early_signal_score, summary, why_it_matters, category, quality_flags')
       .in('repo_id', repoIds),
   ])
 
@@ -1366,13 +1816,15 @@ export async function getBubbleRaceData(weeks = 20, topN = 10): Promise<BubbleRa
     summary: string
     why_it_matters: string
     category: string
+    quality_flags: string[]
   }>) {
     const key = names.get(e.repo_id)
     if (!key) continue
+    const suspect = isSuspectEnrichment(e.quality_flags)
     profiles[key] = {
       score: e.early_signal_score,
-      summary: e.summary,
-      whyItMatters: e.why_it_matters,
+      summary: suspect ? '' : e.summary,
+      whyItMatters: suspect ? '' : e.why_it_matters,
       category: e.category,
       url: urlByRepoId.get(e.repo_id) ?? '',
     }
@@ -1380,3 +1832,183 @@ export async function getBubbleRaceData(weeks = 20, topN = 10): Promise<BubbleRa
 
   return { frames: buildBubbleFrames(typedRows, dates, names, topN), profiles, through: latestDate }
 }
+
+// ─── Weight presets ──────────────────────────────────────────────────────────
+// Built-ins come from lib/presets.ts, saved presets from weight_presets
+// (scripts/migrations/020-weight-presets.sql).
+
+function toWeightPreset(row: WeightPresetRow): WeightPreset | null {
+  try {
+    return { slug: row.slug, name: row.name, weights: parseWeights(row.weights), builtin: false }
+  } catch {
+    return null
+  }
+}
+
+// A built-in or saved preset by slug, or null
+export async function getWeightPreset(slug: string): Promise<WeightPreset | null> {
+  const builtin = builtinPreset(slug)
+  if (builtin) return builtin
+  if (!SAVED_SLUG_PATTERN.test(slug)) return null
+  const { data } = await supabase.from('weight_presets').select('*').eq('slug', slug).maybeSingle()
+  return data ? toWeightPreset(data as unknown as WeightPresetRow) : null
+}
+
+// Presets saved with an API key, newest first
+export async function getOwnedWeightPresets(ownerEmail: string): Promise<WeightPreset[]> {
+  const { data } = await supabase
+    .from('weight_presets')
+    .select('*')
+    .eq('owner_email', ownerEmail.toLowerCase())
+    .order('created_at', { ascending: false })
+    .limit(100)
+  return ((data ?? []) as unknown as WeightPresetRow[]).flatMap((row) => toWeightPreset(row) ?? [])
+}
+
+/**
+ * The preset a page or API call asked for: `weights` (a URL spec) wins over
+ * `preset` (a slug); neither means the production ranking (null). Throws
+ * PresetError on bad weights or an unknown slug.
+ */
+export async function resolveWeightPreset(opts: { preset?: string | null; weights?: string | null }): Promise<WeightPreset | null> {
+  if (opts.weights) return customPreset(opts.weights)
+  if (!opts.preset) return null
+  const preset = await getWeightPreset(opts.preset)
+  if (!preset) throw new PresetError(`Unknown preset "${opts.preset}"`)
+  return preset
+}
+
+// ─── Public API (v1) ─────────────────────────────────────────────────────────
+// Keyset-paginated reads behind /api/v1. Each helper fetches `limit + 1` rows
+// so buildPage() in lib/api.ts can tell whether a next page exists.
+
+export interface ApiRepoFilter {
+  category: string | null
+  language: string | null
+  minScore: number | null
+  maxScore: number | null
+  minConfidence: ConfidenceLevel | null // falls back to RANKING_MIN_CONFIDENCE
+  weights?: ScoreWeights | null // rank by a weight preset instead
+  cursor: { score: number; repo_id: string } | null
+  limit: number
+}
+
+// API pages (below) throw on a failed read so apiError() answers 500 — an
+// empty page with no next cursor would tell clients they'd reached the end.
+
+// Enriched repos ranked by score DESC, repo_id ASC (the stable tiebreak the
+// cursor keys on). With `weights`, the first `limit` of every match ranked by
+// that preset — a single page, so there's no next cursor.
+export async function getApiReposPage(
+  filter: ApiRepoFilter
+): Promise<RepoWithEnrichment[]> {
+  const floor = filter.minConfidence ?? rankingConfidenceFloor()
+  if (filter.weights) {
+    const { category, language, minScore, maxScore } = filter
+    const scope = { category, language, minScore, maxScore, confidence: floor }
+    return hydrateDownloads((await getReposByPreset(filter.weights, scope, filter.limit)).projects)
+  }
+
+  let query = supabase
+    .from('enrichments')
+    .select('*, repos!inner(*)')
+    .order('early_signal_score', { ascending: false })
+    .order('repo_id', { ascending: true })
+    .limit(filter.limit + 1)
+
+  if (filter.category) query = query.eq('category', filter.category)
+  if (filter.language) query = query.eq('repos.language', filter.language)
+  if (filter.minScore != null) query = query.gte('early_signal_score', filter.minScore)
+  if (filter.maxScore != null) query = query.lte('early_signal_score', filter.maxScore)
+  if (floor) query = query.or(confidenceFilter(floor))
+  if (filter.cursor) {
+    const { score, repo_id } = filter.cursor
+    query = query.or(`early_signal_score.lt.${score},and(early_signal_score.eq.${score},repo_id.gt.${repo_id})`)
+  }
+
+  const { data, error } = await query
+  if (error) throw new Error(`reading enrichments: ${error.message}`)
+
+  const rows = (data ?? []) as unknown as Array<RawEnrichment & { repos: RawRepo }>
+  const joined = rows.map(({ repos, ...enrichment }) => ({ ...repos, enrichment }))
+  return hydrateDownloads(joined)
+}
+
+export interface ApiSeriesFilter {
+  from: string | null
+  to: string | null
+  cursor: { date: string; registry?: string } | null
+  limit: number
+}
+
+type SeriesTable = 'repo_snapshots' | 'weekly_stats' | 'package_downloads' | 'score_history'
+
+// Chronological history for one repo from a snapshot_date-keyed table.
+// package_downloads has a row per registry per day, so it pages on
+// (snapshot_date, registry) — the cursor carries both.
+async function getRepoSeriesPage<Row>(table: SeriesTable, repoId: string, filter: ApiSeriesFilter): Promise<Row[]> {
+  const byRegistry = table === 'package_downloads'
+  let query = supabase
+    .from(table)
+    .select('*')
+    .eq('repo_id', repoId)
+    .order('snapshot_date', { ascending: true })
+  if (byRegistry) query = query.order('registry', { ascending: true })
+  query = query.limit(filter.limit + 1)
+
+  if (filter.from) query = query.gte('snapshot_date', filter.from)
+  if (filter.to) query = query.lte('snapshot_date', filter.to)
+  if (filter.cursor) {
+    const { date, registry } = filter.cursor
+    query = byRegistry && registry
+      ? query.or(`snapshot_date.gt.${date},and(snapshot_date.eq.${date},registry.gt.${registry})`)
+      : query.gt('snapshot_date', date)
+  }
+
+  const { data, error } = await query
+  if (error) throw new Error(`reading ${table}: ${error.message}`)
+  return (data ?? []) as unknown as Row[]
+}
+
+export function getApiSnapshotsPage(repoId: string, filter: ApiSeriesFilter): Promise<RepoSnapshot[]> {
+  return getRepoSeriesPage<RepoSnapshot>('repo_snapshots', repoId, filter)
+}
+
+export function getApiWeeklyStatsPage(repoId: string, filter: ApiSeriesFilter): Promise<WeeklyStat[]> {
+  return getRepoSeriesPage<WeeklyStat>('weekly_stats', repoId, filter)
+}
+
+export function getApiDownloadsPage(repoId: string, filter: ApiSeriesFilter): Promise<PackageDownload[]> {
+  return getRepoSeriesPage<PackageDownload>('package_downloads', repoId, filter)
+}
+
+export interface ApiAnomalyFilter {
+  repoId: string | null
+  type: AnomalyType | null
+  since: string | null
+  cursor: { detected_at: string; id: string } | null
+  limit: number
+}
+
+// Anomalies newest first, id DESC as the tiebreak for same-instant inserts
+export async function getApiAnomaliesPage(filter: ApiAnomalyFilter): Promise<Anomaly[]> {
+  let query = supabase
+    .from('anomalies')
+    .select('*')
+    .order('detected_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(filter.limit + 1)
+
+  if (filter.repoId) query = query.eq('repo_id', filter.repoId)
+  if (filter.type) query = query.eq('type', filter.type)
+  if (filter.since) query = query.gte('detected_at', filter.since)
+  if (filter.cursor) {
+    // Timestamps carry ':' and '+', so quote them inside the or() filter
+    const { detected_at, id } = filter.cursor
+    query = query.or(`detected_at.lt."${detected_at}",and(detected_at.eq."${detected_at}",id.lt.${id})`)
+  }
+
+  const { data, error } = await query
+  if (error) throw new Error(`reading anomalies: ${error.message}`)
+  return (data ?? []) as unknown as Anomaly[]
+}
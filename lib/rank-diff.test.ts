@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest'
+import { describeRankDiff, diffScores, loadRankDiffs, scoreContributions, waterfall, type ScorePoint } from './rank-diff'
+import { productionModel } from './score-models'
+import { fakeDb } from './fake-db'
+
+const MODEL = productionModel()
+const W = MODEL.weights
+
+function breakdown(overrides: Record<string, unknown> = {}) {
+  return {
+    star_velocity_score: 40,
+    contributor_ratio_score: 50,
+    fork_velocity_score: 30,
+    mention_velocity_score: 20,
+    commit_frequency_score: 60,
+    star_acceleration_score: 10,
+    fork_acceleration_score: 10,
+    manipulation_penalty: 0,
+    model_version: MODEL.version,
+    ...overrides,
+  }
+}
+
+function point(date: string, b: Record<string, unknown>, rank: number | null = null): ScorePoint {
+  const { signals, penalty } = scoreContributions(b)
+  const raw = Object.values(signals).reduce((sum, v) => sum + v, 0)
+  return { date, score: Math.round(Math.min(100, Math.max(0, raw - penalty))), rank, breakdown: b }
+}
+
+describe('scoreContributions', () => {
+  it('weights each signal by the model, reweighted without downloads', () => {
+    const { signals } = scoreContributions(breakdown())
+    const total = W.star_velocity_score + W.contributor_ratio_score + W.fork_velocity_score + W.mention_velocity_score +
+      W.commit_frequency_score + W.star_acceleration_score + W.fork_acceleration_score
+    expect(signals.star_velocity_score).toBeCloseTo((40 * W.star_velocity_score) / total)
+    expect(signals.download_velocity_score).toBe(0)
+  })
+
+  it('uses peer percentiles when the peer model applied', () => {
+    const peer = { group: 'category:AI', sample_size: 30, percentiles: { star_velocity_score: 90 }, applied: true }
+    const applied = scoreContributions(breakdown({ peer }))
+    const ignored = scoreContributions(breakdown({ peer: { ...peer, applied: false } }))
+    expect(applied.signals.star_velocity_score).toBeGreaterThan(ignored.signals.star_velocity_score)
+  })
+
+  it('treats a missing breakdown as zero', () => {
+    expect(scoreContributions(null).penalty).toBe(0)
+  })
+})
+
+describe('diffScores', () => {
+  it('attributes the change to signals, largest first, and the steps add up', () => {
+    const from = point('2026-10-11', breakdown(), 40)
+    const to = point('2026-10-18', breakdown({ star_velocity_score: 80, mention_velocity_score: 30 }), 12)
+    const diff = diffScores(from, to)
+    expect(diff.steps[0].component).toBe('star_velocity_score')
+    expect(diff.steps.map((s) => s.component)).toContain('mention_velocity_score')
+    expect(diff.steps.reduce((sum, s) => sum + s.delta, 0)).toBeCloseTo(diff.score_delta)
+    expect(diff.rank_delta).toBe(28)
+    expect(diff.model_changed).toBe(false)
+  })
+
+  it('shows a new penalty as a negative step', () => {
+    const diff = diffScores(point('a', breakdown()), point('b', breakdown({ manipulation_penalty: 15 })))
+    expect(diff.steps).toEqual([{ component: 'manipulation_penalty', label: 'manipulation filter', delta: -15 }])
+    expect(diff.rank_delta).toBeNull()
+  })
+
+  it('puts what rounding and the 0–100 cap leave over in a rounding step', () => {
+    const from = { ...point('a', breakdown()), score: 0 }
+    const diff = diffScores(from, point('b', breakdown()))
+    expect(diff.steps).toHaveLength(1)
+    expect(diff.steps[0].component).toBe('rounding')
+    expect(diff.steps[0].delta).toBe(diff.score_delta)
+  })
+
+  it('flags a model change', () => {
+    const diff = diffScores(point('a', breakdown()), point('b', breakdown({ model_version: 'esc-v3-downloads' })))
+    expect(diff.model_changed).toBe(true)
+    expect(describeRankDiff(diff)).toContain(`(model ${MODEL.version} → esc-v3-downloads)`)
+  })
+})
+
+describe('waterfall', () => {
+  it('runs from the opening to the closing score', () => {
+    const diff = diffScores(point('a', breakdown(), 9), point('b', breakdown({ star_velocity_score: 90, manipulation_penalty: 5 }), 3))
+    const { bars, lo, hi } = waterfall(diff)
+    expect(bars[0]).toMatchObject({ kind: 'total', end: diff.from.score })
+    expect(bars[bars.length - 1]).toMatchObject({ kind: 'total', end: diff.to.score })
+    expect(bars[bars.length - 2].end).toBeCloseTo(diff.to.score)
+    expect(bars.find((b) => b.label === 'manipulation filter')?.kind).toBe('down')
+    expect(lo).toBeLessThan(Math.min(diff.from.score, diff.to.score))
+    expect(hi).toBeGreaterThan(Math.max(diff.from.score, diff.to.score))
+  })
+})
+
+describe('describeRankDiff', () => {
+  it('names the score, rank and biggest drivers', () => {
+    const diff = diffScores(point('a', breakdown(), 40), point('b', breakdown({ star_velocity_score: 80 }), 12))
+    expect(describeRankDiff(diff)).toMatch(/^score \d+ → \d+ \(\+\d+\), rank #40 → #12: star growth \+[\d.]+$/)
+  })
+
+  it('says when nothing moved', () => {
+    const diff = diffScores(point('a', breakdown()), point('b', breakdown()))
+    expect(describeRankDiff(diff)).toMatch(/^score (\d+) → \1 \(±0\)$/)
+  })
+})
+
+describe('loadRankDiffs', () => {
+  const row = (repo_id: string, snapshot_date: string, score: number) => ({
+    repo_id,
+    snapshot_date,
+    score,
+    tier: 'Active',
+    model_version: MODEL.version,
+    score_breakdown: breakdown({ star_velocity_score: score }),
+  })
+  // b was skipped as unchanged on the 20th and c last re-scored on the 18th;
+  // d has no score by the 13th
+  const db = fakeDb({
+    score_history: [
+      row('a', '2026-10-13', 58), row('b', '2026-10-13', 66), row('c', '2026-10-13', 70),
+      row('d', '2026-10-16', 40),
+      row('c', '2026-10-18', 60),
+      row('a', '2026-10-20', 74), row('d', '2026-10-20', 45),
+    ],
+  })
+
+  it('ranks against every repo’s latest score, not just the repos scored that day', async () => {
+    const diffs = await loadRankDiffs(db, ['a', 'b', 'c'], '2026-10-13', '2026-10-20')
+    expect(diffs.get('a')).toMatchObject({ from: { rank: 3, score: 58 }, to: { rank: 1, score: 74 }, rank_delta: 2 })
+    expect(diffs.get('b')).toMatchObject({ from: { rank: 2 }, to: { rank: 2, date: '2026-10-13' }, score_delta: 0, steps: [] })
+  })
+
+  it('uses each repo’s own most recent row on or before each date', async () => {
+    const diffs = await loadRankDiffs(db, ['c', 'd'], '2026-10-13', '2026-10-20')
+    expect(diffs.get('c')).toMatchObject({ from: { date: '2026-10-13', rank: 1 }, to: { date: '2026-10-18', score: 60, rank: 3 } })
+    expect(diffs.has('d')).toBe(false)
+  })
+})
@@ -0,0 +1,210 @@
+// Rank diffs — why a repo's Early Signal Score (and its rank) moved between
+// two days, each side being the repo's latest score_history row on or before
+// that day (scripts/migrations/018-score-history.sql). Each day's breakdown is turned back into points per signal (signal score × the
+// weight its model gave it, percentile-scored when the peer model applied),
+// the two days are subtracted signal by signal, and the manipulation penalty
+// is its own step. Whatever rounding and the 0–100 cap leave over is a
+// "rounding" step, so the steps always add up to the score change. When the
+// model changed between the days, re-weighting shows up inside the signal
+// steps and the diff is flagged. Rendered as a waterfall by
+// components/RankWaterfall.tsx (rising-this-week archive, briefing archive)
+// and as HTML in scripts/send-digest.ts. Pure apart from loadRankDiffs() —
+// unit-tested in lib/rank-diff.test.ts.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+import { SIGNAL_KEYS, effectiveWeights, modelVersionOf, ranks, weightsFor, type RankedScore, type SignalKey } from './score-models'
+import { PRESET_SIGNALS } from './presets'
+
+export type DiffComponent = SignalKey | 'manipulation_penalty' | 'rounding'
+
+export interface DiffStep {
+  component: DiffComponent
+  label: string
+  delta: number // score points, one decimal
+}
+
+export interface ScorePoint {
+  date: string
+  score: number
+  rank: number | null // among every repo's latest score as of that day, 1 = top
+  breakdown: unknown // score_history.score_breakdown
+}
+
+export interface RankDiff {
+  from: { date: string; score: number; rank: number | null; model_version: string }
+  to: { date: string; score: number; rank: number | null; model_version: string }
+  score_delta: number
+  rank_delta: number | null // positive = moved up
+  steps: DiffStep[] // largest first, rounding last
+  model_changed: boolean
+}
+
+const PENALTY_LABEL = 'manipulation filter'
+const ROUNDING_LABEL = 'rounding'
+
+function labelFor(component: DiffComponent): string {
+  if (component === 'manipulation_penalty') return PENALTY_LABEL
+  if (component === 'rounding') return ROUNDING_LABEL
+  return PRESET_SIGNALS.find((s) => s.key === component)?.label ?? component
+}
+
+function round1(n: number): number {
+  const r = Math.round(n * 10) / 10
+  return r === 0 ? 0 : r // no -0
+}
+
+/**
+ * Points each signal added to a stored breakdown's score, and the penalty
+ * taken off. Mirrors calculateScore(): the model's weights (reweighted without
+ * downloads for repos that have none) and peer percentiles when they applied.
+ */
+export function scoreContributions(breakdown: unknown): { signals: Record<SignalKey, number>; penalty: number } {
+  const b = breakdown && typeof breakdown === 'object' ? (breakdown as Record<string, unknown>) : {}
+  const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : 0)
+  const peer = b.peer && typeof b.peer === 'object' ? (b.peer as { applied?: boolean; percentiles?: Record<string, number> }) : null
+  const w = effectiveWeights(weightsFor(modelVersionOf(breakdown)), typeof b.download_velocity_score === 'number')
+  const signal = (k: SignalKey) => (peer?.applied && typeof peer.percentiles?.[k] === 'number' ? peer.percentiles[k] : num(b[k]))
+  const signals = Object.fromEntries(SIGNAL_KEYS.map((k) => [k, (signal(k) * w[k]) / 100])) as Record<SignalKey, number>
+  return { signals, penalty: num(b.manipulation_penalty) }
+}
+
+/** Attribute the score change between two days to signals, penalty and rounding. */
+export function diffScores(from: ScorePoint, to: ScorePoint): RankDiff {
+  const a = scoreContributions(from.breakdown)
+  const b = scoreContributions(to.breakdown)
+  const steps: DiffStep[] = SIGNAL_KEYS.map((k) => ({ component: k as DiffComponent, label: labelFor(k), delta: round1(b.signals[k] - a.signals[k]) }))
+  steps.push({ component: 'manipulation_penalty', label: PENALTY_LABEL, delta: round1(a.penalty - b.penalty) })
+
+  const scoreDelta = to.score - from.score
+  const moved = steps.filter((s) => s.delta !== 0).sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta))
+  const rest = round1(scoreDelta - moved.reduce((sum, s) => sum + s.delta, 0))
+  if (rest !== 0) moved.push({ component: 'rounding', label: ROUNDING_LABEL, delta: rest })
+
+  const fromModel = modelVersionOf(from.breakdown)
+  const toModel = modelVersionOf(to.breakdown)
+  return {
+    from: { date: from.date, score: from.score, rank: from.rank, model_version: fromModel },
+    to: { date: to.date, score: to.score, rank: to.rank, model_version: toModel },
+    score_delta: scoreDelta,
+    rank_delta: from.rank != null && to.rank != null ? from.rank - to.rank : null,
+    steps: moved,
+    model_changed: fromModel !== toModel,
+  }
+}
+
+export interface WaterfallBar {
+  label: string
+  kind: 'total' | 'up' | 'down'
+  delta: number
+  start: number // running score before this bar (0 for totals)
+  end: number // running score after it
+}
+
+/**
+ * A diff as waterfall bars: the opening score, one bar per step and the
+ * closing score, plus a score range that fits every running total with a
+ * little room — totals are drawn from `lo`, not from 0, so small steps stay
+ * visible.
+ */
+export function waterfall(diff: RankDiff): { bars: WaterfallBar[]; lo: number; hi: number } {
+  const bars: WaterfallBar[] = [{ label: diff.from.date, kind: 'total', delta: diff.from.score, start: 0, end: diff.from.score }]
+  let running = diff.from.score
+  for (const step of diff.steps) {
+    const end = round1(running + step.delta)
+    bars.push({ label: step.label, kind: step.delta > 0 ? 'up' : 'down', delta: step.delta, start: running, end })
+    running = end
+  }
+  bars.push({ label: diff.to.date, kind: 'total', delta: diff.to.score, start: 0, end: diff.to.score })
+
+  const points = bars.flatMap((b) => (b.kind === 'total' ? [b.end] : [b.start, b.end]))
+  const lo = Math.max(0, Math.floor(Math.min(...points) / 5) * 5 - 5)
+  const hi = Math.min(100, Math.max(lo + 10, Math.ceil(Math.max(...points) / 5) * 5 + 5))
+  return { bars, lo, hi }
+}
+
+/** Signed score points: "+6.3", "−1", "±0". */
+export function formatPoints(n: number): string {
+  return n > 0 ? `+${n}` : n < 0 ? `−${Math.abs(n)}` : '±0'
+}
+
+/** One line for prompts and alt text: "score 52 → 61 (+9), rank #40 → #12: star growth +6.3, …". */
+export function describeRankDiff(diff: RankDiff, maxSteps = 3): string {
+  const rank = diff.from.rank != null && diff.to.rank != null ? `, rank #${diff.from.rank} → #${diff.to.rank}` : ''
+  const drivers = diff.steps
+    .filter((s) => s.component !== 'rounding')
+    .slice(0, maxSteps)
+    .map((s) => `${s.label} ${formatPoints(s.delta)}`)
+  const head = `score ${diff.from.score} → ${diff.to.score} (${formatPoints(diff.score_delta)})${rank}`
+  const tail = diff.model_changed ? ` (model ${diff.from.model_version} → ${diff.to.model_version})` : ''
+  return drivers.length > 0 ? `${head}: ${drivers.join(', ')}${tail}` : `${head}${tail}`
+}
+
+// ─── Loading from score_history ──────────────────────────────────────────────
+
+const PAGE_SIZE = 1000
+
+interface CatalogScore extends RankedScore {
+  snapshot_date: string
+}
+
+// Every repo's latest score on or before `date` (scores_as_of(),
+// scripts/migrations/021-scores-as-of.sql) — the catalog as it stood that day,
+// including repos the pipeline skipped as unchanged.
+async function scoresAsOf(db: SupabaseClient<Database>, date: string): Promise<CatalogScore[]> {
+  const out: CatalogScore[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await db
+      .rpc('scores_as_of', { p_date: date })
+      .order('repo_id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) throw new Error(`scores_as_of: ${error.message}`)
+    const rows = (data ?? []) as unknown as CatalogScore[]
+    out.push(...rows)
+    if (rows.length < PAGE_SIZE) return out
+  }
+}
+
+/**
+ * Rank diffs for `repoIds` between `fromDate` and `toDate`, keyed by repo id.
+ * Each side is the repo's own latest score on or before that date, ranked
+ * among every repo's latest score as of the same date. Repos with no score by
+ * `fromDate` are left out.
+ */
+export async function loadRankDiffs(
+  db: SupabaseClient<Database>,
+  repoIds: string[],
+  fromDate: string,
+  toDate: string,
+): Promise<Map<string, RankDiff>> {
+  const out = new Map<string, RankDiff>()
+  if (repoIds.length === 0 || fromDate >= toDate) return out
+
+  const [fromCatalog, toCatalog] = await Promise.all([scoresAsOf(db, fromDate), scoresAsOf(db, toDate)])
+  const fromRanks = ranks(fromCatalog)
+  const toRanks = ranks(toCatalog)
+  const fromRows = new Map(fromCatalog.map((r) => [r.repo_id, r]))
+  const toRows = new Map(toCatalog.map((r) => [r.repo_id, r]))
+
+  const ids = repoIds.filter((id) => fromRows.has(id) && toRows.has(id))
+  if (ids.length === 0) return out
+  const dates = Array.from(new Set(ids.flatMap((id) => [fromRows.get(id)!.snapshot_date, toRows.get(id)!.snapshot_date])))
+  const { data, error } = await db
+    .from('score_history')
+    .select('repo_id, snapshot_date, score, score_breakdown')
+    .in('repo_id', ids)
+    .in('snapshot_date', dates)
+  if (error) throw new Error(`reading score_history: ${error.message}`)
+
+  const rows = (data ?? []) as unknown as Array<{ repo_id: string; snapshot_date: string; score: number; score_breakdown: unknown }>
+  const point = (id: string, scored: CatalogScore, rankMap: Map<string, number>): ScorePoint | null => {
+    const row = rows.find((r) => r.repo_id === id && r.snapshot_date === scored.snapshot_date)
+    return row ? { date: row.snapshot_date, score: row.score, rank: rankMap.get(id) ?? null, breakdown: row.score_breakdown } : null
+  }
+  for (const id of ids) {
+    const a = point(id, fromRows.get(id)!, fromRanks)
+    const b = point(id, toRows.get(id)!, toRanks)
+    if (a && b) out.set(id, diffScores(a, b))
+  }
+  return out
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { createMemoryRateLimitStore, perMinute, refill, takeResultFor, takeToken } from './rate-limit'
+
+describe('refill', () => {
+  it('adds tokens for elapsed time, capped at capacity', () => {
+    const policy = perMinute(60) // 1 token/s
+    expect(refill({ tokens: 0, updatedAt: 0 }, policy, 5_000).tokens).toBe(5)
+    expect(refill({ tokens: 58, updatedAt: 0 }, policy, 10_000).tokens).toBe(60)
+  })
+
+  it('never drains when the clock goes backwards', () => {
+    expect(refill({ tokens: 3, updatedAt: 10_000 }, perMinute(60), 5_000).tokens).toBe(3)
+  })
+})
+
+describe('takeToken', () => {
+  it('starts full, spends one per call, and denies when empty', () => {
+    const policy = { capacity: 2, refillPerSecond: 0.5 }
+    const a = takeToken(undefined, policy, 0)
+    expect(a.result).toEqual({ allowed: true, remaining: 1, retryAfterSeconds: 0 })
+    const b = takeToken(a.state, policy, 0)
+    expect(b.result.allowed).toBe(true)
+    const c = takeToken(b.state, policy, 0)
+    expect(c.result.allowed).toBe(false)
+    expect(c.result.retryAfterSeconds).toBe(2) // one token at 0.5/s
+  })
+})
+
+describe('takeResultFor', () => {
+  it('rounds Retry-After up to whole seconds', () => {
+    expect(takeResultFor(-0.1, perMinute(60)).retryAfterSeconds).toBe(1)
+    expect(takeResultFor(2.7, perMinute(60)).remaining).toBe(2)
+  })
+})
+
+describe('createMemoryRateLimitStore', () => {
+  it('keeps buckets independent and refills on the injected clock', async () => {
+    let now = 0
+    const store = createMemoryRateLimitStore(() => now)
+    const policy = perMinute(1)
+
+    expect((await store.take('ip:a', policy)).allowed).toBe(true)
+    expect((await store.take('ip:a', policy)).allowed).toBe(false)
+    expect((await store.take('ip:b', policy)).allowed).toBe(true)
+
+    now = 60_000
+    expect((await store.take('ip:a', policy)).allowed).toBe(true)
+  })
+})
@@ -0,0 +1,98 @@
+// Token-bucket rate limiting for the JSON endpoints.
+// Bucket math is pure — unit-tested in lib/rate-limit.test.ts. Storage is
+// pluggable: the in-memory store backs local dev and tests; production uses
+// the Supabase store so limits hold across serverless instances.
+// Table + RPC: scripts/migrations/003-api-keys.sql
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+
+export interface BucketPolicy {
+  capacity: number // burst size
+  refillPerSecond: number // sustained rate
+}
+
+export interface TakeResult {
+  allowed: boolean
+  remaining: number // whole tokens left after this take
+  retryAfterSeconds: number // 0 when allowed
+}
+
+export interface RateLimitStore {
+  take(bucket: string, policy: BucketPolicy): Promise<TakeResult>
+}
+
+export interface BucketState {
+  tokens: number
+  updatedAt: number // epoch ms
+}
+
+/** Requests-per-minute → a bucket that allows a one-minute burst. */
+export function perMinute(requests: number): BucketPolicy {
+  return { capacity: requests, refillPerSecond: requests / 60 }
+}
+
+/** Top the bucket up for the time elapsed since it was last touched. */
+export function refill(state: BucketState, policy: BucketPolicy, now: number): BucketState {
+  const elapsed = Math.max(0, now - state.updatedAt) / 1000
+  return {
+    tokens: Math.min(policy.capacity, state.tokens + elapsed * policy.refillPerSecond),
+    updatedAt: now,
+  }
+}
+
+/** Result for a bucket holding `tokensAfter` once this request's token is spent (negative = denied). */
+export function takeResultFor(tokensAfter: number, policy: BucketPolicy): TakeResult {
+  if (tokensAfter >= 0) {
+    return { allowed: true, remaining: Math.floor(tokensAfter), retryAfterSeconds: 0 }
+  }
+  const deficit = -tokensAfter
+  return {
+    allowed: false,
+    remaining: 0,
+    retryAfterSeconds: policy.refillPerSecond > 0 ? Math.ceil(deficit / policy.refillPerSecond) : 60,
+  }
+}
+
+/** Spend one token if the (refilled) bucket has one. */
+export function takeToken(
+  state: BucketState | undefined,
+  policy: BucketPolicy,
+  now: number,
+): { state: BucketState; result: TakeResult } {
+  const current = refill(state ?? { tokens: policy.capacity, updatedAt: now }, policy, now)
+  if (current.tokens >= 1) {
+    const next = { ...current, tokens: current.tokens - 1 }
+    return { state: next, result: takeResultFor(next.tokens, policy) }
+  }
+  return { state: current, result: takeResultFor(current.tokens - 1, policy) }
+}
+
+export function createMemoryRateLimitStore(clock: () => number = Date.now): RateLimitStore {
+  const buckets = new Map<string, BucketState>()
+  return {
+    async take(bucket, policy) {
+      const { state, result } = takeToken(buckets.get(bucket), policy, clock())
+      buckets.set(bucket, state)
+      return result
+    },
+  }
+}
+
+export function createSupabaseRateLimitStore(db: SupabaseClient<Database>): RateLimitStore {
+  return {
+    async take(bucket, policy) {
+      const { data, error } = await db.rpc('take_rate_limit_token', {
+        p_bucket: bucket,
+        p_capacity: policy.capacity,
+        p_refill_per_second: policy.refillPerSecond,
+      })
+      // Fail open: a rate-limit outage must not take the public site down with it
+      if (error || typeof data !== 'number') {
+        console.error('Rate limit store error:', error)
+        return { allowed: true, remaining: policy.capacity, retryAfterSeconds: 0 }
+      }
+      return takeResultFor(data, policy)
+    },
+  }
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest'
+import { calculateScore, downloadInputs, type ScoreInputs } from './score'
+import {
+  SCORING_MODELS,
+  PRODUCTION_MODEL_VERSION,
+  UnknownScoringModelError,
+  candidateModel,
+  compareRankings,
+  effectiveWeights,
+  getScoringModel,
+  modelVersionOf,
+  validateModel,
+} from './score-models'
+
+const inputs: ScoreInputs = {
+  stars: 500,
+  stars_7d: 100,
+  stars_30d: 300,
+  contributors: 25,
+  forks: 80,
+  hn_mentions_7d: 5,
+  hn_mentions_30d: 12,
+  commits_30d: 30,
+  stars_7d_prev: 40,
+}
+
+describe('registry', () => {
+  it('every registered model is valid and keyed by its own version', () => {
+    for (const [key, model] of Object.entries(SCORING_MODELS)) {
+      expect(model.version).toBe(key)
+      expect(validateModel(model)).toEqual([])
+    }
+  })
+
+  it('flags weights that do not sum to 100', () => {
+    const bad = { ...getScoringModel('esc-v1'), weights: { ...getScoringModel('esc-v1').weights, star_velocity_score: 30 } }
+    expect(validateModel(bad)[0]).toMatch(/sum to 105/)
+  })
+
+  it('resolves the candidate from the environment', () => {
+    expect(candidateModel({})).toBeNull()
+    expect(candidateModel({ SCORE_CANDIDATE_MODEL: PRODUCTION_MODEL_VERSION })).toBeNull()
+    expect(candidateModel({ SCORE_CANDIDATE_MODEL: 'esc-v2-momentum' })?.version).toBe('esc-v2-momentum')
+    expect(() => candidateModel({ SCORE_CANDIDATE_MODEL: 'esc-v9' })).toThrow(UnknownScoringModelError)
+  })
+})
+
+describe('calculateScore with a model', () => {
+  it('records the model version in the breakdown, defaulting to production', () => {
+    expect(calculateScore(inputs).breakdown.model_version).toBe(PRODUCTION_MODEL_VERSION)
+    const v2 = calculateScore(inputs, getScoringModel('esc-v2-momentum'))
+    expect(v2.breakdown.model_version).toBe('esc-v2-momentum')
+  })
+
+  it('applies the model weights to the same signal scores', () => {
+    const v1 = calculateScore(inputs)
+    const v2 = calculateScore(inputs, getScoringModel('esc-v2-momentum'))
+    expect(v2.breakdown.star_acceleration_score).toBe(v1.breakdown.star_acceleration_score)
+    expect(v2.score).not.toBe(v1.score)
+  })
+
+  it('reads legacy breakdowns as esc-v1', () => {
+    expect(modelVersionOf({ star_velocity_score: 50 })).toBe('esc-v1')
+    expect(modelVersionOf(null)).toBe('esc-v1')
+    expect(modelVersionOf({ model_version: 'esc-v2-momentum' })).toBe('esc-v2-momentum')
+  })
+})
+
+describe('package downloads', () => {
+  const v3 = getScoringModel('esc-v3-downloads')
+  const sum = (w: Record<string, number>) => Object.values(w).reduce((a, b) => a + b, 0)
+
+  it('reweights the other signals to 100 when a repo has no downloads', () => {
+    const w = effectiveWeights(v3.weights, false)
+    expect(w.download_velocity_score).toBe(0)
+    expect(w.download_acceleration_score).toBe(0)
+    expect(sum(w)).toBeCloseTo(100)
+    expect(w.star_velocity_score / w.contributor_ratio_score).toBeCloseTo(20 / 15)
+    expect(effectiveWeights(v3.weights, true)).toEqual(v3.weights)
+  })
+
+  it('scores download signals only for repos with download data', () => {
+    const without = calculateScore(inputs, v3)
+    expect(without.breakdown.download_velocity_score).toBeUndefined()
+    expect(without.breakdown.confidence?.defaulted).not.toContain('download_velocity_score')
+
+    const npm = calculateScore({ ...inputs, package_registry: 'npm', downloads_7d: 100_000, downloads_7d_prev: 50_000 }, v3)
+    const crates = calculateScore({ ...inputs, package_registry: 'crates', downloads_7d: 100_000, downloads_7d_prev: 50_000 }, v3)
+    expect(crates.breakdown.download_velocity_score).toBe(100)
+    expect(npm.breakdown.download_velocity_score).toBeLessThan(100)
+    expect(crates.score).toBeGreaterThan(npm.score)
+  })
+
+  it('leaves production scores unchanged by downloads', () => {
+    const withDownloads = calculateScore({ ...inputs, package_registry: 'npm', downloads_7d: 1_000_000 })
+    expect(withDownloads.score).toBe(calculateScore(inputs).score)
+    expect(withDownloads.breakdown.download_velocity_score).toBe(100)
+  })
+
+  it('marks missing last-week downloads as defaulted', () => {
+    const { breakdown } = calculateScore({ ...inputs, downloads_7d: 5_000 }, v3)
+    expect(breakdown.confidence?.defaulted).toContain('download_acceleration_score')
+  })
+
+  it('takes this week from a fresh row and last week from one 7+ days older', () => {
+    const rows = [
+      { snapshot_date: '2026-10-18', downloads_7d: 900 },
+      { snapshot_date: '2026-10-14', downloads_7d: 800 },
+      { snapshot_date: '2026-10-11', downloads_7d: 700 },
+      { snapshot_date: '2026-10-10', downloads_7d: 600 },
+    ]
+    expect(downloadInputs(rows, '2026-10-19')).toEqual({ downloads_7d: 900, downloads_7d_prev: 700 })
+    expect(downloadInputs(rows.slice(0, 2), '2026-10-19')).toEqual({ downloads_7d: 900, downloads_7d_prev: undefined })
+    expect(downloadInputs(rows, '2026-10-25')).toEqual({})
+    expect(downloadInputs([], '2026-10-19')).toEqual({})
+  })
+})
+
+describe('compareRankings', () => {
+  const prod = [
+    { repo_id: 'a', score: 90 },
+    { repo_id: 'b', score: 80 },
+    { repo_id: 'c', score: 70 },
+    { repo_id: 'd', score: 60 },
+  ]
+
+  it('is a perfect match for identical orderings', () => {
+    const r = compareRankings(prod, prod, 2)
+    expect(r).toMatchObject({ repos: 4, spearman: 1, top_n_overlap: 1, biggest_moves: [] })
+  })
+
+  it('reports top-N churn and movers over shared repos only', () => {
+    const cand = [
+      { repo_id: 'd', score: 95 },
+      { repo_id: 'a', score: 85 },
+      { repo_id: 'b', score: 50 },
+      { repo_id: 'c', score: 40 },
+      { repo_id: 'z', score: 99 }, // candidate-only — ignored
+    ]
+    const r = compareRankings(prod, cand, 2)
+    expect(r.repos).toBe(4)
+    expect(r.top_n_overlap).toBe(0.5)
+    expect(r.entered_top_n).toEqual(['d'])
+    expect(r.left_top_n).toEqual(['b'])
+    expect(r.biggest_moves[0]).toEqual({ repo_id: 'd', production_rank: 4, candidate_rank: 1, delta: 3 })
+    expect(r.spearman).toBeLessThan(1)
+  })
+})
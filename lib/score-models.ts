@@ -0,0 +1,296 @@
+// Scoring model registry — every Early Signal Score is produced by a named,
+// versioned model: a weight per signal plus the normaliser scales that map raw
+// inputs to 0–100. lib/score.ts does the arithmetic; this file holds the data.
+// Pure functions — unit-tested in lib/score-models.test.ts.
+//
+// Production is PRODUCTION_MODEL_VERSION. Set SCORE_CANDIDATE_MODEL to another
+// registered version and the pipeline shadow-scores every rescored repo with it
+// into `model_scores` (scripts/migrations/006-model-scores.sql), so
+// scripts/compare-models.ts can compare rankings before anyone switches.
+// Never edit a registered model in place — add a new version.
+
+export const SIGNAL_KEYS = [
+  'star_velocity_score',
+  'contributor_ratio_score',
+  'fork_velocity_score',
+  'mention_velocity_score',
+  'commit_frequency_score',
+  'star_acceleration_score',
+  'fork_acceleration_score',
+  'download_velocity_score',
+  'download_acceleration_score',
+] as const
+
+export type SignalKey = (typeof SIGNAL_KEYS)[number]
+
+/**
+ * Signals that only exist for repos with package download data. A repo
+ * without any is scored on the rest, their weights scaled back up to 100
+ * (effectiveWeights).
+ */
+export const PACKAGE_SIGNALS: readonly SignalKey[] = ['download_velocity_score', 'download_acceleration_score']
+
+/** Percent weight per signal; must sum to 100. */
+export type ScoreWeights = Record<SignalKey, number>
+
+export interface ScoreNormalisers {
+  star_velocity_scale: number // stars_7d that scores 100 (log)
+  contributor_ratio_max: number // contributors/star that scores 100 (linear)
+  fork_ratio_max: number // forks/star that scores 100 (linear)
+  mention_scale: number // weighted HN mentions that score 100 (log)
+  commit_scale: number // commits_30d that scores 100 (log)
+  acceleration_scale: number // week-over-week ratio − 1 that scores 100 (log)
+  max_penalty: number // manipulation penalty cap
+  // downloads_7d that scores 100 (log), per registry — npm counts run orders
+  // of magnitude above crates.io. `default` covers any other registry.
+  download_scales: Record<string, number> & { default: number }
+}
+
+/**
+ * How signal values become 0–100: fixed global scales (`absolute`), or each
+ * signal's percentile within the repo's category/language peer group
+ * (`peer_percentile`, lib/peer-norm.ts). Absent = absolute.
+ */
+export type Normalisation = 'absolute' | 'peer_percentile'
+
+export interface ScoringModel {
+  version: string
+  description: string
+  weights: ScoreWeights
+  normalisers: ScoreNormalisers
+  normalisation?: Normalisation
+}
+
+// Stored breakdowns written before the registry existed carry no version
+export const LEGACY_MODEL_VERSION = 'esc-v1'
+
+const V1_NORMALISERS: ScoreNormalisers = {
+  star_velocity_scale: 1000,
+  contributor_ratio_max: 0.2,
+  fork_ratio_max: 0.4,
+  mention_scale: 50,
+  commit_scale: 50,
+  acceleration_scale: 4,
+  max_penalty: 30,
+  download_scales: { npm: 1_000_000, pypi: 500_000, crates: 100_000, default: 250_000 },
+}
+
+// Models from before download signals give them no weight
+const NO_DOWNLOADS = { download_velocity_score: 0, download_acceleration_score: 0 }
+
+export const SCORING_MODELS: Record<string, ScoringModel> = {
+  // DO NOT change these weights without asking the product owner first.
+  'esc-v1': {
+    version: 'esc-v1',
+    description: 'Launch formula: velocity-led, builders second, momentum as a bonus',
+    weights: {
+      star_velocity_score: 25,
+      contributor_ratio_score: 20,
+      fork_velocity_score: 10,
+      mention_velocity_score: 15,
+      commit_frequency_score: 10,
+      star_acceleration_score: 10,
+      fork_acceleration_score: 10,
+      ...NO_DOWNLOADS,
+    },
+    normalisers: V1_NORMALISERS,
+  },
+  // Candidate: trades some contributor-ratio weight for star momentum, so
+  // accelerating repos surface before their absolute velocity catches up.
+  'esc-v2-momentum': {
+    version: 'esc-v2-momentum',
+    description: 'Candidate: more weight on star acceleration, less on contributor ratio',
+    weights: {
+      star_velocity_score: 25,
+      contributor_ratio_score: 15,
+      fork_velocity_score: 10,
+      mention_velocity_score: 15,
+      commit_frequency_score: 10,
+      star_acceleration_score: 15,
+      fork_acceleration_score: 10,
+      ...NO_DOWNLOADS,
+    },
+    normalisers: V1_NORMALISERS,
+  },
+  // Candidate: esc-v1 weights, but signals ranked within the repo's category
+  // (or language) so niche categories can reach the top on relative momentum.
+  'esc-v1-peer': {
+    version: 'esc-v1-peer',
+    description: 'Candidate: esc-v1 weights on per-category/language percentiles',
+    weights: {
+      star_velocity_score: 25,
+      contributor_ratio_score: 20,
+      fork_velocity_score: 10,
+      mention_velocity_score: 15,
+      commit_frequency_score: 10,
+      star_acceleration_score: 10,
+      fork_acceleration_score: 10,
+      ...NO_DOWNLOADS,
+    },
+    normalisers: V1_NORMALISERS,
+    normalisation: 'peer_percentile',
+  },
+  // Candidate: weekly package downloads (real usage) and their week-over-week
+  // acceleration, on per-registry scales. Repos without download data are
+  // scored on the other signals, reweighted to 100.
+  'esc-v3-downloads': {
+    version: 'esc-v3-downloads',
+    description: 'Candidate: package download velocity and acceleration as signals',
+    weights: {
+      star_velocity_score: 20,
+      contributor_ratio_score: 15,
+      fork_velocity_score: 10,
+      mention_velocity_score: 15,
+      commit_frequency_score: 10,
+      star_acceleration_score: 10,
+      fork_acceleration_score: 5,
+      download_velocity_score: 10,
+      download_acceleration_score: 5,
+    },
+    normalisers: V1_NORMALISERS,
+  },
+}
+
+export const PRODUCTION_MODEL_VERSION = 'esc-v1'
+
+export class UnknownScoringModelError extends Error {}
+
+export function getScoringModel(version: string): ScoringModel {
+  const model = SCORING_MODELS[version]
+  if (!model) {
+    throw new UnknownScoringModelError(
+      `Unknown scoring model "${version}". Registered: ${Object.keys(SCORING_MODELS).join(', ')}`
+    )
+  }
+  return model
+}
+
+export function productionModel(): ScoringModel {
+  return getScoringModel(PRODUCTION_MODEL_VERSION)
+}
+
+/** The shadow model named by SCORE_CANDIDATE_MODEL, or null when unset / same as production. */
+export function candidateModel(env: Record<string, string | undefined> = process.env): ScoringModel | null {
+  const version = env.SCORE_CANDIDATE_MODEL?.trim()
+  if (!version || version === PRODUCTION_MODEL_VERSION) return null
+  return getScoringModel(version)
+}
+
+/** Problems with a model definition; empty when valid. */
+export function validateModel(model: ScoringModel): string[] {
+  const problems: string[] = []
+  const total = SIGNAL_KEYS.reduce((sum, k) => sum + (model.weights[k] ?? 0), 0)
+  if (Math.abs(total - 100) > 1e-9) problems.push(`weights sum to ${total}, not 100`)
+  for (const k of SIGNAL_KEYS) {
+    if (!(model.weights[k] >= 0)) problems.push(`weight ${k} must be ≥ 0`)
+  }
+  const { download_scales, ...scales } = model.normalisers
+  for (const [k, v] of Object.entries(scales)) {
+    if (!(v > 0)) problems.push(`normaliser ${k} must be > 0`)
+  }
+  for (const [registry, v] of Object.entries(download_scales)) {
+    if (!(v > 0)) problems.push(`download scale for ${registry} must be > 0`)
+  }
+  return problems
+}
+
+/**
+ * Weights as applied to one repo: unchanged when it has download data,
+ * otherwise the package signals drop out and the rest scale up to sum to 100.
+ */
+export function effectiveWeights(weights: ScoreWeights, hasDownloads: boolean): ScoreWeights {
+  if (hasDownloads) return weights
+  const rest = SIGNAL_KEYS.filter((k) => !PACKAGE_SIGNALS.includes(k))
+  const total = rest.reduce((sum, k) => sum + weights[k], 0)
+  const out = { ...weights }
+  for (const k of SIGNAL_KEYS) out[k] = PACKAGE_SIGNALS.includes(k) || total <= 0 ? 0 : (weights[k] / total) * 100
+  return out
+}
+
+/** Model version recorded in a stored score_breakdown (legacy rows → esc-v1). */
+export function modelVersionOf(breakdown: unknown): string {
+  if (breakdown && typeof breakdown === 'object') {
+    const v = (breakdown as Record<string, unknown>).model_version
+    if (typeof v === 'string' && v) return v
+  }
+  return LEGACY_MODEL_VERSION
+}
+
+/** Weights for a stored breakdown's model, falling back to production for unknown versions. */
+export function weightsFor(version: string): ScoreWeights {
+  return (SCORING_MODELS[version] ?? productionModel()).weights
+}
+
+// ─── Ranking comparison ──────────────────────────────────────────────────────
+
+export interface RankedScore {
+  repo_id: string
+  score: number
+}
+
+export interface RankMove {
+  repo_id: string
+  production_rank: number
+  candidate_rank: number
+  delta: number // positive = candidate ranks it higher
+}
+
+export interface RankingComparison {
+  repos: number // repos scored by both models
+  spearman: number // rank correlation, 1 = identical order
+  top_n: number
+  top_n_overlap: number // share of production's top N also in candidate's top N
+  entered_top_n: string[] // in candidate's top N only
+  left_top_n: string[] // in production's top N only
+  biggest_moves: RankMove[]
+}
+
+/** 1-based rank by score, highest first. Ties broken by repo_id so ranks are deterministic. */
+export function ranks(rows: RankedScore[]): Map<string, number> {
+  const sorted = [...rows].sort((a, b) => b.score - a.score || a.repo_id.localeCompare(b.repo_id))
+  return new Map(sorted.map((r, i) => [r.repo_id, i + 1]))
+}
+
+/** Compare two rankings over the repos both models scored. */
+export function compareRankings(
+  production: RankedScore[],
+  candidate: RankedScore[],
+  topN = 20,
+  moves = 10,
+): RankingComparison {
+  const candidateIds = new Set(candidate.map((r) => r.repo_id))
+  const prodShared = production.filter((r) => candidateIds.has(r.repo_id))
+  const prodIds = new Set(prodShared.map((r) => r.repo_id))
+  const candShared = candidate.filter((r) => prodIds.has(r.repo_id))
+
+  const n = prodShared.length
+  const prodRank = ranks(prodShared)
+  const candRank = ranks(candShared)
+
+  let sumSq = 0
+  const allMoves: RankMove[] = []
+  for (const [repoId, p] of prodRank) {
+    const c = candRank.get(repoId)!
+    sumSq += (p - c) ** 2
+    allMoves.push({ repo_id: repoId, production_rank: p, candidate_rank: c, delta: p - c })
+  }
+  const spearman = n > 1 ? 1 - (6 * sumSq) / (n * (n * n - 1)) : 1
+
+  const k = Math.min(topN, n)
+  const prodTop = new Set([...prodRank].filter(([, r]) => r <= k).map(([id]) => id))
+  const candTop = new Set([...candRank].filter(([, r]) => r <= k).map(([id]) => id))
+  const overlap = [...prodTop].filter((id) => candTop.has(id)).length
+
+  return {
+    repos: n,
+    spearman: Math.round(spearman * 1000) / 1000,
+    top_n: k,
+    top_n_overlap: k > 0 ? Math.round((overlap / k) * 1000) / 1000 : 1,
+    entered_top_n: [...candTop].filter((id) => !prodTop.has(id)),
+    left_top_n: [...prodTop].filter((id) => !candTop.has(id)),
+    biggest_moves: allMoves
+      .filter((m) => m.delta !== 0)
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.repo_id.localeCompare(b.repo_id))
+      .slice(0, moves),
+  }
+}
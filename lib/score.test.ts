@@ -3,7 +3,7 @@
 // (No test framework needed — uses Node's built-in assert)
 
 import assert from 'node:assert'
-import { calculateScore, type ScoreInputs } from './score.js'
+import { calculateScore, confidenceAtLeast, scoreConfidence, type ScoreInputs } from './score.js'
 
 let passed = 0
 let failed = 0
@@ -182,6 +182,48 @@ test('OpenClaw at 9K stars scores above 70', () => {
   assert.ok(result.score > 70, `Expected OpenClaw early score > 70, got ${result.score}`)
 })
 
+// --- Confidence ---
+console.log('\nConfidence:')
+
+const measured: ScoreInputs = { ...base, stars_7d_prev: 80, forks_7d: 10, forks_7d_prev: 8, history_days: 30, hn_lookup_ok: true }
+
+test('fully measured inputs with two weeks of history are high confidence', () => {
+  const c = scoreConfidence(measured)
+  assert.strictEqual(c.level, 'high')
+  assert.strictEqual(c.completeness, 100)
+  assert.deepStrictEqual(c.defaulted, [])
+})
+
+test('cold start: missing acceleration windows and a week of history', () => {
+  const c = scoreConfidence({ ...base, history_days: 3, hn_lookup_ok: true })
+  assert.strictEqual(c.level, 'low')
+  assert.deepStrictEqual(c.defaulted, ['star_acceleration_score', 'fork_acceleration_score'])
+  assert.strictEqual(c.completeness, 80)
+})
+
+test('a failed HN lookup and unmeasured commits lower completeness', () => {
+  const c = scoreConfidence({ ...measured, hn_lookup_ok: false, unmeasured: ['commits_30d'] })
+  assert.deepStrictEqual(c.defaulted, ['mention_velocity_score', 'commit_frequency_score'])
+  assert.strictEqual(c.completeness, 75)
+  assert.strictEqual(c.level, 'medium')
+})
+
+test('unreported history caps confidence at medium', () => {
+  assert.strictEqual(scoreConfidence({ ...measured, history_days: undefined }).level, 'medium')
+  assert.strictEqual(scoreConfidence({ ...measured, history_days: undefined }).history_days, null)
+})
+
+test('confidence is stored with the breakdown and does not move the score', () => {
+  const withData = calculateScore(measured)
+  assert.strictEqual(withData.breakdown.confidence?.level, 'high')
+  assert.strictEqual(calculateScore({ ...measured, history_days: 1 }).score, withData.score)
+})
+
+test('confidence floors keep the named level and above', () => {
+  assert.deepStrictEqual(confidenceAtLeast('medium'), ['medium', 'high'])
+  assert.deepStrictEqual(confidenceAtLeast('low'), ['low', 'medium', 'high'])
+})
+
 // --- Results summary ---
 console.log(`\n${passed + failed} tests: ${passed} passed, ${failed} failed\n`)
 
@@ -1,5 +1,6 @@
 // Early Signal Score — GitFind's proprietary algorithm
-// DO NOT change these weights without asking the product owner first.
+// The arithmetic lives here; weights and normaliser scales come from a
+// versioned ScoringModel (lib/score-models.ts). Production model esc-v1:
 //
 // Weights (must sum to 100%):
 // Star velocity (7-day):              25%
@@ -10,6 +11,20 @@
 // Star acceleration:                  10%
 // Fork acceleration:                  10%
 // Manipulation filter:                Penalty
+//
+// Package download velocity and acceleration are signals too, weighted only
+// by models that use them (esc-v3-downloads). Repos without download data are
+// scored on the remaining signals, reweighted to 100 (effectiveWeights).
+
+import {
+  SIGNAL_KEYS,
+  effectiveWeights,
+  productionModel,
+  type ScoreNormalisers,
+  type ScoringModel,
+  type SignalKey,
+} from './score-models'
+import type { PeerScores } from './peer-norm'
 
 export interface ScoreInputs {
   // Star signals
@@ -34,19 +49,62 @@ export interface ScoreInputs {
   stars_7d_prev?: number    // Stars gained 8–14 days ago (previous week)
   forks_7d?: number         // Forks gained in last 7 days (from snapshots)
   forks_7d_prev?: number    // Forks gained 8–14 days ago (from snapshots)
+
+  // Package downloads (scripts/fetch-downloads.ts) — absent when the repo has
+  // no detected package or nothing has been fetched yet
+  package_registry?: string  // npm | pypi | crates — picks the download scale
+  downloads_7d?: number      // Downloads in the last 7 days
+  downloads_7d_prev?: number // Downloads 8–14 days ago
+
+  // Stargazer-quality check (lib/star-quality.ts) — absent when not sampled
+  fake_star_probability?: number // 0–1
+
+  // Data coverage — feeds breakdown.confidence (scoreConfidence). Absent means
+  // the caller didn't report it.
+  history_days?: number           // Days of snapshot history behind the inputs
+  hn_lookup_ok?: boolean          // false when the HN search failed and mentions defaulted to 0
+  unmeasured?: UnmeasuredInput[]  // Inputs the caller filled with 0 because there was no data
 }
 
+export type UnmeasuredInput = 'stars_7d' | 'contributors' | 'commits_30d'
+
 export interface ScoreBreakdown {
-  star_velocity_score: number       // 0–100, weighted 30%
-  contributor_ratio_score: number   // 0–100, weighted 25%
-  fork_velocity_score: number       // 0–100, weighted 15%
-  mention_velocity_score: number    // 0–100, weighted 15%
-  commit_frequency_score: number    // 0–100, weighted 10%
-  star_acceleration_score: number   // 0–100, weighted 10%
-  fork_acceleration_score: number   // 0–100, weighted 10%
-  manipulation_penalty: number      // 0–30, subtracted from total
+  star_velocity_score: number       // 0–100, weighted per model
+  contributor_ratio_score: number   // 0–100
+  fork_velocity_score: number       // 0–100
+  mention_velocity_score: number    // 0–100
+  commit_frequency_score: number    // 0–100
+  star_acceleration_score: number   // 0–100
+  fork_acceleration_score: number   // 0–100
+  download_velocity_score?: number  // 0–100, only when the repo has download data
+  download_acceleration_score?: number // 0–100, likewise
+  manipulation_penalty: number      // 0–max_penalty, subtracted from total
+  fake_star_probability?: number    // Stargazer-quality input behind part of the penalty
   raw_score: number                 // Before penalty (0–100)
   final_score: number               // After penalty, clamped 0–100
+  model_version: string             // ScoringModel.version that produced this breakdown
+  peer?: PeerBreakdown              // Percentiles within the repo's peer group, when known
+  confidence?: ScoreConfidence      // Absent on breakdowns stored before confidence existed
+}
+
+export type ConfidenceLevel = 'low' | 'medium' | 'high'
+
+// Weakest first — a floor of 'medium' keeps medium and high
+export const CONFIDENCE_LEVELS: ConfidenceLevel[] = ['low', 'medium', 'high']
+
+export interface ScoreConfidence {
+  level: ConfidenceLevel
+  completeness: number              // 0–100: share of model weight scored from measured inputs
+  defaulted: SignalKey[]            // Signals scored from inputs that defaulted to 0
+  history_days: number | null       // Days of snapshot history (null: not reported)
+  hn_lookup_ok: boolean | null      // Whether the HN search succeeded (null: not reported)
+}
+
+export interface PeerBreakdown {
+  group: string                     // e.g. "category:Security" or "language:Rust"
+  sample_size: number
+  percentiles: Partial<Record<SignalKey, number>> // 0–100 rank among peers
+  applied: boolean                  // true when the model scored with these instead of the absolute values
 }
 
 export interface ScoreResult {
@@ -68,64 +126,118 @@ function linearNormalise(value: number, max: number): number {
   return Math.min(100, Math.max(0, (value / max) * 100))
 }
 
+// --- Raw signal values ---
+// What each calculator normalises, before any scale is applied. Peer
+// percentile normalisation (lib/peer-norm.ts) ranks these within a repo's
+// category or language.
+export type RawSignals = Record<SignalKey, number>
+
+export function rawSignals(inputs: ScoreInputs): RawSignals {
+  return {
+    star_velocity_score: inputs.stars_7d,
+    contributor_ratio_score: inputs.stars > 0 ? inputs.contributors / inputs.stars : 0,
+    fork_velocity_score: inputs.stars > 0 ? inputs.forks / inputs.stars : 0,
+    // Weight recent mentions (7-day) more than 30-day
+    mention_velocity_score: inputs.hn_mentions_7d * 2 + inputs.hn_mentions_30d * 0.5,
+    commit_frequency_score: inputs.commits_30d,
+    star_acceleration_score: accelerationRatio(inputs.stars_7d, inputs.stars_7d_prev),
+    fork_acceleration_score: accelerationRatio(inputs.forks_7d, inputs.forks_7d_prev),
+    download_velocity_score: inputs.downloads_7d ?? 0,
+    download_acceleration_score: accelerationRatio(inputs.downloads_7d, inputs.downloads_7d_prev),
+  }
+}
+
+/** Whether the package signals apply — anything else is reweighted without them. */
+export function hasDownloads(inputs: ScoreInputs): boolean {
+  return inputs.downloads_7d != null
+}
+
+/** A package_downloads row fetch-downloads is older than this is too stale to score on. */
+export const DOWNLOADS_MAX_AGE_DAYS = 3
+
+/**
+ * downloads_7d / downloads_7d_prev from a repo's package_downloads rows
+ * (newest first): this week is the newest row if it's fresh, last week the
+ * newest row at least 7 days older. Empty when there's nothing fresh.
+ */
+export function downloadInputs(
+  rows: { snapshot_date: string; downloads_7d: number }[],
+  today: string,
+): Pick<ScoreInputs, 'downloads_7d' | 'downloads_7d_prev'> {
+  const daysBetween = (a: string, b: string) => Math.round((Date.parse(a) - Date.parse(b)) / 86400000)
+  const latest = rows[0]
+  if (!latest || daysBetween(today, latest.snapshot_date) > DOWNLOADS_MAX_AGE_DAYS) return {}
+  const prev = rows.find((r) => daysBetween(latest.snapshot_date, r.snapshot_date) >= 7)
+  return { downloads_7d: latest.downloads_7d, downloads_7d_prev: prev?.downloads_7d }
+}
+
+// Acceleration: ratio of this week vs last week, minus 1.
+// Only counts when growth is accelerating (ratio > 1). Flat or decelerating = 0.
+function accelerationRatio(current_7d: number | undefined, prev_7d: number | undefined): number {
+  if (current_7d == null || prev_7d == null || prev_7d <= 0 || current_7d <= 0) return 0
+  const ratio = current_7d / prev_7d
+  return ratio <= 1 ? 0 : ratio - 1
+}
+
 // --- Individual signal calculators ---
 
 // Star velocity: how many new stars in the last 7 days?
-// A score of 100 = 1,000+ new stars in 7 days
-function calcStarVelocity(stars_7d: number): number {
-  return logNormalise(stars_7d, 1000)
+// esc-v1: a score of 100 = 1,000+ new stars in 7 days
+function calcStarVelocity(stars_7d: number, n: ScoreNormalisers): number {
+  return logNormalise(stars_7d, n.star_velocity_scale)
 }
 
 // Contributor-to-star ratio: high ratio = builders before fans
 // A healthy ratio is 1 contributor per 5–20 stars for early repos
-// Scale: 0.2 contributors/star = 100 (very early, builder-heavy)
-function calcContributorRatio(contributors: number, stars: number): number {
-  if (stars <= 0) return 0
-  const ratio = contributors / stars
+// esc-v1 scale: 0.2 contributors/star = 100 (very early, builder-heavy)
+function calcContributorRatio(ratio: number, n: ScoreNormalisers): number {
   // Ratio of 0.05 (1 contributor per 20 stars) = 50 score
   // Ratio of 0.2 (1 contributor per 5 stars) = 100 score
-  return linearNormalise(ratio, 0.2)
+  return linearNormalise(ratio, n.contributor_ratio_max)
 }
 
 // Fork velocity relative to stars: people building on top before starring
 // Healthy fork-to-star ratio for a rising project: 15–40%
-// Scale: 0.4 fork/star ratio = 100
-function calcForkVelocity(forks: number, stars: number): number {
-  if (stars <= 0) return 0
-  const ratio = forks / stars
-  return linearNormalise(ratio, 0.4)
+// esc-v1 scale: 0.4 fork/star ratio = 100
+function calcForkVelocity(ratio: number, n: ScoreNormalisers): number {
+  return linearNormalise(ratio, n.fork_ratio_max)
 }
 
 // Cross-platform mention velocity: HN chatter before mainstream press
-// Scale: 20 mentions in 7 days = 100 score
-function calcMentionVelocity(hn_mentions_7d: number, hn_mentions_30d: number): number {
-  // Weight recent mentions (7-day) more than 30-day
-  const weighted = hn_mentions_7d * 2 + hn_mentions_30d * 0.5
-  return logNormalise(weighted, 50)
+// esc-v1 scale: 20 mentions in 7 days = 100 score
+function calcMentionVelocity(weighted: number, n: ScoreNormalisers): number {
+  return logNormalise(weighted, n.mention_scale)
 }
 
 // Commit frequency: active maintenance signal
-// Scale: 50 commits in 30 days = 100 score (very active)
-function calcCommitFrequency(commits_30d: number): number {
-  return logNormalise(commits_30d, 50)
+// esc-v1 scale: 50 commits in 30 days = 100 score (very active)
+function calcCommitFrequency(commits_30d: number, n: ScoreNormalisers): number {
+  return logNormalise(commits_30d, n.commit_scale)
 }
 
-// Acceleration: ratio of this week vs last week, log-normalised
-// Only fires when growth is accelerating (ratio > 1). Flat or decelerating = 0.
-// A ratio of 5× (e.g. 500→2500 stars/week) scores 100.
-function calcAcceleration(current_7d: number | undefined, prev_7d: number | undefined): number {
-  if (current_7d == null || prev_7d == null || prev_7d <= 0 || current_7d <= 0) return 0
-  const ratio = current_7d / prev_7d
-  if (ratio <= 1) return 0 // flat or decelerating — no bonus
-  return logNormalise(ratio - 1, 4) // ratio of 5 (i.e. ratio-1=4) → 100
+// Download velocity: weekly package downloads on the registry's own scale
+// esc-v3-downloads: 1M/wk on npm, 500K on PyPI, 100K on crates.io = 100
+function calcDownloadVelocity(downloads_7d: number, registry: string | undefined, n: ScoreNormalisers): number {
+  const scale = (registry && n.download_scales[registry]) || n.download_scales.default
+  return logNormalise(downloads_7d, scale)
 }
 
+// Acceleration, log-normalised.
+// esc-v1: a ratio of 5× (e.g. 500→2500 stars/week, i.e. ratio-1=4) scores 100.
+function calcAcceleration(ratioMinusOne: number, n: ScoreNormalisers): number {
+  return logNormalise(ratioMinusOne, n.acceleration_scale)
+}
+
+export const FAKE_STAR_MIN_PROBABILITY = 0.3 // below this the stargazer check costs nothing
+const FAKE_STAR_MAX_PENALTY = 25
+
 // Manipulation filter: penalise star farming
 // Signs of manipulation:
 // 1. Many new stars but very few commits (stars not earned by activity)
 // 2. Star-to-contributor ratio is extremely low (fans only, no builders)
-// Returns 0–30 penalty points subtracted from final score
-function calcManipulationPenalty(inputs: ScoreInputs): number {
+// 3. Sampled stargazers look like a star farm (fake_star_probability)
+// Returns 0–max_penalty points subtracted from final score
+function calcManipulationPenalty(inputs: ScoreInputs, n: ScoreNormalisers): number {
   const { stars, stars_7d, commits_30d, contributors } = inputs
   let penalty = 0
 
@@ -145,44 +257,122 @@ function calcManipulationPenalty(inputs: ScoreInputs): number {
     penalty += 5
   }
 
-  return Math.min(30, penalty)
-}
-
-export function calculateScore(inputs: ScoreInputs): ScoreResult {
-  const star_velocity_score = calcStarVelocity(inputs.stars_7d)
-  const contributor_ratio_score = calcContributorRatio(inputs.contributors, inputs.stars)
-  const fork_velocity_score = calcForkVelocity(inputs.forks, inputs.stars)
-  const mention_velocity_score = calcMentionVelocity(inputs.hn_mentions_7d, inputs.hn_mentions_30d)
-  const commit_frequency_score = calcCommitFrequency(inputs.commits_30d)
-  const star_acceleration_score = calcAcceleration(inputs.stars_7d, inputs.stars_7d_prev)
-  const fork_acceleration_score = calcAcceleration(inputs.forks_7d, inputs.forks_7d_prev)
-
-  // Weighted sum — weights must total 100%
-  const raw_score =
-    star_velocity_score * 0.25 +
-    contributor_ratio_score * 0.20 +
-    fork_velocity_score * 0.10 +
-    mention_velocity_score * 0.15 +
-    commit_frequency_score * 0.10 +
-    star_acceleration_score * 0.10 +
-    fork_acceleration_score * 0.10
-
-  const manipulation_penalty = calcManipulationPenalty(inputs)
+  // Likely fake stargazers: 0.3 → 8 points, 0.6 → 15, 1.0 → 25
+  const p = inputs.fake_star_probability ?? 0
+  if (p >= FAKE_STAR_MIN_PROBABILITY) {
+    penalty += Math.round(p * FAKE_STAR_MAX_PENALTY)
+  }
+
+  return Math.min(n.max_penalty, penalty)
+}
+
+// High confidence needs two weeks of snapshots (both acceleration windows);
+// under a week of history is low whatever else was measured.
+export const CONFIDENCE_FULL_HISTORY_DAYS = 14
+export const CONFIDENCE_MIN_HISTORY_DAYS = 7
+const CONFIDENCE_HIGH_COMPLETENESS = 90
+const CONFIDENCE_LOW_COMPLETENESS = 70
+
+/**
+ * How much of a score rests on measured data. Acceleration signals without a
+ * previous week, a failed HN lookup and inputs the caller reports as
+ * unmeasured all count as defaulted; completeness is the model weight left.
+ */
+export function scoreConfidence(inputs: ScoreInputs, model: ScoringModel = productionModel()): ScoreConfidence {
+  const unmeasured = new Set(inputs.unmeasured ?? [])
+  const missing: Record<SignalKey, boolean> = {
+    star_velocity_score: unmeasured.has('stars_7d'),
+    contributor_ratio_score: unmeasured.has('contributors'),
+    fork_velocity_score: false, // current forks and stars, always known
+    mention_velocity_score: inputs.hn_lookup_ok === false,
+    commit_frequency_score: unmeasured.has('commits_30d'),
+    star_acceleration_score: unmeasured.has('stars_7d') || inputs.stars_7d_prev == null,
+    fork_acceleration_score: inputs.forks_7d == null || inputs.forks_7d_prev == null,
+    // Without download data these signals are reweighted away, not defaulted
+    download_velocity_score: false,
+    download_acceleration_score: hasDownloads(inputs) && inputs.downloads_7d_prev == null,
+  }
+  const weights = effectiveWeights(model.weights, hasDownloads(inputs))
+  const defaulted = SIGNAL_KEYS.filter((k) => missing[k] && weights[k] > 0)
+  const completeness = Math.round(100 - defaulted.reduce((sum, k) => sum + weights[k], 0))
+  const history = inputs.history_days ?? null
+
+  let level: ConfidenceLevel = 'medium'
+  if (completeness < CONFIDENCE_LOW_COMPLETENESS || (history != null && history < CONFIDENCE_MIN_HISTORY_DAYS)) {
+    level = 'low'
+  } else if (completeness >= CONFIDENCE_HIGH_COMPLETENESS && history != null && history >= CONFIDENCE_FULL_HISTORY_DAYS) {
+    level = 'high'
+  }
+  return { level, completeness, defaulted, history_days: history, hn_lookup_ok: inputs.hn_lookup_ok ?? null }
+}
+
+/** Levels at or above `floor`, for filtering rankings. */
+export function confidenceAtLeast(floor: ConfidenceLevel): ConfidenceLevel[] {
+  return CONFIDENCE_LEVELS.slice(CONFIDENCE_LEVELS.indexOf(floor))
+}
+
+export function calculateScore(
+  inputs: ScoreInputs,
+  model: ScoringModel = productionModel(),
+  peer?: PeerScores | null,
+): ScoreResult {
+  const n = model.normalisers
+  const withDownloads = hasDownloads(inputs)
+  const w = effectiveWeights(model.weights, withDownloads)
+  const raw = rawSignals(inputs)
+  const absolute: Record<SignalKey, number> = {
+    star_velocity_score: calcStarVelocity(raw.star_velocity_score, n),
+    contributor_ratio_score: calcContributorRatio(raw.contributor_ratio_score, n),
+    fork_velocity_score: calcForkVelocity(raw.fork_velocity_score, n),
+    mention_velocity_score: calcMentionVelocity(raw.mention_velocity_score, n),
+    commit_frequency_score: calcCommitFrequency(raw.commit_frequency_score, n),
+    star_acceleration_score: calcAcceleration(raw.star_acceleration_score, n),
+    fork_acceleration_score: calcAcceleration(raw.fork_acceleration_score, n),
+    download_velocity_score: calcDownloadVelocity(raw.download_velocity_score, inputs.package_registry, n),
+    download_acceleration_score: calcAcceleration(raw.download_acceleration_score, n),
+  }
+
+  // Peer-percentile models score each signal by its rank among peers; signals
+  // without a peer distribution (or repos without a peer group) stay absolute
+  const usePeer = model.normalisation === 'peer_percentile' && peer != null
+  const signal = (k: SignalKey) => (usePeer ? peer.percentiles[k] ?? absolute[k] : absolute[k])
+
+  // Weighted sum — effective weights are percentages totalling 100
+  const raw_score = SIGNAL_KEYS.reduce((sum, k) => sum + signal(k) * w[k], 0) / 100
+
+  const manipulation_penalty = calcManipulationPenalty(inputs, n)
   const final_score = Math.round(Math.min(100, Math.max(0, raw_score - manipulation_penalty)))
 
-  return {
-    score: final_score,
-    breakdown: {
-      star_velocity_score: Math.round(star_velocity_score),
-      contributor_ratio_score: Math.round(contributor_ratio_score),
-      fork_velocity_score: Math.round(fork_velocity_score),
-      mention_velocity_score: Math.round(mention_velocity_score),
-      commit_frequency_score: Math.round(commit_frequency_score),
-      star_acceleration_score: Math.round(star_acceleration_score),
-      fork_acceleration_score: Math.round(fork_acceleration_score),
-      manipulation_penalty,
-      raw_score: Math.round(raw_score),
-      final_score,
-    },
+  const breakdown: ScoreBreakdown = {
+    star_velocity_score: Math.round(absolute.star_velocity_score),
+    contributor_ratio_score: Math.round(absolute.contributor_ratio_score),
+    fork_velocity_score: Math.round(absolute.fork_velocity_score),
+    mention_velocity_score: Math.round(absolute.mention_velocity_score),
+    commit_frequency_score: Math.round(absolute.commit_frequency_score),
+    star_acceleration_score: Math.round(absolute.star_acceleration_score),
+    fork_acceleration_score: Math.round(absolute.fork_acceleration_score),
+    manipulation_penalty,
+    raw_score: Math.round(raw_score),
+    final_score,
+    model_version: model.version,
+    confidence: scoreConfidence(inputs, model),
+  }
+  // Recorded even when the model doesn't weight them, so weight presets
+  // (lib/presets.ts) can re-rank on downloads
+  if (withDownloads) {
+    breakdown.download_velocity_score = Math.round(absolute.download_velocity_score)
+    breakdown.download_acceleration_score = Math.round(absolute.download_acceleration_score)
+  }
+  if (inputs.fake_star_probability != null) breakdown.fake_star_probability = inputs.fake_star_probability
+  if (peer) {
+    breakdown.peer = {
+      group: peer.group,
+      sample_size: peer.sample_size,
+      percentiles: Object.fromEntries(
+        Object.entries(peer.percentiles).map(([k, v]) => [k, Math.round(v)])
+      ),
+      applied: usePeer,
+    }
   }
+  return { score: final_score, breakdown }
 }
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest'
+import { ApiParamError } from './api'
+import {
+  DEFAULT_SEARCH_LIMIT,
+  FACET_LIMIT,
+  parseSearchParams,
+  queryTerms,
+  scoreBounds,
+  searchQueryString,
+  shapeFacets,
+  toPrefixTsQuery,
+} from './search'
+
+function parse(qs: string) {
+  return parseSearchParams(new URLSearchParams(qs))
+}
+
+describe('parseSearchParams', () => {
+  it('defaults: no filters, score sort without a query, page 1', () => {
+    const p = parse('')
+    expect(p.q).toBeNull()
+    expect(p.sort).toBe('score')
+    expect(p.page).toBe(1)
+    expect(p.limit).toBe(DEFAULT_SEARCH_LIMIT)
+  })
+
+  it('defaults to relevance when there is a query', () => {
+    expect(parse('q=agent').sort).toBe('relevance')
+    expect(parse('q=agent&sort=newest').sort).toBe('newest')
+  })
+
+  it('defaults to lexical mode and accepts semantic', () => {
+    expect(parse('q=agent').mode).toBe('lexical')
+    expect(parse('q=local%20llm%20server&mode=semantic').mode).toBe('semantic')
+  })
+
+  it('ignores one-character queries', () => {
+    expect(parse('q=a').q).toBeNull()
+  })
+
+  it('parses every filter', () => {
+    const p = parse(
+      'q=llm&category=AI%20Agents&language=Python&registry=PyPI&tier=hot&min_stars=100&max_stars=5000&min_score=10&max_score=90&added_days=30&sort=stars_7d&page=3&limit=10'
+    )
+    expect(p).toMatchObject({
+      q: 'llm',
+      category: 'AI Agents',
+      language: 'Python',
+      registry: 'pypi',
+      tier: 'Hot',
+      minStars: 100,
+      maxStars: 5000,
+      minScore: 10,
+      maxScore: 90,
+      addedDays: 30,
+      sort: 'stars_7d',
+      page: 3,
+      limit: 10,
+    })
+  })
+
+  it('rejects bad values with ApiParamError', () => {
+    expect(() => parse('sort=hottest')).toThrow(ApiParamError)
+    expect(() => parse('tier=legendary')).toThrow(ApiParamError)
+    expect(() => parse('registry=maven')).toThrow(ApiParamError)
+    expect(() => parse('min_stars=-1')).toThrow(ApiParamError)
+    expect(() => parse('min_stars=10&max_stars=5')).toThrow(ApiParamError)
+    expect(() => parse('min_score=80&max_score=20')).toThrow(ApiParamError)
+    expect(() => parse('limit=500')).toThrow(ApiParamError)
+    expect(() => parse('page=0')).toThrow(ApiParamError)
+    expect(() => parse('added_days=1.5')).toThrow(ApiParamError)
+    expect(() => parse('mode=fuzzy')).toThrow(ApiParamError)
+  })
+})
+
+describe('toPrefixTsQuery', () => {
+  it('turns words into AND-ed prefix terms', () => {
+    expect(toPrefixTsQuery('Next rea')).toBe('next:* & rea:*')
+  })
+
+  it('strips tsquery operators and punctuation', () => {
+    expect(toPrefixTsQuery("foo & !bar | 'baz:*")).toBe('foo:* & bar:* & baz:*')
+  })
+
+  it('is null when nothing searchable is left', () => {
+    expect(toPrefixTsQuery('!!! ---')).toBeNull()
+    expect(toPrefixTsQuery(null)).toBeNull()
+  })
+})
+
+describe('queryTerms', () => {
+  it('splits owner/name into an owner filter plus a name search', () => {
+    expect(queryTerms('vercel/next')).toEqual({ query: 'next:*', owner: 'vercel', ownerTerm: null })
+  })
+
+  it('lets a single word match an owner too', () => {
+    expect(queryTerms('vercel')).toEqual({ query: 'vercel:*', owner: null, ownerTerm: 'vercel' })
+  })
+
+  it('does not treat phrases as owners', () => {
+    expect(queryTerms('vector database').ownerTerm).toBeNull()
+  })
+})
+
+describe('scoreBounds', () => {
+  it('passes the explicit range through without a tier', () => {
+    expect(scoreBounds({ minScore: 10, maxScore: null, tier: null })).toEqual({ min: 10, max: null })
+  })
+
+  it('maps a tier to its band', () => {
+    expect(scoreBounds({ minScore: null, maxScore: null, tier: 'Hot' })).toEqual({ min: 40, max: 69 })
+  })
+
+  it('intersects the tier band with an explicit range', () => {
+    expect(scoreBounds({ minScore: 50, maxScore: 95, tier: 'Breakout' })).toEqual({ min: 70, max: 95 })
+  })
+})
+
+describe('shapeFacets', () => {
+  it('sorts by count desc, ties alphabetical, and keeps tier order', () => {
+    const out = shapeFacets({
+      category: { 'Dev Tools': 4, 'AI Agents': 9, Databases: 4 },
+      language: {},
+      registry: { npm: 3 },
+      tier: { Active: 5, Breakout: 1, Hot: 2 },
+    })
+    expect(out.category.map((f) => f.value)).toEqual(['AI Agents', 'Databases', 'Dev Tools'])
+    expect(out.language).toEqual([])
+    expect(out.registry).toEqual([{ value: 'npm', count: 3 }])
+    expect(out.tier.map((f) => f.value)).toEqual(['Breakout', 'Hot', 'Active'])
+  })
+
+  it('caps long facets', () => {
+    const language = Object.fromEntries(Array.from({ length: 30 }, (_, i) => [`lang${i}`, i + 1]))
+    expect(shapeFacets({ language }).language.length).toBe(FACET_LIMIT)
+  })
+
+  it('tolerates a missing or malformed payload', () => {
+    expect(shapeFacets(null)).toEqual({ category: [], language: [], registry: [], tier: [] })
+    expect(shapeFacets({ category: [1, 2] }).category).toEqual([])
+  })
+})
+
+describe('searchQueryString', () => {
+  it('omits defaults', () => {
+    expect(searchQueryString(parse('q=agent'))).toBe('?q=agent')
+    expect(searchQueryString(parse(''))).toBe('')
+  })
+
+  it('applies overrides, clears with null and resets the page', () => {
+    const p = parse('q=agent&language=Go&page=4')
+    expect(searchQueryString(p, { language: null })).toBe('?q=agent')
+    expect(searchQueryString(p, { category: 'Databases' })).toBe('?q=agent&category=Databases&language=Go')
+  })
+
+  it('keeps an explicit page override and non-default sort', () => {
+    const p = parse('language=Go&sort=newest')
+    expect(searchQueryString(p, { page: 2 })).toBe('?language=Go&sort=newest&page=2')
+  })
+
+  it('carries semantic mode but omits the lexical default', () => {
+    const p = parse('q=agent&mode=semantic')
+    expect(searchQueryString(p)).toBe('?q=agent&mode=semantic')
+    expect(searchQueryString(p, { mode: 'lexical' })).toBe('?q=agent')
+  })
+})
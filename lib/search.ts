@@ -0,0 +1,233 @@
+// Faceted catalog search — /api/search and /search param parsing, the prefix
+// tsquery the search_repos() RPC ranks with, and facet shaping.
+// Pure functions — unit-tested in lib/search.test.ts.
+//
+// SQL side: scripts/migrations/008-search.sql. Facet counts are "disjunctive":
+// each facet is counted with every filter except its own, so picking one
+// language still shows how many results the other languages would give.
+
+import { ApiParamError } from './api'
+import type { Json, RepoWithEnrichment } from './database.types'
+import type { Tier } from './design'
+
+export const SEARCH_SORTS = ['relevance', 'score', 'stars_7d', 'newest'] as const
+export type SearchSort = (typeof SEARCH_SORTS)[number]
+
+// mode=semantic blends lexical rank with embedding similarity (lib/embeddings.ts,
+// scripts/migrations/009-embeddings.sql); without a provider it falls back.
+export const SEARCH_MODES = ['lexical', 'semantic'] as const
+export type SearchMode = (typeof SEARCH_MODES)[number]
+export const SEMANTIC_WEIGHT = 0.6
+export const MIN_SIMILARITY = 0.3
+export const VECTOR_CANDIDATES = 200
+
+export const REGISTRIES = ['npm', 'pypi', 'crates'] as const
+export const TIERS: readonly Tier[] = ['Breakout', 'Hot', 'Active']
+
+export const DEFAULT_SEARCH_LIMIT = 24
+export const MAX_SEARCH_LIMIT = 50
+export const MIN_QUERY_LENGTH = 2
+export const FACET_LIMIT = 20
+const MAX_QUERY_TERMS = 8
+const MAX_ADDED_DAYS = 3650
+
+// Score bands per tier — mirrors tierFor() in lib/design.ts
+const TIER_BANDS: Record<Tier, [number, number]> = {
+  Breakout: [70, 100],
+  Hot: [40, 69],
+  Active: [0, 39],
+}
+
+export interface SearchParams {
+  q: string | null
+  category: string | null
+  language: string | null
+  registry: string | null
+  minStars: number | null
+  maxStars: number | null
+  minScore: number | null
+  maxScore: number | null
+  tier: Tier | null
+  addedDays: number | null
+  sort: SearchSort
+  mode: SearchMode
+  page: number
+  limit: number
+}
+
+export type FacetKey = 'category' | 'language' | 'registry' | 'tier'
+
+export interface FacetCount {
+  value: string
+  count: number
+}
+
+export type SearchFacets = Record<FacetKey, FacetCount[]>
+
+export interface SearchResponse {
+  results: RepoWithEnrichment[]
+  total: number
+  page: number
+  limit: number
+  sort: SearchSort
+  mode: SearchMode // what actually ran — semantic requests fall back to lexical
+  facets: SearchFacets
+}
+
+function parseInteger(raw: string | null, name: string, min: number, max: number): number | null {
+  if (raw == null || raw.trim() === '') return null
+  const n = Number(raw)
+  if (!Number.isInteger(n) || n < min || n > max) {
+    throw new ApiParamError(`${name} must be an integer between ${min} and ${max}`)
+  }
+  return n
+}
+
+function text(params: URLSearchParams, name: string): string | null {
+  return params.get(name)?.trim() || null
+}
+
+export function parseSearchParams(params: URLSearchParams): SearchParams {
+  const rawQuery = text(params, 'q')
+  const q = rawQuery && rawQuery.length >= MIN_QUERY_LENGTH ? rawQuery : null
+
+  const registry = text(params, 'registry')?.toLowerCase() ?? null
+  if (registry && !(REGISTRIES as readonly string[]).includes(registry)) {
+    throw new ApiParamError(`registry must be one of ${REGISTRIES.join(', ')}`)
+  }
+
+  const rawTier = text(params, 'tier')
+  const tier = rawTier ? TIERS.find((t) => t.toLowerCase() === rawTier.toLowerCase()) ?? null : null
+  if (rawTier && !tier) throw new ApiParamError(`tier must be one of ${TIERS.join(', ')}`)
+
+  const minStars = parseInteger(params.get('min_stars'), 'min_stars', 0, Number.MAX_SAFE_INTEGER)
+  const maxStars = parseInteger(params.get('max_stars'), 'max_stars', 0, Number.MAX_SAFE_INTEGER)
+  if (minStars != null && maxStars != null && minStars > maxStars) {
+    throw new ApiParamError('min_stars must not exceed max_stars')
+  }
+  const minScore = parseInteger(params.get('min_score'), 'min_score', 0, 100)
+  const maxScore = parseInteger(params.get('max_score'), 'max_score', 0, 100)
+  if (minScore != null && maxScore != null && minScore > maxScore) {
+    throw new ApiParamError('min_score must not exceed max_score')
+  }
+
+  // Relevance only means something with a query; without one, best score first
+  const rawSort = text(params, 'sort')
+  if (rawSort && !(SEARCH_SORTS as readonly string[]).includes(rawSort)) {
+    throw new ApiParamError(`sort must be one of ${SEARCH_SORTS.join(', ')}`)
+  }
+  const requested = (rawSort as SearchSort | null) ?? 'relevance'
+  const sort: SearchSort = requested === 'relevance' && !q ? 'score' : requested
+
+  const rawMode = text(params, 'mode')
+  if (rawMode && !(SEARCH_MODES as readonly string[]).includes(rawMode)) {
+    throw new ApiParamError(`mode must be one of ${SEARCH_MODES.join(', ')}`)
+  }
+
+  return {
+    q,
+    category: text(params, 'category'),
+    language: text(params, 'language'),
+    registry,
+    minStars,
+    maxStars,
+    minScore,
+    maxScore,
+    tier,
+    addedDays: parseInteger(params.get('added_days'), 'added_days', 1, MAX_ADDED_DAYS),
+    sort,
+    mode: (rawMode as SearchMode | null) ?? 'lexical',
+    page: parseInteger(params.get('page'), 'page', 1, 1000) ?? 1,
+    limit: parseInteger(params.get('limit'), 'limit', 1, MAX_SEARCH_LIMIT) ?? DEFAULT_SEARCH_LIMIT,
+  }
+}
+
+/**
+ * Visitor words → to_tsquery prefix terms ("Next rea" → "next:* & rea:*"),
+ * so typeahead matches partial words. Only letters and digits survive, which
+ * keeps tsquery syntax errors out of the RPC. Null when nothing is left.
+ */
+export function toPrefixTsQuery(q: string | null): string | null {
+  if (!q) return null
+  const terms = q.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+  if (terms.length === 0) return null
+  return terms.slice(0, MAX_QUERY_TERMS).map((t) => `${t}:*`).join(' & ')
+}
+
+const OWNER_SLASH = /^([A-Za-z0-9_.-]+)\/(.*)$/
+const OWNER_WORD = /^[A-Za-z0-9_.-]+$/
+
+/**
+ * Query → RPC match params. "owner/name" filters to that owner and searches
+ * the rest; a single word also matches an owner exactly (the FTS index only
+ * covers name + description).
+ */
+export function queryTerms(q: string | null): { query: string | null; owner: string | null; ownerTerm: string | null } {
+  if (!q) return { query: null, owner: null, ownerTerm: null }
+  const slash = q.match(OWNER_SLASH)
+  if (slash) return { query: toPrefixTsQuery(slash[2]), owner: slash[1], ownerTerm: null }
+  return { query: toPrefixTsQuery(q), owner: null, ownerTerm: OWNER_WORD.test(q) ? q : null }
+}
+
+/** Explicit score range intersected with the tier's band. */
+export function scoreBounds(params: Pick<SearchParams, 'minScore' | 'maxScore' | 'tier'>): {
+  min: number | null
+  max: number | null
+} {
+  if (!params.tier) return { min: params.minScore, max: params.maxScore }
+  const [lo, hi] = TIER_BANDS[params.tier]
+  return { min: Math.max(lo, params.minScore ?? lo), max: Math.min(hi, params.maxScore ?? hi) }
+}
+
+function counts(raw: unknown): FacetCount[] {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return []
+  return Object.entries(raw as Record<string, unknown>)
+    .filter((e): e is [string, number] => typeof e[1] === 'number' && e[1] > 0)
+    .map(([value, count]) => ({ value, count }))
+}
+
+/**
+ * search_repo_facets() JSON → sorted facet lists: most results first (ties
+ * alphabetical), capped at FACET_LIMIT; tiers keep Breakout → Active order.
+ */
+export function shapeFacets(raw: Json | null): SearchFacets {
+  const obj = (typeof raw === 'object' && raw !== null && !Array.isArray(raw) ? raw : {}) as Record<string, unknown>
+  const byCount = (list: FacetCount[]) =>
+    list.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)).slice(0, FACET_LIMIT)
+  return {
+    category: byCount(counts(obj.category)),
+    language: byCount(counts(obj.language)),
+    registry: byCount(counts(obj.registry)),
+    tier: counts(obj.tier).sort((a, b) => TIERS.indexOf(a.value as Tier) - TIERS.indexOf(b.value as Tier)),
+  }
+}
+
+/**
+ * Query string for a /search link: the current params with `overrides`
+ * applied (null clears a filter). Defaults are omitted and any filter change
+ * resets to page 1.
+ */
+export function searchQueryString(params: SearchParams, overrides: Partial<SearchParams> = {}): string {
+  const next = { ...params, ...overrides }
+  if (!('page' in overrides)) next.page = 1
+  const out = new URLSearchParams()
+  const set = (key: string, value: string | number | null) => {
+    if (value != null && value !== '') out.set(key, String(value))
+  }
+  set('q', next.q)
+  set('category', next.category)
+  set('language', next.language)
+  set('registry', next.registry)
+  set('tier', next.tier)
+  set('min_stars', next.minStars)
+  set('max_stars', next.maxStars)
+  set('min_score', next.minScore)
+  set('max_score', next.maxScore)
+  set('added_days', next.addedDays)
+  if (next.sort !== (next.q ? 'relevance' : 'score')) set('sort', next.sort)
+  if (next.mode !== 'lexical') set('mode', next.mode)
+  if (next.page > 1) set('page', next.page)
+  if (next.limit !== DEFAULT_SEARCH_LIMIT) set('limit', next.limit)
+  const qs = out.toString()
+  return qs ? `?${qs}` : ''
+}
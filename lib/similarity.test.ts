@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MIN_SIMILARITY,
+  SIMILAR_PER_REPO,
+  buildCooccurrence,
+  buildTfIdf,
+  computeSimilarRepos,
+  jaccard,
+  sparseCosine,
+  tokenize,
+  type SimilarityRepo,
+} from './similarity'
+
+function repo(id: string, overrides: Partial<SimilarityRepo> = {}): SimilarityRepo {
+  return { id, owner: 'o', name: id, language: null, topics: [], text: '', ...overrides }
+}
+
+describe('tokenize', () => {
+  it('drops stopwords, short tokens and numbers', () => {
+    expect(tokenize('A fast Vector DB for the 2024 RAG apps')).toEqual(['fast', 'vector', 'rag'])
+  })
+})
+
+describe('buildTfIdf / sparseCosine', () => {
+  it('gives identical docs similarity 1 and disjoint docs 0', () => {
+    const v = buildTfIdf(new Map([['a', 'vector database'], ['b', 'vector database'], ['c', 'terminal emulator']]))
+    expect(sparseCosine(v.get('a')!, v.get('b')!)).toBeCloseTo(1)
+    expect(sparseCosine(v.get('a')!, v.get('c')!)).toBe(0)
+  })
+
+  it('leaves an empty doc as an empty vector', () => {
+    expect(buildTfIdf(new Map([['a', '']])).get('a')!.size).toBe(0)
+  })
+})
+
+describe('jaccard', () => {
+  it('is overlap over union, 0 when either side is empty', () => {
+    expect(jaccard(['llm', 'rag', 'agents'], ['rag', 'agents', 'mcp'])).toBe(0.5)
+    expect(jaccard([], ['rag'])).toBe(0)
+  })
+})
+
+describe('buildCooccurrence', () => {
+  it('counts threads per pair symmetrically and ignores single-repo threads', () => {
+    const out = buildCooccurrence([
+      { story_id: 1, repo_id: 'a' },
+      { story_id: 1, repo_id: 'b' },
+      { story_id: 2, repo_id: 'a' },
+      { story_id: 2, repo_id: 'b' },
+      { story_id: 2, repo_id: 'c' },
+      { story_id: 3, repo_id: 'd' },
+    ])
+    expect(out.get('a')!.get('b')).toBe(2)
+    expect(out.get('b')!.get('a')).toBe(2)
+    expect(out.get('c')!.get('a')).toBe(1)
+    expect(out.has('d')).toBe(false)
+  })
+})
+
+describe('computeSimilarRepos', () => {
+  const catalog = [
+    repo('qdrant', { language: 'Rust', topics: ['vector-database', 'embeddings'], text: 'Vector database for embeddings search' }),
+    repo('milvus', { language: 'Go', topics: ['vector-database', 'embeddings'], text: 'Cloud-native vector database for embeddings' }),
+    repo('alacritty', { language: 'Rust', topics: ['terminal'], text: 'GPU-accelerated terminal emulator' }),
+    repo('wezterm', { language: 'Rust', topics: ['terminal'], text: 'GPU terminal emulator and multiplexer' }),
+  ]
+
+  it('pairs repos with shared topics and text, and explains why', () => {
+    const out = computeSimilarRepos(catalog)
+    const qdrant = out.get('qdrant')!
+    expect(qdrant[0].similar_repo_id).toBe('milvus')
+    expect(qdrant[0].reasons[0]).toMatch(/^(shares topics|described alike)/)
+    expect(qdrant[0].reasons.some((r) => r.startsWith('shares topics: vector-database, embeddings'))).toBe(true)
+    expect(out.get('alacritty')![0].reasons).toContain('both written in Rust')
+  })
+
+  it('never nominates on language alone', () => {
+    const out = computeSimilarRepos(catalog)
+    expect(out.get('qdrant')!.map((s) => s.similar_repo_id)).not.toContain('alacritty')
+  })
+
+  it('lets HN co-occurrence nominate and explain a pair', () => {
+    const cooccurrence = buildCooccurrence([
+      { story_id: 1, repo_id: 'milvus' },
+      { story_id: 1, repo_id: 'alacritty' },
+    ])
+    // Not enough on its own (0.15 · 1/3) …
+    expect(computeSimilarRepos(catalog, cooccurrence).get('milvus')!.map((s) => s.similar_repo_id)).not.toContain('alacritty')
+    // … but three threads reach full HN credit
+    const many = buildCooccurrence(
+      [1, 2, 3].flatMap((story_id) => [
+        { story_id, repo_id: 'milvus' },
+        { story_id, repo_id: 'alacritty' },
+      ])
+    )
+    const pair = computeSimilarRepos(catalog, many).get('milvus')!.find((s) => s.similar_repo_id === 'alacritty')!
+    expect(pair.components.hn).toBe(1)
+    expect(pair.reasons).toContain('linked together in 3 Hacker News threads')
+  })
+
+  it('caps neighbours, sorts by score and respects the floor', () => {
+    const many = Array.from({ length: 10 }, (_, i) =>
+      repo(`r${i}`, { topics: ['mcp', 'agents', i % 2 ? 'odd' : 'even'], text: `mcp agent server number ${i}` })
+    )
+    const out = computeSimilarRepos(many)
+    for (const list of out.values()) {
+      expect(list.length).toBeLessThanOrEqual(SIMILAR_PER_REPO)
+      expect(list.every((s) => s.score >= MIN_SIMILARITY)).toBe(true)
+      expect(list.map((s) => s.score)).toEqual([...list.map((s) => s.score)].sort((a, b) => b - a))
+    }
+  })
+
+  it('returns an empty list for an isolated repo', () => {
+    expect(computeSimilarRepos([...catalog, repo('lonely', { text: 'quantum knitting patterns' })]).get('lonely')).toEqual([])
+  })
+})
@@ -0,0 +1,243 @@
+// "Similar repos" — nearest neighbours from topics, text, language and HN
+// co-occurrence, each with a human-readable "why similar".
+// Pure functions — unit-tested in lib/similarity.test.ts.
+//
+// Computed offline by scripts/compute-similar.ts into `similar_repos`
+// (scripts/migrations/010-similar-repos.sql). Candidates come from inverted
+// indexes (shared topic, shared distinctive term, shared HN thread) rather
+// than all pairs, so a 20k-repo catalog stays a few seconds of CPU.
+
+export const SIMILAR_PER_REPO = 6
+export const MIN_SIMILARITY = 0.15
+
+// Component weights — sum to 1
+export const SIMILARITY_WEIGHTS = {
+  topics: 0.35,
+  text: 0.4,
+  language: 0.1,
+  hn: 0.15,
+} as const
+
+const HN_SATURATION = 3 // threads linking both repos for full HN credit
+const INDEX_TERMS_PER_DOC = 12 // distinctive terms each doc is indexed under
+const MAX_TERM_DOC_SHARE = 0.05 // terms in more docs than this (and 50+) are too generic to index
+const MIN_INDEX_DOCS = 50
+const MIN_TOKEN_LENGTH = 3
+
+const STOPWORDS = new Set(
+  'and the for with that this from your you are can its into their them they have has not but all any more most also than then when what which who how use used using based built make makes made like just over only other such each very will would about via tool tools library framework open source project projects app apps'.split(
+    ' '
+  )
+)
+
+export interface SimilarityRepo {
+  id: string
+  owner: string
+  name: string
+  language: string | null
+  topics: string[]
+  text: string // description + enrichment summary + why_it_matters + cleaned README excerpt
+}
+
+export interface SimilarityComponents {
+  topics: number
+  text: number
+  language: number
+  hn: number
+}
+
+export interface SimilarRepo {
+  similar_repo_id: string
+  score: number
+  components: SimilarityComponents
+  reasons: string[]
+}
+
+/** Lowercase content words — no stopwords, no short tokens, no pure numbers. */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (t) => t.length >= MIN_TOKEN_LENGTH && !STOPWORDS.has(t) && !/^\d+$/.test(t)
+  )
+}
+
+/** L2-normalised TF-IDF vectors, one per doc id. */
+export function buildTfIdf(docs: Map<string, string>): Map<string, Map<string, number>> {
+  const tokenized = new Map<string, string[]>()
+  const df = new Map<string, number>()
+  for (const [id, text] of docs) {
+    const tokens = tokenize(text)
+    tokenized.set(id, tokens)
+    for (const t of new Set(tokens)) df.set(t, (df.get(t) ?? 0) + 1)
+  }
+  const n = docs.size
+  const out = new Map<string, Map<string, number>>()
+  for (const [id, tokens] of tokenized) {
+    const tf = new Map<string, number>()
+    for (const t of tokens) tf.set(t, (tf.get(t) ?? 0) + 1)
+    const vec = new Map<string, number>()
+    let norm = 0
+    for (const [t, count] of tf) {
+      const w = count * Math.log(1 + n / (df.get(t) ?? 1))
+      vec.set(t, w)
+      norm += w * w
+    }
+    norm = Math.sqrt(norm)
+    if (norm > 0) for (const [t, w] of vec) vec.set(t, w / norm)
+    out.set(id, vec)
+  }
+  return out
+}
+
+export function sparseCosine(a: Map<string, number>, b: Map<string, number>): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a]
+  let dot = 0
+  for (const [t, w] of small) dot += w * (large.get(t) ?? 0)
+  return dot
+}
+
+export function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0
+  const sa = new Set(a)
+  const sb = new Set(b)
+  let shared = 0
+  for (const x of sa) if (sb.has(x)) shared++
+  return shared / (sa.size + sb.size - shared)
+}
+
+// Terms contributing most to the text match, for the explanation
+function sharedTerms(a: Map<string, number>, b: Map<string, number>, limit: number): string[] {
+  return [...a.entries()]
+    .filter(([t]) => b.has(t))
+    .map(([t, w]) => [t, w * b.get(t)!] as const)
+    .sort((x, y) => y[1] - x[1])
+    .slice(0, limit)
+    .map(([t]) => t)
+}
+
+function push(index: Map<string, string[]>, key: string, value: string): void {
+  const list = index.get(key)
+  if (list) list.push(value)
+  else index.set(key, [value])
+}
+
+/** The "why similar" lines, strongest component first. */
+export function explainSimilarity(
+  a: SimilarityRepo,
+  b: SimilarityRepo,
+  components: SimilarityComponents,
+  hnThreads: number,
+  terms: string[]
+): string[] {
+  const reasons: Array<[number, string]> = []
+  const sharedTopics = a.topics.filter((t) => b.topics.includes(t))
+  if (sharedTopics.length > 0) {
+    reasons.push([components.topics * SIMILARITY_WEIGHTS.topics, `shares topics: ${sharedTopics.slice(0, 4).join(', ')}`])
+  }
+  if (terms.length > 0 && components.text >= 0.1) {
+    reasons.push([components.text * SIMILARITY_WEIGHTS.text, `described alike: ${terms.join(', ')}`])
+  }
+  if (hnThreads > 0) {
+    reasons.push([
+      components.hn * SIMILARITY_WEIGHTS.hn,
+      `linked together in ${hnThreads} Hacker News ${hnThreads === 1 ? 'thread' : 'threads'}`,
+    ])
+  }
+  if (components.language > 0 && a.language) {
+    reasons.push([components.language * SIMILARITY_WEIGHTS.language, `both written in ${a.language}`])
+  }
+  return reasons.sort((x, y) => y[0] - x[0]).map(([, r]) => r)
+}
+
+/**
+ * Top SIMILAR_PER_REPO neighbours per repo with score ≥ MIN_SIMILARITY.
+ * `cooccurrence` maps repo id → other repo id → number of HN threads linking
+ * both. Language alone never qualifies a candidate — it only adds to one.
+ */
+export function computeSimilarRepos(
+  repos: SimilarityRepo[],
+  cooccurrence: Map<string, Map<string, number>> = new Map()
+): Map<string, SimilarRepo[]> {
+  const byId = new Map(repos.map((r) => [r.id, r]))
+  const vectors = buildTfIdf(new Map(repos.map((r) => [r.id, r.text])))
+
+  // Inverted indexes for candidate generation. Topics and terms shared by
+  // too many repos ("python", "api") only score, they don't nominate.
+  const maxDocs = Math.max(MIN_INDEX_DOCS, Math.floor(repos.length * MAX_TERM_DOC_SHARE))
+  const topicIndex = new Map<string, string[]>()
+  for (const r of repos) for (const t of new Set(r.topics)) push(topicIndex, t, r.id)
+  for (const [t, ids] of topicIndex) if (ids.length > maxDocs) topicIndex.delete(t)
+
+  const termDocs = new Map<string, number>()
+  for (const vec of vectors.values()) for (const t of vec.keys()) termDocs.set(t, (termDocs.get(t) ?? 0) + 1)
+  const termIndex = new Map<string, string[]>()
+  const termsOf = new Map<string, string[]>()
+  for (const [id, vec] of vectors) {
+    const distinctive = [...vec.entries()]
+      .filter(([t]) => (termDocs.get(t) ?? 0) <= maxDocs)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, INDEX_TERMS_PER_DOC)
+    for (const [t] of distinctive) {
+      push(termIndex, t, id)
+      push(termsOf, id, t)
+    }
+  }
+
+  const out = new Map<string, SimilarRepo[]>()
+  for (const repo of repos) {
+    const candidates = new Set<string>()
+    for (const t of repo.topics) for (const id of topicIndex.get(t) ?? []) candidates.add(id)
+    for (const t of termsOf.get(repo.id) ?? []) for (const id of termIndex.get(t) ?? []) candidates.add(id)
+    for (const id of cooccurrence.get(repo.id)?.keys() ?? []) if (byId.has(id)) candidates.add(id)
+    candidates.delete(repo.id)
+
+    const vec = vectors.get(repo.id)!
+    const scored: SimilarRepo[] = []
+    for (const id of candidates) {
+      const other = byId.get(id)!
+      const otherVec = vectors.get(id)!
+      const hnThreads = cooccurrence.get(repo.id)?.get(id) ?? 0
+      const components: SimilarityComponents = {
+        topics: jaccard(repo.topics, other.topics),
+        text: sparseCosine(vec, otherVec),
+        language: repo.language != null && repo.language === other.language ? 1 : 0,
+        hn: Math.min(1, hnThreads / HN_SATURATION),
+      }
+      const score =
+        components.topics * SIMILARITY_WEIGHTS.topics +
+        components.text * SIMILARITY_WEIGHTS.text +
+        components.language * SIMILARITY_WEIGHTS.language +
+        components.hn * SIMILARITY_WEIGHTS.hn
+      if (score < MIN_SIMILARITY) continue
+      scored.push({
+        similar_repo_id: id,
+        score: Math.round(score * 1000) / 1000,
+        components,
+        reasons: explainSimilarity(repo, other, components, hnThreads, sharedTerms(vec, otherVec, 3)),
+      })
+    }
+    out.set(
+      repo.id,
+      scored.sort((a, b) => b.score - a.score || a.similar_repo_id.localeCompare(b.similar_repo_id)).slice(0, SIMILAR_PER_REPO)
+    )
+  }
+  return out
+}
+
+/** HN thread → repo links → symmetric pair counts. */
+export function buildCooccurrence(links: Array<{ story_id: number; repo_id: string }>): Map<string, Map<string, number>> {
+  const threads = new Map<number, Set<string>>()
+  for (const l of links) threads.set(l.story_id, (threads.get(l.story_id) ?? new Set()).add(l.repo_id))
+  const out = new Map<string, Map<string, number>>()
+  for (const ids of threads.values()) {
+    if (ids.size < 2) continue
+    for (const a of ids) {
+      for (const b of ids) {
+        if (a === b) continue
+        const row = out.get(a) ?? new Map<string, number>()
+        row.set(b, (row.get(b) ?? 0) + 1)
+        out.set(a, row)
+      }
+    }
+  }
+  return out
+}
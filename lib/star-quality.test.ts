@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import { calculateScore, type ScoreInputs } from './score'
+import {
+  MIN_STARGAZER_SAMPLE,
+  analyseStargazers,
+  burstStats,
+  describeStarQuality,
+  extractFeatures,
+  type StargazerSample,
+} from './star-quality'
+
+const NOW = Date.parse('2026-06-01T12:00:00Z')
+const minutesAgo = (m: number) => new Date(NOW - m * 60_000).toISOString()
+const daysAgo = (d: number) => new Date(NOW - d * 86_400_000).toISOString()
+
+// Established developers starring over a few days
+function organic(count: number): StargazerSample[] {
+  return Array.from({ length: count }, (_, i) => ({
+    login: `dev${i}`,
+    starred_at: minutesAgo(60 + i * 90),
+    account_created_at: daysAgo(400 + i * 10),
+    followers: i % 4 === 0 ? 0 : 5 + i,
+    following: 10,
+    public_repos: 8,
+    starred_repos: 120,
+  }))
+}
+
+// Throwaway accounts starring seconds apart
+function farm(count: number, prefix = 'bot'): StargazerSample[] {
+  return Array.from({ length: count }, (_, i) => ({
+    login: `${prefix}${i}`,
+    starred_at: new Date(NOW - i * 20_000).toISOString(),
+    account_created_at: daysAgo(3),
+    followers: 0,
+    following: 0,
+    public_repos: 0,
+    starred_repos: 40,
+  }))
+}
+
+const inputs: ScoreInputs = {
+  stars: 3_000,
+  stars_7d: 800,
+  stars_30d: 1_500,
+  contributors: 30,
+  forks: 300,
+  hn_mentions_7d: 2,
+  hn_mentions_30d: 4,
+  commits_30d: 60,
+}
+
+describe('burstStats', () => {
+  it('finds the densest 10-minute window and the stars inside bursts', () => {
+    const times = [...Array.from({ length: 12 }, (_, i) => minutesAgo(i / 2)), minutesAgo(600), minutesAgo(900)]
+    expect(burstStats(times)).toEqual({ largest: 12, inBursts: 12 })
+  })
+
+  it('reports no burst when stars are spread out', () => {
+    expect(burstStats(organic(40).map((s) => s.starred_at)).inBursts).toBe(0)
+  })
+})
+
+describe('extractFeatures', () => {
+  it('measures the shares over the sample', () => {
+    const f = extractFeatures([...organic(30), ...farm(10)], new Set(['bot0', 'bot1']))
+    expect(f.sample_size).toBe(40)
+    expect(f.new_account_share).toBe(0.25)
+    expect(f.empty_profile_share).toBe(0.25)
+    expect(f.overlap_share).toBe(0.05)
+    expect(f.largest_burst).toBe(10)
+  })
+})
+
+describe('analyseStargazers', () => {
+  it('returns null below the minimum sample', () => {
+    expect(analyseStargazers(organic(MIN_STARGAZER_SAMPLE - 1))).toBeNull()
+  })
+
+  it('keeps organic stargazers well under the penalty threshold', () => {
+    expect(analyseStargazers(organic(100))!.fake_star_probability).toBeLessThan(0.1)
+  })
+
+  it('keeps a real launch burst under the penalty threshold', () => {
+    const launch = organic(100).map((s, i) => ({ ...s, starred_at: new Date(NOW - i * 5_000).toISOString() }))
+    expect(analyseStargazers(launch)!.fake_star_probability).toBeLessThan(0.3)
+  })
+
+  it('flags a star farm, more strongly when its accounts overlap flagged repos', () => {
+    const sample = [...organic(40), ...farm(60)]
+    const alone = analyseStargazers(sample)!.fake_star_probability
+    const overlapping = analyseStargazers(sample, new Set(farm(60).map((s) => s.login)))!.fake_star_probability
+    expect(alone).toBeGreaterThan(0.5)
+    expect(overlapping).toBeGreaterThan(alone)
+  })
+
+  it('explains the features that drove the result', () => {
+    const f = analyseStargazers(farm(50))!.features
+    const lines = describeStarQuality(f)
+    expect(lines.some((l) => l.includes('under 30 days old'))).toBe(true)
+    expect(lines.some((l) => l.includes('within 10 minutes'))).toBe(true)
+    expect(describeStarQuality(analyseStargazers(organic(50))!.features)).toEqual([])
+  })
+})
+
+describe('fake-star penalty', () => {
+  it('adds nothing below the threshold', () => {
+    const base = calculateScore(inputs)
+    const low = calculateScore({ ...inputs, fake_star_probability: 0.2 })
+    expect(low.breakdown.manipulation_penalty).toBe(base.breakdown.manipulation_penalty)
+    expect(low.breakdown.fake_star_probability).toBe(0.2)
+  })
+
+  it('scales with the probability and stays within the cap', () => {
+    const mid = calculateScore({ ...inputs, fake_star_probability: 0.6 })
+    const high = calculateScore({ ...inputs, fake_star_probability: 1, commits_30d: 0, contributors: 1 })
+    expect(mid.breakdown.manipulation_penalty).toBe(15)
+    expect(high.breakdown.manipulation_penalty).toBe(30)
+  })
+})
@@ -0,0 +1,123 @@
+// Stargazer quality — how likely a repo's recent stars are bought or botted.
+// scripts/analyse-stargazers.ts samples the most recent stargazers (account
+// age, followers, repos, when they starred), this file turns the sample into
+// a fake-star probability, and calculateScore() adds a penalty for it.
+// Pure functions — unit-tested in lib/star-quality.test.ts.
+//
+// Star farms leave a recognisable shape: throwaway accounts created days
+// before starring, no followers, no repos, stars landing in tight bursts, and
+// the same accounts turning up on other farmed repos. Each signal alone has
+// innocent explanations (an HN launch is a burst of real people), so the
+// probability is a logistic blend and no single feature can push it past the
+// penalty threshold on its own.
+
+export const MIN_STARGAZER_SAMPLE = 30
+export const NEW_ACCOUNT_DAYS = 30 // account younger than this when it starred
+export const BURST_WINDOW_MINUTES = 10
+export const BURST_MIN_STARS = 10 // this many stars inside one window counts as a burst
+export const SUSPICIOUS_PROBABILITY = 0.5 // repos at or above this seed the overlap feature
+export const STAR_QUALITY_MAX_AGE_DAYS = 14 // older samples no longer feed the penalty or show as evidence
+
+export interface StargazerSample {
+  login: string
+  starred_at: string // ISO timestamp
+  account_created_at: string
+  followers: number
+  following: number
+  public_repos: number
+  starred_repos: number
+}
+
+/** Shares are 0–1 over the sample. Stored as star_quality.features. */
+export interface StargazerFeatures {
+  sample_size: number
+  new_account_share: number
+  no_followers_share: number
+  empty_profile_share: number // no followers, no following, no public repos
+  burst_share: number // stars that landed inside a burst window
+  largest_burst: number // most stars inside any one window
+  overlap_share: number // stargazers also sampled on repos already flagged as suspicious
+}
+
+export interface StarQualityResult {
+  features: StargazerFeatures
+  fake_star_probability: number
+}
+
+// Logistic weights — hand-tuned so an organic launch (bursty, but established
+// accounts) stays under ~0.3 and a farm (new empty accounts in bursts) is >0.9
+const INTERCEPT = -4
+const WEIGHTS: Record<Exclude<keyof StargazerFeatures, 'sample_size' | 'largest_burst'>, number> = {
+  new_account_share: 3,
+  no_followers_share: 2,
+  empty_profile_share: 3,
+  burst_share: 2,
+  overlap_share: 4,
+}
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000
+
+/** Largest star count inside any BURST_WINDOW_MINUTES window, and how many stars fell inside a burst. */
+export function burstStats(starredAt: string[]): { largest: number; inBursts: number } {
+  const times = starredAt.map((t) => Date.parse(t)).sort((a, b) => a - b)
+  const windowMs = BURST_WINDOW_MINUTES * 60_000
+  const inBurst = new Array<boolean>(times.length).fill(false)
+  let largest = 0
+  let start = 0
+  for (let end = 0; end < times.length; end++) {
+    while (times[end] - times[start] > windowMs) start++
+    const count = end - start + 1
+    largest = Math.max(largest, count)
+    if (count >= BURST_MIN_STARS) for (let i = start; i <= end; i++) inBurst[i] = true
+  }
+  return { largest, inBursts: inBurst.filter(Boolean).length }
+}
+
+export function extractFeatures(
+  sample: StargazerSample[],
+  suspiciousLogins: ReadonlySet<string> = new Set(),
+): StargazerFeatures {
+  const n = sample.length
+  const share = (pred: (s: StargazerSample) => boolean) => (n > 0 ? round3(sample.filter(pred).length / n) : 0)
+  const newAccountMs = NEW_ACCOUNT_DAYS * 86_400_000
+  const bursts = burstStats(sample.map((s) => s.starred_at))
+  return {
+    sample_size: n,
+    new_account_share: share((s) => Date.parse(s.starred_at) - Date.parse(s.account_created_at) < newAccountMs),
+    no_followers_share: share((s) => s.followers === 0),
+    empty_profile_share: share((s) => s.followers === 0 && s.following === 0 && s.public_repos === 0),
+    burst_share: n > 0 ? round3(bursts.inBursts / n) : 0,
+    largest_burst: bursts.largest,
+    overlap_share: share((s) => suspiciousLogins.has(s.login)),
+  }
+}
+
+export function fakeStarProbability(f: StargazerFeatures): number {
+  let z = INTERCEPT
+  for (const [key, weight] of Object.entries(WEIGHTS) as Array<[keyof typeof WEIGHTS, number]>) {
+    z += f[key] * weight
+  }
+  return round3(1 / (1 + Math.exp(-z)))
+}
+
+/** Null when the sample is too small to say anything. */
+export function analyseStargazers(
+  sample: StargazerSample[],
+  suspiciousLogins: ReadonlySet<string> = new Set(),
+): StarQualityResult | null {
+  if (sample.length < MIN_STARGAZER_SAMPLE) return null
+  const features = extractFeatures(sample, suspiciousLogins)
+  return { features, fake_star_probability: fakeStarProbability(features) }
+}
+
+/** Human-readable evidence lines for the features worth mentioning. */
+export function describeStarQuality(f: StargazerFeatures): string[] {
+  const pct = (n: number) => `${Math.round(n * 100)}%`
+  const lines: string[] = []
+  if (f.new_account_share >= 0.1) lines.push(`${pct(f.new_account_share)} of accounts were under ${NEW_ACCOUNT_DAYS} days old when they starred`)
+  if (f.empty_profile_share >= 0.1) lines.push(`${pct(f.empty_profile_share)} are empty profiles (no repos, followers or follows)`)
+  else if (f.no_followers_share >= 0.3) lines.push(`${pct(f.no_followers_share)} have no followers`)
+  if (f.largest_burst >= BURST_MIN_STARS) lines.push(`${f.largest_burst} stars landed within ${BURST_WINDOW_MINUTES} minutes`)
+  if (f.overlap_share > 0) lines.push(`${pct(f.overlap_share)} also starred repos already flagged for fake stars`)
+  return lines
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MAX_INTERSECTIONS,
+  MAX_LABELS,
+  ancestorSlugs,
+  buildTaxonomyTree,
+  categoryHref,
+  isWithin,
+  normaliseLabels,
+  parseIntersections,
+  resolveCategoryPath,
+  taxonomyPromptList,
+  type TaxonomyNode,
+} from './taxonomy'
+
+function node(slug: string, name: string, sort_order = 0): TaxonomyNode {
+  const parts = slug.split('/')
+  return {
+    slug,
+    parent_slug: parts.length > 1 ? parts.slice(0, -1).join('/') : null,
+    name,
+    description: `${name} projects`,
+    github_topics: [],
+    sort_order,
+  }
+}
+
+const TAXONOMY = [
+  node('ai-ml', 'AI / Machine Learning', 1),
+  node('ai-ml/rag', 'RAG & Retrieval', 2),
+  node('ai-ml/agents', 'Agents', 1),
+  node('data-analytics', 'Data & Analytics', 2),
+  node('data-analytics/vector-databases', 'Vector Databases', 1),
+  node('security', 'Security', 3),
+]
+
+describe('slug helpers', () => {
+  it('lists ancestors root first', () => {
+    expect(ancestorSlugs('ai-ml/agents')).toEqual(['ai-ml', 'ai-ml/agents'])
+    expect(ancestorSlugs('security')).toEqual(['security'])
+  })
+
+  it('treats a slug as within itself and its ancestors only', () => {
+    expect(isWithin('ai-ml/agents', 'ai-ml')).toBe(true)
+    expect(isWithin('ai-ml', 'ai-ml')).toBe(true)
+    expect(isWithin('ai-ml', 'ai-ml/agents')).toBe(false)
+    expect(isWithin('ai-mlops', 'ai-ml')).toBe(false)
+  })
+
+  it('builds category links with intersections as ?with=', () => {
+    expect(categoryHref(['ai-ml/agents'])).toBe('/category/ai-ml/agents')
+    expect(categoryHref(['ai-ml/agents', 'data-analytics/vector-databases'])).toBe(
+      '/category/ai-ml/agents?with=data-analytics/vector-databases'
+    )
+  })
+})
+
+describe('buildTaxonomyTree', () => {
+  it('nests children under roots in sort order', () => {
+    const tree = buildTaxonomyTree(TAXONOMY)
+    expect(tree.map((n) => n.slug)).toEqual(['ai-ml', 'data-analytics', 'security'])
+    expect(tree[0].children.map((n) => n.slug)).toEqual(['ai-ml/agents', 'ai-ml/rag'])
+  })
+
+  it('drops orphans whose parent is missing or inactive', () => {
+    const tree = buildTaxonomyTree([node('mobile/ios', 'iOS')])
+    expect(tree).toEqual([])
+  })
+})
+
+describe('resolveCategoryPath', () => {
+  it('resolves nested route segments', () => {
+    expect(resolveCategoryPath(['ai-ml', 'agents'], TAXONOMY)?.name).toBe('Agents')
+    expect(resolveCategoryPath(['AI-ML'], TAXONOMY)?.slug).toBe('ai-ml')
+  })
+
+  it('is null for unknown paths', () => {
+    expect(resolveCategoryPath(['ai-ml', 'nope'], TAXONOMY)).toBeNull()
+  })
+
+  it('is null for a segment that is not valid percent-encoding', () => {
+    expect(resolveCategoryPath(['ai-ml', '100%'], TAXONOMY)).toBeNull()
+  })
+})
+
+describe('parseIntersections', () => {
+  it('keeps known slugs outside the page and caps them', () => {
+    const raw = 'data-analytics/vector-databases,ai-ml,security,bogus,ai-ml/rag'
+    expect(parseIntersections(raw, 'ai-ml/agents', TAXONOMY)).toEqual(['data-analytics/vector-databases', 'security'])
+    expect(parseIntersections(raw, 'ai-ml/agents', TAXONOMY)).toHaveLength(MAX_INTERSECTIONS)
+  })
+
+  it('is empty without a value', () => {
+    expect(parseIntersections(undefined, 'ai-ml', TAXONOMY)).toEqual([])
+  })
+})
+
+describe('taxonomyPromptList', () => {
+  it('indents subcategories under their root', () => {
+    const lines = taxonomyPromptList(TAXONOMY).split('\n')
+    expect(lines[0]).toBe('- ai-ml — AI / Machine Learning: AI / Machine Learning projects')
+    expect(lines[1]).toBe('  - ai-ml/agents — Agents: Agents projects')
+    expect(lines).toHaveLength(TAXONOMY.length)
+  })
+})
+
+describe('normaliseLabels', () => {
+  it('keeps order, so the first valid label is primary', () => {
+    expect(normaliseLabels(['ai-ml/rag', 'data-analytics/vector-databases'], TAXONOMY)).toEqual([
+      'ai-ml/rag',
+      'data-analytics/vector-databases',
+    ])
+  })
+
+  it('drops unknown slugs, duplicates and ancestors of other labels', () => {
+    expect(normaliseLabels(['ai-ml', 'AI-ML/Agents', 'made-up', 'ai-ml/agents'], TAXONOMY)).toEqual(['ai-ml/agents'])
+  })
+
+  it('accepts a single string and caps the list', () => {
+    expect(normaliseLabels('security', TAXONOMY)).toEqual(['security'])
+    const roots = ['a', 'b', 'c', 'd', 'e', 'f'].map((s) => node(s, s.toUpperCase()))
+    expect(normaliseLabels(roots.map((n) => n.slug), roots)).toEqual(['a', 'b', 'c', 'd'].slice(0, MAX_LABELS))
+  })
+
+  it('throws when nothing valid is left', () => {
+    expect(() => normaliseLabels(['Developer Tools'], TAXONOMY)).toThrow(/No valid category labels/)
+    expect(() => normaliseLabels(undefined, TAXONOMY)).toThrow()
+  })
+})
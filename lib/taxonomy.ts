@@ -0,0 +1,121 @@
+// Category taxonomy — the `categories` tree, slug paths and label validation.
+// Pure functions — unit-tested in lib/taxonomy.test.ts.
+//
+// Slugs are full paths ("ai-ml/agents"); roots are the original eight
+// categories and keep their names, so enrichments.category (the primary
+// label's root name) still works everywhere it did. Schema and seed:
+// scripts/migrations/011-taxonomy.sql.
+
+import type { Category } from './database.types'
+
+export const MAX_LABELS = 4
+export const MAX_INTERSECTIONS = 2 // extra ?with= slugs on a category page
+
+export type TaxonomyNode = Pick<Category, 'slug' | 'parent_slug' | 'name' | 'description' | 'github_topics' | 'sort_order'>
+
+export interface TaxonomyTreeNode extends TaxonomyNode {
+  children: TaxonomyTreeNode[]
+}
+
+export function rootSlug(slug: string): string {
+  return slug.split('/')[0]
+}
+
+/** "ai-ml/agents" → ["ai-ml", "ai-ml/agents"] */
+export function ancestorSlugs(slug: string): string[] {
+  const parts = slug.split('/')
+  return parts.map((_, i) => parts.slice(0, i + 1).join('/'))
+}
+
+/** True when `slug` is `ancestor` itself or sits anywhere below it. */
+export function isWithin(slug: string, ancestor: string): boolean {
+  return slug === ancestor || slug.startsWith(`${ancestor}/`)
+}
+
+function bySortOrder(a: TaxonomyNode, b: TaxonomyNode): number {
+  return a.sort_order - b.sort_order || a.name.localeCompare(b.name)
+}
+
+/** Roots with nested children, siblings in sort_order. Orphans are dropped. */
+export function buildTaxonomyTree(nodes: TaxonomyNode[]): TaxonomyTreeNode[] {
+  const bySlug = new Map<string, TaxonomyTreeNode>(nodes.map((n) => [n.slug, { ...n, children: [] }]))
+  const roots: TaxonomyTreeNode[] = []
+  for (const node of bySlug.values()) {
+    if (node.parent_slug == null) roots.push(node)
+    else bySlug.get(node.parent_slug)?.children.push(node)
+  }
+  const sortDeep = (list: TaxonomyTreeNode[]): TaxonomyTreeNode[] => {
+    list.sort(bySortOrder)
+    for (const n of list) sortDeep(n.children)
+    return list
+  }
+  return sortDeep(roots)
+}
+
+/** Category page route segments → node, or null for an unknown or malformed path. */
+export function resolveCategoryPath(segments: string[], nodes: TaxonomyNode[]): TaxonomyNode | null {
+  let slug: string
+  try {
+    slug = segments.map((s) => decodeURIComponent(s).toLowerCase()).join('/')
+  } catch (err) {
+    if (err instanceof URIError) return null // a stray "%" — Next has already decoded the segment once
+    throw err
+  }
+  return nodes.find((n) => n.slug === slug) ?? null
+}
+
+/**
+ * `?with=` on a category page — comma-separated slugs to intersect with the
+ * page's own. Unknown slugs, duplicates and anything already implied by the
+ * page (its ancestors) are dropped; at most MAX_INTERSECTIONS are kept.
+ */
+export function parseIntersections(raw: string | null | undefined, base: string, nodes: TaxonomyNode[]): string[] {
+  if (!raw) return []
+  const known = new Set(nodes.map((n) => n.slug))
+  const out: string[] = []
+  for (const part of raw.split(',')) {
+    const slug = part.trim().toLowerCase()
+    if (!known.has(slug) || isWithin(base, slug) || out.includes(slug)) continue
+    out.push(slug)
+    if (out.length === MAX_INTERSECTIONS) break
+  }
+  return out
+}
+
+/** Link to the intersection of `slugs` — the first is the page, the rest ride along as ?with=. */
+export function categoryHref(slugs: string[]): string {
+  const [page, ...rest] = slugs
+  return `/category/${page}${rest.length > 0 ? `?with=${rest.join(',')}` : ''}`
+}
+
+/** The tree as the indented list the enrichment prompt classifies against. */
+export function taxonomyPromptList(nodes: TaxonomyNode[]): string {
+  const lines: string[] = []
+  const walk = (list: TaxonomyTreeNode[], depth: number) => {
+    for (const n of list) {
+      lines.push(`${'  '.repeat(depth)}- ${n.slug} — ${n.name}${n.description ? `: ${n.description}` : ''}`)
+      walk(n.children, depth + 1)
+    }
+  }
+  walk(buildTaxonomyTree(nodes), 0)
+  return lines.join('\n')
+}
+
+/**
+ * Validate the labels an LLM returned against the live taxonomy. First valid
+ * label is primary. Unknown slugs and duplicates are dropped, and so is any
+ * label whose descendant is also present (ai-ml + ai-ml/agents → ai-ml/agents).
+ * Throws when nothing valid is left.
+ */
+export function normaliseLabels(raw: unknown, nodes: TaxonomyNode[]): string[] {
+  const known = new Set(nodes.map((n) => n.slug))
+  const list = (Array.isArray(raw) ? raw : [raw])
+    .filter((x): x is string => typeof x === 'string')
+    .map((x) => x.trim().toLowerCase())
+  const valid = list.filter((slug, i) => known.has(slug) && list.indexOf(slug) === i)
+  const leaves = valid.filter((slug) => !valid.some((other) => other !== slug && isWithin(other, slug)))
+  if (leaves.length === 0) {
+    throw new Error(`No valid category labels in ${JSON.stringify(raw)}`)
+  }
+  return leaves.slice(0, MAX_LABELS)
+}
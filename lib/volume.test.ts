@@ -1,5 +1,15 @@
 import { describe, it, expect } from 'vitest'
-import { sliceRange, rangeTotal, priorSpanDelta, labelEvery, type VolumePoint } from './volume'
+import {
+  sliceRange,
+  rangeTotal,
+  priorSpanDelta,
+  labelEvery,
+  dailyGains,
+  levelChange,
+  placeAnnotations,
+  tierTransitions,
+  type VolumePoint,
+} from './volume'
 
 function series(days: number, startValue = 100): VolumePoint[] {
   const end = new Date(Date.UTC(2026, 6, 18)) // Jul 18 2026
@@ -65,3 +75,89 @@ describe('labelEvery', () => {
     expect(labelEvery(520)).toBe(65)
   })
 })
+
+describe('dailyGains', () => {
+  it('turns a cumulative series into per-day gains, dropping the first point', () => {
+    const out = dailyGains([
+      { date: '2026-07-01', value: 100 },
+      { date: '2026-07-02', value: 110 },
+      { date: '2026-07-04', value: 125 },
+    ])
+    expect(out).toEqual([
+      { date: '2026-07-02', value: 10 },
+      { date: '2026-07-04', value: 15 },
+    ])
+  })
+
+  it('clamps drops (unstars) to zero', () => {
+    const out = dailyGains([
+      { date: '2026-07-01', value: 100 },
+      { date: '2026-07-02', value: 97 },
+    ])
+    expect(out[0].value).toBe(0)
+  })
+
+  it('returns nothing for fewer than two points', () => {
+    expect(dailyGains([{ date: '2026-07-01', value: 5 }])).toEqual([])
+  })
+})
+
+describe('levelChange', () => {
+  it('is last minus first with a rounded percentage', () => {
+    expect(levelChange(series(10, 100))).toEqual({ change: 9, pct: 9 })
+  })
+
+  it('has no percentage from a zero start', () => {
+    expect(levelChange(series(3, 0))).toEqual({ change: 2, pct: null })
+  })
+
+  it('is null without two points', () => {
+    expect(levelChange(series(1))).toBeNull()
+  })
+})
+
+describe('placeAnnotations', () => {
+  const points: VolumePoint[] = [
+    { date: '2026-07-01', value: 1 },
+    { date: '2026-07-02', value: 1 },
+    { date: '2026-07-05', value: 1 },
+  ]
+
+  it('pins each annotation to the first point on or after its date', () => {
+    const out = placeAnnotations(points, [
+      { date: '2026-07-03', kind: 'release', label: 'release v1.0' },
+      { date: '2026-07-01', kind: 'anomaly', label: 'star breakout' },
+    ])
+    expect(out.map((a) => [a.label, a.index])).toEqual([
+      ['star breakout', 0],
+      ['release v1.0', 2],
+    ])
+  })
+
+  it('drops annotations outside the visible range', () => {
+    const out = placeAnnotations(points, [
+      { date: '2026-06-30', kind: 'anomaly', label: 'before' },
+      { date: '2026-07-06', kind: 'release', label: 'after' },
+    ])
+    expect(out).toEqual([])
+  })
+
+  it('handles an empty series', () => {
+    expect(placeAnnotations([], [{ date: '2026-07-01', kind: 'release', label: 'x' }])).toEqual([])
+  })
+})
+
+describe('tierTransitions', () => {
+  it('marks each day the score crosses a tier boundary', () => {
+    const scores = [38, 39, 41, 44, 72, 69].map((value, i) => ({ date: `2026-07-0${i + 1}`, value }))
+    expect(tierTransitions(scores)).toEqual([
+      { date: '2026-07-03', kind: 'tier', label: 'Active → Hot (score 41)' },
+      { date: '2026-07-05', kind: 'tier', label: 'Hot → Breakout (score 72)' },
+      { date: '2026-07-06', kind: 'tier', label: 'Breakout → Hot (score 69)' },
+    ])
+  })
+
+  it('is empty while the tier holds', () => {
+    expect(tierTransitions(series(5, 50))).toEqual([])
+  })
+})
@@ -1,6 +1,8 @@
-// Range math for the AI Code Index volume chart.
+// Range math for the volume charts (AI Code Index, project-page history).
 // Pure functions — unit-tested in lib/volume.test.ts.
 
+import { tierFor } from './design'
+
 export interface VolumePoint {
   date: string // YYYY-MM-DD, ascending, complete days only (query excludes today)
   value: number
@@ -66,3 +68,62 @@ export function priorSpanDelta(data: VolumePoint[], points: VolumePoint[]): numb
 export function labelEvery(count: number): number {
   return Math.max(1, Math.floor(count / 8))
 }
+
+// --- Level series + annotations (project-page history panel) ---
+
+/**
+ * Day-over-day gains from a cumulative series (stars, forks). A gap between
+ * snapshots lands on the later date; drops (unstars) count as 0 so bars stay
+ * non-negative. The first point has no predecessor and is dropped.
+ */
+export function dailyGains(levels: VolumePoint[]): VolumePoint[] {
+  return levels.slice(1).map((p, i) => ({ date: p.date, value: Math.max(0, p.value - levels[i].value) }))
+}
+
+/** Change from the first to the last point of a level series, with % when the start is non-zero. */
+export function levelChange(points: VolumePoint[]): { change: number; pct: number | null } | null {
+  if (points.length < 2) return null
+  const first = points[0].value
+  const change = points[points.length - 1].value - first
+  return { change, pct: first !== 0 ? Math.round((change / first) * 100) : null }
+}
+
+export interface ChartAnnotation {
+  date: string // YYYY-MM-DD
+  kind: 'anomaly' | 'release' | 'tier'
+  label: string
+}
+
+/**
+ * Annotations that fall inside `points`, pinned to the first point on or
+ * after their date (snapshots can skip days).
+ */
+export function placeAnnotations(
+  points: VolumePoint[],
+  annotations: ChartAnnotation[],
+): Array<ChartAnnotation & { index: number }> {
+  if (points.length === 0) return []
+  const first = points[0].date
+  const last = points[points.length - 1].date
+  const out: Array<ChartAnnotation & { index: number }> = []
+  for (const a of annotations) {
+    if (a.date < first || a.date > last) continue
+    const index = points.findIndex((p) => p.date >= a.date)
+    if (index >= 0) out.push({ ...a, index })
+  }
+  return out.sort((a, b) => a.index - b.index)
+}
+
+/**
+ * A marker for each day the score crossed a tierFor() boundary, e.g.
+ * "Active → Hot (score 43)". The first point sets the starting tier.
+ */
+export function tierTransitions(scores: VolumePoint[]): ChartAnnotation[] {
+  const out: ChartAnnotation[] = []
+  for (let i = 1; i < scores.length; i++) {
+    const from = tierFor(scores[i - 1].value)
+    const to = tierFor(scores[i].value)
+    if (from !== to) out.push({ date: scores[i].date, kind: 'tier', label: `${from} → ${to} (score ${scores[i].value})` })
+  }
+  return out
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  nextDeliveryState,
+  retryDelaySeconds,
+  signPayload,
+  tierChange,
+  verifySignature,
+} from './webhooks'
+
+const SECRET = 'whsec_test'
+const BODY = JSON.stringify({ id: 'evt_1', type: 'anomaly.created', data: { x: 1 } })
+
+describe('signPayload / verifySignature', () => {
+  it('round-trips and matches the documented HMAC scheme', () => {
+    const header = signPayload(SECRET, BODY, 1_760_000_000)
+    expect(header).toMatch(/^t=1760000000,v1=[0-9a-f]{64}$/)
+    expect(verifySignature(SECRET, BODY, header, 1_760_000_010)).toBe(true)
+  })
+
+  it('rejects a tampered body, wrong secret, or stale timestamp', () => {
+    const header = signPayload(SECRET, BODY, 1_760_000_000)
+    expect(verifySignature(SECRET, BODY.replace('1', '2'), header, 1_760_000_000)).toBe(false)
+    expect(verifySignature('whsec_other', BODY, header, 1_760_000_000)).toBe(false)
+    expect(verifySignature(SECRET, BODY, header, 1_760_000_000 + 3600)).toBe(false)
+    expect(verifySignature(SECRET, BODY, 'garbage', 1_760_000_000)).toBe(false)
+  })
+})
+
+describe('retry schedule', () => {
+  it('doubles from one minute and caps at six hours', () => {
+    expect(retryDelaySeconds(1)).toBe(60)
+    expect(retryDelaySeconds(2)).toBe(120)
+    expect(retryDelaySeconds(4)).toBe(480)
+    expect(retryDelaySeconds(20)).toBe(6 * 3600)
+  })
+
+  it('reschedules failures until the attempt budget runs out', () => {
+    const now = new Date('2026-07-20T00:00:00Z')
+    const failure = { ok: false, responseStatus: 503, error: 'HTTP 503' }
+
+    const retry = nextDeliveryState(0, failure, now)
+    expect(retry).toMatchObject({ status: 'pending', attempts: 1, response_status: 503 })
+    expect(retry.status === 'pending' && retry.next_attempt_at).toBe('2026-07-20T00:01:00.000Z')
+
+    expect(nextDeliveryState(MAX_DELIVERY_ATTEMPTS - 1, failure, now).status).toBe('failed')
+    expect(nextDeliveryState(3, { ok: true, responseStatus: 200, error: null }, now)).toMatchObject({
+      status: 'succeeded',
+      attempts: 4,
+    })
+  })
+})
+
+describe('tierChange', () => {
+  it('reports transitions across tierFor boundaries only', () => {
+    expect(tierChange(65, 72)).toEqual({ from: 'Hot', to: 'Breakout' })
+    expect(tierChange(45, 38)).toEqual({ from: 'Hot', to: 'Active' })
+    expect(tierChange(71, 90)).toBeNull()
+    expect(tierChange(null, 90)).toBeNull()
+  })
+})
@@ -0,0 +1,152 @@
+// Outbound webhooks — event shapes, HMAC signing, the retry schedule, and the
+// outbox writer the pipeline scripts call. Signing and scheduling are pure —
+// unit-tested in lib/webhooks.test.ts. Delivery/replay: scripts/webhooks.ts.
+// Tables: scripts/migrations/005-webhooks.sql
+//
+// Receivers verify `X-GitFind-Signature: t=<unix>,v1=<hex>` where
+// v1 = HMAC-SHA256(secret, `${t}.${rawBody}`) — same scheme as verifySignature().
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from './database.types'
+import { tierFor, type Tier } from './design'
+
+export const WEBHOOK_EVENT_TYPES = ['anomaly.created', 'repo.tier_changed', 'enrichment.created'] as const
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number]
+
+export const SIGNATURE_HEADER = 'X-GitFind-Signature'
+export const MAX_DELIVERY_ATTEMPTS = 8
+export const DELIVERY_TIMEOUT_MS = 10_000
+const SIGNATURE_TOLERANCE_SECONDS = 300
+const BASE_RETRY_SECONDS = 60
+const MAX_RETRY_SECONDS = 6 * 3600
+
+export interface WebhookEnvelope {
+  id: string // webhook_events.id — stable across retries and replays
+  type: WebhookEventType
+  created_at: string
+  data: Json
+}
+
+export function isWebhookEventType(value: string): value is WebhookEventType {
+  return (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value)
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`
+}
+
+function hmac(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/** Signature header value for a raw JSON body sent at `timestamp` (unix seconds). */
+export function signPayload(secret: string, body: string, timestamp: number): string {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`
+}
+
+/** Receiver-side check, exported so tests (and docs) pin the scheme down. */
+export function verifySignature(secret: string, body: string, header: string, nowSeconds: number): boolean {
+  const parts = new Map(
+    header.split(',').map((p) => {
+      const i = p.indexOf('=')
+      return [p.slice(0, i).trim(), p.slice(i + 1).trim()] as const
+    }),
+  )
+  const t = Number(parts.get('t'))
+  const v1 = parts.get('v1')
+  if (!Number.isInteger(t) || !v1) return false
+  if (Math.abs(nowSeconds - t) > SIGNATURE_TOLERANCE_SECONDS) return false
+  const expected = Buffer.from(hmac(secret, t, body), 'hex')
+  const given = Buffer.from(v1, 'hex')
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+/** Exponential backoff after the Nth failed attempt: 1m, 2m, 4m … capped at 6h. */
+export function retryDelaySeconds(attempt: number): number {
+  return Math.min(MAX_RETRY_SECONDS, BASE_RETRY_SECONDS * 2 ** Math.max(0, attempt - 1))
+}
+
+export interface AttemptOutcome {
+  ok: boolean
+  responseStatus: number | null
+  error: string | null
+}
+
+/** Delivery-log update after one attempt (attempts = count before this one). */
+export function nextDeliveryState(attempts: number, outcome: AttemptOutcome, now: Date) {
+  const made = attempts + 1
+  const base = {
+    attempts: made,
+    last_attempt_at: now.toISOString(),
+    response_status: outcome.responseStatus,
+    last_error: outcome.error,
+  }
+  if (outcome.ok) return { ...base, status: 'succeeded' as const }
+  if (made >= MAX_DELIVERY_ATTEMPTS) return { ...base, status: 'failed' as const }
+  return {
+    ...base,
+    status: 'pending' as const,
+    next_attempt_at: new Date(now.getTime() + retryDelaySeconds(made) * 1000).toISOString(),
+  }
+}
+
+/** Tier transition between two scores, or null when the tier is unchanged. */
+export function tierChange(previousScore: number | null, score: number): { from: Tier; to: Tier } | null {
+  if (previousScore == null) return null
+  const from = tierFor(previousScore)
+  const to = tierFor(score)
+  return from === to ? null : { from, to }
+}
+
+// A type alias (not an interface) so it stays assignable to Json
+export type WebhookRepoRef = {
+  id: string
+  full_name: string
+  url: string
+}
+
+export function repoRef(repo: { id: string; owner: string; name: string }): WebhookRepoRef {
+  return {
+    id: repo.id,
+    full_name: `${repo.owner}/${repo.name}`,
+    url: `https://gitfind.ai/project/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.name)}`,
+  }
+}
+
+// ─── Outbox ──────────────────────────────────────────────────────────────────
+
+/**
+ * Record an event and fan it out to every active endpoint subscribed to its
+ * type as a pending delivery. Never throws: a webhook outage must not fail the
+ * pipeline run that produced the event.
+ */
+export async function enqueueWebhookEvent(
+  db: SupabaseClient<Database>,
+  type: WebhookEventType,
+  data: Json,
+): Promise<string | null> {
+  try {
+    const { data: endpoints, error: epErr } = await db
+      .from('webhook_endpoints')
+      .select('id')
+      .contains('events', [type])
+      .is('disabled_at', null)
+    if (epErr) throw new Error(epErr.message)
+    const endpointIds = ((endpoints ?? []) as unknown as Array<{ id: string }>).map((e) => e.id)
+    if (endpointIds.length === 0) return null
+
+    const { data: event, error: evErr } = await db.from('webhook_events').insert({ type, data }).select('id').single()
+    if (evErr || !event) throw new Error(evErr?.message ?? 'event insert returned no row')
+    const eventId = (event as unknown as { id: string }).id
+
+    const { error: dErr } = await db
+      .from('webhook_deliveries')
+      .insert(endpointIds.map((endpoint_id) => ({ event_id: eventId, endpoint_id })))
+    if (dErr) throw new Error(dErr.message)
+    return eventId
+  } catch (err) {
+    console.error(`Webhook enqueue failed (${type}):`, err)
+    return null
+  }
+}
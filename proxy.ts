@@ -0,0 +1,18 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { ADMIN_REALM, isAdminAuthorized } from '@/lib/admin-auth'
+
+// Basic auth in front of /admin/* (lib/admin-auth.ts). Unset ADMIN_PASSWORD
+// hides the admin pages entirely.
+export function proxy(request: NextRequest) {
+  const password = process.env.ADMIN_PASSWORD
+  if (!password) return new NextResponse(null, { status: 404 })
+  if (isAdminAuthorized(request.headers.get('authorization'), password)) return NextResponse.next()
+  return new NextResponse('Authentication required', {
+    status: 401,
+    headers: { 'WWW-Authenticate': `Basic realm="${ADMIN_REALM}", charset="UTF-8"` },
+  })
+}
+
+export const config = {
+  matcher: ['/admin/:path*'],
+}
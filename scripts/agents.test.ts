@@ -0,0 +1,220 @@
+// The Claude agents end to end: each runs against an in-memory database
+// (lib/fake-db.ts) and replays its recorded responses from fixtures/llm, so a
+// prompt change that would miss the committed fixture fails here. After
+// changing a prompt, re-record with
+//   LLM_PROVIDER=record ANTHROPIC_API_KEY=… npx vitest run scripts/agents.test.ts
+// and commit the new fixture files.
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '../lib/database.types'
+import { fakeDb, type Tables } from '../lib/fake-db'
+
+const state = vi.hoisted(() => ({ db: null as SupabaseClient<Database> | null }))
+
+vi.mock('../lib/supabase', () => ({
+  supabase: null,
+  createServiceClient: () => state.db,
+}))
+vi.mock('../lib/hn', () => ({
+  getHNMentions: async () => ({ mentions_7d: 2, mentions_30d: 5, lookup_ok: true }),
+}))
+
+const NOW = new Date('2026-10-20T09:00:00Z') // a Tuesday
+const TODAY = '2026-10-20'
+const WEEK_AGO = '2026-10-13'
+
+const AGENTKIT = '6f1c2a9e-3b4d-4e5f-8a7b-1c2d3e4f5a6b'
+const QUIETDB = '0d9e8f7a-6b5c-4d3e-9f2a-1b0c9d8e7f6a'
+const TINYVEC = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d'
+
+const BREAKDOWN = {
+  star_velocity_score: 82,
+  contributor_ratio_score: 55,
+  fork_velocity_score: 40,
+  mention_velocity_score: 30,
+  commit_frequency_score: 70,
+  star_acceleration_score: 90,
+  manipulation_penalty: 0,
+  raw_score: 74,
+  final_score: 74,
+  model_version: 'esc-v1',
+}
+
+function repo(id: string, owner: string, name: string, stars: number) {
+  return { id, owner, name, description: `${name}, an open-source project`, stars, forks: 95, contributors: 48, language: 'TypeScript' }
+}
+
+const CATEGORIES = [
+  { slug: 'ai-ml', parent_slug: null, name: 'AI & ML', description: 'Models, agents and tooling around them', github_topics: [], sort_order: 1, active: true },
+  { slug: 'ai-ml/agents', parent_slug: 'ai-ml', name: 'Agents', description: 'Autonomous and tool-using agents', github_topics: [], sort_order: 1, active: true },
+  { slug: 'dev-tools', parent_slug: null, name: 'Developer Tools', description: 'Tools for building software', github_topics: [], sort_order: 2, active: true },
+]
+
+function days(from: number, to: number): string[] {
+  const out: string[] = []
+  for (let d = from; d <= to; d++) out.push(`2026-10-${String(d).padStart(2, '0')}`)
+  return out
+}
+
+let tables: Tables
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(NOW)
+  vi.stubEnv('LLM_PROVIDER', process.env.LLM_PROVIDER === 'record' ? 'record' : 'fixtures')
+  vi.stubEnv('LLM_FIXTURES_DIR', 'fixtures/llm')
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  tables = {}
+  state.db = fakeDb(tables)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+})
+
+describe('enrichment', () => {
+  it('retries an unsupported claim and stores the corrected answer with its labels', async () => {
+    Object.assign(tables, {
+      categories: CATEGORIES,
+      weekly_stats: [{ repo_id: AGENTKIT, snapshot_date: TODAY, last_release_tag: 'v0.9.0' }],
+      webhook_endpoints: [{ id: 'ep-1', events: ['enrichment.created'], disabled_at: null }],
+    })
+    const { enrichRepo } = await import('../lib/enrichment')
+
+    const result = await enrichRepo(AGENTKIT, {
+      github_id: 101,
+      owner: 'acme',
+      name: 'agentkit',
+      description: 'A TypeScript toolkit for building agents that call tools and remember context',
+      stars: 5200,
+      forks: 95,
+      contributors: 48,
+      language: 'TypeScript',
+      topics: ['agents', 'llm'],
+    }, 74)
+
+    expect(result.labels).toEqual(['ai-ml/agents'])
+    expect(result.category).toBe('AI & ML')
+    expect(result.quality_flags).toEqual(['corrected'])
+    expect(tables.enrichments).toMatchObject([{ repo_id: AGENTKIT, summary: result.summary, version: 1, early_signal_score: 74 }])
+    expect(tables.repo_categories).toMatchObject([{ repo_id: AGENTKIT, category_slug: 'ai-ml/agents', is_primary: true }])
+    expect(tables.webhook_events).toMatchObject([{ type: 'enrichment.created' }])
+    expect(tables.llm_calls.map((c) => c.template)).toEqual(['enrichment', 'enrichment'])
+  })
+})
+
+describe('trend narrator', () => {
+  it('writes a narrative for each enriched top mover', async () => {
+    Object.assign(tables, {
+      repo_snapshots: [
+        { repo_id: AGENTKIT, snapshot_date: TODAY, stars_7d: 420, forks: 95 },
+        { repo_id: TINYVEC, snapshot_date: TODAY, stars_7d: 150, forks: 12 },
+        { repo_id: AGENTKIT, snapshot_date: WEEK_AGO, stars_7d: 120, forks: 70 },
+      ],
+      repos: [repo(AGENTKIT, 'acme', 'agentkit', 5200), repo(TINYVEC, 'lena', 'tinyvec', 900)],
+      enrichments: [{
+        repo_id: AGENTKIT,
+        summary: 'Agentkit helps teams build assistants that can use tools and remember context.',
+        category: 'AI & ML',
+        early_signal_score: 74,
+        score_breakdown: BREAKDOWN,
+        trend_narrative: null,
+      }],
+      weekly_stats: [{ repo_id: AGENTKIT, snapshot_date: TODAY, commit_count_4w: 64 }],
+    })
+    const { main } = await import('./trend-narrator')
+
+    await main()
+
+    const [row] = tables.enrichments
+    expect(row.trend_narrative).toMatch(/^Weekly star growth has more than tripled/)
+    expect(tables.llm_calls).toMatchObject([{ template: 'trend-narrative', subject_ids: [AGENTKIT], error: null }])
+  })
+})
+
+describe('anomaly watcher', () => {
+  it('records a stars breakout, narrates it and queues its webhook', async () => {
+    Object.assign(tables, {
+      repo_snapshots: [
+        { repo_id: AGENTKIT, snapshot_date: TODAY, stars_7d: 420 },
+        ...days(13, 19).map((d) => ({ repo_id: AGENTKIT, snapshot_date: d, stars_7d: 100 })),
+      ],
+      repos: [repo(AGENTKIT, 'acme', 'agentkit', 5200)],
+      enrichments: [{
+        repo_id: AGENTKIT,
+        summary: 'Agentkit helps teams build assistants that can use tools and remember context.',
+        why_it_matters: 'Tool-using assistants are moving from demos into products, and this lowers the cost of building one.',
+        category: 'AI & ML',
+      }],
+      webhook_endpoints: [{ id: 'ep-1', events: ['anomaly.created'], disabled_at: null }],
+    })
+    const { main } = await import('./detect-anomalies')
+
+    await main()
+
+    expect(tables.anomalies).toHaveLength(1)
+    expect(tables.anomalies[0]).toMatchObject({ repo_id: AGENTKIT, type: 'stars_breakout', severity: 100 })
+    expect(tables.anomalies[0].narrative).toMatch(/^Four times its usual weekly stars/)
+    expect(tables.webhook_events).toMatchObject([{ type: 'anomaly.created' }])
+    expect(tables.webhook_deliveries).toMatchObject([{ endpoint_id: 'ep-1' }])
+    expect(tables.pipeline_runs).toMatchObject([{ script: 'detect-anomalies', status: 'succeeded' }])
+  })
+})
+
+describe('Tuesday briefing', () => {
+  it('archives the issue with each mover’s rank diff', async () => {
+    const scored = (repoId: string, date: string, score: number, stars: number) => ({
+      repo_id: repoId,
+      snapshot_date: date,
+      score,
+      tier: 'rising',
+      model_version: 'esc-v1',
+      score_breakdown: { ...BREAKDOWN, star_velocity_score: stars, final_score: score },
+    })
+    Object.assign(tables, {
+      repo_snapshots: [{ repo_id: AGENTKIT, snapshot_date: TODAY, stars_7d: 420 }],
+      repos: [repo(AGENTKIT, 'acme', 'agentkit', 5200), repo(QUIETDB, 'quiet', 'quietdb', 3100), repo(TINYVEC, 'lena', 'tinyvec', 900)],
+      enrichments: [
+        {
+          repo_id: AGENTKIT,
+          summary: 'Agentkit helps teams build assistants that can use tools and remember context.',
+          why_it_matters: 'Tool-using assistants are moving from demos into products, and this lowers the cost of building one.',
+          category: 'AI & ML',
+          early_signal_score: 74,
+          trend_narrative: 'Weekly star growth has more than tripled.',
+          scored_at: '2026-09-01T00:00:00Z',
+        },
+        {
+          repo_id: TINYVEC,
+          summary: 'Tinyvec is a small vector database that runs inside your app.',
+          why_it_matters: 'Teams can add semantic search without running another server.',
+          category: 'Data',
+          early_signal_score: 61,
+          trend_narrative: null,
+          scored_at: '2026-10-18T00:00:00Z',
+        },
+      ],
+      score_history: [
+        scored(AGENTKIT, WEEK_AGO, 58, 50),
+        scored(QUIETDB, WEEK_AGO, 66, 70),
+        scored(AGENTKIT, TODAY, 74, 82),
+        scored(QUIETDB, TODAY, 65, 68),
+      ],
+    })
+    const { main } = await import('./send-digest')
+
+    await main()
+
+    expect(tables.digests).toHaveLength(1)
+    const issue = tables.digests[0] as { week_date: string; intro: string; projects: Array<Record<string, unknown>>; new_entrants: unknown[] }
+    expect(issue.week_date).toBe('October 20, 2026')
+    expect(issue.intro).toMatch(/^Agent tooling led the week/)
+    expect(issue.projects).toMatchObject([{ owner: 'acme', name: 'agentkit', score: 74, stars_7d: 420 }])
+    expect(issue.projects[0].rank_diff).toMatchObject({ from: { rank: 2 }, to: { rank: 1 }, rank_delta: 1 })
+    expect(issue.new_entrants).toMatchObject([{ owner: 'lena', name: 'tinyvec', score: 61 }])
+    expect(tables.llm_calls).toMatchObject([{ template: 'tuesday-briefing', error: null }])
+  })
+})
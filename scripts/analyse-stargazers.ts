@@ -0,0 +1,184 @@
+// Analyse Stargazers — star-farm check for fast-growing repos
+// Samples the most recent stargazers of every repo gaining MIN_STARS_7D+ stars
+// a week (account age, followers, repos, starring bursts, overlap with repos
+// already flagged), scores them with lib/star-quality.ts and stores the
+// fake-star probability in `star_quality`. pipeline.ts reads it into the
+// manipulation penalty, so this runs just before the pipeline.
+//
+// Run:        npx tsx scripts/analyse-stargazers.ts
+// Dry run:    npx tsx scripts/analyse-stargazers.ts --dry-run
+// One repo:   npx tsx scripts/analyse-stargazers.ts owner/name
+//
+// Environment variables required:
+//   NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, GITHUB_TOKEN
+
+import { config } from 'dotenv'
+config({ path: '.env.local' })
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '../lib/database.types.js'
+
+type ServiceClient = SupabaseClient<Database>
+
+const DRY_RUN = process.argv.includes('--dry-run')
+const MIN_STARS_7D = 100
+const SAMPLE_SIZE = 200
+const RESAMPLE_DAYS = 7
+const MAX_REPOS_PER_RUN = 60
+
+function log(msg: string): void {
+  const ts = new Date().toISOString().replace('T', ' ').split('.')[0]
+  console.log(`[${ts}] ${msg}`)
+}
+
+function logError(msg: string, err: unknown): void {
+  const message = err instanceof Error ? err.message : String(err)
+  console.error(`[ERROR] ${msg}: ${message}`)
+}
+
+interface Candidate {
+  id: string
+  owner: string
+  name: string
+  stars_7d: number
+}
+
+async function loadCandidates(db: ServiceClient): Promise<Candidate[]> {
+  const single = process.argv.slice(2).find((a) => a.includes('/'))
+  if (single) {
+    const [owner, name] = single.split('/')
+    const { data } = await db.from('repos').select('id, owner, name').eq('owner', owner).eq('name', name).maybeSingle()
+    if (!data) throw new Error(`repo ${single} is not tracked`)
+    return [{ ...(data as unknown as Omit<Candidate, 'stars_7d'>), stars_7d: 0 }]
+  }
+
+  const { data: latest } = await db
+    .from('repo_snapshots')
+    .select('snapshot_date')
+    .order('snapshot_date', { ascending: false })
+    .limit(1)
+  const today = (latest?.[0] as unknown as { snapshot_date: string } | undefined)?.snapshot_date
+  if (!today) return []
+
+  const { data: movers, error } = await db
+    .from('repo_snapshots')
+    .select('repo_id, stars_7d, repos!inner(owner, name)')
+    .eq('snapshot_date', today)
+    .gte('stars_7d', MIN_STARS_7D)
+    .order('stars_7d', { ascending: false })
+    .limit(MAX_REPOS_PER_RUN * 3)
+  if (error) throw new Error(`loading movers: ${error.message}`)
+  const rows = (movers ?? []) as unknown as Array<{ repo_id: string; stars_7d: number; repos: { owner: string; name: string } }>
+
+  // Skip repos sampled recently
+  const cutoff = new Date(Date.now() - RESAMPLE_DAYS * 86400000).toISOString()
+  const { data: fresh } = rows.length > 0
+    ? await db.from('star_quality').select('repo_id').gte('sampled_at', cutoff).in('repo_id', rows.map((r) => r.repo_id))
+    : { data: [] }
+  const skip = new Set(((fresh ?? []) as unknown as Array<{ repo_id: string }>).map((r) => r.repo_id))
+
+  return rows
+    .filter((r) => !skip.has(r.repo_id))
+    .slice(0, MAX_REPOS_PER_RUN)
+    .map((r) => ({ id: r.repo_id, owner: r.repos.owner, name: r.repos.name, stars_7d: r.stars_7d }))
+}
+
+// login → repos (already flagged suspicious) whose sample they appear in
+async function loadSuspiciousLogins(db: ServiceClient, threshold: number): Promise<Map<string, Set<string>>> {
+  const { data: flagged } = await db.from('star_quality').select('repo_id').gte('fake_star_probability', threshold)
+  const repoIds = ((flagged ?? []) as unknown as Array<{ repo_id: string }>).map((r) => r.repo_id)
+  const out = new Map<string, Set<string>>()
+  for (let i = 0; i < repoIds.length; i += 50) {
+    let offset = 0
+    while (true) {
+      const { data, error } = await db
+        .from('stargazer_samples')
+        .select('repo_id, login')
+        .in('repo_id', repoIds.slice(i, i + 50))
+        .order('repo_id')
+        .order('login')
+        .range(offset, offset + 999)
+      if (error) throw new Error(`loading stargazer samples: ${error.message}`)
+      const rows = (data ?? []) as unknown as Array<{ repo_id: string; login: string }>
+      for (const r of rows) {
+        const set = out.get(r.login) ?? new Set<string>()
+        set.add(r.repo_id)
+        out.set(r.login, set)
+      }
+      if (rows.length < 1000) break
+      offset += 1000
+    }
+  }
+  return out
+}
+
+async function main(): Promise<void> {
+  const [{ createServiceClient }, { getRecentStargazers }, quality] = await Promise.all([
+    import('../lib/supabase.js'),
+    import('../lib/github.js'),
+    import('../lib/star-quality.js'),
+  ])
+  const db: ServiceClient = createServiceClient()
+
+  log('=== Stargazer Analysis Starting ===')
+  if (DRY_RUN) log('DRY RUN — no writes will happen')
+
+  const [candidates, suspicious] = await Promise.all([
+    loadCandidates(db),
+    loadSuspiciousLogins(db, quality.SUSPICIOUS_PROBABILITY),
+  ])
+  log(`${candidates.length} repos to sample, ${suspicious.size} logins seen on flagged repos`)
+
+  let analysed = 0
+  let flagged = 0
+  let errors = 0
+  for (const repo of candidates) {
+    const label = `${repo.owner}/${repo.name}`
+    try {
+      const sample = await getRecentStargazers(repo.owner, repo.name, SAMPLE_SIZE)
+      // Overlap only counts other repos — a repo can't corroborate itself
+      const others = new Set(
+        sample.filter((s) => [...(suspicious.get(s.login) ?? [])].some((id) => id !== repo.id)).map((s) => s.login)
+      )
+      const result = quality.analyseStargazers(sample, others)
+      if (!result) {
+        log(`  ${label} → only ${sample.length} stargazers, skipped`)
+        continue
+      }
+      analysed++
+      const p = result.fake_star_probability
+      if (p >= quality.SUSPICIOUS_PROBABILITY) flagged++
+      const reasons = quality.describeStarQuality(result.features)
+      log(`  ${label} → p(fake)=${p} ${reasons.length > 0 ? `(${reasons.join('; ')})` : '(looks organic)'}`)
+      if (DRY_RUN) continue
+
+      const sampledAt = new Date().toISOString()
+      await db.from('stargazer_samples').delete().eq('repo_id', repo.id)
+      const { error: sampleError } = await db.from('stargazer_samples').insert(
+        sample.map((s) => ({ repo_id: repo.id, ...s, sampled_at: sampledAt }))
+      )
+      if (sampleError) logError(`Failed to store stargazer sample for ${label}`, sampleError)
+      const { error: qualityError } = await db.from('star_quality').upsert(
+        {
+          repo_id: repo.id,
+          sample_size: result.features.sample_size,
+          fake_star_probability: p,
+          features: JSON.parse(JSON.stringify(result.features)),
+          sampled_at: sampledAt,
+        },
+        { onConflict: 'repo_id' }
+      )
+      if (qualityError) throw new Error(qualityError.message)
+    } catch (err) {
+      logError(`Failed to analyse ${label}`, err)
+      errors++
+    }
+  }
+
+  log(`=== Done: ${analysed} analysed, ${flagged} flagged (p ≥ ${quality.SUSPICIOUS_PROBABILITY}), ${errors} errors ===`)
+}
+
+main().catch((err) => {
+  console.error('Stargazer analysis failed:', err)
+  process.exit(1)
+})
@@ -0,0 +1,105 @@
+// API key admin — issue, revoke, and inspect usage for /api keys.
+// Table: scripts/migrations/003-api-keys.sql
+//
+// Usage:
+//   npx tsx scripts/api-keys.ts create "<name>" <owner_email> [requests_per_minute]
+//   npx tsx scripts/api-keys.ts revoke <key_prefix>
+//   npx tsx scripts/api-keys.ts usage [days=7]
+//
+// Environment variables required:
+//   NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+
+import { config } from 'dotenv'
+config({ path: '.env.local' })
+
+const USAGE = `usage:
+  npx tsx scripts/api-keys.ts create "<name>" <owner_email> [requests_per_minute]
+  npx tsx scripts/api-keys.ts revoke <key_prefix>
+  npx tsx scripts/api-keys.ts usage [days=7]`
+
+async function main(): Promise<void> {
+  const [{ createServiceClient }, { generateApiKey, hashApiKey, apiKeyPrefix }] = await Promise.all([
+    import('../lib/supabase.js'),
+    import('../lib/api-keys.js'),
+  ])
+  const db = createServiceClient()
+  const [command, ...args] = process.argv.slice(2)
+
+  if (command === 'create') {
+    const [name, ownerEmail, rpmRaw] = args
+    if (!name || !ownerEmail) {
+      console.error(USAGE)
+      process.exit(1)
+    }
+    const key = generateApiKey()
+    const { error } = await db.from('api_keys').insert({
+      name,
+      owner_email: ownerEmail,
+      key_prefix: apiKeyPrefix(key),
+      key_hash: hashApiKey(key),
+      ...(rpmRaw ? { requests_per_minute: parseInt(rpmRaw, 10) } : {}),
+    })
+    if (error) throw new Error(error.message)
+    console.log(`created key for ${name} <${ownerEmail}>`)
+    console.log(`\n  ${key}\n`)
+    console.log('shown once — only its hash is stored.')
+    return
+  }
+
+  if (command === 'revoke') {
+    const [prefix] = args
+    if (!prefix) {
+      console.error(USAGE)
+      process.exit(1)
+    }
+    const { data, error } = await db
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('key_prefix', prefix)
+      .is('revoked_at', null)
+      .select('name')
+    if (error) throw new Error(error.message)
+    console.log(`revoked ${data?.length ?? 0} key(s) with prefix ${prefix}`)
+    return
+  }
+
+  if (command === 'usage') {
+    const days = parseInt(args[0] ?? '7', 10)
+    const since = new Date(Date.now() - days * 86400_000).toISOString().slice(0, 10)
+    const [{ data: usage }, { data: keys }] = await Promise.all([
+      db.from('api_usage').select('*').gte('usage_date', since),
+      db.from('api_keys').select('id, name, key_prefix, requests_per_minute, revoked_at'),
+    ])
+    const keyMap = new Map(
+      ((keys ?? []) as unknown as Array<{ id: string; name: string; key_prefix: string; revoked_at: string | null }>)
+        .map((k) => [k.id, k])
+    )
+
+    const totals = new Map<string, { total: number; byEndpoint: Map<string, number> }>()
+    for (const row of (usage ?? []) as unknown as Array<{ key_id: string; endpoint: string; request_count: number }>) {
+      const entry = totals.get(row.key_id) ?? { total: 0, byEndpoint: new Map<string, number>() }
+      entry.total += row.request_count
+      entry.byEndpoint.set(row.endpoint, (entry.byEndpoint.get(row.endpoint) ?? 0) + row.request_count)
+      totals.set(row.key_id, entry)
+    }
+
+    console.log(`API usage since ${since}:\n`)
+    const sorted = [...totals.entries()].sort((a, b) => b[1].total - a[1].total)
+    if (sorted.length === 0) console.log('  no keyed requests')
+    for (const [keyId, { total, byEndpoint }] of sorted) {
+      const key = keyMap.get(keyId)
+      const label = key ? `${key.name} (${key.key_prefix}…)${key.revoked_at ? ' [revoked]' : ''}` : keyId
+      const endpoints = [...byEndpoint.entries()].map(([e, n]) => `${e}=${n}`).join(', ')
+      console.log(`  ${String(total).padStart(8)}  ${label}  — ${endpoints}`)
+    }
+    return
+  }
+
+  console.error(USAGE)
+  process.exit(1)
+}
+
+main().catch((err) => {
+  console.error('api-keys failed:', err)
+  process.exit(1)
+})
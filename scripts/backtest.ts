@@ -0,0 +1,184 @@
+// Score Backtest — "if we had used these weights N months ago, which repos
+// would we have flagged early?"
+// Replays repo_snapshots + weekly_stats day by day through calculateScore()
+// (lib/backtest.ts) and reports precision and lead time against the
+// getBreakoutRepos() star thresholds. With --model or --weights the
+// production model is replayed too, so both reports print side by side.
+//
+// Usage:
+//   npx tsx scripts/backtest.ts [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--top 20]
+//                               [--horizon 60] [--model <version>]
+//                               [--weights star_velocity=30,contributor_ratio=15]
+//                               [--min-stars 100] [--json report.json]
+//   Defaults: the 180 days ending at the latest snapshot, production model.
+//
+// Environment variables required:
+//   NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+
+import { config } from 'dotenv'
+config({ path: '.env.local' })
+
+import { writeFileSync } from 'fs'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '../lib/database.types.js'
+import type { BacktestReport, SnapshotPoint, WeeklyPoint } from '../lib/backtest.js'
+
+type ServiceClient = SupabaseClient<Database>
+
+const DEFAULT_DAYS = 180
+// Breakouts compare against 30 days back, and inputs look back 30 days too
+const HISTORY_PAD_DAYS = 45
+
+function log(msg: string): void {
+  const ts = new Date().toISOString().replace('T', ' ').split('.')[0]
+  console.log(`[${ts}] ${msg}`)
+}
+
+function flag(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`)
+  return i >= 0 ? process.argv[i + 1] : undefined
+}
+
+async function loadPaged<T>(
+  label: string,
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>,
+): Promise<T[]> {
+  const rows: T[] = []
+  let offset = 0
+  while (true) {
+    const { data, error } = await fetchPage(offset, offset + 999)
+    if (error) throw new Error(`loading ${label}: ${error.message}`)
+    const typed = (data ?? []) as unknown as T[]
+    rows.push(...typed)
+    if (typed.length < 1000) break
+    offset += 1000
+    if (offset % 50_000 === 0) log(`  ${label}: ${offset.toLocaleString()} rows…`)
+  }
+  return rows
+}
+
+function printReport(report: BacktestReport, names: Map<string, string>): void {
+  const pct = (n: number | null) => (n == null ? 'n/a' : `${Math.round(n * 1000) / 10}%`)
+  console.log(`\n── ${report.model_version} · ${report.from} → ${report.to} (${report.days} days) ──`)
+  console.log(`  top ${report.top_n}, horizon ${report.horizon_days} days`)
+  if (report.unreplayed_signals.length > 0) {
+    console.log(`  not replayed (no stored history): ${report.unreplayed_signals.join(', ')} — weighted 0, other weights scaled to 100`)
+  }
+  console.log(`  precision: ${pct(report.precision)}  (${report.true_flags}/${report.evaluable_flags} evaluable flags broke out; ${report.flags} repos ever in top ${report.top_n})`)
+  console.log(`  recall:    ${pct(report.recall)}  (${report.caught_early}/${report.breakouts} breakouts flagged before the day they broke out)`)
+  console.log(`  lead time: median ${report.median_lead_days ?? 'n/a'} days, mean ${report.mean_lead_days ?? 'n/a'} days`)
+  const early = report.outcomes.filter((o) => o.lead_days != null && o.lead_days > 0).slice(0, 10)
+  if (early.length > 0) {
+    console.log('\n  earliest catches:')
+    for (const o of early) {
+      console.log(
+        `    ${String(o.lead_days).padStart(3)}d early  best #${String(o.best_rank).padEnd(3)} ${o.threshold.toLocaleString().padStart(7)}★ on ${o.breakout_date}  ${names.get(o.repo_id) ?? o.repo_id}`
+      )
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  const [{ createServiceClient }, backtest, models] = await Promise.all([
+    import('../lib/supabase.js'),
+    import('../lib/backtest.js'),
+    import('../lib/score-models.js'),
+  ])
+  const db: ServiceClient = createServiceClient()
+
+  const topN = parseInt(flag('top') ?? '20', 10)
+  const horizonDays = parseInt(flag('horizon') ?? '60', 10)
+  const minStars = parseInt(flag('min-stars') ?? '100', 10)
+
+  const production = models.productionModel()
+  let model = flag('model') ? models.getScoringModel(flag('model')!) : production
+  const weights = flag('weights')
+  if (weights) model = backtest.withWeightOverrides(model, weights)
+
+  let to = flag('to')
+  if (!to) {
+    const { data } = await db.from('repo_snapshots').select('snapshot_date').order('snapshot_date', { ascending: false }).limit(1)
+    to = (data?.[0] as unknown as { snapshot_date: string } | undefined)?.snapshot_date
+    if (!to) throw new Error('no snapshots found')
+  }
+  const from = flag('from') ?? backtest.addDays(to, -DEFAULT_DAYS)
+  const historyFrom = backtest.addDays(from, -HISTORY_PAD_DAYS)
+
+  log('=== Score Backtest Starting ===')
+  log(`window ${from} → ${to}, top ${topN}, horizon ${horizonDays}d, repos ≥ ${minStars}★`)
+
+  const repos = await loadPaged<{ id: string; owner: string; name: string; contributors: number }>('repos', (a, b) =>
+    db.from('repos').select('id, owner, name, contributors').gte('stars', minStars).order('id').range(a, b)
+  )
+  const universe = new Set(repos.map((r) => r.id))
+  log(`universe: ${repos.length} repos`)
+
+  const snapshots = await loadPaged<{ repo_id: string; snapshot_date: string; stars: number; forks: number; stars_7d: number }>(
+    'repo_snapshots',
+    (a, b) =>
+      db
+        .from('repo_snapshots')
+        .select('repo_id, snapshot_date, stars, forks, stars_7d')
+        .gte('snapshot_date', historyFrom)
+        .lte('snapshot_date', to)
+        .order('snapshot_date')
+        .order('repo_id')
+        .range(a, b)
+  )
+  const weekly = await loadPaged<{ repo_id: string; snapshot_date: string; contributors: number; commit_count_4w: number }>(
+    'weekly_stats',
+    (a, b) =>
+      db
+        .from('weekly_stats')
+        .select('repo_id, snapshot_date, contributors, commit_count_4w')
+        .gte('snapshot_date', historyFrom)
+        .lte('snapshot_date', to)
+        .order('snapshot_date')
+        .order('repo_id')
+        .range(a, b)
+  )
+  log(`loaded ${snapshots.length.toLocaleString()} snapshots, ${weekly.length.toLocaleString()} weekly rows`)
+
+  const snapsByRepo = new Map<string, SnapshotPoint[]>()
+  for (const s of snapshots) {
+    if (!universe.has(s.repo_id)) continue
+    const arr = snapsByRepo.get(s.repo_id) ?? []
+    arr.push({ date: s.snapshot_date, stars: s.stars, forks: s.forks, stars_7d: s.stars_7d })
+    snapsByRepo.set(s.repo_id, arr)
+  }
+  const weeklyByRepo = new Map<string, WeeklyPoint[]>()
+  for (const w of weekly) {
+    if (!universe.has(w.repo_id)) continue
+    const arr = weeklyByRepo.get(w.repo_id) ?? []
+    arr.push({ date: w.snapshot_date, contributors: w.contributors, commits_4w: w.commit_count_4w })
+    weeklyByRepo.set(w.repo_id, arr)
+  }
+  const histories = repos
+    .filter((r) => snapsByRepo.has(r.id))
+    .map((r) => backtest.buildHistory(r.id, r.contributors ?? 0, snapsByRepo.get(r.id)!, weeklyByRepo.get(r.id) ?? []))
+  const names = new Map(repos.map((r) => [r.id, `${r.owner}/${r.name}`]))
+
+  const runs = model.version === production.version ? [model] : [production, model]
+  const reports: BacktestReport[] = []
+  for (const m of runs) {
+    log(`replaying ${histories.length} repos through ${m.version}…`)
+    reports.push(backtest.runBacktest(histories, { from, to, topN, horizonDays, model: m }))
+  }
+
+  for (const r of reports) printReport(r, names)
+
+  const jsonPath = flag('json')
+  if (jsonPath) {
+    const withNames = reports.map((r) => ({
+      ...r,
+      outcomes: r.outcomes.map((o) => ({ ...o, full_name: names.get(o.repo_id) ?? null })),
+    }))
+    writeFileSync(jsonPath, JSON.stringify(withNames, null, 2))
+    log(`wrote ${jsonPath}`)
+  }
+}
+
+main().catch((err) => {
+  console.error('Score Backtest failed:', err)
+  process.exit(1)
+})
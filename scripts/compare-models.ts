@@ -0,0 +1,117 @@
+// Compare Models — production vs candidate scoring-model rankings
+// Reads production scores from `enrichments` and the candidate's shadow scores
+// from `model_scores` (written by pipeline.ts when SCORE_CANDIDATE_MODEL is
+// set), then reports rank correlation, top-N overlap and the biggest movers
+// over the repos both models scored.
+//
+// Usage:
+//   npx tsx scripts/compare-models.ts [candidate_version] [top_n=20]
+//   (candidate defaults to SCORE_CANDIDATE_MODEL)
+//   npx tsx scripts/compare-models.ts --list
+//
+// Environment variables required:
+//   NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+
+import { config } from 'dotenv'
+config({ path: '.env.local' })
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '../lib/database.types.js'
+
+type ServiceClient = SupabaseClient<Database>
+
+async function loadAll<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>,
+): Promise<T[]> {
+  const rows: T[] = []
+  let offset = 0
+  while (true) {
+    const { data, error } = await fetchPage(offset, offset + 999)
+    if (error) throw new Error(error.message)
+    const typed = (data ?? []) as unknown as T[]
+    rows.push(...typed)
+    if (typed.length < 1000) break
+    offset += 1000
+  }
+  return rows
+}
+
+async function main(): Promise<void> {
+  const [{ createServiceClient }, models] = await Promise.all([
+    import('../lib/supabase.js'),
+    import('../lib/score-models.js'),
+  ])
+  const args = process.argv.slice(2)
+
+  if (args.includes('--list')) {
+    for (const m of Object.values(models.SCORING_MODELS)) {
+      const tag = m.version === models.PRODUCTION_MODEL_VERSION ? ' [production]' : ''
+      const problems = models.validateModel(m)
+      console.log(`${m.version}${tag} — ${m.description}`)
+      console.log(`  weights: ${models.SIGNAL_KEYS.map((k) => `${k.replace(/_score$/, '')}=${m.weights[k]}`).join(', ')}`)
+      if (problems.length > 0) console.log(`  INVALID: ${problems.join('; ')}`)
+    }
+    return
+  }
+
+  const version = args[0] ?? process.env.SCORE_CANDIDATE_MODEL
+  if (!version) {
+    console.error('usage: npx tsx scripts/compare-models.ts [candidate_version] [top_n=20]')
+    process.exit(1)
+  }
+  const candidate = models.getScoringModel(version)
+  const topN = parseInt(args[1] ?? '20', 10)
+  const db: ServiceClient = createServiceClient()
+
+  const [production, shadow] = await Promise.all([
+    loadAll<{ repo_id: string; early_signal_score: number }>((from, to) =>
+      db.from('enrichments').select('repo_id, early_signal_score').order('repo_id').range(from, to)
+    ),
+    loadAll<{ repo_id: string; score: number }>((from, to) =>
+      db
+        .from('model_scores')
+        .select('repo_id, score')
+        .eq('model_version', candidate.version)
+        .order('repo_id')
+        .range(from, to)
+    ),
+  ])
+  if (shadow.length === 0) {
+    console.log(`no shadow scores for ${candidate.version} yet — run the pipeline with SCORE_CANDIDATE_MODEL=${candidate.version}`)
+    return
+  }
+
+  const result = models.compareRankings(
+    production.map((r) => ({ repo_id: r.repo_id, score: r.early_signal_score })),
+    shadow,
+    topN,
+  )
+
+  const ids = Array.from(
+    new Set([...result.entered_top_n, ...result.left_top_n, ...result.biggest_moves.map((m) => m.repo_id)])
+  )
+  const { data: repos } = ids.length > 0
+    ? await db.from('repos').select('id, owner, name').in('id', ids)
+    : { data: [] }
+  const names = new Map(
+    ((repos ?? []) as unknown as Array<{ id: string; owner: string; name: string }>).map((r) => [r.id, `${r.owner}/${r.name}`])
+  )
+  const label = (id: string) => names.get(id) ?? id
+
+  console.log(`\n${models.PRODUCTION_MODEL_VERSION} (production) vs ${candidate.version} (candidate)`)
+  console.log(`  repos scored by both: ${result.repos}`)
+  console.log(`  spearman rank correlation: ${result.spearman}`)
+  console.log(`  top-${result.top_n} overlap: ${Math.round(result.top_n_overlap * 100)}%`)
+  if (result.entered_top_n.length > 0) console.log(`  entered top ${result.top_n}: ${result.entered_top_n.map(label).join(', ')}`)
+  if (result.left_top_n.length > 0) console.log(`  left top ${result.top_n}: ${result.left_top_n.map(label).join(', ')}`)
+  console.log('\n  biggest moves (production rank → candidate rank):')
+  for (const m of result.biggest_moves) {
+    const arrow = m.delta > 0 ? `▲${m.delta}` : `▼${-m.delta}`
+    console.log(`    ${String(m.production_rank).padStart(5)} → ${String(m.candidate_rank).padEnd(5)} ${arrow.padEnd(7)} ${label(m.repo_id)}`)
+  }
+}
+
+main().catch((err) => {
+  console.error('compare-models failed:', err)
+  process.exit(1)
+})
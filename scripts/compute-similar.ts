@@ -0,0 +1,152 @@
+// Compute Similar Repos — nearest-neighbour recommendations for project pages
+// Loads every repo's topics, language and description/enrichment/README text
+// plus the HN thread co-occurrence recorded by scripts/ingest-hn.ts, scores candidate
+// pairs (lib/similarity.ts) and rewrites `similar_repos` with the top
+// neighbours per repo and a "why similar" explanation for each.
+//
+// Run:      npx tsx scripts/compute-similar.ts
+// Dry run:  npx tsx scripts/compute-similar.ts --dry-run
+//
+// Environment variables required:
+//   NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+
+import { config } from 'dotenv'
+config({ path: '.env.local' })
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '../lib/database.types.js'
+import type { SimilarityRepo } from '../lib/similarity.js'
+
+type ServiceClient = SupabaseClient<Database>
+
+const DRY_RUN = process.argv.includes('--dry-run')
+const BATCH_SIZE = 500
+const PAGE_SIZE = 1000
+
+function log(msg: string): void {
+  const ts = new Date().toISOString().replace('T', ' ').split('.')[0]
+  console.log(`[${ts}] ${msg}`)
+}
+
+function logError(msg: string, err: unknown): void {
+  const message = err instanceof Error ? err.message : String(err)
+  console.error(`[ERROR] ${msg}: ${message}`)
+}
+
+async function loadPaged<Row>(db: ServiceClient, table: 'repos' | 'enrichments' | 'hn_thread_repos', columns: string, orderBy: string): Promise<Row[]> {
+  const rows: Row[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await db
+      .from(table)
+      .select(columns)
+      .order(orderBy)
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) throw new Error(`loading ${table}: ${error.message}`)
+    rows.push(...((data ?? []) as unknown as Row[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return rows
+}
+
+async function loadRepos(db: ServiceClient): Promise<SimilarityRepo[]> {
+  const [repos, enrichments] = await Promise.all([
+    loadPaged<{ id: string; owner: string; name: string; language: string | null; topics: string[] | null; description: string | null }>(
+      db,
+      'repos',
+      'id, owner, name, language, topics, description',
+      'id'
+    ),
+    loadPaged<{ repo_id: string; summary: string; why_it_matters: string; readme_excerpt: string | null }>(
+      db,
+      'enrichments',
+      'repo_id, summary, why_it_matters, readme_excerpt',
+      'repo_id'
+    ),
+  ])
+  const enrichmentById = new Map(enrichments.map((e) => [e.repo_id, e]))
+  return repos.map((r) => {
+    const e = enrichmentById.get(r.id)
+    return {
+      id: r.id,
+      owner: r.owner,
+      name: r.name,
+      language: r.language,
+      topics: r.topics ?? [],
+      text: [r.description, e?.summary, e?.why_it_matters, e?.readme_excerpt].filter(Boolean).join('\n'),
+    }
+  })
+}
+
+async function main(): Promise<void> {
+  const [{ createServiceClient }, similarity] = await Promise.all([
+    import('../lib/supabase.js'),
+    import('../lib/similarity.js'),
+  ])
+  const db: ServiceClient = createServiceClient()
+  const runStart = new Date().toISOString()
+
+  log('=== Computing Similar Repos ===')
+  if (DRY_RUN) log('DRY RUN — no writes will happen')
+
+  const [repos, links] = await Promise.all([
+    loadRepos(db),
+    loadPaged<{ story_id: number; repo_id: string }>(db, 'hn_thread_repos', 'story_id, repo_id', 'story_id'),
+  ])
+  const cooccurrence = similarity.buildCooccurrence(links)
+  log(`${repos.length} repos, ${links.length} HN thread links`)
+
+  const started = Date.now()
+  const neighbours = similarity.computeSimilarRepos(repos, cooccurrence)
+  const rows = [...neighbours.entries()].flatMap(([repoId, list]) =>
+    list.map((s, i) => ({
+      repo_id: repoId,
+      similar_repo_id: s.similar_repo_id,
+      rank: i + 1,
+      score: s.score,
+      components: { ...s.components },
+      reasons: s.reasons,
+      computed_at: runStart,
+    }))
+  )
+  const covered = [...neighbours.values()].filter((l) => l.length > 0).length
+  log(`${rows.length} pairs for ${covered}/${repos.length} repos in ${((Date.now() - started) / 1000).toFixed(1)}s`)
+
+  if (DRY_RUN) {
+    const byId = new Map(repos.map((r) => [r.id, r]))
+    for (const [repoId, list] of [...neighbours.entries()].filter(([, l]) => l.length > 0).slice(0, 5)) {
+      const r = byId.get(repoId)!
+      log(`  ${r.owner}/${r.name}`)
+      for (const s of list.slice(0, 3)) {
+        const o = byId.get(s.similar_repo_id)!
+        log(`    ${s.score.toFixed(3)} ${o.owner}/${o.name} — ${s.reasons.join('; ')}`)
+      }
+    }
+    return
+  }
+
+  let written = 0
+  let errors = 0
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const batch = rows.slice(i, i + BATCH_SIZE)
+    const { error } = await db.from('similar_repos').upsert(batch, { onConflict: 'repo_id,similar_repo_id' })
+    if (error) {
+      logError(`Failed to write batch at ${i}`, error)
+      errors++
+    } else {
+      written += batch.length
+    }
+  }
+
+  // Only prune stale pairs after a clean write — a partial run keeps yesterday's rows
+  if (errors === 0) {
+    const { error } = await db.from('similar_repos').delete().lt('computed_at', runStart)
+    if (error) logError('Failed to prune stale pairs', error)
+  }
+
+  log(`=== Done: ${written} pairs written, ${errors} failed batches ===`)
+}
+
+main().catch((err) => {
+  console.error('Similar-repo computation failed:', err)
+  process.exit(1)
+})
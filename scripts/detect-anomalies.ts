@@ -10,7 +10,7 @@
 //
 // Run locally: npx tsx scripts/detect-anomalies.ts
 // Dry run:    npx tsx scripts/detect-anomalies.ts --dry-run
-// Daily cron: see .github/workflows/anomaly-watcher.yml
+// Daily: the detect-anomalies job in lib/jobs.ts (11:00 UTC, anomaly-watcher.yml)
 //
 // Environment variables required:
 //   NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, ANTHROPIC_API_KEY
@@ -18,8 +18,11 @@
 import { config } from 'dotenv'
 config({ path: '.env.local' })
 
+import { failActiveRun, startRun } from '../lib/pipeline-runs.js'
+
 import type { SupabaseClient } from '@supabase/supabase-js'
-import type { Database, AnomalyType } from '../lib/database.types.js'
+import type { Database, Anomaly, AnomalyType } from '../lib/database.types.js'
+import type { PromptTemplate } from '../lib/llm.js'
 
 type ServiceClient = SupabaseClient<Database>
 
@@ -455,6 +458,13 @@ Respond with valid JSON only, no fences or extra text. The "narratives" array MU
 {"narratives": ["one sentence for Anomaly 1", "one sentence for Anomaly 2", ...]}`
 }
 
+const NARRATIVE_PROMPT: PromptTemplate<NarrativeInput[]> = {
+  name: 'anomaly-narrative',
+  version: 1,
+  maxTokens: 800,
+  render: buildNarrativePrompt,
+}
+
 async function narrateTopAnomalies(
   db: ServiceClient,
   inserted: Array<{ id: string; repo_id: string; severity: number }>,
@@ -503,27 +513,20 @@ async function narrateTopAnomalies(
   }
   if (items.length === 0) return
 
-  const { default: Anthropic } = await import('@anthropic-ai/sdk')
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
+  const { createLlmClient, supabaseCache, supabaseLedger, runUsage, formatUsage } = await import('../lib/llm.js')
+  const llm = createLlmClient({ cache: supabaseCache(db), ledger: supabaseLedger(db) })
 
   log(`narrating ${items.length} anomalies with Claude...`)
   let parsed: { narratives: string[] }
   try {
-    const message = await anthropic.messages.create({
-      model: 'claude-sonnet-4-6',
-      max_tokens: 800,
-      messages: [{ role: 'user', content: buildNarrativePrompt(items) }],
-    })
-    const content = message.content[0]
-    if (!content || content.type !== 'text') {
-      log('narrator: unexpected response shape, skipping')
-      return
-    }
-    const cleaned = content.text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
+    const text = await llm.text(NARRATIVE_PROMPT, items, { table: 'anomalies', ids: items.map((it) => it.anomaly_id) })
+    const cleaned = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
     parsed = JSON.parse(cleaned) as typeof parsed
   } catch (err) {
     logError('narrator: Claude call or JSON parse failed', err)
     return
+  } finally {
+    for (const line of formatUsage(runUsage())) log(`narrator: ${line}`)
   }
 
   // Match by array position — items[i] corresponds to narratives[i].
@@ -553,9 +556,41 @@ async function narrateTopAnomalies(
 
 // ================== MAIN ==================
 
-async function main(): Promise<void> {
+// ================== WEBHOOKS ==================
+
+// Queue one anomaly.created event per new row, after narration so receivers
+// get the narrative. Delivery happens in `scripts/webhooks.ts deliver`.
+async function publishWebhooks(db: ServiceClient, ids: string[]): Promise<void> {
+  if (ids.length === 0) return
+  const [{ enqueueWebhookEvent, repoRef }, { toApiAnomaly }] = await Promise.all([
+    import('../lib/webhooks.js'),
+    import('../lib/api.js'),
+  ])
+  const { data: rows } = await db.from('anomalies').select('*').in('id', ids)
+  const anomalies = (rows ?? []) as unknown as Anomaly[]
+  const repoIds = Array.from(new Set(anomalies.map((a) => a.repo_id)))
+  const { data: repos } = await db.from('repos').select('id, owner, name').in('id', repoIds)
+  const repoMap = new Map(
+    ((repos ?? []) as unknown as Array<{ id: string; owner: string; name: string }>).map((r) => [r.id, r]),
+  )
+
+  let queued = 0
+  for (const a of anomalies) {
+    const repo = repoMap.get(a.repo_id)
+    if (!repo) continue
+    const eventId = await enqueueWebhookEvent(db, 'anomaly.created', {
+      repo: repoRef(repo),
+      anomaly: { ...toApiAnomaly(a), metadata: a.metadata },
+    })
+    if (eventId) queued++
+  }
+  log(`queued ${queued} anomaly webhooks`)
+}
+
+export async function main(): Promise<void> {
   const { createServiceClient } = await import('../lib/supabase.js')
   const db = createServiceClient()
+  const run = await startRun(db, 'detect-anomalies', { dryRun: DRY_RUN })
 
   log('=== Anomaly Watcher Starting ===')
   if (DRY_RUN) log('DRY RUN — no writes will happen')
@@ -564,6 +599,7 @@ async function main(): Promise<void> {
   log(`loaded ${enrichedIds.size} enriched repos`)
   if (enrichedIds.size === 0) {
     log('no enriched repos — nothing to do')
+    await run.finish()
     return
   }
 
@@ -573,10 +609,13 @@ async function main(): Promise<void> {
   candidates.push(...(await detectMaintainerSilent(db, enrichedIds)))
   candidates.push(...(await detectReleaseCadenceShift(db, enrichedIds)))
   log(`total candidates across detectors: ${candidates.length}`)
+  run.set('candidates', candidates.length)
 
   const fresh = await filterByCooldown(db, candidates)
+  run.set('fresh', fresh.length)
   if (fresh.length === 0) {
     log('no fresh anomalies after cooldown — exiting')
+    await run.finish()
     return
   }
 
@@ -586,17 +625,25 @@ async function main(): Promise<void> {
     for (const f of top) {
       log(`  [${f.type} sev=${f.severity}] repo=${f.repo_id} ${JSON.stringify(f.metadata)}`)
     }
+    await run.finish()
     return
   }
 
   const inserted = await insertAnomalies(db, fresh)
   log(`inserted ${inserted.length} anomalies`)
+  run.set('inserted', inserted.length)
 
   await narrateTopAnomalies(db, inserted, fresh)
+  await publishWebhooks(db, inserted.map((a) => a.id))
   log('=== Anomaly Watcher Complete ===')
+  await run.finish()
 }
 
-main().catch((err) => {
-  console.error('Anomaly Watcher failed:', err)
-  process.exit(1)
-})
+// Not on import from scripts/agents.test.ts, which awaits main() itself
+if (!process.env.VITEST) {
+  main().catch(async (err) => {
+    console.error('Anomaly Watcher failed:', err)
+    await failActiveRun(err)
+    process.exit(1)
+  })
+}
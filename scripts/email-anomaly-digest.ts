@@ -4,7 +4,7 @@
 //
 // Run locally: npx tsx scripts/email-anomaly-digest.ts
 // Dry run:    npx tsx scripts/email-anomaly-digest.ts --dry-run
-// Daily cron: see .github/workflows/anomaly-watcher.yml (runs after detect-anomalies.ts)
+// Daily: the email-anomaly-digest job in lib/jobs.ts (runs after detect-anomalies)
 //
 // Environment variables required:
 //   NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY,
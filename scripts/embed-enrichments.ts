@@ -0,0 +1,133 @@
+// Embed Enrichments — vectors for semantic search
+// Builds each enriched repo's search text (lib/embeddings.ts), skips repos
+// whose text and model are unchanged since the last run, and upserts the rest
+// into `enrichment_embeddings` in batches. /api/search?mode=semantic blends
+// these with lexical rank.
+//
+// Run:      npx tsx scripts/embed-enrichments.ts
+// Dry run:  npx tsx scripts/embed-enrichments.ts --dry-run
+//
+// Environment variables required:
+//   NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+//   VOYAGE_API_KEY (or EMBEDDING_PROVIDER=stub for local runs)
+
+import { config } from 'dotenv'
+config({ path: '.env.local' })
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '../lib/database.types.js'
+
+type ServiceClient = SupabaseClient<Database>
+
+const DRY_RUN = process.argv.includes('--dry-run')
+const BATCH_SIZE = 64
+const PAGE_SIZE = 1000
+
+function log(msg: string): void {
+  const ts = new Date().toISOString().replace('T', ' ').split('.')[0]
+  console.log(`[${ts}] ${msg}`)
+}
+
+function logError(msg: string, err: unknown): void {
+  const message = err instanceof Error ? err.message : String(err)
+  console.error(`[ERROR] ${msg}: ${message}`)
+}
+
+interface EnrichedRepo {
+  repo_id: string
+  summary: string
+  why_it_matters: string
+  category: string
+  repos: { owner: string; name: string; description: string | null; topics: string[] | null }
+}
+
+async function loadEnriched(db: ServiceClient): Promise<EnrichedRepo[]> {
+  const rows: EnrichedRepo[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await db
+      .from('enrichments')
+      .select('repo_id, summary, why_it_matters, category, repos!inner(owner, name, description, topics)')
+      .order('repo_id')
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) throw new Error(`loading enrichments: ${error.message}`)
+    rows.push(...((data ?? []) as unknown as EnrichedRepo[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return rows
+}
+
+// repo_id → "model:content_hash" of the stored vector
+async function loadExisting(db: ServiceClient): Promise<Map<string, string>> {
+  const out = new Map<string, string>()
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await db
+      .from('enrichment_embeddings')
+      .select('repo_id, model, content_hash')
+      .order('repo_id')
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) throw new Error(`loading embeddings: ${error.message}`)
+    const rows = (data ?? []) as unknown as Array<{ repo_id: string; model: string; content_hash: string }>
+    for (const r of rows) out.set(r.repo_id, `${r.model}:${r.content_hash}`)
+    if (rows.length < PAGE_SIZE) break
+  }
+  return out
+}
+
+async function main(): Promise<void> {
+  const [{ createServiceClient }, embeddings] = await Promise.all([
+    import('../lib/supabase.js'),
+    import('../lib/embeddings.js'),
+  ])
+  const provider = embeddings.getEmbeddingProvider()
+  if (!provider) {
+    log('No embedding provider configured (set VOYAGE_API_KEY or EMBEDDING_PROVIDER) — skipping')
+    return
+  }
+  const db: ServiceClient = createServiceClient()
+
+  log(`=== Embedding Enrichments (${provider.name}/${provider.model}) ===`)
+  if (DRY_RUN) log('DRY RUN — no writes will happen')
+
+  const [enriched, existing] = await Promise.all([loadEnriched(db), loadExisting(db)])
+  const pending = enriched
+    .map((e) => {
+      const text = embeddings.embeddingText(e.repos, e)
+      return { repo_id: e.repo_id, label: `${e.repos.owner}/${e.repos.name}`, text, hash: embeddings.contentHash(text) }
+    })
+    .filter((p) => existing.get(p.repo_id) !== `${provider.model}:${p.hash}`)
+  log(`${enriched.length} enriched repos, ${pending.length} need (re-)embedding`)
+  if (DRY_RUN) return
+
+  let written = 0
+  let errors = 0
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    const batch = pending.slice(i, i + BATCH_SIZE)
+    try {
+      const vectors = await provider.embed(batch.map((p) => p.text), 'document')
+      const embeddedAt = new Date().toISOString()
+      const { error } = await db.from('enrichment_embeddings').upsert(
+        batch.map((p, j) => ({
+          repo_id: p.repo_id,
+          model: provider.model,
+          content_hash: p.hash,
+          embedding: embeddings.toVectorLiteral(vectors[j]),
+          embedded_at: embeddedAt,
+        })),
+        { onConflict: 'repo_id' }
+      )
+      if (error) throw new Error(error.message)
+      written += batch.length
+      log(`  ${written}/${pending.length} embedded`)
+    } catch (err) {
+      logError(`Failed to embed batch starting at ${batch[0].label}`, err)
+      errors++
+    }
+  }
+
+  log(`=== Done: ${written} embedded, ${errors} failed batches ===`)
+}
+
+main().catch((err) => {
+  console.error('Embedding failed:', err)
+  process.exit(1)
+})
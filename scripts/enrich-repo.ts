@@ -106,7 +106,7 @@ async function main() {
     language: row.language,
     topics: row.topics ?? undefined,
     readme_excerpt: readmeExcerpt || undefined,
-  }, score, breakdown, true)
+  }, score, breakdown, true, ['manual'])
 
   console.log('done ✓')
 }
@@ -0,0 +1,79 @@
+// The watchlist evaluator against an in-memory database (lib/fake-db.ts)
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '../lib/database.types'
+import { fakeDb, type Tables } from '../lib/fake-db'
+
+const state = vi.hoisted(() => ({ db: null as SupabaseClient<Database> | null }))
+
+vi.mock('../lib/supabase', () => ({
+  supabase: null,
+  createServiceClient: () => state.db,
+}))
+
+const AGENTKIT = '6f1c2a9e-3b4d-4e5f-8a7b-1c2d3e4f5a6b'
+const QUIETDB = '0d9e8f7a-6b5c-4d3e-9f2a-1b0c9d8e7f6a'
+
+function rule(id: string, repoId: string, lastScore: number) {
+  return {
+    id,
+    item_id: `item-${id}`,
+    rule: { kind: 'score_crosses', threshold: 60, direction: 'up' },
+    last_score: lastScore,
+    last_evaluated_at: '2026-10-19T06:00:00Z',
+    last_fired_at: null,
+    created_at: '2026-10-01T00:00:00Z',
+    watchlist_items: { email: 'ana@example.com', repo_id: repoId },
+  }
+}
+
+// fakeDb(tables) with `table` reads replaced or preceded by `hook`
+function hooked(tables: Tables, table: string, hook: () => unknown): SupabaseClient<Database> {
+  const base = fakeDb(tables)
+  return { ...base, from: (t: string) => (t === table ? hook() ?? base.from(t as never) : base.from(t as never)) } as never
+}
+
+let tables: Tables
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  tables = {
+    watch_rules: [rule('r-agentkit', AGENTKIT, 55), rule('r-quietdb', QUIETDB, 64)],
+    enrichments: [
+      { repo_id: AGENTKIT, early_signal_score: 70 },
+      { repo_id: QUIETDB, early_signal_score: 65 },
+    ],
+  }
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('evaluate-watchlists', () => {
+  it('does not bring back a rule deleted while the run was evaluating', async () => {
+    // The subscriber removes the quietdb rule through /api/v1/watchlist mid-run
+    state.db = hooked(tables, 'anomalies', () => {
+      tables.watch_rules = tables.watch_rules.filter((r) => r.id !== 'r-quietdb')
+    })
+    const { main } = await import('./evaluate-watchlists')
+
+    await main()
+
+    expect(tables.watch_rules.map((r) => r.id)).toEqual(['r-agentkit'])
+    expect(tables.watch_rules[0]).toMatchObject({ last_score: 70 })
+    expect(tables.watch_alerts.map((a) => a.rule_id)).toEqual(['r-agentkit'])
+  })
+
+  it('aborts without writing when a signal read fails', async () => {
+    const failed = { data: null, error: { message: 'canceling statement due to statement timeout' }, count: null }
+    const failing = { select: () => failing, in: () => failing, then: (ok: (r: typeof failed) => unknown) => Promise.resolve(failed).then(ok) }
+    state.db = hooked(tables, 'enrichments', () => failing)
+    const { main } = await import('./evaluate-watchlists')
+
+    await expect(main()).rejects.toThrow('loading enrichments: canceling statement')
+    expect(tables.watch_rules.map((r) => r.last_score)).toEqual([55, 64])
+    expect(tables.watch_alerts).toBeUndefined()
+  })
+})
@@ -0,0 +1,221 @@
+// Watchlist Evaluator — daily alert-rule pass
+// Runs after pipeline.ts has rescored and detect-anomalies.ts has written the
+// day's anomalies. For every watched repo it evaluates the subscriber's rules
+// (lib/alerts.ts), queues matches in `watch_alerts`, and records each rule's
+// baseline (last score, evaluation time) for tomorrow's comparison.
+// Queued alerts are emailed by scripts/send-watchlist-alerts.ts.
+//
+// Run locally: npx tsx scripts/evaluate-watchlists.ts
+// Dry run:    npx tsx scripts/evaluate-watchlists.ts --dry-run
+// Daily: the evaluate-watchlists job in lib/jobs.ts
+//
+// Environment variables required:
+//   NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+
+import { config } from 'dotenv'
+config({ path: '.env.local' })
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, AnomalyType, Json } from '../lib/database.types.js'
+import type { RepoSignals } from '../lib/alerts.js'
+
+type ServiceClient = SupabaseClient<Database>
+
+const SNAPSHOT_DAYS = 10 // enough to find a snapshot a week before the latest
+const ANOMALY_LOOKBACK_DAYS = 8
+const BATCH = 50 // repos per .in() — keeps snapshot reads under the 1000-row cap
+const UPDATE_CONCURRENCY = 20 // rule-state updates in flight at once
+const DRY_RUN = process.argv.includes('--dry-run')
+
+interface RuleRow {
+  id: string
+  item_id: string
+  rule: Json
+  last_score: number | null
+  last_evaluated_at: string | null
+  last_fired_at: string | null
+  created_at: string
+  watchlist_items: { email: string; repo_id: string }
+}
+
+function log(msg: string): void {
+  const ts = new Date().toISOString().replace('T', ' ').split('.')[0]
+  console.log(`[${ts}] ${msg}`)
+}
+
+function daysAgo(n: number): Date {
+  const d = new Date()
+  d.setUTCDate(d.getUTCDate() - n)
+  return d
+}
+
+async function loadRules(db: ServiceClient): Promise<RuleRow[]> {
+  const rows: RuleRow[] = []
+  let offset = 0
+  while (true) {
+    const { data, error } = await db
+      .from('watch_rules')
+      .select('id, item_id, rule, last_score, last_evaluated_at, last_fired_at, created_at, watchlist_items!inner(email, repo_id)')
+      .order('id')
+      .range(offset, offset + 999)
+    if (error) throw new Error(`loading watch_rules: ${error.message}`)
+    const typed = (data ?? []) as unknown as RuleRow[]
+    rows.push(...typed)
+    if (typed.length < 1000) break
+    offset += 1000
+  }
+  return rows
+}
+
+async function loadSignals(db: ServiceClient, repoIds: string[]): Promise<Map<string, RepoSignals>> {
+  const { starsWeekOverWeek } = await import('../lib/alerts.js')
+  const snapshotCutoff = daysAgo(SNAPSHOT_DAYS).toISOString().slice(0, 10)
+  const anomalyCutoff = daysAgo(ANOMALY_LOOKBACK_DAYS).toISOString()
+  const signals = new Map<string, RepoSignals>()
+
+  for (let i = 0; i < repoIds.length; i += BATCH) {
+    const batch = repoIds.slice(i, i + BATCH)
+    const [
+      { data: enrichments, error: eErr },
+      { data: snapshots, error: sErr },
+      { data: anomalies, error: aErr },
+    ] = await Promise.all([
+      db.from('enrichments').select('repo_id, early_signal_score').in('repo_id', batch),
+      db
+        .from('repo_snapshots')
+        .select('repo_id, snapshot_date, stars_7d')
+        .in('repo_id', batch)
+        .gte('snapshot_date', snapshotCutoff),
+      db
+        .from('anomalies')
+        .select('id, repo_id, type, detected_at, narrative')
+        .in('repo_id', batch)
+        .gte('detected_at', anomalyCutoff),
+    ])
+    // A failed read would look like "no score" and be saved as tomorrow's baseline
+    if (eErr) throw new Error(`loading enrichments: ${eErr.message}`)
+    if (sErr) throw new Error(`loading repo_snapshots: ${sErr.message}`)
+    if (aErr) throw new Error(`loading anomalies: ${aErr.message}`)
+
+    const scores = new Map(
+      ((enrichments ?? []) as unknown as Array<{ repo_id: string; early_signal_score: number }>).map((e) => [
+        e.repo_id,
+        e.early_signal_score,
+      ]),
+    )
+    const snapsByRepo = new Map<string, Array<{ snapshot_date: string; stars_7d: number }>>()
+    for (const s of (snapshots ?? []) as unknown as Array<{ repo_id: string; snapshot_date: string; stars_7d: number }>) {
+      const arr = snapsByRepo.get(s.repo_id) ?? []
+      arr.push(s)
+      snapsByRepo.set(s.repo_id, arr)
+    }
+    const anomaliesByRepo = new Map<string, RepoSignals['anomalies']>()
+    for (const a of (anomalies ?? []) as unknown as Array<{
+      id: string
+      repo_id: string
+      type: AnomalyType
+      detected_at: string
+      narrative: string | null
+    }>) {
+      const arr = anomaliesByRepo.get(a.repo_id) ?? []
+      arr.push({ id: a.id, type: a.type, detected_at: a.detected_at, narrative: a.narrative })
+      anomaliesByRepo.set(a.repo_id, arr)
+    }
+
+    for (const repoId of batch) {
+      signals.set(repoId, {
+        score: scores.get(repoId) ?? null,
+        ...starsWeekOverWeek(snapsByRepo.get(repoId) ?? []),
+        anomalies: anomaliesByRepo.get(repoId) ?? [],
+      })
+    }
+  }
+  return signals
+}
+
+export async function main(): Promise<void> {
+  const { createServiceClient } = await import('../lib/supabase.js')
+  const { describeRule, evaluateRule, parseAlertRule } = await import('../lib/alerts.js')
+  const db = createServiceClient()
+
+  log('=== Watchlist Evaluator Starting ===')
+  if (DRY_RUN) log('DRY RUN — no writes will happen')
+
+  const rules = await loadRules(db)
+  log(`loaded ${rules.length} rules`)
+  if (rules.length === 0) return
+
+  const repoIds = Array.from(new Set(rules.map((r) => r.watchlist_items.repo_id)))
+  const signals = await loadSignals(db, repoIds)
+  log(`loaded signals for ${signals.size} watched repos`)
+
+  const now = new Date()
+  const nowIso = now.toISOString()
+  const alerts: Database['public']['Tables']['watch_alerts']['Insert'][] = []
+  const updates: Array<{ id: string; state: Database['public']['Tables']['watch_rules']['Update'] }> = []
+  let invalid = 0
+
+  for (const row of rules) {
+    const rule = parseAlertRule(row.rule)
+    const repoSignals = signals.get(row.watchlist_items.repo_id)
+    if (!rule || !repoSignals) {
+      invalid++
+      continue
+    }
+
+    const match = evaluateRule(
+      rule,
+      repoSignals,
+      {
+        last_score: row.last_score,
+        // A brand-new anomaly rule only looks at anomalies detected after it was created
+        last_evaluated_at: row.last_evaluated_at ?? row.created_at,
+        last_fired_at: row.last_fired_at,
+      },
+      now,
+    )
+    if (match) {
+      alerts.push({
+        rule_id: row.id,
+        email: row.watchlist_items.email,
+        repo_id: row.watchlist_items.repo_id,
+        message: match.message,
+        anomaly_id: match.anomaly_id ?? null,
+      })
+      log(`  match ${row.watchlist_items.email} · ${describeRule(rule)} · ${match.message}`)
+    }
+    updates.push({
+      id: row.id,
+      state: {
+        last_score: repoSignals.score,
+        last_evaluated_at: nowIso,
+        last_fired_at: match ? nowIso : row.last_fired_at,
+      },
+    })
+  }
+
+  log(`${alerts.length} alerts matched, ${invalid} rules skipped (invalid rule or unknown repo)`)
+  if (DRY_RUN) return
+
+  for (let i = 0; i < alerts.length; i += 500) {
+    const { error } = await db.from('watch_alerts').insert(alerts.slice(i, i + 500))
+    if (error) throw new Error(`queueing alerts: ${error.message}`)
+  }
+  // Update, never upsert: a rule deleted through the API since loadRules() must stay deleted
+  for (let i = 0; i < updates.length; i += UPDATE_CONCURRENCY) {
+    const results = await Promise.all(
+      updates.slice(i, i + UPDATE_CONCURRENCY).map(({ id, state }) => db.from('watch_rules').update(state).eq('id', id)),
+    )
+    const failed = results.find((r) => r.error)
+    if (failed?.error) throw new Error(`saving rule state: ${failed.error.message}`)
+  }
+  log(`queued ${alerts.length} alerts, updated ${updates.length} rules`)
+}
+
+// Imported by scripts/evaluate-watchlists.test.ts, which calls main() itself
+if (!process.env.VITEST) {
+  main().catch((err) => {
+    console.error('Watchlist Evaluator failed:', err)
+    process.exit(1)
+  })
+}
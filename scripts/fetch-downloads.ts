@@ -7,6 +7,8 @@
 import { config } from 'dotenv'
 config({ path: '.env.local' })
 
+import { failActiveRun, startRun } from '../lib/pipeline-runs.js'
+
 function log(msg: string): void {
   const timestamp = new Date().toISOString().replace('T', ' ').split('.')[0]
   console.log(`[${timestamp}] ${msg}`)
@@ -136,6 +138,7 @@ const DELAY: Record<string, number> = {
 async function main(): Promise<void> {
   const { createServiceClient } = await import('../lib/supabase.js')
   const db = createServiceClient()
+  const run = await startRun(db, 'fetch-downloads')
 
   log('=== Fetch Downloads Starting ===')
 
@@ -146,6 +149,7 @@ async function main(): Promise<void> {
 
   if (error || !repos) {
     logError('Failed to query repos with packages', error)
+    await run.fail(`Failed to query repos with packages: ${error?.message ?? 'no data'}`)
     return
   }
 
@@ -192,12 +196,14 @@ async function main(): Promise<void> {
 
       if (upsertError) {
         logError(`Failed to upsert downloads for ${repo.owner}/${repo.name}`, upsertError)
+        run.error(`${repo.owner}/${repo.name} upsert: ${upsertError.message}`)
         errors++
       } else {
         success++
       }
     } catch (err) {
       logError(`Failed to fetch downloads for ${repo.owner}/${repo.name}`, err)
+      run.error(`${repo.owner}/${repo.name} (${repo.package_registry}): ${err instanceof Error ? err.message : String(err)}`)
       errors++
     }
 
@@ -206,9 +212,15 @@ async function main(): Promise<void> {
 
   log(`\n=== Fetch Downloads Complete ===`)
   log(`Success: ${success}, Errors: ${errors}`)
+
+  run.set('packages', typedRepos.length)
+  run.set('updated', success)
+  run.set('failed', errors)
+  await run.finish()
 }
 
-main().catch((err) => {
+main().catch(async (err) => {
   console.error('Fetch downloads failed:', err)
+  await failActiveRun(err)
   process.exit(1)
 })
@@ -1,6 +1,8 @@
 // Hacker News Ingestion
 // Queries HN Algolia API for GitHub repo links posted in the last 24 hours.
 // Fetches metadata from GitHub API for new repos, inserts into DB.
+// Threads linking two or more catalog repos are recorded in hn_thread_repos
+// — the co-occurrence signal for scripts/compute-similar.ts.
 //
 // GitHub API cost: ~20-50 calls/day (one per new HN-discovered repo)
 // Expected yield: 50-200 repos/day, high quality (HN-validated)
@@ -24,6 +26,7 @@ interface AlgoliaHit {
   url?: string
   story_text?: string
   comment_text?: string
+  story_id?: number | null // set on comments: the thread they belong to
 }
 
 interface AlgoliaSearchResult {
@@ -69,6 +72,8 @@ async function main(): Promise<void> {
 
   // Collect unique repos from stories and comments
   const repoSet = new Map<string, { owner: string; name: string }>()
+  // HN story id → owner/name keys linked anywhere in that thread
+  const threadRepos = new Map<number, Set<string>>()
 
   // Search stories with GitHub links
   for (const tag of ['story', 'comment']) {
@@ -88,23 +93,21 @@ async function main(): Promise<void> {
       log(`  HN ${tag}s: ${data.nbHits} hits (fetched ${data.hits.length})`)
 
       for (const hit of data.hits) {
+        const storyId = hit.story_id ?? (tag === 'story' ? Number(hit.objectID) : null)
+        const found: Array<{ owner: string; name: string }> = []
         // Check URL field
-        if (hit.url) {
-          for (const repo of extractGitHubRepos(hit.url)) {
-            repoSet.set(`${repo.owner}/${repo.name}`, repo)
-          }
-        }
+        if (hit.url) found.push(...extractGitHubRepos(hit.url))
         // Check title
-        if (hit.title) {
-          for (const repo of extractGitHubRepos(hit.title)) {
-            repoSet.set(`${repo.owner}/${repo.name}`, repo)
-          }
-        }
+        if (hit.title) found.push(...extractGitHubRepos(hit.title))
         // Check story/comment text
         const text = hit.story_text || hit.comment_text || ''
-        if (text.includes('github.com')) {
-          for (const repo of extractGitHubRepos(text)) {
-            repoSet.set(`${repo.owner}/${repo.name}`, repo)
+        if (text.includes('github.com')) found.push(...extractGitHubRepos(text))
+
+        for (const repo of found) {
+          const key = `${repo.owner}/${repo.name}`
+          repoSet.set(key, repo)
+          if (storyId != null && Number.isFinite(storyId)) {
+            threadRepos.set(storyId, (threadRepos.get(storyId) ?? new Set()).add(key))
           }
         }
       }
@@ -197,9 +200,27 @@ async function main(): Promise<void> {
     }
   }
 
+  // Record co-occurrence for threads that link two or more catalog repos
+  const sharedThreads = [...threadRepos.entries()].filter(([, keys]) => keys.size >= 2)
+  const idByKey = new Map<string, string>()
+  for (const key of new Set(sharedThreads.flatMap(([, keys]) => [...keys]))) {
+    const [owner, name] = key.split('/')
+    const { data } = await db.from('repos').select('id').eq('owner', owner).eq('name', name).maybeSingle()
+    if (data) idByKey.set(key, data.id)
+  }
+  const links = sharedThreads.flatMap(([storyId, keys]) => {
+    const ids = [...keys].map((k) => idByKey.get(k)).filter((id): id is string => id != null)
+    return ids.length >= 2 ? ids.map((repo_id) => ({ story_id: storyId, repo_id })) : []
+  })
+  if (links.length > 0) {
+    const { error } = await db.from('hn_thread_repos').upsert(links, { onConflict: 'story_id,repo_id', ignoreDuplicates: true })
+    if (error) log(`  Failed to record HN thread links: ${error.message}`)
+  }
+
   log(`\n=== HN Ingestion Complete ===`)
   log(`Inserted: ${inserted} new repos`)
   log(`Skipped (already in DB): ${existingKeys.size}`)
+  log(`Thread links: ${links.length} across ${new Set(links.map((l) => l.story_id)).size} threads`)
   log(`Failed: ${failed}`)
 }
 
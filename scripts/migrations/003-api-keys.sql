@@ -0,0 +1,74 @@
+-- 003-api-keys.sql — run once in the Supabase SQL editor
+-- API keys, token-bucket rate-limit state, and per-key daily usage for the
+-- JSON endpoints (/api/search, /api/ai-code-index, /api/submit, /api/v1/*).
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,                      -- who the key was issued to, e.g. "acme dashboards"
+  owner_email TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,                -- first 8 chars of the plaintext key, for support lookups
+  key_hash TEXT UNIQUE NOT NULL,           -- sha256 hex of the plaintext key; plaintext is never stored
+  requests_per_minute INT NOT NULL DEFAULT 60,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+-- One row per bucket ("key:<id>" or "ip:<addr>"); refilled lazily on each take.
+CREATE TABLE IF NOT EXISTS api_rate_buckets (
+  bucket TEXT PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS api_usage (
+  key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  usage_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  endpoint TEXT NOT NULL,
+  request_count INT NOT NULL DEFAULT 0,
+  PRIMARY KEY (key_id, usage_date, endpoint)
+);
+
+CREATE INDEX IF NOT EXISTS api_usage_date_idx ON api_usage (usage_date DESC, request_count DESC);
+
+-- Atomic token-bucket take: refill by elapsed time, then spend one token if available.
+-- Returns the tokens left after the take (negative = denied, caller computes Retry-After).
+CREATE OR REPLACE FUNCTION take_rate_limit_token(p_bucket TEXT, p_capacity INT, p_refill_per_second DOUBLE PRECISION)
+RETURNS DOUBLE PRECISION AS $$
+DECLARE
+  v_tokens DOUBLE PRECISION;
+BEGIN
+  INSERT INTO api_rate_buckets (bucket, tokens, updated_at)
+  VALUES (p_bucket, p_capacity, now())
+  ON CONFLICT (bucket) DO NOTHING;
+
+  SELECT LEAST(p_capacity, tokens + EXTRACT(EPOCH FROM (now() - updated_at)) * p_refill_per_second)
+    INTO v_tokens
+    FROM api_rate_buckets
+   WHERE bucket = p_bucket
+   FOR UPDATE;
+
+  IF v_tokens >= 1 THEN
+    v_tokens := v_tokens - 1;
+    UPDATE api_rate_buckets SET tokens = v_tokens, updated_at = now() WHERE bucket = p_bucket;
+    RETURN v_tokens;
+  END IF;
+
+  UPDATE api_rate_buckets SET tokens = v_tokens, updated_at = now() WHERE bucket = p_bucket;
+  RETURN v_tokens - 1;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION increment_api_usage(p_key_id UUID, p_endpoint TEXT)
+RETURNS VOID AS $$
+  INSERT INTO api_usage (key_id, usage_date, endpoint, request_count)
+  VALUES (p_key_id, CURRENT_DATE, p_endpoint, 1)
+  ON CONFLICT (key_id, usage_date, endpoint)
+  DO UPDATE SET request_count = api_usage.request_count + 1;
+  UPDATE api_keys SET last_used_at = now() WHERE id = p_key_id;
+$$ LANGUAGE sql;
+
+-- Service role only: no public policies on any of these tables.
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_rate_buckets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_usage ENABLE ROW LEVEL SECURITY;
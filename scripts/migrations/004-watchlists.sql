@@ -0,0 +1,47 @@
+-- 004-watchlists.sql — run once in the Supabase SQL editor
+-- Per-email watchlists, alert rules on each watched repo, and the outbound
+-- alert queue drained by scripts/send-watchlist-alerts.ts.
+
+CREATE TABLE IF NOT EXISTS watchlist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,                     -- subscriber / API-key owner the watchlist belongs to
+  repo_id UUID NOT NULL REFERENCES repos(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (email, repo_id)
+);
+
+CREATE INDEX IF NOT EXISTS watchlist_items_repo_idx ON watchlist_items (repo_id);
+
+-- `rule` is validated by parseAlertRule (lib/alerts.ts), e.g.
+--   {"kind":"score_crosses","threshold":70,"direction":"up"}
+--   {"kind":"stars_7d_growth","multiplier":2}
+--   {"kind":"anomaly","anomaly_type":"maintainer_silent"}
+CREATE TABLE IF NOT EXISTS watch_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id UUID NOT NULL REFERENCES watchlist_items(id) ON DELETE CASCADE,
+  rule JSONB NOT NULL,
+  last_score INT,                          -- score at the previous evaluation (crossing baseline)
+  last_evaluated_at TIMESTAMPTZ,
+  last_fired_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS watch_rules_item_idx ON watch_rules (item_id);
+
+CREATE TABLE IF NOT EXISTS watch_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id UUID NOT NULL REFERENCES watch_rules(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  repo_id UUID NOT NULL REFERENCES repos(id) ON DELETE CASCADE,
+  message TEXT NOT NULL,
+  anomaly_id UUID REFERENCES anomalies(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  sent_at TIMESTAMPTZ                      -- NULL = queued
+);
+
+CREATE INDEX IF NOT EXISTS watch_alerts_unsent_idx ON watch_alerts (email) WHERE sent_at IS NULL;
+
+-- Service role only: watchlists are managed through /api/v1/watchlist.
+ALTER TABLE watchlist_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE watch_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE watch_alerts ENABLE ROW LEVEL SECURITY;
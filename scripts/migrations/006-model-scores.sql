@@ -0,0 +1,18 @@
+-- 006-model-scores.sql — run once in the Supabase SQL editor
+-- Shadow scores from a candidate scoring model (lib/score-models.ts). The
+-- pipeline writes one row per rescored repo when SCORE_CANDIDATE_MODEL is set;
+-- production scores stay in enrichments.early_signal_score.
+-- Compare rankings with: npx tsx scripts/compare-models.ts <candidate_version>
+
+CREATE TABLE IF NOT EXISTS model_scores (
+  repo_id UUID NOT NULL REFERENCES repos(id) ON DELETE CASCADE,
+  model_version TEXT NOT NULL,
+  score INT NOT NULL,
+  score_breakdown JSONB NOT NULL,
+  scored_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (repo_id, model_version)
+);
+
+CREATE INDEX IF NOT EXISTS model_scores_version_idx ON model_scores (model_version, score DESC);
+
+ALTER TABLE model_scores ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,37 @@
+-- 007-star-quality.sql — run once in the Supabase SQL editor
+-- Stargazer-quality analysis (lib/star-quality.ts). scripts/analyse-stargazers.ts
+-- samples each fast-growing repo's most recent stargazers, stores the sample
+-- (for cross-repo overlap) and the resulting fake-star probability, which the
+-- pipeline feeds into the manipulation penalty.
+
+CREATE TABLE IF NOT EXISTS stargazer_samples (
+  repo_id UUID NOT NULL REFERENCES repos(id) ON DELETE CASCADE,
+  login TEXT NOT NULL,
+  starred_at TIMESTAMPTZ NOT NULL,
+  account_created_at TIMESTAMPTZ NOT NULL,
+  followers INT NOT NULL DEFAULT 0,
+  following INT NOT NULL DEFAULT 0,
+  public_repos INT NOT NULL DEFAULT 0,
+  starred_repos INT NOT NULL DEFAULT 0,
+  sampled_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (repo_id, login)
+);
+
+CREATE INDEX IF NOT EXISTS stargazer_samples_login_idx ON stargazer_samples (login);
+
+CREATE TABLE IF NOT EXISTS star_quality (
+  repo_id UUID PRIMARY KEY REFERENCES repos(id) ON DELETE CASCADE,
+  sample_size INT NOT NULL,
+  fake_star_probability NUMERIC(4, 3) NOT NULL,
+  features JSONB NOT NULL,   -- StargazerFeatures: the shares behind the probability
+  sampled_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS star_quality_probability_idx ON star_quality (fake_star_probability DESC);
+
+ALTER TABLE stargazer_samples ENABLE ROW LEVEL SECURITY;
+ALTER TABLE star_quality ENABLE ROW LEVEL SECURITY;
+
+-- Public read (shown as evidence on project pages); logins stay service-role only.
+CREATE POLICY "public read star_quality" ON star_quality
+  FOR SELECT USING (true);
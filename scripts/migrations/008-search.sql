@@ -0,0 +1,121 @@
+-- 008-search.sql — run once in the Supabase SQL editor
+-- Faceted catalog search for /api/search and /search. Both functions match
+-- the exact expression of repos_fts_idx (supabase-schema.sql), so relevance
+-- ranking runs off the GIN index. p_query is to_tsquery syntax — lib/search.ts
+-- builds it from the visitor's words as prefix terms ("next rea" → next:* & rea:*).
+-- Owners aren't in that index: "vercel/next" arrives as p_owner = 'vercel'
+-- (a filter) plus p_query = 'next:*', and a one-word query also passes
+-- p_owner_term so "vercel" finds the org's repos too.
+
+-- One page of matches, in the requested order, with the total match count.
+-- Sorts: relevance (ts_rank), score, stars_7d (latest snapshot), newest
+-- (added to the catalog). Ties fall back to score, then stars.
+CREATE OR REPLACE FUNCTION search_repos(
+  p_query TEXT DEFAULT NULL,
+  p_owner TEXT DEFAULT NULL,
+  p_owner_term TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_language TEXT DEFAULT NULL,
+  p_registry TEXT DEFAULT NULL,
+  p_min_stars INT DEFAULT NULL,
+  p_max_stars INT DEFAULT NULL,
+  p_min_score INT DEFAULT NULL,
+  p_max_score INT DEFAULT NULL,
+  p_added_since TIMESTAMPTZ DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INT DEFAULT 24,
+  p_offset INT DEFAULT 0
+)
+RETURNS TABLE (repo_id UUID, rank REAL, stars_7d INT, total_count BIGINT) AS $$
+  WITH matched AS (
+    SELECT r.id, r.stars, r.created_at, e.early_signal_score AS score,
+           CASE WHEN p_query IS NULL THEN 0::REAL
+                ELSE ts_rank(to_tsvector('english', r.name || ' ' || COALESCE(r.description, '')), to_tsquery('english', p_query))
+           END AS rank
+      FROM repos r
+      LEFT JOIN enrichments e ON e.repo_id = r.id
+     WHERE (p_query IS NULL
+            OR to_tsvector('english', r.name || ' ' || COALESCE(r.description, '')) @@ to_tsquery('english', p_query)
+            OR lower(r.owner) = lower(p_owner_term))
+       AND (p_owner IS NULL OR lower(r.owner) = lower(p_owner))
+       AND (p_category IS NULL OR e.category = p_category)
+       AND (p_language IS NULL OR r.language = p_language)
+       AND (p_registry IS NULL OR r.package_registry = p_registry)
+       AND (p_min_stars IS NULL OR r.stars >= p_min_stars)
+       AND (p_max_stars IS NULL OR r.stars <= p_max_stars)
+       AND (p_min_score IS NULL OR e.early_signal_score >= p_min_score)
+       AND (p_max_score IS NULL OR e.early_signal_score <= p_max_score)
+       AND (p_added_since IS NULL OR r.created_at >= p_added_since)
+  )
+  SELECT m.id, m.rank, COALESCE(s.stars_7d, 0), COUNT(*) OVER ()
+    FROM matched m
+    LEFT JOIN LATERAL (
+      SELECT rs.stars_7d FROM repo_snapshots rs
+       WHERE rs.repo_id = m.id
+       ORDER BY rs.snapshot_date DESC
+       LIMIT 1
+    ) s ON true
+   ORDER BY
+     CASE WHEN p_sort = 'relevance' THEN m.rank END DESC NULLS LAST,
+     CASE WHEN p_sort = 'stars_7d' THEN s.stars_7d END DESC NULLS LAST,
+     CASE WHEN p_sort = 'newest' THEN m.created_at END DESC NULLS LAST,
+     m.score DESC NULLS LAST,
+     m.stars DESC,
+     m.id
+   LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+-- Facet counts for the same filters: {category, language, registry, tier} →
+-- {value: count}. Each facet ignores its own filter (tier ignores the score
+-- range it maps to) so the other values stay selectable. Tier bands mirror
+-- tierFor() in lib/design.ts.
+CREATE OR REPLACE FUNCTION search_repo_facets(
+  p_query TEXT DEFAULT NULL,
+  p_owner TEXT DEFAULT NULL,
+  p_owner_term TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_language TEXT DEFAULT NULL,
+  p_registry TEXT DEFAULT NULL,
+  p_min_stars INT DEFAULT NULL,
+  p_max_stars INT DEFAULT NULL,
+  p_min_score INT DEFAULT NULL,
+  p_max_score INT DEFAULT NULL,
+  p_added_since TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB AS $$
+  WITH base AS (
+    SELECT e.category, r.language, r.package_registry AS registry,
+           CASE WHEN e.early_signal_score >= 70 THEN 'Breakout'
+                WHEN e.early_signal_score >= 40 THEN 'Hot'
+                WHEN e.early_signal_score IS NOT NULL THEN 'Active'
+           END AS tier,
+           (p_category IS NULL OR e.category = p_category) AS ok_category,
+           (p_language IS NULL OR r.language = p_language) AS ok_language,
+           (p_registry IS NULL OR r.package_registry = p_registry) AS ok_registry,
+           ((p_min_score IS NULL OR e.early_signal_score >= p_min_score)
+             AND (p_max_score IS NULL OR e.early_signal_score <= p_max_score)) AS ok_score
+      FROM repos r
+      LEFT JOIN enrichments e ON e.repo_id = r.id
+     WHERE (p_query IS NULL
+            OR to_tsvector('english', r.name || ' ' || COALESCE(r.description, '')) @@ to_tsquery('english', p_query)
+            OR lower(r.owner) = lower(p_owner_term))
+       AND (p_owner IS NULL OR lower(r.owner) = lower(p_owner))
+       AND (p_min_stars IS NULL OR r.stars >= p_min_stars)
+       AND (p_max_stars IS NULL OR r.stars <= p_max_stars)
+       AND (p_added_since IS NULL OR r.created_at >= p_added_since)
+  )
+  SELECT jsonb_build_object(
+    'category', (SELECT COALESCE(jsonb_object_agg(category, n), '{}'::jsonb) FROM (
+      SELECT category, COUNT(*) AS n FROM base
+       WHERE category IS NOT NULL AND ok_language AND ok_registry AND ok_score GROUP BY category) f),
+    'language', (SELECT COALESCE(jsonb_object_agg(language, n), '{}'::jsonb) FROM (
+      SELECT language, COUNT(*) AS n FROM base
+       WHERE language IS NOT NULL AND ok_category AND ok_registry AND ok_score GROUP BY language) f),
+    'registry', (SELECT COALESCE(jsonb_object_agg(registry, n), '{}'::jsonb) FROM (
+      SELECT registry, COUNT(*) AS n FROM base
+       WHERE registry IS NOT NULL AND ok_category AND ok_language AND ok_score GROUP BY registry) f),
+    'tier', (SELECT COALESCE(jsonb_object_agg(tier, n), '{}'::jsonb) FROM (
+      SELECT tier, COUNT(*) AS n FROM base
+       WHERE tier IS NOT NULL AND ok_category AND ok_language AND ok_registry GROUP BY tier) f)
+  );
+$$ LANGUAGE sql STABLE;
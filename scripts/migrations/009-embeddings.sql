@@ -0,0 +1,165 @@
+-- 009-embeddings.sql — run once in the Supabase SQL editor
+-- Semantic search: one embedding per enriched repo, built from its summary,
+-- why_it_matters, description and topics (lib/embeddings.ts), written by
+-- scripts/embed-enrichments.ts. Requires the pgvector extension.
+--
+-- Replaces the 008 search functions with versions that also take a query
+-- embedding: the nearest p_vector_k vectors (HNSW) count as matches when at
+-- least p_min_similarity, and rank = (1 - w) · lexical + w · cosine similarity.
+-- With p_embedding NULL and w = 0 they behave exactly like 008.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS enrichment_embeddings (
+  repo_id UUID PRIMARY KEY REFERENCES repos(id) ON DELETE CASCADE,
+  model TEXT NOT NULL,                     -- provider model, e.g. voyage-3-lite
+  content_hash TEXT NOT NULL,              -- sha256 of the embedded text; re-embed when it changes
+  embedding vector(512) NOT NULL,
+  embedded_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS enrichment_embeddings_hnsw_idx
+  ON enrichment_embeddings USING hnsw (embedding vector_cosine_ops);
+
+ALTER TABLE enrichment_embeddings ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read enrichment_embeddings" ON enrichment_embeddings FOR SELECT USING (true);
+
+-- New parameters change the signatures, so drop the 008 versions first
+DROP FUNCTION IF EXISTS search_repos(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INT, INT, INT, INT, TIMESTAMPTZ, TEXT, INT, INT);
+DROP FUNCTION IF EXISTS search_repo_facets(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INT, INT, INT, INT, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION search_repos(
+  p_query TEXT DEFAULT NULL,
+  p_owner TEXT DEFAULT NULL,
+  p_owner_term TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_language TEXT DEFAULT NULL,
+  p_registry TEXT DEFAULT NULL,
+  p_min_stars INT DEFAULT NULL,
+  p_max_stars INT DEFAULT NULL,
+  p_min_score INT DEFAULT NULL,
+  p_max_score INT DEFAULT NULL,
+  p_added_since TIMESTAMPTZ DEFAULT NULL,
+  p_embedding vector(512) DEFAULT NULL,
+  p_embedding_model TEXT DEFAULT NULL,
+  p_semantic_weight REAL DEFAULT 0,
+  p_min_similarity REAL DEFAULT 0.3,
+  p_vector_k INT DEFAULT 200,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INT DEFAULT 24,
+  p_offset INT DEFAULT 0
+)
+RETURNS TABLE (repo_id UUID, rank REAL, stars_7d INT, total_count BIGINT) AS $$
+  WITH nearest AS (
+    -- Top-k by cosine distance first, so the HNSW index does the work
+    SELECT ee.repo_id, 1 - (ee.embedding <=> p_embedding) AS similarity
+      FROM enrichment_embeddings ee
+     WHERE p_embedding IS NOT NULL AND ee.model = p_embedding_model
+     ORDER BY ee.embedding <=> p_embedding
+     LIMIT p_vector_k
+  ),
+  matched AS (
+    SELECT r.id, r.stars, r.created_at, e.early_signal_score AS score,
+           -- ts_rank normalisation 32 maps into 0..1 so it blends with cosine similarity
+           (1 - p_semantic_weight) * CASE WHEN p_query IS NULL THEN 0::REAL
+                ELSE ts_rank(to_tsvector('english', r.name || ' ' || COALESCE(r.description, '')), to_tsquery('english', p_query), 32)
+           END + p_semantic_weight * COALESCE(n.similarity, 0) AS rank
+      FROM repos r
+      LEFT JOIN enrichments e ON e.repo_id = r.id
+      LEFT JOIN nearest n ON n.repo_id = r.id
+     WHERE (p_query IS NULL
+            OR to_tsvector('english', r.name || ' ' || COALESCE(r.description, '')) @@ to_tsquery('english', p_query)
+            OR lower(r.owner) = lower(p_owner_term)
+            OR n.similarity >= p_min_similarity)
+       AND (p_owner IS NULL OR lower(r.owner) = lower(p_owner))
+       AND (p_category IS NULL OR e.category = p_category)
+       AND (p_language IS NULL OR r.language = p_language)
+       AND (p_registry IS NULL OR r.package_registry = p_registry)
+       AND (p_min_stars IS NULL OR r.stars >= p_min_stars)
+       AND (p_max_stars IS NULL OR r.stars <= p_max_stars)
+       AND (p_min_score IS NULL OR e.early_signal_score >= p_min_score)
+       AND (p_max_score IS NULL OR e.early_signal_score <= p_max_score)
+       AND (p_added_since IS NULL OR r.created_at >= p_added_since)
+  )
+  SELECT m.id, m.rank::REAL, COALESCE(s.stars_7d, 0), COUNT(*) OVER ()
+    FROM matched m
+    LEFT JOIN LATERAL (
+      SELECT rs.stars_7d FROM repo_snapshots rs
+       WHERE rs.repo_id = m.id
+       ORDER BY rs.snapshot_date DESC
+       LIMIT 1
+    ) s ON true
+   ORDER BY
+     CASE WHEN p_sort = 'relevance' THEN m.rank END DESC NULLS LAST,
+     CASE WHEN p_sort = 'stars_7d' THEN s.stars_7d END DESC NULLS LAST,
+     CASE WHEN p_sort = 'newest' THEN m.created_at END DESC NULLS LAST,
+     m.score DESC NULLS LAST,
+     m.stars DESC,
+     m.id
+   LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+-- Facet counts — same match rule as search_repos, see 008 for the facet semantics.
+CREATE OR REPLACE FUNCTION search_repo_facets(
+  p_query TEXT DEFAULT NULL,
+  p_owner TEXT DEFAULT NULL,
+  p_owner_term TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_language TEXT DEFAULT NULL,
+  p_registry TEXT DEFAULT NULL,
+  p_min_stars INT DEFAULT NULL,
+  p_max_stars INT DEFAULT NULL,
+  p_min_score INT DEFAULT NULL,
+  p_max_score INT DEFAULT NULL,
+  p_added_since TIMESTAMPTZ DEFAULT NULL,
+  p_embedding vector(512) DEFAULT NULL,
+  p_embedding_model TEXT DEFAULT NULL,
+  p_min_similarity REAL DEFAULT 0.3,
+  p_vector_k INT DEFAULT 200
+)
+RETURNS JSONB AS $$
+  WITH nearest AS (
+    SELECT ee.repo_id, 1 - (ee.embedding <=> p_embedding) AS similarity
+      FROM enrichment_embeddings ee
+     WHERE p_embedding IS NOT NULL AND ee.model = p_embedding_model
+     ORDER BY ee.embedding <=> p_embedding
+     LIMIT p_vector_k
+  ),
+  base AS (
+    SELECT e.category, r.language, r.package_registry AS registry,
+           CASE WHEN e.early_signal_score >= 70 THEN 'Breakout'
+                WHEN e.early_signal_score >= 40 THEN 'Hot'
+                WHEN e.early_signal_score IS NOT NULL THEN 'Active'
+           END AS tier,
+           (p_category IS NULL OR e.category = p_category) AS ok_category,
+           (p_language IS NULL OR r.language = p_language) AS ok_language,
+           (p_registry IS NULL OR r.package_registry = p_registry) AS ok_registry,
+           ((p_min_score IS NULL OR e.early_signal_score >= p_min_score)
+             AND (p_max_score IS NULL OR e.early_signal_score <= p_max_score)) AS ok_score
+      FROM repos r
+      LEFT JOIN enrichments e ON e.repo_id = r.id
+      LEFT JOIN nearest n ON n.repo_id = r.id
+     WHERE (p_query IS NULL
+            OR to_tsvector('english', r.name || ' ' || COALESCE(r.description, '')) @@ to_tsquery('english', p_query)
+            OR lower(r.owner) = lower(p_owner_term)
+            OR n.similarity >= p_min_similarity)
+       AND (p_owner IS NULL OR lower(r.owner) = lower(p_owner))
+       AND (p_min_stars IS NULL OR r.stars >= p_min_stars)
+       AND (p_max_stars IS NULL OR r.stars <= p_max_stars)
+       AND (p_added_since IS NULL OR r.created_at >= p_added_since)
+  )
+  SELECT jsonb_build_object(
+    'category', (SELECT COALESCE(jsonb_object_agg(category, n), '{}'::jsonb) FROM (
+      SELECT category, COUNT(*) AS n FROM base
+       WHERE category IS NOT NULL AND ok_language AND ok_registry AND ok_score GROUP BY category) f),
+    'language', (SELECT COALESCE(jsonb_object_agg(language, n), '{}'::jsonb) FROM (
+      SELECT language, COUNT(*) AS n FROM base
+       WHERE language IS NOT NULL AND ok_category AND ok_registry AND ok_score GROUP BY language) f),
+    'registry', (SELECT COALESCE(jsonb_object_agg(registry, n), '{}'::jsonb) FROM (
+      SELECT registry, COUNT(*) AS n FROM base
+       WHERE registry IS NOT NULL AND ok_category AND ok_language AND ok_score GROUP BY registry) f),
+    'tier', (SELECT COALESCE(jsonb_object_agg(tier, n), '{}'::jsonb) FROM (
+      SELECT tier, COUNT(*) AS n FROM base
+       WHERE tier IS NOT NULL AND ok_category AND ok_language AND ok_registry GROUP BY tier) f)
+  );
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,32 @@
+-- 010-similar-repos.sql — run once in the Supabase SQL editor
+-- "Similar repos" on the project page. scripts/ingest-hn.ts records which
+-- catalog repos are linked from the same HN thread; scripts/compute-similar.ts
+-- combines that with topics, language and description/enrichment text
+-- (lib/similarity.ts) and rewrites similar_repos.
+
+-- One row per (HN story, repo) for threads linking two or more catalog repos
+CREATE TABLE IF NOT EXISTS hn_thread_repos (
+  story_id BIGINT NOT NULL,
+  repo_id UUID NOT NULL REFERENCES repos(id) ON DELETE CASCADE,
+  seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (story_id, repo_id)
+);
+
+CREATE INDEX IF NOT EXISTS hn_thread_repos_repo_idx ON hn_thread_repos (repo_id);
+
+CREATE TABLE IF NOT EXISTS similar_repos (
+  repo_id UUID NOT NULL REFERENCES repos(id) ON DELETE CASCADE,
+  similar_repo_id UUID NOT NULL REFERENCES repos(id) ON DELETE CASCADE,
+  rank INT NOT NULL,                       -- 1 = most similar
+  score NUMERIC(4,3) NOT NULL,             -- weighted blend, 0–1
+  components JSONB NOT NULL,               -- {topics, text, language, hn} each 0–1
+  reasons TEXT[] NOT NULL DEFAULT '{}',    -- "why similar", strongest first
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (repo_id, similar_repo_id)
+);
+
+CREATE INDEX IF NOT EXISTS similar_repos_rank_idx ON similar_repos (repo_id, rank);
+
+ALTER TABLE hn_thread_repos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE similar_repos ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read similar_repos" ON similar_repos FOR SELECT USING (true);
@@ -0,0 +1,123 @@
+-- 011-taxonomy.sql — run once in the Supabase SQL editor
+-- Hierarchical, multi-label taxonomy. The `categories` table becomes the live
+-- tree: the original eight rows are the roots, subcategories hang off them, and
+-- `slug` is the full path (ai-ml/agents) — the same path /category/* serves.
+-- `repo_categories` holds each repo's labels, exactly one of them primary.
+-- enrichments.category keeps the primary label's root name, so search facets,
+-- peer norms and /api/v1 are unchanged.
+--
+-- Editing the tree is a data change: insert or deactivate rows and the next
+-- enrichment prompt (lib/enrichment.ts) classifies against it.
+
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS parent_slug TEXT REFERENCES categories(slug) ON UPDATE CASCADE,
+  ADD COLUMN IF NOT EXISTS github_topics TEXT[] NOT NULL DEFAULT '{}',  -- roots: GitHub search topics for pipeline discovery
+  ADD COLUMN IF NOT EXISTS sort_order INT NOT NULL DEFAULT 0,           -- display order among siblings
+  ADD COLUMN IF NOT EXISTS active BOOLEAN NOT NULL DEFAULT true;       -- inactive categories are hidden and never assigned
+
+ALTER TABLE categories ADD CONSTRAINT categories_slug_path_check CHECK (
+  slug ~ '^[a-z0-9-]+(/[a-z0-9-]+)*$'
+  AND ((parent_slug IS NULL AND strpos(slug, '/') = 0) OR slug ~ ('^' || parent_slug || '/[a-z0-9-]+$'))
+);
+
+CREATE TABLE IF NOT EXISTS repo_categories (
+  repo_id UUID NOT NULL REFERENCES repos(id) ON DELETE CASCADE,
+  category_slug TEXT NOT NULL REFERENCES categories(slug) ON UPDATE CASCADE,
+  is_primary BOOLEAN NOT NULL DEFAULT false,
+  labelled_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (repo_id, category_slug)
+);
+
+CREATE INDEX IF NOT EXISTS repo_categories_slug_idx ON repo_categories (category_slug text_pattern_ops);
+CREATE UNIQUE INDEX IF NOT EXISTS repo_categories_one_primary_idx ON repo_categories (repo_id) WHERE is_primary;
+
+ALTER TABLE repo_categories ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read repo_categories" ON repo_categories FOR SELECT USING (true);
+
+-- Roots — the original eight categories, names and slugs unchanged
+INSERT INTO categories (slug, name, description, github_topics, sort_order) VALUES
+  ('ai-ml', 'AI / Machine Learning', 'Artificial intelligence, machine learning, LLMs, and neural networks — the projects shaping how software thinks.', '{ai,machine-learning,llm,artificial-intelligence,deep-learning,generative-ai,assistant}', 1),
+  ('developer-tools', 'Developer Tools', 'Tools, utilities, and frameworks that make developers faster. The picks here often become the new industry standard.', '{developer-tools,cli,devtools,productivity,code-editor}', 2),
+  ('security', 'Security', 'Cybersecurity, cryptography, and privacy tools. Rising projects here often signal new attack vectors or defensive capabilities.', '{security,cybersecurity,cryptography,penetration-testing,privacy}', 3),
+  ('data-analytics', 'Data & Analytics', 'Data science, analytics, databases, and visualization. The infrastructure layer that every data-driven product is built on.', '{data-science,analytics,database,data-visualization,etl}', 4),
+  ('web-frameworks', 'Web Frameworks', 'Frontend and backend web development frameworks. Adoption patterns here predict what your engineering team will be using in 2 years.', '{web-framework,frontend,backend,api,fullstack}', 5),
+  ('infrastructure-devops', 'Infrastructure & DevOps', 'Cloud infrastructure, containers, orchestration, and DevOps tools. The invisible foundation every product runs on.', '{devops,kubernetes,docker,infrastructure,cloud}', 6),
+  ('mobile', 'Mobile', 'iOS, Android, and cross-platform mobile development. Where the next wave of consumer products is being built.', '{ios,android,react-native,flutter,mobile}', 7),
+  ('open-source-utilities', 'Open Source Utilities', 'General-purpose utilities, automation tools, and productivity projects. The quiet projects that end up powering everything else.', '{utility,automation,tools,open-source,productivity}', 8)
+ON CONFLICT (slug) DO UPDATE SET
+  description = EXCLUDED.description,
+  github_topics = EXCLUDED.github_topics,
+  sort_order = EXCLUDED.sort_order;
+
+INSERT INTO categories (slug, parent_slug, name, description, sort_order) VALUES
+  ('ai-ml/agents', 'ai-ml', 'Agents', 'Autonomous and tool-using LLM agents, agent frameworks and multi-agent orchestration.', 1),
+  ('ai-ml/coding-assistants', 'ai-ml', 'Coding Assistants', 'AI that writes, reviews or edits code — CLI agents, IDE copilots and code review bots.', 2),
+  ('ai-ml/inference', 'ai-ml', 'Inference & Serving', 'Running models locally or at scale — inference engines, quantisation, model servers and gateways.', 3),
+  ('ai-ml/rag', 'ai-ml', 'RAG & Retrieval', 'Retrieval-augmented generation, document parsing, chunking and knowledge-base tooling.', 4),
+  ('ai-ml/evals', 'ai-ml', 'Evals & Observability', 'Benchmarks, evaluation harnesses, tracing and monitoring for LLM applications.', 5),
+  ('ai-ml/training', 'ai-ml', 'Training & Fine-tuning', 'Pre-training, fine-tuning, RLHF and dataset tooling.', 6),
+  ('ai-ml/models', 'ai-ml', 'Models', 'Open model weights and their reference code — language, vision, speech and multimodal.', 7),
+  ('ai-ml/mcp', 'ai-ml', 'MCP & Tool Protocols', 'Model Context Protocol servers, clients and other ways of wiring tools into LLMs.', 8),
+  ('developer-tools/cli', 'developer-tools', 'CLI & Terminal', 'Command-line tools, shells and terminal emulators.', 1),
+  ('developer-tools/editors', 'developer-tools', 'Editors & IDEs', 'Code editors, IDEs and their extensions.', 2),
+  ('developer-tools/testing', 'developer-tools', 'Testing', 'Test runners, browser automation, fuzzing and QA tooling.', 3),
+  ('developer-tools/build', 'developer-tools', 'Build & Packaging', 'Bundlers, compilers, package managers and monorepo tooling.', 4),
+  ('developer-tools/api', 'developer-tools', 'API Tooling', 'API clients, SDK generators, schema and documentation tools.', 5),
+  ('security/appsec', 'security', 'Application Security', 'Scanners, SAST/DAST, supply-chain and dependency security.', 1),
+  ('security/offensive', 'security', 'Offensive Security', 'Penetration testing, red-team and exploit research tooling.', 2),
+  ('security/identity', 'security', 'Identity & Access', 'Authentication, authorisation, secrets management and SSO.', 3),
+  ('security/privacy', 'security', 'Privacy & Cryptography', 'Encryption libraries, privacy tools and anonymity networks.', 4),
+  ('data-analytics/databases', 'data-analytics', 'Databases', 'Relational, document, key-value and time-series databases.', 1),
+  ('data-analytics/vector-databases', 'data-analytics', 'Vector Databases', 'Embedding stores and similarity-search engines.', 2),
+  ('data-analytics/pipelines', 'data-analytics', 'Data Pipelines', 'ETL/ELT, orchestration, streaming and data integration.', 3),
+  ('data-analytics/visualization', 'data-analytics', 'Visualization & BI', 'Dashboards, charting libraries and business-intelligence tools.', 4),
+  ('web-frameworks/frontend', 'web-frameworks', 'Frontend', 'UI frameworks, component libraries and styling systems.', 1),
+  ('web-frameworks/backend', 'web-frameworks', 'Backend', 'Server frameworks, ORMs and API servers.', 2),
+  ('web-frameworks/full-stack', 'web-frameworks', 'Full-stack', 'Meta-frameworks and app platforms spanning client and server.', 3),
+  ('infrastructure-devops/containers', 'infrastructure-devops', 'Containers & Orchestration', 'Container runtimes, Kubernetes and schedulers.', 1),
+  ('infrastructure-devops/observability', 'infrastructure-devops', 'Observability', 'Logging, metrics, tracing and alerting.', 2),
+  ('infrastructure-devops/ci-cd', 'infrastructure-devops', 'CI/CD', 'Continuous integration, delivery and deployment tooling.', 3),
+  ('infrastructure-devops/iac', 'infrastructure-devops', 'Infrastructure as Code', 'Provisioning, configuration management and cloud automation.', 4),
+  ('infrastructure-devops/self-hosting', 'infrastructure-devops', 'Self-hosting', 'Home-lab and self-hosted platforms, PaaS and server panels.', 5),
+  ('mobile/ios', 'mobile', 'iOS', 'Native iOS and Apple-platform development.', 1),
+  ('mobile/android', 'mobile', 'Android', 'Native Android development.', 2),
+  ('mobile/cross-platform', 'mobile', 'Cross-platform', 'React Native, Flutter and other write-once mobile stacks.', 3),
+  ('open-source-utilities/automation', 'open-source-utilities', 'Automation', 'Workflow automation, scrapers and bots.', 1),
+  ('open-source-utilities/productivity', 'open-source-utilities', 'Productivity', 'Notes, knowledge management and personal productivity apps.', 2),
+  ('open-source-utilities/media', 'open-source-utilities', 'Media', 'Audio, video, image and document processing tools.', 3)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Backfill: each enriched repo's existing category becomes its primary root label
+INSERT INTO repo_categories (repo_id, category_slug, is_primary)
+SELECT e.repo_id, c.slug, true
+  FROM enrichments e
+  JOIN categories c ON c.parent_slug IS NULL AND c.name = e.category
+ON CONFLICT (repo_id, category_slug) DO NOTHING;
+
+-- Repos carrying a label at or below EVERY given slug (tag intersection),
+-- best score first. A label on ai-ml/agents matches both ai-ml and ai-ml/agents.
+CREATE OR REPLACE FUNCTION repos_in_categories(
+  p_slugs TEXT[],
+  p_limit INT DEFAULT 50,
+  p_offset INT DEFAULT 0
+)
+RETURNS TABLE (repo_id UUID, total_count BIGINT) AS $$
+  SELECT l.repo_id, COUNT(*) OVER ()
+    FROM repo_categories l
+    JOIN unnest(p_slugs) AS p(slug) ON l.category_slug = p.slug OR l.category_slug LIKE p.slug || '/%'
+    LEFT JOIN enrichments e ON e.repo_id = l.repo_id
+   GROUP BY l.repo_id, e.early_signal_score
+  HAVING COUNT(DISTINCT p.slug) = cardinality(p_slugs)
+   ORDER BY e.early_signal_score DESC NULLS LAST, l.repo_id
+   LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+-- Labelled-repo counts per category, rolled up to ancestors (each repo counted once per category)
+CREATE OR REPLACE FUNCTION category_counts()
+RETURNS TABLE (slug TEXT, repo_count BIGINT) AS $$
+  SELECT c.slug, COUNT(DISTINCT l.repo_id)
+    FROM categories c
+    JOIN repo_categories l ON l.category_slug = c.slug OR l.category_slug LIKE c.slug || '/%'
+   WHERE c.active
+   GROUP BY c.slug;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,15 @@
+-- 012-enrichment-quality.sql — run once in the Supabase SQL editor
+-- Guardrail results for each enrichment (lib/enrichment-quality.ts):
+--   unsupported_numbers  figures in the summary not found in the description/README/stats
+--   unsupported_names    2+ proper names not found there
+--   no_source_text       written with neither a description nor a README excerpt
+--   corrected            needed a corrective retry (informational)
+-- The UI hides summaries carrying any of the first three. Rows enriched
+-- before this migration have no flags — they were never checked.
+
+ALTER TABLE enrichments ADD COLUMN IF NOT EXISTS quality_flags TEXT[] NOT NULL DEFAULT '{}';
+
+-- Review queue: suspect enrichments only
+CREATE INDEX IF NOT EXISTS enrichments_quality_flags_idx
+  ON enrichments USING gin (quality_flags)
+  WHERE quality_flags <> '{}';
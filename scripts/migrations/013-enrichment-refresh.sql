@@ -0,0 +1,37 @@
+-- 013-enrichment-refresh.sql — run once in the Supabase SQL editor
+-- Change-driven enrichment refresh (lib/enrichment-refresh.ts).
+-- enrichments.source_snapshot records what the current summary was written
+-- from: {readme_hash, description, release_tag, stars}. scripts/refresh-enrichments.ts
+-- re-enriches a repo only when that has materially changed, and lib/enrichment.ts
+-- copies the version it replaces into enrichment_history.
+
+ALTER TABLE enrichments ADD COLUMN IF NOT EXISTS source_snapshot JSONB;
+ALTER TABLE enrichments ADD COLUMN IF NOT EXISTS version INT NOT NULL DEFAULT 1;
+ALTER TABLE enrichments ADD COLUMN IF NOT EXISTS refresh_reasons TEXT[] NOT NULL DEFAULT '{}';
+-- scored_at moves on every nightly re-score; this only moves when the text is rewritten
+ALTER TABLE enrichments ADD COLUMN IF NOT EXISTS enriched_at TIMESTAMPTZ;
+UPDATE enrichments SET enriched_at = scored_at WHERE enriched_at IS NULL;
+ALTER TABLE enrichments ALTER COLUMN enriched_at SET DEFAULT now();
+ALTER TABLE enrichments ALTER COLUMN enriched_at SET NOT NULL;
+
+-- Superseded enrichment versions, newest first per repo
+CREATE TABLE IF NOT EXISTS enrichment_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  repo_id UUID NOT NULL REFERENCES repos(id) ON DELETE CASCADE,
+  version INT NOT NULL,
+  summary TEXT NOT NULL,
+  why_it_matters TEXT NOT NULL,
+  category TEXT NOT NULL,
+  labels TEXT[] NOT NULL DEFAULT '{}',
+  quality_flags TEXT[] NOT NULL DEFAULT '{}',
+  source_snapshot JSONB,
+  refresh_reasons TEXT[] NOT NULL DEFAULT '{}', -- why this version was written
+  enriched_at TIMESTAMPTZ NOT NULL,
+  superseded_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (repo_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS enrichment_history_repo_idx ON enrichment_history (repo_id, version DESC);
+
+ALTER TABLE enrichment_history ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read enrichment_history" ON enrichment_history FOR SELECT USING (true);
@@ -0,0 +1,18 @@
+-- 014-llm-cache.sql — run once in the Supabase SQL editor
+-- Claude responses keyed by prompt hash (lib/llm.ts): the template name and
+-- version plus the full request. An identical request within 30 days is
+-- answered from here instead of the API. Service role only.
+
+CREATE TABLE IF NOT EXISTS llm_cache (
+  prompt_hash TEXT PRIMARY KEY,
+  template TEXT NOT NULL,               -- e.g. enrichment, trend-narrative
+  model TEXT NOT NULL,
+  response JSONB NOT NULL,              -- the full Messages API response
+  input_tokens INT NOT NULL DEFAULT 0,
+  output_tokens INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS llm_cache_created_idx ON llm_cache (created_at);
+
+ALTER TABLE llm_cache ENABLE ROW LEVEL SECURITY;
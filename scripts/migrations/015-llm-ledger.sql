@@ -0,0 +1,32 @@
+-- 015-llm-ledger.sql — run once in the Supabase SQL editor
+-- One row per Claude call made through lib/llm.ts — enrichment, trend
+-- narratives, the Tuesday briefing and anomaly narratives — including cache
+-- hits (cost 0) and failed calls (error set). /admin/costs reads it.
+-- Service role only.
+
+CREATE TABLE IF NOT EXISTS llm_calls (
+  id BIGSERIAL PRIMARY KEY,
+  run_id UUID NOT NULL,                     -- one per script process
+  agent TEXT NOT NULL,                      -- script name, e.g. pipeline, trend-narrator
+  template TEXT NOT NULL,                   -- prompt template, e.g. enrichment
+  template_version INT NOT NULL,
+  model TEXT NOT NULL,
+  provider TEXT NOT NULL,                   -- anthropic | record | fixtures
+  prompt_hash TEXT NOT NULL,                -- llm_cache / fixture key
+  input_tokens INT NOT NULL DEFAULT 0,
+  output_tokens INT NOT NULL DEFAULT 0,
+  latency_ms INT NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(10,6) NOT NULL DEFAULT 0, -- list-price estimate
+  cached BOOLEAN NOT NULL DEFAULT false,
+  subject_table TEXT,                       -- the row it produced: enrichments, digests, anomalies
+  subject_ids TEXT[] NOT NULL DEFAULT '{}',
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS llm_calls_created_idx ON llm_calls (created_at DESC);
+CREATE INDEX IF NOT EXISTS llm_calls_run_idx ON llm_calls (run_id);
+-- "Which prompt produced this summary?"
+CREATE INDEX IF NOT EXISTS llm_calls_subject_idx ON llm_calls USING gin (subject_ids);
+
+ALTER TABLE llm_calls ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,24 @@
+-- 016-pipeline-runs.sql — run once in the Supabase SQL editor
+-- One row per scheduled script run (lib/pipeline-runs.ts): when it started
+-- and ended, how it finished, its counters, non-fatal errors and the GitHub
+-- quota it used. /admin/runs reads it. Service role only.
+
+CREATE TABLE IF NOT EXISTS pipeline_runs (
+  id BIGSERIAL PRIMARY KEY,
+  script TEXT NOT NULL,                      -- e.g. pipeline, snapshot-light
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'succeeded', 'failed')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  duration_ms INT,
+  counts JSONB NOT NULL DEFAULT '{}',        -- {"scored": 480, "enriched": 12}
+  errors TEXT[] NOT NULL DEFAULT '{}',       -- first 20 messages; the fatal one first
+  error_count INT NOT NULL DEFAULT 0,
+  api_quota JSONB NOT NULL DEFAULT '{}',     -- GitHub quota used: {"core": 812, "graphql": 104}
+  github_run_id TEXT                         -- Actions run, for the full log
+);
+
+CREATE INDEX IF NOT EXISTS pipeline_runs_script_idx ON pipeline_runs (script, started_at DESC);
+CREATE INDEX IF NOT EXISTS pipeline_runs_started_idx ON pipeline_runs (started_at DESC);
+
+ALTER TABLE pipeline_runs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,20 @@
+-- 017-job-runs.sql — run once in the Supabase SQL editor
+-- Nightly job runner state (scripts/run-jobs.ts, lib/jobs.ts). One row per
+-- job per night, keyed job@night: a second invocation the same night skips
+-- jobs that already succeeded and retries the rest. Service role only.
+
+CREATE TABLE IF NOT EXISTS job_runs (
+  idempotency_key TEXT PRIMARY KEY,          -- e.g. pipeline@2026-10-19
+  job TEXT NOT NULL,
+  night DATE NOT NULL,                       -- UTC date the run belongs to
+  status TEXT NOT NULL CHECK (status IN ('running', 'succeeded', 'failed')),
+  attempts INT NOT NULL DEFAULT 0,           -- across every invocation that night
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  duration_ms INT,
+  error TEXT                                 -- last failure: exit code, signal or timeout
+);
+
+CREATE INDEX IF NOT EXISTS job_runs_night_idx ON job_runs (night DESC);
+
+ALTER TABLE job_runs ENABLE ROW LEVEL SECURITY;
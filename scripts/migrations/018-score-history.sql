@@ -0,0 +1,21 @@
+-- 018-score-history.sql — run once in the Supabase SQL editor
+-- Daily Early Signal Score per repo. enrichments.early_signal_score and
+-- score_breakdown are overwritten on every pipeline run; scripts/pipeline.ts
+-- also upserts today's row here, so the project page can chart the score over
+-- time and mark when it crossed a tier boundary (tierFor() in lib/design.ts).
+-- A second run the same day overwrites that day's row.
+
+CREATE TABLE IF NOT EXISTS score_history (
+  repo_id UUID NOT NULL REFERENCES repos(id) ON DELETE CASCADE,
+  snapshot_date DATE NOT NULL,
+  score INT NOT NULL,
+  tier TEXT NOT NULL CHECK (tier IN ('Breakout', 'Hot', 'Active')),
+  model_version TEXT NOT NULL,             -- lib/score-models.ts production model that day
+  score_breakdown JSONB NOT NULL,
+  PRIMARY KEY (repo_id, snapshot_date)
+);
+
+CREATE INDEX IF NOT EXISTS score_history_date_idx ON score_history (snapshot_date);
+
+ALTER TABLE score_history ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read score_history" ON score_history FOR SELECT USING (true);
@@ -0,0 +1,12 @@
+-- 019-score-confidence.sql — run once in the Supabase SQL editor
+-- How much of each score rests on measured data (lib/score.ts
+-- scoreConfidence): the full record lives in score_breakdown.confidence;
+-- the level is copied to a column so rankings can filter on it
+-- (RANKING_MIN_CONFIDENCE, /api/v1/repos?min_confidence=).
+-- NULL = scored before confidence was recorded; filled on the next pipeline run.
+
+ALTER TABLE enrichments ADD COLUMN IF NOT EXISTS score_confidence TEXT
+  CHECK (score_confidence IN ('low', 'medium', 'high'));
+
+CREATE INDEX IF NOT EXISTS enrichments_confidence_score_idx
+  ON enrichments (score_confidence, early_signal_score DESC);
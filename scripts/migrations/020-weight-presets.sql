@@ -0,0 +1,21 @@
+-- 020-weight-presets.sql — run once in the Supabase SQL editor
+-- Saved weight presets (lib/presets.ts): a named set of signal weights that
+-- re-ranks scored repos on /rank, the category pages and /api/v1/repos
+-- (?preset=<slug>). Built-in presets (default, infra, product) live in code,
+-- not here. Presets are shared by link, so anyone can read one by slug; they
+-- are written through the service role — POST /api/presets from the site
+-- (owner_email null) or POST /api/v1/presets with an API key.
+
+CREATE TABLE IF NOT EXISTS weight_presets (
+  slug TEXT PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+  weights JSONB NOT NULL,                  -- { star_velocity_score: 30, ... }, totalling 100
+  owner_email TEXT,                        -- API key owner; null when saved from the site
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS weight_presets_owner_idx ON weight_presets (owner_email, created_at DESC)
+  WHERE owner_email IS NOT NULL;
+
+ALTER TABLE weight_presets ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read weight_presets" ON weight_presets FOR SELECT USING (true);
@@ -0,0 +1,14 @@
+-- 021-scores-as-of.sql — run once in the Supabase SQL editor
+-- Every repo's latest score_history row on or before a day. The pipeline only
+-- writes a row for repos it re-scored that night (stale-skipped repos keep
+-- their last score without one), so one day's rows are a different subset of
+-- the catalog each day. Rank diffs (lib/rank-diff.ts) rank against this
+-- carried-forward catalog instead. Page with .range() — PostgREST caps rows.
+
+CREATE OR REPLACE FUNCTION scores_as_of(p_date DATE)
+RETURNS TABLE (repo_id UUID, snapshot_date DATE, score INT) AS $$
+  SELECT DISTINCT ON (h.repo_id) h.repo_id, h.snapshot_date, h.score
+    FROM score_history h
+   WHERE h.snapshot_date <= p_date
+   ORDER BY h.repo_id, h.snapshot_date DESC;
+$$ LANGUAGE sql STABLE;
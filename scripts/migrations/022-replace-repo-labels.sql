@@ -0,0 +1,18 @@
+-- 022-replace-repo-labels.sql — run once in the Supabase SQL editor
+-- Rewrite a repo's category labels (lib/enrichment.ts) in one transaction:
+-- labels no longer given are deleted, labels kept keep their labelled_at, and
+-- p_labels[1] becomes the only primary. Done as delete-then-insert from the
+-- client, a failed insert left the repo with no labels at all.
+
+CREATE OR REPLACE FUNCTION replace_repo_labels(p_repo_id UUID, p_labels TEXT[])
+RETURNS VOID AS $$
+  DELETE FROM repo_categories
+   WHERE repo_id = p_repo_id AND NOT (category_slug = ANY (p_labels));
+  -- Clear the old primary first: repo_categories_one_primary_idx allows one
+  UPDATE repo_categories SET is_primary = false
+   WHERE repo_id = p_repo_id AND is_primary AND category_slug <> p_labels[1];
+  INSERT INTO repo_categories (repo_id, category_slug, is_primary)
+  SELECT p_repo_id, l.slug, l.ord = 1
+    FROM unnest(p_labels) WITH ORDINALITY AS l(slug, ord)
+  ON CONFLICT (repo_id, category_slug) DO UPDATE SET is_primary = EXCLUDED.is_primary;
+$$ LANGUAGE sql;
@@ -0,0 +1,65 @@
+-- 023-preset-ranking.sql — run once in the Supabase SQL editor
+-- Weight presets (lib/presets.ts) scored in the database, so a preset ranks
+-- every enriched repo in a list instead of re-sorting the production leaders.
+-- preset_score() mirrors presetScore(): each numeric signal in the stored
+-- score_breakdown times its weight, over 100, minus the manipulation penalty,
+-- clamped to 0–100 and rounded. Repos without download data are scored with
+-- p_weights_no_downloads — the caller passes effectiveWeights(weights, false)
+-- so the reweighting rule stays in lib/score-models.ts.
+
+CREATE OR REPLACE FUNCTION preset_score(p_breakdown JSONB, p_weights JSONB, p_weights_no_downloads JSONB)
+RETURNS INT AS $$
+  SELECT CASE WHEN jsonb_typeof(p_breakdown) IS DISTINCT FROM 'object' THEN 0 ELSE
+    ROUND(LEAST(100, GREATEST(0,
+      COALESCE((
+        SELECT SUM((p_breakdown ->> w.key)::NUMERIC * w.value::NUMERIC)
+          FROM jsonb_each_text(
+                 CASE WHEN jsonb_typeof(p_breakdown -> 'download_velocity_score') = 'number'
+                      THEN p_weights ELSE p_weights_no_downloads END
+               ) AS w(key, value)
+         WHERE jsonb_typeof(p_breakdown -> w.key) = 'number'
+      ), 0) / 100
+      - CASE WHEN jsonb_typeof(p_breakdown -> 'manipulation_penalty') = 'number'
+             THEN (p_breakdown ->> 'manipulation_penalty')::NUMERIC ELSE 0 END
+    )))::INT
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Enriched repos best first under a preset, with the same filters as the lists
+-- it re-ranks: production category, labels at or below every slug (tag
+-- intersection, as repos_in_categories() in 011), a fixed set of ids (the
+-- week's movers), language, production score range and confidence levels
+-- (null confidence — scored before 019 — always passes). NULL skips a filter.
+-- Ties fall back to production score, then repo_id.
+CREATE OR REPLACE FUNCTION repos_by_preset(
+  p_weights JSONB,
+  p_weights_no_downloads JSONB,
+  p_category TEXT DEFAULT NULL,
+  p_slugs TEXT[] DEFAULT NULL,
+  p_repo_ids UUID[] DEFAULT NULL,
+  p_language TEXT DEFAULT NULL,
+  p_min_score INT DEFAULT NULL,
+  p_max_score INT DEFAULT NULL,
+  p_confidence TEXT[] DEFAULT NULL,
+  p_limit INT DEFAULT 50
+)
+RETURNS TABLE (repo_id UUID, preset_score INT, total_count BIGINT) AS $$
+  SELECT e.repo_id, s.score, COUNT(*) OVER ()
+    FROM enrichments e
+    JOIN repos r ON r.id = e.repo_id
+    CROSS JOIN LATERAL (SELECT preset_score(e.score_breakdown, p_weights, p_weights_no_downloads) AS score) s
+   WHERE (p_category IS NULL OR e.category = p_category)
+     AND (p_repo_ids IS NULL OR e.repo_id = ANY (p_repo_ids))
+     AND (p_language IS NULL OR r.language = p_language)
+     AND (p_min_score IS NULL OR e.early_signal_score >= p_min_score)
+     AND (p_max_score IS NULL OR e.early_signal_score <= p_max_score)
+     AND (p_confidence IS NULL OR e.score_confidence IS NULL OR e.score_confidence = ANY (p_confidence))
+     AND (p_slugs IS NULL OR (
+       SELECT COUNT(DISTINCT p.slug)
+         FROM repo_categories l
+         JOIN unnest(p_slugs) AS p(slug) ON l.category_slug = p.slug OR l.category_slug LIKE p.slug || '/%'
+        WHERE l.repo_id = e.repo_id
+     ) = cardinality(p_slugs))
+   ORDER BY s.score DESC, e.early_signal_score DESC NULLS LAST, e.repo_id
+   LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,45 @@
+-- 024-webhook-claims.sql — run once in the Supabase SQL editor
+-- `webhooks.ts deliver` runs after the pipeline, after the anomaly watcher and
+-- every 30 minutes, so two runs can overlap. Each run now claims its batch in
+-- one statement before sending anything: due rows are locked with SKIP LOCKED
+-- and stamped with claimed_at, and a claim older than p_lease_seconds counts
+-- as abandoned (a worker that died mid-batch), so the row is due again. The
+-- worker clears claimed_at when it records the attempt.
+
+ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+-- Claim up to p_limit due deliveries, oldest first, with what sending needs
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_limit INT, p_lease_seconds INT)
+RETURNS TABLE (
+  id UUID,
+  attempts INT,
+  event_id UUID,
+  event_type TEXT,
+  event_data JSONB,
+  event_created_at TIMESTAMPTZ,
+  url TEXT,
+  secret TEXT,
+  disabled_at TIMESTAMPTZ
+) AS $$
+  WITH due AS (
+    SELECT d.id
+      FROM webhook_deliveries d
+     WHERE d.status = 'pending'
+       AND d.next_attempt_at <= now()
+       AND (d.claimed_at IS NULL OR d.claimed_at < now() - make_interval(secs => p_lease_seconds))
+     ORDER BY d.next_attempt_at
+     LIMIT p_limit
+       FOR UPDATE SKIP LOCKED
+  ), claimed AS (
+    UPDATE webhook_deliveries d
+       SET claimed_at = now()
+      FROM due
+     WHERE d.id = due.id
+    RETURNING d.id, d.attempts, d.event_id, d.endpoint_id, d.next_attempt_at
+  )
+  SELECT c.id, c.attempts, ev.id, ev.type, ev.data, ev.created_at, ep.url, ep.secret, ep.disabled_at
+    FROM claimed c
+    JOIN webhook_events ev ON ev.id = c.event_id
+    JOIN webhook_endpoints ep ON ep.id = c.endpoint_id
+   ORDER BY c.next_attempt_at;
+$$ LANGUAGE sql;
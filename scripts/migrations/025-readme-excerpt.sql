@@ -0,0 +1,9 @@
+-- 025-readme-excerpt.sql — run once in the Supabase SQL editor
+-- The cleaned README excerpt (lib/github.ts cleanReadme, up to 2,000 chars)
+-- each enrichment was written from. scripts/compute-similar.ts adds it to the
+-- TF-IDF text so similar repos match on what the README says, not only on the
+-- description and summary. Until then only its hash was kept
+-- (source_snapshot.readme_hash). NULL = no README, or enriched before this
+-- column; filled on the repo's next enrichment.
+
+ALTER TABLE enrichments ADD COLUMN IF NOT EXISTS readme_excerpt TEXT;
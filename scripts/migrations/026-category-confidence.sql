@@ -0,0 +1,27 @@
+-- 026-category-confidence.sql — run once in the Supabase SQL editor
+-- Category pages honour RANKING_MIN_CONFIDENCE like the other rankings:
+-- repos_in_categories() (011-taxonomy.sql) takes the confidence levels to
+-- keep, as repos_by_preset() (023) does. NULL keeps every level; a repo with
+-- no score_confidence (unenriched, or scored before 019) always passes.
+-- The argument list changes, so the old function is dropped first rather than
+-- left behind as an overload.
+
+DROP FUNCTION IF EXISTS repos_in_categories(TEXT[], INT, INT);
+
+CREATE OR REPLACE FUNCTION repos_in_categories(
+  p_slugs TEXT[],
+  p_limit INT DEFAULT 50,
+  p_offset INT DEFAULT 0,
+  p_confidence TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (repo_id UUID, total_count BIGINT) AS $$
+  SELECT l.repo_id, COUNT(*) OVER ()
+    FROM repo_categories l
+    JOIN unnest(p_slugs) AS p(slug) ON l.category_slug = p.slug OR l.category_slug LIKE p.slug || '/%'
+    LEFT JOIN enrichments e ON e.repo_id = l.repo_id
+   WHERE p_confidence IS NULL OR e.score_confidence IS NULL OR e.score_confidence = ANY (p_confidence)
+   GROUP BY l.repo_id, e.early_signal_score
+  HAVING COUNT(DISTINCT p.slug) = cardinality(p_slugs)
+   ORDER BY e.early_signal_score DESC NULLS LAST, l.repo_id
+   LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,22 @@
+-- 027-carry-forward-scores.sql — run once in the Supabase SQL editor
+-- The pipeline scores only the repos it re-scores that night; stale-skipped
+-- and undiscovered repos keep their last score without a row for the day.
+-- After each scoring pass scripts/pipeline.ts calls carry_forward_scores() so
+-- every scored repo has a score_history row for the day, copied from its
+-- latest earlier one. A day's rows are then the whole ranked catalog, which
+-- the score chart, scores_as_of() (021) and rank diffs read. A repo re-scored
+-- later the same day overwrites its carried row.
+
+CREATE OR REPLACE FUNCTION carry_forward_scores(p_date DATE)
+RETURNS INT AS $$
+  WITH carried AS (
+    INSERT INTO score_history (repo_id, snapshot_date, score, tier, model_version, score_breakdown)
+    SELECT DISTINCT ON (h.repo_id) h.repo_id, p_date, h.score, h.tier, h.model_version, h.score_breakdown
+      FROM score_history h
+     WHERE h.snapshot_date < p_date
+     ORDER BY h.repo_id, h.snapshot_date DESC
+    ON CONFLICT (repo_id, snapshot_date) DO NOTHING
+    RETURNING 1
+  )
+  SELECT COUNT(*)::INT FROM carried;
+$$ LANGUAGE sql;
@@ -6,7 +6,7 @@
 //   Pass 2 (Enrich): Top N unenriched repos by score, concurrently (README + Claude)
 //
 // Run locally: npx tsx scripts/pipeline.ts
-// Run nightly: GitHub Actions cron (see .github/workflows/pipeline.yml)
+// Run nightly: the pipeline job in lib/jobs.ts (scripts/run-jobs.ts)
 //
 // Environment variables required:
 //   NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, GITHUB_TOKEN, ANTHROPIC_API_KEY
@@ -14,29 +14,9 @@
 import { config } from 'dotenv'
 config({ path: '.env.local' })
 
-const CATEGORY_SLUGS = [
-  'ai-ml',
-  'developer-tools',
-  'security',
-  'data-analytics',
-  'web-frameworks',
-  'infrastructure-devops',
-  'mobile',
-  'open-source-utilities',
-] as const
-
-type CategorySlug = (typeof CATEGORY_SLUGS)[number]
-
-const CATEGORY_NAMES: Record<CategorySlug, string> = {
-  'ai-ml': 'AI / Machine Learning',
-  'developer-tools': 'Developer Tools',
-  'security': 'Security',
-  'data-analytics': 'Data & Analytics',
-  'web-frameworks': 'Web Frameworks',
-  'infrastructure-devops': 'Infrastructure & DevOps',
-  'mobile': 'Mobile',
-  'open-source-utilities': 'Open Source Utilities',
-}
+import { tierFor } from '../lib/design.js'
+import { failActiveRun, startRun } from '../lib/pipeline-runs.js'
+import { STAR_QUALITY_MAX_AGE_DAYS } from '../lib/star-quality.js'
 
 // ── Tuning constants ──
 const SCORE_CONCURRENCY = 10
@@ -83,20 +63,28 @@ function logError(msg: string, err: unknown): void {
 async function main(): Promise<void> {
   // Dynamic imports — evaluated after dotenv.config() has run
   const [
-    { searchReposByCategory, searchTrendingMidTier, searchMidHighRepos, searchNewbornRockets, searchHighStarRepos, getReadme, cleanReadme, detectPackageName },
-    { calculateScore },
+    { searchReposByTopics, searchTrendingMidTier, searchMidHighRepos, searchNewbornRockets, searchHighStarRepos, getReadme, cleanReadme, detectPackageName },
+    { calculateScore, downloadInputs },
     { getHNMentions },
     { enrichRepo },
     { createServiceClient },
+    { enqueueWebhookEvent, repoRef, tierChange },
+    { candidateModel, productionModel },
+    { loadPeerDistributions, peerScoresFor, MIN_PEER_SAMPLE },
+    { runUsage, formatUsage, llmRun, budgetExhausted, BudgetExceededError },
   ] = await Promise.all([
     import('../lib/github.js'),
     import('../lib/score.js'),
     import('../lib/hn.js'),
     import('../lib/enrichment.js'),
     import('../lib/supabase.js'),
+    import('../lib/webhooks.js'),
+    import('../lib/score-models.js'),
+    import('../lib/peer-norm.js'),
+    import('../lib/llm.js'),
   ])
 
-  type Repo = Awaited<ReturnType<typeof searchReposByCategory>>[number]
+  type Repo = Awaited<ReturnType<typeof searchReposByTopics>>[number]
   type DB = ReturnType<typeof createServiceClient>
 
   interface ScoreResult {
@@ -106,11 +94,13 @@ async function main(): Promise<void> {
     breakdown: ReturnType<typeof calculateScore>['breakdown']
     repoData: Repo
     contributorCount: number
+    refreshReasons?: Parameters<typeof enrichRepo>[5]
   }
 
   let skippedStale = 0
   let scored = 0
   let enriched = 0
+  let budgetSkipped = 0
 
   // ── Pass 1: Score a single repo ──
   async function scoreRepo(db: DB, repoData: Repo): Promise<ScoreResult | null> {
@@ -213,6 +203,10 @@ async function main(): Promise<void> {
         { data: weeklyStats },
         hnMentions,
         { data: repoRow },
+        { data: existing },
+        { data: starQuality },
+        { data: firstSnap },
+        { data: downloadRows },
       ] = await Promise.all([
         db.from('repo_snapshots')
           .select('stars, stars_7d, forks')
@@ -246,6 +240,26 @@ async function main(): Promise<void> {
           .select('package_registry')
           .eq('id', repoId)
           .single(),
+        db.from('enrichments')
+          .select('early_signal_score, category')
+          .eq('repo_id', repoId)
+          .maybeSingle(),
+        db.from('star_quality')
+          .select('fake_star_probability, sampled_at')
+          .eq('repo_id', repoId)
+          .gte('sampled_at', new Date(today.getTime() - STAR_QUALITY_MAX_AGE_DAYS * 86400000).toISOString())
+          .maybeSingle(),
+        db.from('repo_snapshots')
+          .select('snapshot_date')
+          .eq('repo_id', repoId)
+          .order('snapshot_date', { ascending: true })
+          .limit(1)
+          .maybeSingle(),
+        db.from('package_downloads')
+          .select('snapshot_date, downloads_7d')
+          .eq('repo_id', repoId)
+          .gte('snapshot_date', new Date(today.getTime() - 14 * 86400000).toISOString().split('T')[0])
+          .order('snapshot_date', { ascending: false }),
       ])
 
       // Package detection (one-time, 1-3 GitHub REST calls)
@@ -270,7 +284,7 @@ async function main(): Promise<void> {
       const forks_7d_prev = (snap7d && snap14d) ? (snap7d.forks as number) - (snap14d.forks as number) : undefined
       const stars_7d_prev = snap7d ? (snap7d.stars_7d as number) : undefined
 
-      const { score, breakdown } = calculateScore({
+      const scoreInputs = {
         stars: repoData.stars,
         stars_7d,
         stars_30d,
@@ -282,7 +296,56 @@ async function main(): Promise<void> {
         stars_7d_prev: stars_7d_prev ?? undefined,
         forks_7d: forks_7d != null && forks_7d >= 0 ? forks_7d : undefined,
         forks_7d_prev: forks_7d_prev != null && forks_7d_prev >= 0 ? forks_7d_prev : undefined,
-      })
+        // Set by scripts/analyse-stargazers.ts, which runs just before this pipeline
+        fake_star_probability: starQuality ? Number(starQuality.fake_star_probability) : undefined,
+        // Written by scripts/fetch-downloads.ts after last night's run; repos
+        // without a package are scored without the download signals
+        package_registry: (repoRow as unknown as { package_registry: string | null } | null)?.package_registry ?? undefined,
+        ...downloadInputs((downloadRows ?? []) as unknown as { snapshot_date: string; downloads_7d: number }[], todayStr),
+        // Data coverage for breakdown.confidence — what above fell back to 0
+        history_days: firstSnap
+          ? Math.floor((Date.parse(todayStr) - Date.parse(firstSnap.snapshot_date as string)) / 86400000)
+          : 0,
+        hn_lookup_ok: hnMentions.lookup_ok,
+        unmeasured: [
+          ...(!latestSnap && !snap7d ? (['stars_7d'] as const) : []),
+          ...(upsertedRepo.contributors == null ? (['contributors'] as const) : []),
+          ...(weeklyStats?.commit_count_4w == null ? (['commits_30d'] as const) : []),
+        ],
+      }
+      // Percentiles within the repo's category (last enrichment) or language
+      const peer = peerScoresFor(peers, existing?.category ?? null, repoData.language, scoreInputs)
+      const { score, breakdown } = calculateScore(scoreInputs, productionModel(), peer)
+
+      // Shadow-score with the candidate model (same inputs) for scripts/compare-models.ts
+      if (candidate) {
+        const shadow = calculateScore(scoreInputs, candidate, peer)
+        const { error: shadowError } = await db.from('model_scores').upsert(
+          {
+            repo_id: repoId,
+            model_version: candidate.version,
+            score: shadow.score,
+            score_breakdown: JSON.parse(JSON.stringify(shadow.breakdown)),
+            scored_at: new Date().toISOString(),
+          },
+          { onConflict: 'repo_id,model_version' }
+        )
+        if (shadowError) logError(`Failed to store ${candidate.version} score for ${label}`, shadowError)
+      }
+
+      // Today's score — enrichments only keeps the latest (scripts/migrations/018-score-history.sql)
+      const { error: historyError } = await db.from('score_history').upsert(
+        {
+          repo_id: repoId,
+          snapshot_date: todayStr,
+          score,
+          tier: tierFor(score),
+          model_version: productionModel().version,
+          score_breakdown: JSON.parse(JSON.stringify(breakdown)),
+        },
+        { onConflict: 'repo_id,snapshot_date' }
+      )
+      if (historyError) logError(`Failed to record score history for ${label}`, historyError)
 
       // Insert today's snapshot
       const { error: snapError } = await db.from('repo_snapshots').upsert(
@@ -300,19 +363,13 @@ async function main(): Promise<void> {
       }
 
       // Check if enrichment exists and is still fresh
-      const { data: existing } = await db
-        .from('enrichments')
-        .select('early_signal_score')
-        .eq('repo_id', repoId)
-        .maybeSingle()
-
       const needsEnrichment =
         !existing || Math.abs(existing.early_signal_score - score) > 10
 
       if (needsEnrichment) {
         log(`  ${label} → score: ${score} (needs enrichment)`)
         scored++
-        return { repoId, label, score, breakdown, repoData, contributorCount }
+        return { repoId, label, score, breakdown, repoData, contributorCount, refreshReasons: existing ? ['score_change'] : [] }
       } else {
         // Update score on existing enrichment
         await db
@@ -320,9 +377,19 @@ async function main(): Promise<void> {
           .update({
             early_signal_score: score,
             score_breakdown: JSON.parse(JSON.stringify(breakdown)),
+            score_confidence: breakdown.confidence?.level ?? null,
             scored_at: new Date().toISOString(),
           })
           .eq('repo_id', repoId)
+        const change = tierChange(existing.early_signal_score, score)
+        if (change) {
+          await enqueueWebhookEvent(db, 'repo.tier_changed', {
+            repo: repoRef({ id: repoId, owner, name: repoName }),
+            from: { tier: change.from, score: existing.early_signal_score },
+            to: { tier: change.to, score },
+          })
+          log(`  ${label} → tier ${change.from} → ${change.to}`)
+        }
         log(`  ${label} → score: ${score} (updated, no re-enrichment needed)`)
         scored++
         return null
@@ -335,9 +402,15 @@ async function main(): Promise<void> {
 
   // ── Pass 2: Enrich a single repo ──
   async function enrichRepoPass(db: DB, item: ScoreResult): Promise<void> {
-    const { repoId, label, score, breakdown, repoData, contributorCount } = item
+    const { repoId, label, score, breakdown, repoData, contributorCount, refreshReasons } = item
     const { owner, name: repoName, github_id } = repoData
 
+    // Run's LLM budget is spent (LLM_RUN_BUDGET_USD) — leave the rest for tomorrow
+    if (budgetExhausted()) {
+      budgetSkipped++
+      return
+    }
+
     try {
       const rawReadme = await getReadme(owner, repoName)
       const readmeExcerpt = rawReadme ? cleanReadme(rawReadme) : undefined
@@ -354,36 +427,63 @@ async function main(): Promise<void> {
         language: repoData.language,
         topics: repoData.topics,
         readme_excerpt: readmeExcerpt || undefined,
-      }, score, breakdown, true) // forceRefresh=true — we already checked
+      }, score, breakdown, true, refreshReasons) // forceRefresh=true — we already checked
       log(`  ${label} enriched ✓`)
       enriched++
     } catch (err) {
-      logError(`Failed to enrich ${label}`, err)
+      if (err instanceof BudgetExceededError) budgetSkipped++
+      else logError(`Failed to enrich ${label}`, err)
     }
   }
 
   log('=== GitFind Pipeline Starting ===')
 
+  const candidate = candidateModel()
+  log(`Scoring model: ${productionModel().version}${candidate ? ` (shadow: ${candidate.version})` : ''}`)
+
   const db = createServiceClient()
+  const run = await startRun(db, 'pipeline')
   let totalErrors = 0
 
+  function recordError(msg: string, err: unknown): void {
+    logError(msg, err)
+    run.error(`${msg}: ${err instanceof Error ? err.message : String(err)}`)
+    totalErrors++
+  }
+
+  // Peer distributions for percentile normalisation — a failed load only costs the percentiles
+  let peers: Awaited<ReturnType<typeof loadPeerDistributions>> = new Map()
+  try {
+    peers = await loadPeerDistributions(db)
+    log(`Peer groups: ${peers.size} (categories + languages with ≥ ${MIN_PEER_SAMPLE} repos)`)
+  } catch (err) {
+    logError('Failed to load peer distributions', err)
+  }
+
   // ── Phase 1: Discovery ──────────────────────────────────────────────
   const discovered = new Map<number, Repo>()
   const discoveryStartedAt = Date.now()
 
-  // Layer 1: Category search
+  // Layer 1: Category search — root categories and their topics come from the live taxonomy
   log('\n── Layer 1: Category Search ──')
-  for (const categorySlug of CATEGORY_SLUGS) {
-    const categoryName = CATEGORY_NAMES[categorySlug]
+  const { data: rootCategories, error: rootsErr } = await db
+    .from('categories')
+    .select('name, github_topics')
+    .is('parent_slug', null)
+    .eq('active', true)
+    .order('sort_order')
+  if (rootsErr) {
+    recordError('Failed to load root categories', rootsErr.message)
+  }
+  for (const category of rootCategories ?? []) {
     try {
-      const repos = await searchReposByCategory(categorySlug)
+      const repos = await searchReposByTopics(category.github_topics)
       for (const repo of repos) {
         if (!discovered.has(repo.github_id)) discovered.set(repo.github_id, repo)
       }
-      log(`  ${categoryName}: ${repos.length} repos`)
+      log(`  ${category.name}: ${repos.length} repos`)
     } catch (err) {
-      logError(`Failed to fetch repos for ${categoryName}`, err)
-      totalErrors++
+      recordError(`Failed to fetch repos for ${category.name}`, err)
     }
     await new Promise((r) => setTimeout(r, 500))
   }
@@ -402,8 +502,7 @@ async function main(): Promise<void> {
     }
     log(`Layer 2: ${midTier.length} found, ${added} new (${discovered.size} total unique)`)
   } catch (err) {
-    logError('Layer 2 failed', err)
-    totalErrors++
+    recordError('Layer 2 failed', err)
   }
 
   // Rate limit gate: Layers 1+2 used ~30 search requests. Wait for the 30-req/min window to reset.
@@ -429,8 +528,7 @@ async function main(): Promise<void> {
     }
     log(`Layer 2.5: ${midHigh.length} found, ${added} new (${discovered.size} total unique)`)
   } catch (err) {
-    logError('Layer 2.5 failed', err)
-    totalErrors++
+    recordError('Layer 2.5 failed', err)
   }
 
   // Layer 3: Newborn rockets
@@ -446,8 +544,7 @@ async function main(): Promise<void> {
     }
     log(`Layer 3: ${newborn.length} found, ${added} new (${discovered.size} total unique)`)
   } catch (err) {
-    logError('Layer 3 failed', err)
-    totalErrors++
+    recordError('Layer 3 failed', err)
   }
 
   // Rate limit gate: Layers 2.5+3 used ~5 requests. Layer 4 needs 10. Wait for window reset.
@@ -473,8 +570,7 @@ async function main(): Promise<void> {
     }
     log(`Layer 4: ${legends.length} found, ${added} new (${discovered.size} total unique)`)
   } catch (err) {
-    logError('Layer 4 failed', err)
-    totalErrors++
+    recordError('Layer 4 failed', err)
   }
 
   log(`\n── Discovery complete: ${discovered.size} unique repos ──`)
@@ -494,6 +590,14 @@ async function main(): Promise<void> {
 
   log(`\n── Scoring complete: ${scored} scored, ${skippedStale} stale-skipped, ${enrichmentCandidates.length} need enrichment ──`)
 
+  // Today's score_history row for every repo not re-scored above, so the day's
+  // ranking is the whole catalog (scripts/migrations/027-carry-forward-scores.sql)
+  const { data: carried, error: carryError } = await db.rpc('carry_forward_scores', {
+    p_date: new Date().toISOString().split('T')[0],
+  })
+  if (carryError) logError('Failed to carry scores forward into score_history', carryError)
+  else log(`  carried ${carried} unchanged scores forward into score_history`)
+
   // ── Phase 2b: Enrich top N by score ───────────────────────────────────
   const toEnrich = enrichmentCandidates.slice(0, MAX_ENRICHMENTS_PER_RUN)
   log(`\n── Phase 2b: Enriching top ${toEnrich.length} repos (of ${enrichmentCandidates.length} candidates) ──`)
@@ -511,7 +615,7 @@ async function main(): Promise<void> {
   // (2) remaining slots by latest-snapshot stars_7d. Raw star count is only the tiebreak.
   const VELOCITY_FLOOR = 100
   const backfillSlots = MAX_ENRICHMENTS_PER_RUN - enriched
-  if (backfillSlots > 0) {
+  if (backfillSlots > 0 && !budgetExhausted()) {
     log(`\n── Phase 2c: Backfilling unenriched DB repos (${backfillSlots} slots, velocity-first) ──`)
 
     const { data: latestRow } = await db
@@ -642,9 +746,21 @@ async function main(): Promise<void> {
   log(`Discovered: ${discovered.size} unique repos`)
   log(`Scored: ${scored} | Stale-skipped: ${skippedStale} | Enriched: ${enriched}`)
   log(`Errors: ${totalErrors}`)
+  for (const line of formatUsage(runUsage())) log(line)
+  const { budget_usd, spent_usd } = llmRun()
+  log(`LLM budget: $${spent_usd.toFixed(2)} of ${budget_usd == null ? 'unlimited' : `$${budget_usd}`}${budgetSkipped > 0 ? ` — ${budgetSkipped} enrichments skipped` : ''}`)
+
+  run.set('discovered', discovered.size)
+  run.set('scored', scored)
+  run.set('skipped_stale', skippedStale)
+  run.set('enriched', enriched)
+  run.set('budget_skipped', budgetSkipped)
+  run.set('llm_cost_cents', Math.round(spent_usd * 100))
+  await run.finish()
 }
 
-main().catch((err) => {
+main().catch(async (err) => {
   console.error('Pipeline failed with unexpected error:', err)
+  await failActiveRun(err)
   process.exit(1)
 })
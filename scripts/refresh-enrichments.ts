@@ -0,0 +1,249 @@
+// Refresh Enrichments — re-enrich only repos that have materially changed
+// Compares each enrichment's source snapshot (what its summary was written
+// from) with the repo today: description edits, a new major release in
+// weekly_stats, the star count crossing an order of magnitude, and — for
+// repos pushed since their README was last hashed — a README change
+// (lib/enrichment-refresh.ts). Changed repos are re-enriched, busiest first;
+// lib/enrichment.ts archives the version each one replaces.
+//
+// Enrichments written before migration 013 have no snapshot. The first run
+// records one from the current repo state without calling Claude.
+//
+// Run:      npx tsx scripts/refresh-enrichments.ts
+// Dry run:  npx tsx scripts/refresh-enrichments.ts --dry-run
+//
+// Environment variables required:
+//   NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, GITHUB_TOKEN, ANTHROPIC_API_KEY
+
+import { config } from 'dotenv'
+config({ path: '.env.local' })
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from '../lib/database.types.js'
+import type { RefreshReason, SourceSnapshot } from '../lib/enrichment-refresh.js'
+import type { ScoreBreakdown } from '../lib/score.js'
+
+type ServiceClient = SupabaseClient<Database>
+
+const DRY_RUN = process.argv.includes('--dry-run')
+const PAGE_SIZE = 1000
+const RELEASE_LOOKBACK_DAYS = 21 // weekly_stats runs weekly; older rows are stale
+
+function log(msg: string): void {
+  const ts = new Date().toISOString().replace('T', ' ').split('.')[0]
+  console.log(`[${ts}] ${msg}`)
+}
+
+function logError(msg: string, err: unknown): void {
+  const message = err instanceof Error ? err.message : String(err)
+  console.error(`[ERROR] ${msg}: ${message}`)
+}
+
+interface EnrichedRow {
+  repo_id: string
+  source_snapshot: Json | null
+  enriched_at: string
+  early_signal_score: number
+}
+
+interface RepoRow {
+  id: string
+  github_id: number
+  owner: string
+  name: string
+  description: string | null
+  stars: number
+  forks: number
+  contributors: number
+  language: string | null
+  topics: string[] | null
+  archived: boolean
+  pushed_at: string | null
+}
+
+async function loadPaged<Row>(db: ServiceClient, table: 'repos' | 'enrichments', columns: string, orderBy: string): Promise<Row[]> {
+  const rows: Row[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await db
+      .from(table)
+      .select(columns)
+      .order(orderBy)
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) throw new Error(`loading ${table}: ${error.message}`)
+    rows.push(...((data ?? []) as unknown as Row[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return rows
+}
+
+// Latest known release tag per repo (null = latest stats row has no release)
+async function loadReleaseTags(db: ServiceClient): Promise<Map<string, string | null>> {
+  const since = new Date(Date.now() - RELEASE_LOOKBACK_DAYS * 86_400_000).toISOString().split('T')[0]
+  const tags = new Map<string, string | null>()
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await db
+      .from('weekly_stats')
+      .select('repo_id, last_release_tag')
+      .gte('snapshot_date', since)
+      .order('snapshot_date', { ascending: false })
+      .order('repo_id')
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) throw new Error(`loading weekly_stats: ${error.message}`)
+    for (const row of data ?? []) {
+      if (!tags.has(row.repo_id)) tags.set(row.repo_id, row.last_release_tag)
+    }
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return tags
+}
+
+async function writeSnapshot(db: ServiceClient, repoId: string, snapshot: SourceSnapshot): Promise<boolean> {
+  const { error } = await db.from('enrichments').update({ source_snapshot: { ...snapshot } }).eq('repo_id', repoId)
+  if (error) {
+    logError(`Failed to write snapshot for ${repoId}`, error.message)
+    return false
+  }
+  return true
+}
+
+async function main(): Promise<void> {
+  const [{ createServiceClient }, { getReadme, cleanReadme }, { enrichRepo }, refresh, { runUsage, formatUsage, budgetExhausted }] = await Promise.all([
+    import('../lib/supabase.js'),
+    import('../lib/github.js'),
+    import('../lib/enrichment.js'),
+    import('../lib/enrichment-refresh.js'),
+    import('../lib/llm.js'),
+  ])
+  const db: ServiceClient = createServiceClient()
+
+  log('=== Refreshing Changed Enrichments ===')
+  if (DRY_RUN) log('DRY RUN — no writes or Claude calls will happen')
+
+  const [enrichments, repos, releaseTags] = await Promise.all([
+    loadPaged<EnrichedRow>(db, 'enrichments', 'repo_id, source_snapshot, enriched_at, early_signal_score', 'repo_id'),
+    loadPaged<RepoRow>(
+      db,
+      'repos',
+      'id, github_id, owner, name, description, stars, forks, contributors, language, topics, archived, pushed_at',
+      'id'
+    ),
+    loadReleaseTags(db),
+  ])
+  const repoById = new Map(repos.map((r) => [r.id, r]))
+  log(`${enrichments.length} enrichments, ${releaseTags.size} repos with recent weekly stats`)
+
+  // ── Pass 1: cheap checks from the DB; baseline rows without a snapshot ──
+  const snapshots = new Map<string, SourceSnapshot>()
+  const reasons = new Map<string, RefreshReason[]>()
+  let baselined = 0
+
+  for (const e of enrichments) {
+    const repo = repoById.get(e.repo_id)
+    if (!repo || repo.archived) continue
+    const stored = refresh.parseSourceSnapshot(e.source_snapshot)
+    const current: SourceSnapshot = {
+      readme_hash: stored?.readme_hash ?? null,
+      readme_checked_at: stored?.readme_checked_at ?? null,
+      description: repo.description,
+      release_tag: releaseTags.has(repo.id) ? (releaseTags.get(repo.id) ?? null) : (stored?.release_tag ?? null),
+      stars: repo.stars,
+    }
+    if (!stored) {
+      if (!DRY_RUN && (await writeSnapshot(db, repo.id, current))) baselined++
+      continue
+    }
+    snapshots.set(repo.id, stored)
+    const changed = refresh.detectMaterialChanges(stored, current)
+    if (changed.length > 0) reasons.set(repo.id, changed)
+  }
+  log(`Pass 1: ${reasons.size} repos changed, ${baselined} baseline snapshots recorded`)
+
+  // ── Pass 2: README hashes for repos pushed since the last check ──
+  const enrichedAt = new Map(enrichments.map((e) => [e.repo_id, e.enriched_at]))
+  const readmeQueue = [...snapshots.entries()]
+    .filter(([id, stored]) => !reasons.has(id) && refresh.readmeCheckDue(stored, repoById.get(id)!.pushed_at, enrichedAt.get(id)!))
+    .sort(([a], [b]) => enrichedAt.get(a)!.localeCompare(enrichedAt.get(b)!))
+    .slice(0, refresh.MAX_README_CHECKS_PER_RUN)
+  const excerpts = new Map<string, string | undefined>()
+  let readmeChanged = 0
+
+  for (const [id, stored] of readmeQueue) {
+    const repo = repoById.get(id)!
+    const raw = await getReadme(repo.owner, repo.name)
+    const excerpt = raw ? cleanReadme(raw) || undefined : undefined
+    excerpts.set(id, excerpt)
+    const hash = refresh.readmeHash(excerpt)
+    if (stored.readme_hash && hash && hash !== stored.readme_hash) {
+      reasons.set(id, ['readme_changed'])
+      readmeChanged++
+    } else if (!DRY_RUN) {
+      // Unchanged (or first hash for a baseline row) — remember we looked
+      await writeSnapshot(db, id, { ...stored, readme_hash: stored.readme_hash ?? hash, readme_checked_at: new Date().toISOString() })
+    }
+  }
+  log(`Pass 2: ${readmeQueue.length} READMEs checked, ${readmeChanged} changed`)
+
+  // ── Pass 3: re-enrich, highest score first ──
+  const scoreById = new Map(enrichments.map((e) => [e.repo_id, e.early_signal_score]))
+  const due = [...reasons.entries()]
+    .filter(([id]) => refresh.refreshDue(enrichedAt.get(id) ?? null))
+    .sort(([a], [b]) => scoreById.get(b)! - scoreById.get(a)!)
+  const toRefresh = due.slice(0, refresh.MAX_REFRESHES_PER_RUN)
+  log(`Pass 3: ${due.length} due for refresh (${reasons.size - due.length} refreshed too recently), refreshing ${toRefresh.length}`)
+
+  let refreshed = 0
+  let failed = 0
+  for (const [id, why] of toRefresh) {
+    const repo = repoById.get(id)!
+    const label = `${repo.owner}/${repo.name}`
+    if (DRY_RUN) {
+      log(`  would refresh ${label} — ${refresh.describeRefreshReasons(why)}`)
+      continue
+    }
+    if (budgetExhausted()) {
+      log('  LLM budget for this run is spent — deferring the rest')
+      break
+    }
+    try {
+      const { data: current, error } = await db.from('enrichments').select('score_breakdown').eq('repo_id', id).maybeSingle()
+      if (error) throw new Error(error.message)
+      let excerpt = excerpts.get(id)
+      if (!excerpts.has(id)) {
+        const raw = await getReadme(repo.owner, repo.name)
+        excerpt = raw ? cleanReadme(raw) || undefined : undefined
+      }
+      await enrichRepo(
+        id,
+        {
+          github_id: repo.github_id,
+          name: repo.name,
+          owner: repo.owner,
+          description: repo.description,
+          stars: repo.stars,
+          forks: repo.forks,
+          contributors: repo.contributors ?? 0,
+          language: repo.language,
+          topics: repo.topics ?? undefined,
+          readme_excerpt: excerpt,
+        },
+        scoreById.get(id)!,
+        (current?.score_breakdown as unknown as ScoreBreakdown | null) ?? undefined,
+        true,
+        why
+      )
+      log(`  ${label} refreshed ✓ (${refresh.describeRefreshReasons(why)})`)
+      refreshed++
+    } catch (err) {
+      logError(`Failed to refresh ${label}`, err)
+      failed++
+    }
+  }
+
+  for (const line of formatUsage(runUsage())) log(line)
+  log(`=== Done: ${refreshed} refreshed, ${failed} failed, ${due.length - refreshed - failed} deferred ===`)
+}
+
+main().catch((err) => {
+  console.error('Enrichment refresh failed:', err)
+  process.exit(1)
+})
@@ -0,0 +1,203 @@
+// Nightly job runner — runs the job graph in lib/jobs.ts one script at a time,
+// in dependency order, with per-job timeouts and retries. Progress is stored
+// per job and night in job_runs (scripts/migrations/017-job-runs.sql), so
+// running it again the same night resumes: jobs that already succeeded are
+// skipped, failed and unfinished ones run again. Jobs whose dependencies
+// haven't succeeded tonight are blocked; jobs with a later earliest start are
+// deferred to a later invocation (the 06:00 and 11:00 UTC workflows).
+//
+// Run:                 npx tsx scripts/run-jobs.ts
+// Plan only:           npx tsx scripts/run-jobs.ts --dry-run
+// A job + downstream:  npx tsx scripts/run-jobs.ts --from pipeline
+// Exactly these:       npx tsx scripts/run-jobs.ts --only trend-narrator,compute-similar
+// Options:             --force (rerun jobs that already succeeded tonight)
+//                      --ignore-deps (don't require dependencies to have succeeded tonight)
+//                      --now (ignore earliest start times)
+//
+// Environment variables: whatever the selected scripts need, plus
+//   NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY for job_runs
+
+import { config } from 'dotenv'
+config({ path: '.env.local' })
+
+import { spawn } from 'node:child_process'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '../lib/database.types.js'
+import type { JobSpec, JobState } from '../lib/jobs.js'
+
+type ServiceClient = SupabaseClient<Database>
+
+const DRY_RUN = process.argv.includes('--dry-run')
+const FORCE = process.argv.includes('--force')
+const IGNORE_DEPS = process.argv.includes('--ignore-deps')
+const ANY_TIME = process.argv.includes('--now')
+const KILL_GRACE_MS = 10_000
+
+function log(msg: string): void {
+  const ts = new Date().toISOString().replace('T', ' ').split('.')[0]
+  console.log(`[${ts}] ${msg}`)
+}
+
+function flag(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`)
+  return i >= 0 ? process.argv[i + 1] : undefined
+}
+
+// Resolves with null on exit code 0, otherwise a description of the failure.
+// The script runs in its own process group (detached) so a timeout stops the
+// whole tree — signalling npx alone can leave its tsx child running into the
+// retry. A timed-out run resolves only after the group has been SIGKILLed.
+function runScript(job: JobSpec): Promise<string | null> {
+  return new Promise((resolve) => {
+    const child = spawn('npx', ['tsx', job.script, ...(job.args ?? [])], { stdio: 'inherit', detached: true })
+    const killGroup = (signal: NodeJS.Signals) => {
+      try {
+        if (child.pid) process.kill(-child.pid, signal)
+      } catch {
+        // group already gone
+      }
+    }
+    let stopped: Promise<void> | null = null
+    const timer = setTimeout(() => {
+      log(`  ${job.name} hit its ${job.timeoutMinutes}m timeout — stopping it`)
+      killGroup('SIGTERM')
+      stopped = new Promise((done) =>
+        setTimeout(() => {
+          killGroup('SIGKILL')
+          done()
+        }, KILL_GRACE_MS)
+      )
+    }, job.timeoutMinutes * 60_000)
+
+    child.on('error', (err) => {
+      clearTimeout(timer)
+      resolve(`could not start: ${err.message}`)
+    })
+    child.on('exit', (code, signal) => {
+      clearTimeout(timer)
+      if (stopped) void stopped.then(() => resolve(`timed out after ${job.timeoutMinutes}m`))
+      else if (code === 0) resolve(null)
+      else resolve(signal ? `killed by ${signal}` : `exit code ${code}`)
+    })
+  })
+}
+
+async function loadNight(db: ServiceClient, night: string): Promise<Map<string, { status: JobState; attempts: number }>> {
+  const { data, error } = await db.from('job_runs').select('job, status, attempts').eq('night', night)
+  if (error) throw new Error(`loading job_runs: ${error.message}`)
+  const rows = (data ?? []) as unknown as { job: string; status: JobState; attempts: number }[]
+  return new Map(rows.map((r) => [r.job, { status: r.status, attempts: r.attempts }]))
+}
+
+async function saveJob(
+  db: ServiceClient,
+  row: Database['public']['Tables']['job_runs']['Insert']
+): Promise<void> {
+  const { error } = await db.from('job_runs').upsert(row, { onConflict: 'idempotency_key' })
+  if (error) console.error(`[WARN] Failed to record ${row.idempotency_key}: ${error.message}`)
+}
+
+async function main(): Promise<void> {
+  const jobs = await import('../lib/jobs.js')
+  const selected = jobs.selectJobs(jobs.NIGHTLY_JOBS, {
+    only: flag('only')?.split(',').map((s) => s.trim()).filter(Boolean),
+    from: flag('from'),
+  })
+
+  const { createServiceClient } = await import('../lib/supabase.js')
+  const db: ServiceClient = createServiceClient()
+
+  const night = jobs.nightOf(new Date())
+  const recorded = await loadNight(db, night)
+  const states = new Map<string, JobState>([...recorded].map(([job, r]) => [job, r.status]))
+
+  log(`=== Job Runner — night ${night}, ${selected.length} jobs ===`)
+  if (DRY_RUN) log('DRY RUN — showing the plan, nothing runs')
+
+  const failed: string[] = []
+  const blockedByFailure: string[] = []
+
+  for (const job of selected) {
+    const decision = jobs.decideJob(job, states, new Date(), { force: FORCE, ignoreDeps: IGNORE_DEPS, anyTime: ANY_TIME })
+
+    if (decision.action === 'skip') {
+      log(`  ${job.name} — already succeeded tonight, skipping`)
+      continue
+    }
+    if (decision.action === 'block') {
+      states.set(job.name, 'blocked')
+      const dueToFailure = decision.waitingOn.some((d) => states.get(d) === 'failed' || blockedByFailure.includes(d))
+      if (dueToFailure) blockedByFailure.push(job.name)
+      log(`  ${job.name} — blocked, waiting on ${decision.waitingOn.join(', ')}`)
+      continue
+    }
+    if (decision.action === 'defer') {
+      states.set(job.name, 'deferred')
+      log(`  ${job.name} — deferred until ${String(decision.until).padStart(2, '0')}:00 UTC`)
+      continue
+    }
+    if (DRY_RUN) {
+      log(`  ${job.name} — would run ${job.script} ${(job.args ?? []).join(' ')}`.trimEnd())
+      // Assume success so the rest of the plan reads through
+      states.set(job.name, 'succeeded')
+      continue
+    }
+
+    const key = jobs.idempotencyKey(job.name, night)
+    let attempts = recorded.get(job.name)?.attempts ?? 0
+    const startedAt = Date.now()
+    let error: string | null = null
+
+    for (let attempt = 1; attempt <= job.retries + 1; attempt++) {
+      if (attempt > 1) {
+        const delay = jobs.retryDelayMs(attempt - 1)
+        log(`  ${job.name} — retry ${attempt - 1}/${job.retries} in ${Math.round(delay / 1000)}s`)
+        await new Promise((r) => setTimeout(r, delay))
+      }
+      attempts++
+      log(`── ${job.name} (attempt ${attempt}/${job.retries + 1}) ──`)
+      await saveJob(db, {
+        idempotency_key: key,
+        job: job.name,
+        night,
+        status: 'running',
+        attempts,
+        started_at: new Date().toISOString(),
+        finished_at: null,
+        error: null,
+      })
+      error = await runScript(job)
+      if (!error) break
+      log(`  ${job.name} failed: ${error}`)
+    }
+
+    const status = error ? 'failed' : 'succeeded'
+    states.set(job.name, status)
+    if (error) failed.push(job.name)
+    await saveJob(db, {
+      idempotency_key: key,
+      job: job.name,
+      night,
+      status,
+      attempts,
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - startedAt,
+      error,
+    })
+    log(`  ${job.name} ${status} in ${Math.round((Date.now() - startedAt) / 1000)}s`)
+  }
+
+  const count = (state: JobState) => selected.filter((j) => states.get(j.name) === state).length
+  log(
+    `=== Done: ${count('succeeded')} succeeded, ${failed.length} failed, ${count('blocked')} blocked, ${count('deferred')} deferred ===`
+  )
+  if (failed.length > 0 || blockedByFailure.length > 0) {
+    log(`Resume tonight with: npx tsx scripts/run-jobs.ts${failed[0] ? ` --from ${failed[0]}` : ''}`)
+    process.exit(1)
+  }
+}
+
+main().catch((err) => {
+  console.error('Job runner failed:', err)
+  process.exit(1)
+})
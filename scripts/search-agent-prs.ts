@@ -9,6 +9,7 @@
 import { config } from 'dotenv'
 config({ path: '.env.local' })
 
+import { failActiveRun, startRun } from '../lib/pipeline-runs.js'
 import { upsertPlaceholderRepo } from './upsert-placeholder.js'
 
 const AGENTS = [
@@ -43,6 +44,7 @@ async function main(): Promise<void> {
     console.error('GITHUB_TOKEN not set')
     process.exit(1)
   }
+  const run = await startRun(db, 'search-agent-prs')
 
   const repoId = await upsertPlaceholderRepo(db)
 
@@ -88,6 +90,7 @@ async function main(): Promise<void> {
 
       if (!response.ok) {
         log(`  Error for ${agent.name}: ${response.status} ${response.statusText}`)
+        run.error(`Error for ${agent.name}: ${response.status} ${response.statusText}`)
         success = true
         continue
       }
@@ -108,6 +111,7 @@ async function main(): Promise<void> {
 
       if (error) {
         log(`  ERROR upserting ${toolName}: ${error.message}`)
+        run.error(`upserting ${toolName}: ${error.message}`)
       } else {
         log(`  ${agent.name}: ${count.toLocaleString()} PRs`)
       }
@@ -122,9 +126,13 @@ async function main(): Promise<void> {
   }
 
   log(`\nDone! Stored ${AGENTS.length} agent PR entries for ${dateStr}.`)
+
+  run.set('entries', AGENTS.length)
+  await run.finish()
 }
 
-main().catch((err: unknown) => {
+main().catch(async (err: unknown) => {
   console.error('Search agent PRs failed:', err)
+  await failActiveRun(err)
   process.exit(1)
 })
@@ -12,6 +12,7 @@
 import { config } from 'dotenv'
 config({ path: '.env.local' })
 
+import { failActiveRun, startRun } from '../lib/pipeline-runs.js'
 import { upsertPlaceholderRepo } from './upsert-placeholder.js'
 
 function log(msg: string): void {
@@ -28,6 +29,7 @@ async function main(): Promise<void> {
     console.error('GITHUB_TOKEN not set')
     process.exit(1)
   }
+  const run = await startRun(db, 'search-aggregate')
 
   const repoId = await upsertPlaceholderRepo(db)
   const today = new Date().toISOString().slice(0, 10)
@@ -80,6 +82,7 @@ async function main(): Promise<void> {
 
       if (!response.ok) {
         log(`  Error fetching ${q}: ${response.status} ${response.statusText}`)
+        run.error(`Error fetching ${q}: ${response.status} ${response.statusText}`)
         querySuccess = true
         continue
       }
@@ -112,7 +115,10 @@ async function main(): Promise<void> {
       },
       { onConflict: 'repo_id,tool_name,month' }
     )
-    if (error) log(`  ERROR upserting config aggregate: ${error.message}`)
+    if (error) {
+      log(`  ERROR upserting config aggregate: ${error.message}`)
+      run.error(`upserting config aggregate: ${error.message}`)
+    }
   }
 
   // ── 2. Aggregate commit count (OR query for a single day) ──
@@ -151,6 +157,7 @@ async function main(): Promise<void> {
 
     if (!response.ok) {
       log(`  Error fetching commit aggregate: ${response.status} ${response.statusText}`)
+      run.error(`Error fetching commit aggregate: ${response.status} ${response.statusText}`)
       commitSuccess = true
       continue
     }
@@ -172,13 +179,18 @@ async function main(): Promise<void> {
       },
       { onConflict: 'repo_id,tool_name,month' }
     )
-    if (error) log(`  ERROR upserting commit aggregate: ${error.message}`)
+    if (error) {
+      log(`  ERROR upserting commit aggregate: ${error.message}`)
+      run.error(`upserting commit aggregate: ${error.message}`)
+    }
   }
 
   log('\nDone! Stored aggregate counts.')
+  await run.finish()
 }
 
-main().catch((err: unknown) => {
+main().catch(async (err: unknown) => {
   console.error('Search aggregate failed:', err)
+  await failActiveRun(err)
   process.exit(1)
 })
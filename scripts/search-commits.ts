@@ -9,6 +9,7 @@
 import { config } from 'dotenv'
 config({ path: '.env.local' })
 
+import { failActiveRun, startRun } from '../lib/pipeline-runs.js'
 import { upsertPlaceholderRepo } from './upsert-placeholder.js'
 
 const TOOLS = [
@@ -78,6 +79,7 @@ async function main(): Promise<void> {
     console.error('GITHUB_TOKEN not set')
     process.exit(1)
   }
+  const run = await startRun(db, 'search-commits')
 
   const repoId = await upsertPlaceholderRepo(db)
 
@@ -124,6 +126,7 @@ async function main(): Promise<void> {
 
     if (!response.ok) {
       log(`${prefix}Error for ${tool.name} ${dateStr}: ${response.status}`)
+      run.error(`Error for ${tool.name} ${dateStr}: ${response.status}`)
       return true // Skip this date
     }
 
@@ -323,9 +326,15 @@ async function main(): Promise<void> {
   }
 
   log(`\nDone! Imported ${totalImported} new + re-queried ${totalRequeried} + zero-fixed ${totalZeroFixed} days across ${TOOLS.length} tools.`)
+
+  run.set('imported', totalImported)
+  run.set('requeried', totalRequeried)
+  run.set('zero_fixed', totalZeroFixed)
+  await run.finish()
 }
 
-main().catch((err) => {
+main().catch(async (err) => {
   console.error('Search commits failed:', err)
+  await failActiveRun(err)
   process.exit(1)
 })
@@ -10,6 +10,7 @@
 import { config } from 'dotenv'
 config({ path: '.env.local' })
 
+import { failActiveRun, startRun } from '../lib/pipeline-runs.js'
 import { upsertPlaceholderRepo } from './upsert-placeholder.js'
 
 interface ConfigQuery {
@@ -80,6 +81,7 @@ async function main(): Promise<void> {
     console.error('GITHUB_TOKEN not set')
     process.exit(1)
   }
+  const run = await startRun(db, 'search-config-files')
 
   const repoId = await upsertPlaceholderRepo(db)
   const today = new Date().toISOString().slice(0, 10)
@@ -117,6 +119,7 @@ async function main(): Promise<void> {
 
       if (!response.ok) {
         log(`Error for ${q.label}: ${response.status} ${response.statusText}`)
+        run.error(`Error for ${q.label}: ${response.status} ${response.statusText}`)
         success = true // Skip this query
         continue
       }
@@ -165,15 +168,20 @@ async function main(): Promise<void> {
 
     if (error) {
       log(`  ERROR upserting ${toolName}: ${error.message}`)
+      run.error(`upserting ${toolName}: ${error.message}`)
     } else {
       log(`  ${toolName}: ${total.toLocaleString()} repos`)
     }
   }
 
   log(`\nDone! Stored ${toolTotals.size} config adoption entries for ${today}.`)
+
+  run.set('entries', toolTotals.size)
+  await run.finish()
 }
 
-main().catch((err: unknown) => {
+main().catch(async (err: unknown) => {
   console.error('Search config files failed:', err)
+  await failActiveRun(err)
   process.exit(1)
 })
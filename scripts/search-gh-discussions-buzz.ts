@@ -7,6 +7,7 @@
 import { config } from 'dotenv'
 config({ path: '.env.local' })
 
+import { failActiveRun, startRun } from '../lib/pipeline-runs.js'
 import { upsertPlaceholderRepo } from './upsert-placeholder.js'
 
 const TOOLS = [
@@ -80,6 +81,7 @@ async function main(): Promise<void> {
 
   const { createServiceClient } = await import('../lib/supabase.js')
   const db = createServiceClient()
+  const run = await startRun(db, 'search-gh-discussions-buzz')
 
   const repoId = await upsertPlaceholderRepo(db)
   const today = new Date().toISOString().slice(0, 10)
@@ -98,6 +100,7 @@ async function main(): Promise<void> {
         totalCount += count
       } catch (err) {
         log(`  Error for ${tool.name} query "${query}": ${err instanceof Error ? err.message : String(err)}`)
+        run.error(`Error for ${tool.name} query "${query}": ${err instanceof Error ? err.message : String(err)}`)
       }
 
       // Respect rate limits — wait 1s between requests
@@ -118,15 +121,20 @@ async function main(): Promise<void> {
 
     if (mentionErr) {
       log(`  ERROR upserting ${toolNameMentions}: ${mentionErr.message}`)
+      run.error(`upserting ${toolNameMentions}: ${mentionErr.message}`)
     }
 
     log(`  ${tool.name}: ${totalCount} discussions`)
   }
 
   log(`\nDone! Stored GitHub Discussions buzz data for ${TOOLS.length} tools.`)
+
+  run.set('tools', TOOLS.length)
+  await run.finish()
 }
 
-main().catch((err: unknown) => {
+main().catch(async (err: unknown) => {
   console.error('Search GH Discussions buzz failed:', err)
+  await failActiveRun(err)
   process.exit(1)
 })
@@ -7,6 +7,7 @@
 import { config } from 'dotenv'
 config({ path: '.env.local' })
 
+import { failActiveRun, startRun } from '../lib/pipeline-runs.js'
 import { upsertPlaceholderRepo } from './upsert-placeholder.js'
 
 const TOOLS = [
@@ -36,6 +37,7 @@ function log(msg: string): void {
 async function main(): Promise<void> {
   const { createServiceClient } = await import('../lib/supabase.js')
   const db = createServiceClient()
+  const run = await startRun(db, 'search-hn-buzz')
 
   const repoId = await upsertPlaceholderRepo(db)
   const today = new Date().toISOString().slice(0, 10)
@@ -67,6 +69,7 @@ async function main(): Promise<void> {
 
         if (!response.ok) {
           log(`  Error for ${tool.name} query "${query}": ${response.status}`)
+          run.error(`Error for ${tool.name} query "${query}": ${response.status}`)
           continue
         }
 
@@ -79,6 +82,7 @@ async function main(): Promise<void> {
         }
       } catch (err) {
         log(`  Fetch error for ${tool.name}: ${err instanceof Error ? err.message : String(err)}`)
+        run.error(`Fetch error for ${tool.name}: ${err instanceof Error ? err.message : String(err)}`)
       }
 
       // Small delay to be polite (HN Algolia allows 10K/hr but no need to hammer)
@@ -99,6 +103,7 @@ async function main(): Promise<void> {
 
     if (mentionErr) {
       log(`  ERROR upserting ${toolNameMentions}: ${mentionErr.message}`)
+      run.error(`upserting ${toolNameMentions}: ${mentionErr.message}`)
     }
 
     // Store engagement (points) with [hn-points] suffix
@@ -115,15 +120,20 @@ async function main(): Promise<void> {
 
     if (pointsErr) {
       log(`  ERROR upserting ${toolNamePoints}: ${pointsErr.message}`)
+      run.error(`upserting ${toolNamePoints}: ${pointsErr.message}`)
     }
 
     log(`  ${tool.name}: ${totalHits} stories, ${totalPoints} points, ${totalComments} comments`)
   }
 
   log(`\nDone! Stored HN buzz data for ${TOOLS.length} tools.`)
+
+  run.set('tools', TOOLS.length)
+  await run.finish()
 }
 
-main().catch((err: unknown) => {
+main().catch(async (err: unknown) => {
   console.error('Search HN buzz failed:', err)
+  await failActiveRun(err)
   process.exit(1)
 })
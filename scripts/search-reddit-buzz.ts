@@ -7,6 +7,7 @@
 import { config } from 'dotenv'
 config({ path: '.env.local' })
 
+import { failActiveRun, startRun } from '../lib/pipeline-runs.js'
 import { upsertPlaceholderRepo } from './upsert-placeholder.js'
 
 const TOOLS = [
@@ -71,6 +72,7 @@ async function searchReddit(query: string): Promise<{ posts: number; score: numb
 async function main(): Promise<void> {
   const { createServiceClient } = await import('../lib/supabase.js')
   const db = createServiceClient()
+  const run = await startRun(db, 'search-reddit-buzz')
 
   const repoId = await upsertPlaceholderRepo(db)
   const today = new Date().toISOString().slice(0, 10)
@@ -88,6 +90,7 @@ async function main(): Promise<void> {
         totalScore += result.score
       } catch (err) {
         log(`  Error for ${tool.name} query "${query}": ${err instanceof Error ? err.message : String(err)}`)
+        run.error(`Error for ${tool.name} query "${query}": ${err instanceof Error ? err.message : String(err)}`)
       }
 
       // Respect rate limits — wait 1.5s between requests
@@ -108,15 +111,20 @@ async function main(): Promise<void> {
 
     if (mentionErr) {
       log(`  ERROR upserting ${toolNameMentions}: ${mentionErr.message}`)
+      run.error(`upserting ${toolNameMentions}: ${mentionErr.message}`)
     }
 
     log(`  ${tool.name}: ${totalPosts} posts, ${totalScore} score`)
   }
 
   log(`\nDone! Stored Reddit buzz data for ${TOOLS.length} tools.`)
+
+  run.set('tools', TOOLS.length)
+  await run.finish()
 }
 
-main().catch((err: unknown) => {
+main().catch(async (err: unknown) => {
   console.error('Search Reddit buzz failed:', err)
+  await failActiveRun(err)
   process.exit(1)
 })
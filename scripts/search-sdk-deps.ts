@@ -10,6 +10,7 @@
 import { config } from 'dotenv'
 config({ path: '.env.local' })
 
+import { failActiveRun, startRun } from '../lib/pipeline-runs.js'
 import { upsertPlaceholderRepo } from './upsert-placeholder.js'
 
 interface SDKQuery {
@@ -69,6 +70,7 @@ async function main(): Promise<void> {
     console.error('GITHUB_TOKEN not set')
     process.exit(1)
   }
+  const run = await startRun(db, 'search-sdk-deps')
 
   const repoId = await upsertPlaceholderRepo(db)
   const today = new Date().toISOString().slice(0, 10)
@@ -105,6 +107,7 @@ async function main(): Promise<void> {
 
       if (!response.ok) {
         log(`Error for ${q.label}: ${response.status} ${response.statusText}`)
+        run.error(`Error for ${q.label}: ${response.status} ${response.statusText}`)
         success = true
         continue
       }
@@ -151,15 +154,20 @@ async function main(): Promise<void> {
 
     if (error) {
       log(`  ERROR upserting ${toolName}: ${error.message}`)
+      run.error(`upserting ${toolName}: ${error.message}`)
     } else {
       log(`  ${toolName}: ${total.toLocaleString()} repos`)
     }
   }
 
   log(`\nDone! Stored ${toolTotals.size} SDK adoption entries for ${today}.`)
+
+  run.set('entries', toolTotals.size)
+  await run.finish()
 }
 
-main().catch((err: unknown) => {
+main().catch(async (err: unknown) => {
   console.error('Search SDK deps failed:', err)
+  await failActiveRun(err)
   process.exit(1)
 })
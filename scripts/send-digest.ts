@@ -13,6 +13,9 @@
 import { config } from 'dotenv'
 config({ path: '.env.local' })
 
+import type { PromptTemplate } from '../lib/llm.js'
+import { describeRankDiff, formatPoints, loadRankDiffs, waterfall, type RankDiff } from '../lib/rank-diff.js'
+
 const MAX_FEATURED_REPOS = 5
 const MAX_NEW_ENTRANTS = 3
 const DRY_RUN = process.argv.includes('--dry-run')
@@ -37,6 +40,7 @@ interface DigestRepo {
   stars: number
   stars_7d: number
   trend_narrative: string | null
+  rank_diff: RankDiff | null // score change since last week, per signal (lib/rank-diff.ts)
 }
 
 interface AgentPRStat {
@@ -63,7 +67,7 @@ function buildDigestPrompt(data: DigestData): string {
   const moversSection = data.topMovers
     .map((r, i) => `${i + 1}. ${r.owner}/${r.name} (Score: ${r.score}, +${r.stars_7d.toLocaleString()} stars this week, ${r.category})
    What it does: ${r.summary}
-   Why it matters: ${r.why_it_matters}${r.trend_narrative ? `\n   Trend context: ${r.trend_narrative}` : ''}`)
+   Why it matters: ${r.why_it_matters}${r.trend_narrative ? `\n   Trend context: ${r.trend_narrative}` : ''}${r.rank_diff ? `\n   Score change: ${describeRankDiff(r.rank_diff)}` : ''}`)
     .join('\n\n')
 
   const entrantsSection = data.newEntrants.length > 0
@@ -103,7 +107,7 @@ Write the email body as a JSON object with these fields:
 - "projects": An array of objects, one per top mover, each with:
     - "owner": repo owner (string)
     - "name": repo name (string)
-    - "story": 2-3 sentence narrative about why it's moving and why a PM should care (plain text). Use the trend context if available.
+    - "story": 2-3 sentence narrative about why it's moving and why a PM should care (plain text). Use the trend context if available, and the score change to say which signals moved it.
 - "new_entrants": An array of objects, one per new entrant, each with:
     - "owner": repo owner (string)
     - "name": repo name (string)
@@ -120,6 +124,13 @@ Rules:
 Respond with only valid JSON, no markdown fences, no extra text.`
 }
 
+const DIGEST_PROMPT: PromptTemplate<DigestData> = {
+  name: 'tuesday-briefing',
+  version: 2,
+  maxTokens: 2000,
+  render: buildDigestPrompt,
+}
+
 function buildSubjectLine(data: DigestData): string {
   const topMover = data.topMovers[0]
   if (topMover) {
@@ -132,6 +143,30 @@ function esc(text: string): string {
   return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
 }
 
+// The rank diff as a waterfall email clients can render: one table row per
+// bar, drawn as a fixed-width track with an offset fill.
+function rankDiffHtml(diff: RankDiff): string {
+  const TRACK = 220
+  const { bars, lo, hi } = waterfall(diff)
+  const px = (v: number) => Math.round(((Math.min(hi, Math.max(lo, v)) - lo) / (hi - lo)) * TRACK)
+  const rows = bars.map((bar) => {
+    const left = bar.kind === 'total' ? 0 : px(Math.min(bar.start, bar.end))
+    const width = Math.max(px(bar.kind === 'total' ? bar.end : Math.max(bar.start, bar.end)) - left, 2)
+    const color = bar.kind === 'up' ? '#4ade80' : bar.kind === 'down' ? '#f87171' : '#6c6af6'
+    const value = bar.kind === 'total' ? String(bar.end) : formatPoints(bar.delta)
+    return `<tr>
+            <td style="padding:2px 10px 2px 0;font-family:'Geist Mono',SFMono-Regular,Menlo,monospace;font-size:11px;color:#7a7a9a;white-space:nowrap;">${esc(bar.label)}</td>
+            <td style="padding:2px 0;width:${TRACK}px;"><div style="width:${TRACK}px;height:8px;background:#1e1e2e;"><div style="margin-left:${left}px;width:${width}px;height:8px;background:${color};"></div></div></td>
+            <td style="padding:2px 0 2px 10px;font-family:'Geist Mono',SFMono-Regular,Menlo,monospace;font-size:11px;color:${color};text-align:right;white-space:nowrap;">${value}</td>
+          </tr>`
+  }).join('\n          ')
+  const rank = diff.from.rank != null && diff.to.rank != null ? ` &middot; rank #${diff.from.rank} &rarr; #${diff.to.rank}` : ''
+  return `<p style="margin:14px 0 6px 0;font-family:'Geist Mono',SFMono-Regular,Menlo,monospace;font-size:10px;text-transform:uppercase;letter-spacing:1.5px;color:#4a4a6a;">Why it moved${rank}</p>
+        <table role="presentation" cellpadding="0" cellspacing="0" border="0">
+          ${rows}
+        </table>`
+}
+
 function buildEmailHtml(
   digest: {
     intro: string
@@ -169,6 +204,7 @@ function buildEmailHtml(
         <p style="margin:0;font-family:'Geist',system-ui,-apple-system,sans-serif;font-size:14px;line-height:1.6;color:#7a7a9a;">
           ${esc(p.story)}
         </p>
+        ${repo?.rank_diff ? rankDiffHtml(repo.rank_diff) : ''}
       </td>
     </tr>
   </table>`
@@ -286,17 +322,17 @@ function buildEmailHtml(
 </div>`
 }
 
-async function main(): Promise<void> {
+export async function main(): Promise<void> {
   const [
-    { default: Anthropic },
+    { createLlmClient, buildRequest, supabaseCache, supabaseLedger, runUsage, formatUsage },
     { createServiceClient },
   ] = await Promise.all([
-    import('@anthropic-ai/sdk'),
+    import('../lib/llm.js'),
     import('../lib/supabase.js'),
   ])
 
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
   const db = createServiceClient()
+  const llm = createLlmClient({ cache: supabaseCache(db), ledger: supabaseLedger(db) })
 
   log('=== Tuesday Briefing Agent Starting ===')
 
@@ -331,6 +367,17 @@ async function main(): Promise<void> {
   const typedSnaps = topSnaps as unknown as Array<{ repo_id: string; stars_7d: number }>
   const topRepoIds = typedSnaps.map((s) => s.repo_id)
 
+  // Why each mover's score changed over the week (score_history)
+  const weekBefore = new Date(latestDate)
+  weekBefore.setDate(weekBefore.getDate() - 7)
+  let rankDiffs = new Map<string, RankDiff>()
+  try {
+    rankDiffs = await loadRankDiffs(db, topRepoIds, weekBefore.toISOString().slice(0, 10), latestDate)
+    log(`Rank diffs for ${rankDiffs.size}/${topRepoIds.length} movers`)
+  } catch (err) {
+    logError('Failed to load rank diffs (continuing without them)', err)
+  }
+
 
   // Step 3: Fetch repo + enrichment data for top movers
   const [{ data: repos }, { data: enrichments }] = await Promise.all([
@@ -369,6 +416,7 @@ async function main(): Promise<void> {
       stars: repo.stars,
       stars_7d: snap.stars_7d,
       trend_narrative: enrichment.trend_narrative,
+      rank_diff: rankDiffs.get(snap.repo_id) ?? null,
     })
   }
 
@@ -431,6 +479,7 @@ async function main(): Promise<void> {
             stars: repo.stars,
             stars_7d: 0,
             trend_narrative: e.trend_narrative,
+            rank_diff: null,
           })
         }
       }
@@ -521,11 +570,11 @@ async function main(): Promise<void> {
   const digestData: DigestData = { topMovers, newEntrants, weekDate, agentPRs, hnBuzz, totalAICommits }
 
   log('Generating digest with Claude...')
-  const message = await anthropic.messages.create({
-    model: 'claude-sonnet-4-6',
-    max_tokens: 2000,
-    messages: [{ role: 'user', content: buildDigestPrompt(digestData) }],
+  const message = await llm.create(DIGEST_PROMPT, buildRequest(DIGEST_PROMPT, digestData), {
+    table: 'digests',
+    ids: [digestData.weekDate],
   })
+  for (const line of formatUsage(runUsage())) log(line)
 
   const content = message.content[0]
   if (!content || content.type !== 'text') {
@@ -561,6 +610,7 @@ async function main(): Promise<void> {
         score: moverLookup.get(`${p.owner}/${p.name}`)?.score ?? 0,
         stars_7d: moverLookup.get(`${p.owner}/${p.name}`)?.stars_7d ?? 0,
         category: moverLookup.get(`${p.owner}/${p.name}`)?.category ?? '',
+        rank_diff: moverLookup.get(`${p.owner}/${p.name}`)?.rank_diff ?? null,
       })),
       new_entrants: digest.new_entrants.map((e) => ({
         owner: e.owner,
@@ -643,7 +693,10 @@ async function main(): Promise<void> {
   log(`Sent: ${sent} | Failed: ${failed} | Total subscribers: ${allSubscribers.length}`)
 }
 
-main().catch((err) => {
-  console.error('Tuesday Briefing failed:', err)
-  process.exit(1)
-})
+// Run by scripts/agents.test.ts itself, against LLM fixtures
+if (!process.env.VITEST) {
+  main().catch((err) => {
+    console.error('Tuesday Briefing failed:', err)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,171 @@
+// Send Watchlist Alerts — drains the `watch_alerts` queue
+// Groups every unsent alert by subscriber email and sends one email per
+// address via Resend, then stamps the rows with sent_at. Alerts are queued by
+// scripts/evaluate-watchlists.ts.
+//
+// Run locally: npx tsx scripts/send-watchlist-alerts.ts
+// Dry run:    npx tsx scripts/send-watchlist-alerts.ts --dry-run
+// Daily: the send-watchlist-alerts job in lib/jobs.ts (runs after evaluate-watchlists)
+//
+// Environment variables required:
+//   NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, RESEND_API_KEY
+
+import { config } from 'dotenv'
+config({ path: '.env.local' })
+
+const MAX_ALERTS_PER_EMAIL = 20
+const RESEND_BATCH = 100 // Resend batch.send limit
+const DRY_RUN = process.argv.includes('--dry-run')
+
+interface QueuedAlert {
+  id: string
+  email: string
+  repo_id: string
+  message: string
+}
+
+interface AlertItem {
+  owner: string
+  name: string
+  message: string
+}
+
+function log(msg: string): void {
+  const ts = new Date().toISOString().replace('T', ' ').split('.')[0]
+  console.log(`[${ts}] ${msg}`)
+}
+
+function esc(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function buildSubject(items: AlertItem[]): string {
+  if (items.length === 1) return `GitFind • ${items[0].owner}/${items[0].name} triggered your alert`
+  return `GitFind • ${items.length} watchlist alerts`
+}
+
+function buildHtml(date: string, items: AlertItem[]): string {
+  const rows = items
+    .map((it) => {
+      const url = `https://gitfind.ai/project/${encodeURIComponent(it.owner)}/${encodeURIComponent(it.name)}`
+      return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom:14px;">
+  <tr>
+    <td style="background:#14141c;border:1px solid #1e1e2e;border-radius:10px;padding:14px 20px;">
+      <a href="${url}" style="font-family:'Geist',system-ui,-apple-system,sans-serif;font-size:15px;font-weight:600;color:#6c6af6;text-decoration:none;">${esc(it.owner)}/${esc(it.name)}</a>
+      <p style="margin:6px 0 0 0;font-family:'Geist',system-ui,-apple-system,sans-serif;font-size:14px;line-height:1.55;color:#bbbbcc;">
+        ${esc(it.message)}
+      </p>
+    </td>
+  </tr>
+</table>`
+    })
+    .join('\n')
+
+  return `<div style="max-width:600px;margin:0 auto;background:#0a0a14;padding:24px;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom:24px;">
+    <tr>
+      <td style="padding:0 0 16px 0;border-bottom:1px solid #1e1e2e;">
+        <span style="font-family:'Geist',system-ui,-apple-system,sans-serif;font-size:16px;font-weight:600;color:#e8e8f0;letter-spacing:-0.3px;">gitfind.ai</span>
+        <span style="font-family:'Geist Mono',SFMono-Regular,Menlo,monospace;font-size:10px;text-transform:uppercase;letter-spacing:1.5px;color:#4a4a6a;margin-left:10px;">Watchlist · ${date}</span>
+      </td>
+    </tr>
+  </table>
+  ${rows}
+  <p style="margin:18px 0 0 0;font-family:'Geist',system-ui,-apple-system,sans-serif;font-size:12px;line-height:1.6;color:#4a4a6a;">
+    You're receiving this because these repos are on your GitFind watchlist. Manage rules with <code>PUT /api/v1/watchlist</code>.
+  </p>
+</div>`
+}
+
+async function main(): Promise<void> {
+  const { createServiceClient } = await import('../lib/supabase.js')
+  const db = createServiceClient()
+
+  log('=== Send Watchlist Alerts Starting ===')
+
+  const { data, error } = await db
+    .from('watch_alerts')
+    .select('id, email, repo_id, message')
+    .is('sent_at', null)
+    .order('created_at', { ascending: true })
+    .limit(1000)
+  if (error) throw new Error(`loading queue: ${error.message}`)
+  const queued = (data ?? []) as unknown as QueuedAlert[]
+  if (queued.length === 0) {
+    log('queue empty — nothing to send')
+    return
+  }
+
+  const repoIds = Array.from(new Set(queued.map((a) => a.repo_id)))
+  const repoMap = new Map<string, { id: string; owner: string; name: string }>()
+  for (let i = 0; i < repoIds.length; i += 100) {
+    const { data: repos } = await db.from('repos').select('id, owner, name').in('id', repoIds.slice(i, i + 100))
+    for (const r of (repos ?? []) as unknown as Array<{ id: string; owner: string; name: string }>) repoMap.set(r.id, r)
+  }
+
+  const byEmail = new Map<string, QueuedAlert[]>()
+  for (const a of queued) {
+    const arr = byEmail.get(a.email) ?? []
+    arr.push(a)
+    byEmail.set(a.email, arr)
+  }
+
+  const dateLabel = new Date().toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'America/New_York',
+  })
+  const emails: Array<{ to: string; subject: string; html: string; alertIds: string[] }> = []
+  for (const [to, alerts] of byEmail) {
+    const items: AlertItem[] = []
+    for (const a of alerts.slice(0, MAX_ALERTS_PER_EMAIL)) {
+      const repo = repoMap.get(a.repo_id)
+      if (repo) items.push({ owner: repo.owner, name: repo.name, message: a.message })
+    }
+    // Overflow beyond the cap is marked sent too — tomorrow's email shouldn't replay stale alerts
+    const alertIds = alerts.map((a) => a.id)
+    if (items.length === 0) continue
+    emails.push({ to, subject: buildSubject(items), html: buildHtml(dateLabel, items), alertIds })
+  }
+  log(`composed ${emails.length} emails for ${queued.length} queued alerts`)
+
+  if (DRY_RUN) {
+    log('DRY RUN — not sending')
+    for (const e of emails) log(`  ${e.to}: "${e.subject}" (${e.alertIds.length} alerts)`)
+    return
+  }
+
+  const apiKey = process.env.RESEND_API_KEY
+  if (!apiKey) throw new Error('Missing RESEND_API_KEY')
+  const { Resend } = await import('resend')
+  const resend = new Resend(apiKey)
+
+  let sent = 0
+  for (let i = 0; i < emails.length; i += RESEND_BATCH) {
+    const chunk = emails.slice(i, i + RESEND_BATCH)
+    // batch.send matches the working Tuesday Briefing / anomaly digest path
+    const { error: sendErr } = await resend.batch.send(
+      chunk.map((e) => ({ from: 'GitFind <briefing@gitfind.ai>', to: e.to, subject: e.subject, html: e.html })),
+    )
+    if (sendErr) {
+      console.error(`Resend rejected batch ${i / RESEND_BATCH + 1}:`, sendErr)
+      continue
+    }
+    const ids = chunk.flatMap((e) => e.alertIds)
+    const sentAt = new Date().toISOString()
+    for (let j = 0; j < ids.length; j += 100) {
+      const { error: markErr } = await db
+        .from('watch_alerts')
+        .update({ sent_at: sentAt })
+        .in('id', ids.slice(j, j + 100))
+      if (markErr) throw new Error(`marking alerts sent: ${markErr.message}`)
+    }
+    sent += chunk.length
+  }
+  log(`sent ${sent}/${emails.length} emails`)
+}
+
+main().catch((err) => {
+  console.error('Send Watchlist Alerts failed:', err)
+  process.exit(1)
+})
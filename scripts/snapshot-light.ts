@@ -6,11 +6,14 @@
 // (Previously used REST: 1 call per repo = 2 hours for 10K repos.)
 //
 // Run locally: npx tsx scripts/snapshot-light.ts
-// Run nightly: GitHub Actions at 06:00 UTC (separate workflow)
+// Run nightly: the snapshot-light job in lib/jobs.ts, after pipeline (GraphQL
+// points only, so it no longer needs its own window away from the REST budget)
 
 import { config } from 'dotenv'
 config({ path: '.env.local' })
 
+import { failActiveRun, startRun } from '../lib/pipeline-runs.js'
+
 const GITHUB_GRAPHQL_URL = 'https://api.github.com/graphql'
 const GITHUB_TOKEN = process.env.GITHUB_TOKEN
 const GRAPHQL_BATCH_SIZE = 100 // Max repos per GraphQL query
@@ -125,6 +128,7 @@ async function graphqlQuery(query: string): Promise<GraphQLResponse> {
 async function main(): Promise<void> {
   const { createServiceClient } = await import('../lib/supabase.js')
   const db = createServiceClient()
+  const run = await startRun(db, 'snapshot-light')
 
   const todayStr = new Date().toISOString().split('T')[0]
   const sevenDaysAgo = new Date()
@@ -148,6 +152,7 @@ async function main(): Promise<void> {
 
     if (error) {
       log(`Failed to fetch repos: ${error.message}`)
+      run.error(`Failed to fetch repos: ${error.message}`)
       break
     }
 
@@ -162,6 +167,7 @@ async function main(): Promise<void> {
 
   if (allRepos.length === 0) {
     log('No repos to snapshot. Done.')
+    await run.finish()
     return
   }
 
@@ -215,6 +221,7 @@ async function main(): Promise<void> {
 
       if (result.errors) {
         log(`  Batch ${batchNum}/${totalBatches} — GraphQL errors: ${result.errors.map((e) => e.message).join(', ')}`)
+        run.error(`Batch ${batchNum}: ${result.errors.map((e) => e.message).join(', ')}`)
         errors += batch.length
         continue
       }
@@ -316,6 +323,7 @@ async function main(): Promise<void> {
 
         if (snapError) {
           log(`  Batch ${batchNum} snapshot upsert error: ${snapError.message}`)
+          run.error(`Batch ${batchNum} snapshot upsert: ${snapError.message}`)
           errors += snapshotUpserts.length
         } else {
           updated += snapshotUpserts.length
@@ -326,6 +334,7 @@ async function main(): Promise<void> {
       log(`  Batch ${batchNum}/${totalBatches} — ${nodes.length} repos fetched, ${updated} updated total (cost: ${result.data?.rateLimit?.cost ?? '?'} pts, ${result.data?.rateLimit?.remaining ?? '?'} remaining)`)
     } catch (err) {
       log(`  Batch ${batchNum}/${totalBatches} — error: ${err instanceof Error ? err.message : String(err)}`)
+      run.error(`Batch ${batchNum}: ${err instanceof Error ? err.message : String(err)}`)
       errors += batch.length
     }
   }
@@ -370,9 +379,17 @@ async function main(): Promise<void> {
       log(`  ... and ${filteredCandidates.length - 50} more`)
     }
   }
+
+  run.set('updated', updated)
+  run.set('not_found', notFound)
+  run.set('failed_repos', errors)
+  run.set('graphql_points', totalCost)
+  run.set('promotion_candidates', filteredCandidates.length)
+  await run.finish()
 }
 
-main().catch((err) => {
+main().catch(async (err) => {
   console.error('Light snapshot failed:', err)
+  await failActiveRun(err)
   process.exit(1)
 })
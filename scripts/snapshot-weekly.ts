@@ -17,6 +17,8 @@
 import { config } from 'dotenv'
 config({ path: '.env.local' })
 
+import { failActiveRun, startRun } from '../lib/pipeline-runs.js'
+
 const GITHUB_API_BASE = 'https://api.github.com'
 const GITHUB_GRAPHQL_URL = 'https://api.github.com/graphql'
 const GITHUB_TOKEN = process.env.GITHUB_TOKEN
@@ -191,6 +193,7 @@ interface GraphQLData {
 async function main(): Promise<void> {
   const { createServiceClient } = await import('../lib/supabase.js')
   const db = createServiceClient()
+  const run = await startRun(db, 'snapshot-weekly')
 
   const today = new Date()
   const todayStr = today.toISOString().split('T')[0]
@@ -218,6 +221,7 @@ async function main(): Promise<void> {
 
     if (error) {
       log(`Failed to fetch repos: ${error.message}`)
+      run.error(`Failed to fetch repos: ${error.message}`)
       break
     }
 
@@ -232,6 +236,7 @@ async function main(): Promise<void> {
 
   if (allRepos.length === 0) {
     log('No repos to process. Done.')
+    await run.finish()
     return
   }
 
@@ -260,6 +265,7 @@ async function main(): Promise<void> {
         for (const err of result.errors) {
           if (err.type !== 'NOT_FOUND') {
             log(`  Batch ${batchNum} GraphQL error: ${err.message}`)
+            run.error(`Batch ${batchNum}: ${err.message}`)
           }
         }
       }
@@ -286,6 +292,7 @@ async function main(): Promise<void> {
       }
     } catch (err) {
       log(`  Batch ${batchNum}/${totalBatches} — error: ${err instanceof Error ? err.message : String(err)}`)
+      run.error(`Batch ${batchNum}: ${err instanceof Error ? err.message : String(err)}`)
       graphqlErrors += batch.length
     }
   }
@@ -445,6 +452,7 @@ async function main(): Promise<void> {
 
     if (upsertError) {
       log(`  Batch ${Math.floor(i / DB_BATCH_SIZE) + 1} upsert error: ${upsertError.message}`)
+      run.error(`weekly_stats upsert: ${upsertError.message}`)
       errors += chunk.length
     } else {
       updated += chunk.length
@@ -459,9 +467,17 @@ async function main(): Promise<void> {
   log(`Updated: ${updated} (${needsRestRefresh.size} REST refreshed, ${carried} carried forward)`)
   log(`Errors: ${errors}`)
   log(`GraphQL cost: ${totalCost} points`)
+
+  run.set('updated', updated)
+  run.set('rest_refreshed', needsRestRefresh.size)
+  run.set('carried_forward', carried)
+  run.set('failed_repos', errors + graphqlErrors)
+  run.set('graphql_points', totalCost)
+  await run.finish()
 }
 
-main().catch((err) => {
+main().catch(async (err) => {
   console.error('Weekly stats failed:', err)
+  await failActiveRun(err)
   process.exit(1)
 })
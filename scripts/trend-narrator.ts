@@ -4,11 +4,13 @@
 // and commit velocity to produce a story for each top mover.
 //
 // Run locally: npx tsx scripts/trend-narrator.ts
-// Run nightly: GitHub Actions (step in pipeline.yml after pipeline.ts)
+// Run nightly: the trend-narrator job in lib/jobs.ts, after pipeline
 
 import { config } from 'dotenv'
 config({ path: '.env.local' })
 
+import type { LlmClient, PromptTemplate } from '../lib/llm.js'
+
 const MAX_NARRATIVES_PER_RUN = 15
 const CONCURRENCY = 5
 
@@ -146,20 +148,24 @@ Write a 2-3 sentence trend narrative explaining WHY this project is gaining atte
 Respond with only the narrative text, no quotes, no markdown.`
 }
 
-async function main(): Promise<void> {
+const NARRATIVE_PROMPT: PromptTemplate<TopMover> = {
+  name: 'trend-narrative',
+  version: 1,
+  maxTokens: 300,
+  render: buildNarrativePrompt,
+}
+
+export async function main(): Promise<void> {
   const [
-    { default: Anthropic },
+    { createLlmClient, supabaseCache, supabaseLedger, runUsage, formatUsage },
     { createServiceClient },
   ] = await Promise.all([
-    import('@anthropic-ai/sdk'),
+    import('../lib/llm.js'),
     import('../lib/supabase.js'),
   ])
 
-  const anthropic = new Anthropic({
-    apiKey: process.env.ANTHROPIC_API_KEY,
-  })
-
   const db = createServiceClient()
+  const llm = createLlmClient({ cache: supabaseCache(db), ledger: supabaseLedger(db) })
 
   log('=== Trend Narrator Agent Starting ===')
 
@@ -200,20 +206,20 @@ async function main(): Promise<void> {
     }
 
     // Use fallback
-    return processMovers(db, anthropic, fallbackSnaps as unknown as Array<{ repo_id: string; stars_7d: number }>, date7dAgoStr)
+    await processMovers(db, llm, fallbackSnaps as unknown as Array<{ repo_id: string; stars_7d: number }>, date7dAgoStr)
+  } else {
+    await processMovers(db, llm, latestSnaps as unknown as Array<{ repo_id: string; stars_7d: number }>, date7dAgoStr)
   }
 
-  await processMovers(db, anthropic, latestSnaps as unknown as Array<{ repo_id: string; stars_7d: number }>, date7dAgoStr)
+  for (const line of formatUsage(runUsage())) log(line)
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type DB = any
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-type AnthropicClient = any
 
 async function processMovers(
   db: DB,
-  anthropic: AnthropicClient,
+  llm: LlmClient,
   snaps: Array<{ repo_id: string; stars_7d: number }>,
   date7dAgoStr: string,
 ): Promise<void> {
@@ -289,10 +295,12 @@ async function processMovers(
 
   // Step 4: Fetch HN mentions for each candidate
   const { getHNMentions } = await import('../lib/hn.js')
+  const { budgetExhausted } = await import('../lib/llm.js')
 
   // Step 5: Build TopMover objects and generate narratives
   const limiter = createLimiter(CONCURRENCY)
   let generated = 0
+  let budgetSkipped = 0
 
   await Promise.all(
     candidates.map((repoId) =>
@@ -301,6 +309,10 @@ async function processMovers(
         const enrichment = enrichmentMap.get(repoId)!
         const prev7d = prev7dMap.get(repoId)
         const label = `${repo.owner}/${repo.name}`
+        if (budgetExhausted()) {
+          budgetSkipped++
+          return
+        }
 
         try {
           const hnMentions = await getHNMentions(repo.owner, repo.name)
@@ -327,21 +339,7 @@ async function processMovers(
             commit_count_4w: commitMap.get(repoId) ?? 0,
           }
 
-          const prompt = buildNarrativePrompt(mover)
-
-          const message = await anthropic.messages.create({
-            model: 'claude-sonnet-4-6',
-            max_tokens: 300,
-            messages: [{ role: 'user', content: prompt }],
-          })
-
-          const content = message.content[0]
-          if (!content || content.type !== 'text') {
-            logError(`Unexpected Claude response for ${label}`, new Error('No text content'))
-            return
-          }
-
-          const narrative = content.text.trim()
+          const narrative = await llm.text(NARRATIVE_PROMPT, mover, { table: 'enrichments', ids: [repoId] })
 
           await db
             .from('enrichments')
@@ -359,9 +357,13 @@ async function processMovers(
 
   log(`\n=== Trend Narrator Complete ===`)
   log(`Generated: ${generated} narratives`)
+  if (budgetSkipped > 0) log(`Skipped: ${budgetSkipped} (LLM budget for this run spent)`)
 }
 
-main().catch((err) => {
-  console.error('Trend Narrator failed:', err)
-  process.exit(1)
-})
+// scripts/agents.test.ts imports main() and drives it against LLM fixtures
+if (!process.env.VITEST) {
+  main().catch((err) => {
+    console.error('Trend Narrator failed:', err)
+    process.exit(1)
+  })
+}
@@ -0,0 +1,245 @@
+// Outbound webhook admin + delivery worker.
+// Events are queued by pipeline.ts / enrichRepo (enrichment.created,
+// repo.tier_changed) and detect-anomalies.ts (anomaly.created); `deliver`
+// claims the due deliveries, POSTs each one signed with the endpoint's secret,
+// and reschedules failures with exponential backoff (lib/webhooks.ts).
+// Tables: scripts/migrations/005-webhooks.sql, 024-webhook-claims.sql
+//
+// Usage:
+//   npx tsx scripts/webhooks.ts add <url> <owner_email> [events=all, comma-separated]
+//   npx tsx scripts/webhooks.ts list
+//   npx tsx scripts/webhooks.ts disable <endpoint_id>
+//   npx tsx scripts/webhooks.ts deliver
+//   npx tsx scripts/webhooks.ts log [endpoint_id] [--failed]
+//   npx tsx scripts/webhooks.ts replay <event_id> [endpoint_id]
+//
+// Environment variables required:
+//   NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+
+import { config } from 'dotenv'
+config({ path: '.env.local' })
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from '../lib/database.types.js'
+
+type ServiceClient = SupabaseClient<Database>
+
+const DELIVER_BATCH = 200
+const USAGE = `usage:
+  npx tsx scripts/webhooks.ts add <url> <owner_email> [events=all, comma-separated]
+  npx tsx scripts/webhooks.ts list
+  npx tsx scripts/webhooks.ts disable <endpoint_id>
+  npx tsx scripts/webhooks.ts deliver
+  npx tsx scripts/webhooks.ts log [endpoint_id] [--failed]
+  npx tsx scripts/webhooks.ts replay <event_id> [endpoint_id]`
+
+interface ClaimedDelivery {
+  id: string
+  attempts: number
+  event_id: string
+  event_type: string
+  event_data: Json
+  event_created_at: string
+  url: string
+  secret: string
+  disabled_at: string | null
+}
+
+function log(msg: string): void {
+  const ts = new Date().toISOString().replace('T', ' ').split('.')[0]
+  console.log(`[${ts}] ${msg}`)
+}
+
+function fail(): never {
+  console.error(USAGE)
+  process.exit(1)
+}
+
+async function deliver(db: ServiceClient): Promise<void> {
+  const { SIGNATURE_HEADER, DELIVERY_TIMEOUT_MS, nextDeliveryState, signPayload } = await import('../lib/webhooks.js')
+
+  // Claim before sending so an overlapping run can't send the same rows. The
+  // lease outlasts a whole batch of timeouts; past it, a claim whose worker
+  // died is picked up again.
+  const leaseSeconds = Math.ceil((DELIVER_BATCH * DELIVERY_TIMEOUT_MS) / 1000) + 300
+  const { data, error } = await db.rpc('claim_webhook_deliveries', { p_limit: DELIVER_BATCH, p_lease_seconds: leaseSeconds })
+  if (error) throw new Error(`claim_webhook_deliveries: ${error.message}`)
+  const due = (data ?? []) as unknown as ClaimedDelivery[]
+  log(`${due.length} deliveries due`)
+
+  let ok = 0
+  let retrying = 0
+  let gaveUp = 0
+  for (const d of due) {
+    if (d.disabled_at) {
+      await db
+        .from('webhook_deliveries')
+        .update({ status: 'failed', last_error: 'endpoint disabled', claimed_at: null })
+        .eq('id', d.id)
+      continue
+    }
+
+    const body = JSON.stringify({ id: d.event_id, type: d.event_type, created_at: d.event_created_at, data: d.event_data })
+    let outcome: { ok: boolean; responseStatus: number | null; error: string | null }
+    try {
+      const res = await fetch(d.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'GitFind-Webhooks/1.0',
+          'X-GitFind-Event': d.event_type,
+          'X-GitFind-Delivery': d.id,
+          [SIGNATURE_HEADER]: signPayload(d.secret, body, Math.floor(Date.now() / 1000)),
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      })
+      outcome = { ok: res.ok, responseStatus: res.status, error: res.ok ? null : `HTTP ${res.status}` }
+    } catch (err) {
+      outcome = { ok: false, responseStatus: null, error: err instanceof Error ? err.message : String(err) }
+    }
+
+    const next = nextDeliveryState(d.attempts, outcome, new Date())
+    const { error: upErr } = await db.from('webhook_deliveries').update({ ...next, claimed_at: null }).eq('id', d.id)
+    if (upErr) console.error(`[ERROR] saving delivery ${d.id}: ${upErr.message}`)
+
+    if (next.status === 'succeeded') ok++
+    else if (next.status === 'pending') retrying++
+    else gaveUp++
+    if (!outcome.ok) log(`  ${d.event_type} → ${d.url}: ${outcome.error} (attempt ${next.attempts}, ${next.status})`)
+  }
+  log(`delivered ${ok}, retrying ${retrying}, gave up ${gaveUp}`)
+}
+
+async function main(): Promise<void> {
+  const [{ createServiceClient }, { WEBHOOK_EVENT_TYPES, generateWebhookSecret, isWebhookEventType }] =
+    await Promise.all([import('../lib/supabase.js'), import('../lib/webhooks.js')])
+  const db = createServiceClient()
+  const [command, ...args] = process.argv.slice(2)
+
+  if (command === 'add') {
+    const [url, ownerEmail, eventsRaw] = args
+    if (!url || !ownerEmail) fail()
+    if (!/^https:\/\//.test(url)) throw new Error('webhook URLs must be https://')
+    const events = eventsRaw ? eventsRaw.split(',').map((e) => e.trim()) : [...WEBHOOK_EVENT_TYPES]
+    const unknown = events.filter((e) => !isWebhookEventType(e))
+    if (unknown.length > 0) throw new Error(`unknown event type(s): ${unknown.join(', ')}`)
+
+    const secret = generateWebhookSecret()
+    const { data, error } = await db
+      .from('webhook_endpoints')
+      .insert({ url, secret, events, owner_email: ownerEmail })
+      .select('id')
+      .single()
+    if (error || !data) throw new Error(error?.message ?? 'insert returned no row')
+    console.log(`registered endpoint ${(data as unknown as { id: string }).id} → ${url}`)
+    console.log(`events: ${events.join(', ')}`)
+    console.log(`\n  signing secret: ${secret}\n`)
+    console.log('shown once — give it to the receiver to verify X-GitFind-Signature.')
+    return
+  }
+
+  if (command === 'list') {
+    const { data } = await db
+      .from('webhook_endpoints')
+      .select('id, url, events, owner_email, created_at, disabled_at')
+      .order('created_at', { ascending: true })
+    const rows = (data ?? []) as unknown as Array<{
+      id: string
+      url: string
+      events: string[]
+      owner_email: string
+      disabled_at: string | null
+    }>
+    if (rows.length === 0) console.log('no endpoints registered')
+    for (const r of rows) {
+      console.log(`${r.id}  ${r.url}  <${r.owner_email}>  [${r.events.join(', ')}]${r.disabled_at ? '  (disabled)' : ''}`)
+    }
+    return
+  }
+
+  if (command === 'disable') {
+    const [id] = args
+    if (!id) fail()
+    const { error } = await db.from('webhook_endpoints').update({ disabled_at: new Date().toISOString() }).eq('id', id)
+    if (error) throw new Error(error.message)
+    console.log(`disabled endpoint ${id}`)
+    return
+  }
+
+  if (command === 'deliver') {
+    await deliver(db)
+    return
+  }
+
+  if (command === 'log') {
+    const failedOnly = args.includes('--failed')
+    const endpointId = args.find((a) => !a.startsWith('--'))
+    let query = db
+      .from('webhook_deliveries')
+      .select('id, event_id, endpoint_id, status, attempts, response_status, last_error, last_attempt_at, webhook_events!inner(type)')
+      .order('created_at', { ascending: false })
+      .limit(50)
+    if (endpointId) query = query.eq('endpoint_id', endpointId)
+    if (failedOnly) query = query.eq('status', 'failed')
+    const { data, error } = await query
+    if (error) throw new Error(error.message)
+    const rows = (data ?? []) as unknown as Array<{
+      id: string
+      event_id: string
+      status: string
+      attempts: number
+      response_status: number | null
+      last_error: string | null
+      last_attempt_at: string | null
+      webhook_events: { type: string }
+    }>
+    if (rows.length === 0) console.log('no deliveries')
+    for (const r of rows) {
+      const detail = r.last_error ?? (r.response_status ? `HTTP ${r.response_status}` : '')
+      console.log(
+        `${r.last_attempt_at ?? 'never'}  ${r.status.padEnd(9)}  ${r.webhook_events.type.padEnd(18)}  event=${r.event_id}  attempts=${r.attempts}  ${detail}`
+      )
+    }
+    return
+  }
+
+  if (command === 'replay') {
+    // Replays add fresh deliveries rather than resetting old ones, so the log keeps every attempt
+    const [eventId, endpointId] = args
+    if (!eventId) fail()
+    const { data: event } = await db.from('webhook_events').select('id, type').eq('id', eventId).maybeSingle()
+    if (!event) throw new Error(`event ${eventId} not found`)
+    const type = (event as unknown as { type: string }).type
+
+    let endpointIds: string[]
+    if (endpointId) {
+      endpointIds = [endpointId]
+    } else {
+      const { data: endpoints } = await db
+        .from('webhook_endpoints')
+        .select('id')
+        .contains('events', [type])
+        .is('disabled_at', null)
+      endpointIds = ((endpoints ?? []) as unknown as Array<{ id: string }>).map((e) => e.id)
+    }
+    if (endpointIds.length === 0) {
+      console.log('no active endpoints subscribed to this event')
+      return
+    }
+    const { error } = await db
+      .from('webhook_deliveries')
+      .insert(endpointIds.map((endpoint_id) => ({ event_id: eventId, endpoint_id })))
+    if (error) throw new Error(error.message)
+    console.log(`queued ${endpointIds.length} replay deliveries for ${type} ${eventId}`)
+    await deliver(db)
+    return
+  }
+
+  fail()
+}
+
+main().catch((err) => {
+  console.error('webhooks failed:', err)
+  process.exit(1)
+})